@@ -1,13 +1,17 @@
+import { HostOnly } from "@/components/HostOnly";
 import { AppProvider, useApp } from "@/context/AppContext";
+import { I18nProvider } from "@/context/I18nContext";
 import { AdminLoginView } from "@/views/AdminLoginView";
 import { AdminView } from "@/views/AdminView";
 import { EndedView } from "@/views/EndedView";
 import { HomeView } from "@/views/HomeView";
 import { GuestLobbyView, JoinSessionView } from "@/views/JoinViews";
 import { GuestQuestionPhaseView, HostQuestionPhaseView } from "@/views/QuestionViews";
+import { GuestRunoffView, HostRunoffView } from "@/views/RunoffViews";
 import { CreateSessionView, HostLobbyView } from "@/views/SessionViews";
 import { HostTopicResultsView, TopicRevealView } from "@/views/TopicViews";
 import { GuestVotingView, HostVotingView } from "@/views/VotingViews";
+import { Toaster } from "sonner";
 
 function Router() {
   const { view } = useApp();
@@ -24,19 +28,47 @@ function Router() {
     case "joinSession":
       return <JoinSessionView />;
     case "hostLobby":
-      return <HostLobbyView />;
+      return (
+        <HostOnly>
+          <HostLobbyView />
+        </HostOnly>
+      );
     case "guestLobby":
       return <GuestLobbyView />;
     case "hostVoting":
-      return <HostVotingView />;
+      return (
+        <HostOnly>
+          <HostVotingView />
+        </HostOnly>
+      );
     case "guestVoting":
       return <GuestVotingView />;
     case "hostTopicResults":
-      return <HostTopicResultsView />;
+      return (
+        <HostOnly>
+          <HostTopicResultsView />
+        </HostOnly>
+      );
+    case "hostRunoff":
+      return (
+        <HostOnly>
+          <HostRunoffView />
+        </HostOnly>
+      );
+    case "guestRunoff":
+      return <GuestRunoffView />;
     case "topicReveal":
-      return <TopicRevealView />;
+      return (
+        <HostOnly>
+          <TopicRevealView />
+        </HostOnly>
+      );
     case "hostQuestionPhase":
-      return <HostQuestionPhaseView />;
+      return (
+        <HostOnly>
+          <HostQuestionPhaseView />
+        </HostOnly>
+      );
     case "guestQuestionPhase":
       return <GuestQuestionPhaseView />;
     case "hostEnded":
@@ -49,8 +81,11 @@ function Router() {
 
 export default function App() {
   return (
-    <AppProvider>
-      <Router />
-    </AppProvider>
+    <I18nProvider>
+      <AppProvider>
+        <Router />
+        <Toaster position="top-center" richColors closeButton />
+      </AppProvider>
+    </I18nProvider>
   );
 }
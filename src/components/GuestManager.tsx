@@ -0,0 +1,151 @@
+import { Input } from "@/components/ui/input";
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import type { Guest } from "@/types";
+import { errorMessage } from "@/utils/actionResult";
+import { seatedGuests } from "@/utils/guests";
+import { useState } from "react";
+
+function GuestRow({ guest }: { guest: Guest }) {
+  const { removeGuest, renameGuest, setGuestAway } = useApp();
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const [nickname, setNickname] = useState(guest.nickname);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+  const [error, setError] = useState("");
+
+  const away = guest.status === "away";
+
+  const handleRename = async () => {
+    if (!nickname.trim()) return;
+    const result = await renameGuest(guest.id, nickname.trim());
+    if (!result.success) {
+      setError(errorMessage(t, result, "guests.renameFailed"));
+      return;
+    }
+    setError("");
+    setRenaming(false);
+  };
+
+  const close = () => {
+    setExpanded(false);
+    setRenaming(false);
+    setConfirmRemove(false);
+    setError("");
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => (expanded ? close() : setExpanded(true))}
+        className="w-full flex items-center gap-3 text-left"
+      >
+        <div
+          className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${
+            away ? "bg-stone-100 text-stone-400" : "bg-amber-100 text-amber-800"
+          }`}
+        >
+          {guest.nickname.charAt(0).toUpperCase()}
+        </div>
+        <span className={`flex-1 text-sm font-medium ${away ? "text-stone-400" : "text-stone-700"}`}>
+          {guest.nickname}
+        </span>
+        {away && (
+          <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">{t("guests.away")}</span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 ml-11 space-y-2">
+          {renaming ? (
+            <div className="flex gap-2">
+              <Input
+                value={nickname}
+                onChange={(e) => setNickname(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                maxLength={20}
+                className="h-9 text-sm"
+                autoFocus
+              />
+              <button
+                onClick={handleRename}
+                disabled={!nickname.trim()}
+                className="px-3 h-9 rounded-lg bg-stone-900 text-stone-50 text-xs font-semibold disabled:opacity-40"
+              >
+                {t("common.save")}
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setRenaming(true)}
+                className="flex-1 h-8 rounded-lg bg-stone-100 text-stone-600 text-xs font-medium hover:bg-stone-200 transition-colors"
+              >
+                {t("guests.rename")}
+              </button>
+              <button
+                onClick={() => {
+                  setGuestAway(guest.id, !away);
+                  close();
+                }}
+                className="flex-1 h-8 rounded-lg bg-stone-100 text-stone-600 text-xs font-medium hover:bg-stone-200 transition-colors"
+              >
+                {away ? t("guests.markBack") : t("guests.markAway")}
+              </button>
+              <button
+                onClick={() => (confirmRemove ? removeGuest(guest.id) : setConfirmRemove(true))}
+                className={`flex-1 h-8 rounded-lg text-xs font-medium transition-colors ${
+                  confirmRemove ? "bg-red-500 text-white hover:bg-red-600" : "bg-red-50 text-red-500 hover:bg-red-100"
+                }`}
+              >
+                {confirmRemove ? t("guests.confirm") : t("guests.remove")}
+              </button>
+            </div>
+          )}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Host's guest list with rename, away and remove actions
+ * Tap a guest to show their actions
+ *
+ * @param collapsible - Start collapsed behind a "Manage" toggle (used during play)
+ */
+export function GuestManager({ collapsible = false }: { collapsible?: boolean }) {
+  const { currentSession } = useApp();
+  const { t } = useI18n();
+  const [open, setOpen] = useState(!collapsible);
+
+  if (!currentSession) return null;
+  const guests = seatedGuests(currentSession.guests);
+
+  return (
+    <div className="bg-white rounded-xl border border-stone-100 p-4 mb-6">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">{t("guests.title")}</span>
+        {collapsible ? (
+          <button onClick={() => setOpen(!open)} className="text-xs font-semibold text-amber-800">
+            {open ? t("guests.done") : t("guests.manage", { count: guests.length })}
+          </button>
+        ) : (
+          <span className="text-xs font-semibold text-stone-600">{guests.length}</span>
+        )}
+      </div>
+      {open &&
+        (guests.length === 0 ? (
+          <p className="text-stone-400 text-sm py-4 text-center">{t("guests.empty")}</p>
+        ) : (
+          <div className="space-y-2 mt-3">
+            {guests.map((g) => (
+              <GuestRow key={g.id} guest={g} />
+            ))}
+          </div>
+        ))}
+    </div>
+  );
+}
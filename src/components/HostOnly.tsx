@@ -0,0 +1,44 @@
+import { MobileShell } from "@/components/MobileShell";
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import { ReactNode } from "react";
+
+/**
+ * Renders host controls only on the device holding the session's host credential
+ */
+export function HostOnly({ children }: { children: ReactNode }) {
+  const { isHost, leaveSession } = useApp();
+  const { t } = useI18n();
+
+  if (isHost) return <>{children}</>;
+
+  return (
+    <MobileShell>
+      <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+        <div className="w-12 h-12 rounded-full bg-stone-200 flex items-center justify-center mb-4">
+          <svg
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="#44403c"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <rect x="3" y="11" width="18" height="11" rx="2" />
+            <path d="M7 11V7a5 5 0 0110 0v4" />
+          </svg>
+        </div>
+        <h2 className="text-lg font-bold text-stone-900 mb-1">{t("hostOnly.title")}</h2>
+        <p className="text-stone-500 text-sm mb-8 max-w-[260px]">{t("hostOnly.body")}</p>
+        <button
+          onClick={leaveSession}
+          className="w-full max-w-xs h-12 rounded-xl bg-stone-900 text-stone-50 font-semibold text-sm hover:bg-stone-800 transition-colors active:scale-[0.98]"
+        >
+          {t("common.backToHome")}
+        </button>
+      </div>
+    </MobileShell>
+  );
+}
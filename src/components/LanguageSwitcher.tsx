@@ -0,0 +1,30 @@
+import { useI18n } from "@/context/I18nContext";
+import { LOCALES } from "@/i18n";
+
+/**
+ * Compact toggle for the interface language, remembered on this device
+ */
+export function LanguageSwitcher({ className = "" }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div
+      role="group"
+      aria-label={t("language.label")}
+      className={`inline-grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-lg ${className}`}
+    >
+      {LOCALES.map((l) => (
+        <button
+          key={l.locale}
+          onClick={() => setLocale(l.locale)}
+          aria-pressed={locale === l.locale}
+          className={`h-7 px-3 rounded-md text-xs font-semibold transition-colors ${
+            locale === l.locale ? "bg-white text-amber-800 shadow-sm" : "text-stone-500 hover:text-stone-700"
+          }`}
+        >
+          {l.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import { errorMessage } from "@/utils/actionResult";
+import { useState } from "react";
+
+/**
+ * Host panel for adding topics or reshuffling asked questions back into the pool mid-session
+ * Starts open once the pool has run dry
+ */
+export function PoolTopUp() {
+  const { currentSession, availableTopics, questionCounts, topUpQuestionPool } = useApp();
+  const { t } = useI18n();
+  const poolEmpty = (currentSession?.questionPool.length ?? 0) === 0;
+  const [open, setOpen] = useState(poolEmpty);
+  const [topicIds, setTopicIds] = useState<string[]>([]);
+  const [reshuffle, setReshuffle] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!currentSession) return null;
+
+  const confirmedIds = currentSession.confirmedTopics.map((t) => t.id);
+  const otherTopics = availableTopics.filter((t) => !confirmedIds.includes(t.id));
+  const qCount = (topicId: string) => questionCounts[topicId]?.available ?? 0;
+
+  const toggleTopic = (id: string) =>
+    setTopicIds((prev) => (prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]));
+
+  const handleAdd = async () => {
+    setAdding(true);
+    const result = await topUpQuestionPool(topicIds, reshuffle);
+    setAdding(false);
+
+    if (!result.success) {
+      setError(errorMessage(t, result, "poolTopUp.failed"));
+      return;
+    }
+    setError("");
+    setTopicIds([]);
+    setReshuffle(false);
+    setOpen(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-stone-100 p-4 mb-6">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">{t("poolTopUp.title")}</span>
+        <button onClick={() => setOpen(!open)} className="text-xs font-semibold text-amber-800">
+          {open ? t("common.cancel") : t("common.add")}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          {otherTopics.length > 0 ? (
+            <div className="flex flex-wrap gap-1.5">
+              {otherTopics.map((topic) => (
+                <button
+                  key={topic.id}
+                  onClick={() => toggleTopic(topic.id)}
+                  disabled={qCount(topic.id) === 0}
+                  className={`h-8 px-3 rounded-full text-xs font-medium transition-colors disabled:opacity-40 ${
+                    topicIds.includes(topic.id) ? "bg-amber-800 text-amber-50" : "bg-stone-100 text-stone-600"
+                  }`}
+                >
+                  {topic.name} ({qCount(topic.id)})
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-stone-400">{t("poolTopUp.allInPlay")}</p>
+          )}
+
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="text-sm font-medium text-stone-700">{t("poolTopUp.reshuffle")}</p>
+              <p className="text-[11px] text-stone-400">{t("poolTopUp.reshuffle.hint")}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-lg shrink-0">
+              {[false, true].map((on) => (
+                <button
+                  key={String(on)}
+                  onClick={() => setReshuffle(on)}
+                  className={`h-7 px-3 rounded-md text-xs font-semibold transition-colors ${
+                    reshuffle === on ? "bg-white text-amber-800 shadow-sm" : "text-stone-500 hover:text-stone-700"
+                  }`}
+                >
+                  {on ? t("common.on") : t("common.off")}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          <button
+            onClick={handleAdd}
+            disabled={adding || (topicIds.length === 0 && !reshuffle)}
+            className="w-full h-10 rounded-xl bg-amber-800 text-amber-50 text-sm font-semibold disabled:opacity-40 hover:bg-amber-900 transition-colors"
+          >
+            {adding ? t("poolTopUp.adding") : t("poolTopUp.add")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import * as questionBankService from "@/services/questionBankService";
+import { errorMessage } from "@/utils/actionResult";
+import { depthLabel } from "@/utils/questionDepth";
+import {
+  bankSnapshot,
+  buildImportPreview,
+  exportBank,
+  parseBankCsv,
+  parseBankJson,
+  type BankFileFormat,
+  type ImportPreview,
+} from "@/utils/questionBank";
+import { useState } from "react";
+
+const download = (contents: string, format: BankFileFormat) => {
+  const type = format === "json" ? "application/json" : "text/csv";
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `shared-table-questions-${new Date().toISOString().slice(0, 10)}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Admin import (CSV or JSON, previewed against the bank before anything is written) and full export
+ */
+export function QuestionBankTransfer() {
+  const { allTopics, importQuestionBank } = useApp();
+  const { t } = useI18n();
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const reset = () => {
+    setFileName("");
+    setPreview(null);
+    setErrors([]);
+  };
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const isJson = file.name.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text);
+    const parsed = isJson ? parseBankJson(text) : parseBankCsv(text);
+
+    setFileName(file.name);
+    setMessage("");
+    setPreview(null);
+    if (parsed.errors.length > 0) {
+      setErrors(parsed.errors.map((err) => t(err.key, err.params)));
+      return;
+    }
+
+    // The preview checks the file against the whole bank, so it is loaded only now
+    const bank = await questionBankService.loadBankQuestions();
+    if (!bank.success || !bank.questions) {
+      setErrors([errorMessage(t, bank, "transfer.loadFailed")]);
+      return;
+    }
+    setErrors([]);
+    setPreview(buildImportPreview(parsed.topics, allTopics, bank.questions));
+  };
+
+  const handleExport = async (format: BankFileFormat) => {
+    setExporting(true);
+    const bank = await questionBankService.loadBankQuestions();
+    setExporting(false);
+
+    if (!bank.success || !bank.questions) {
+      setErrors([errorMessage(t, bank, "transfer.loadFailed")]);
+      return;
+    }
+    download(exportBank(bankSnapshot(allTopics, bank.questions), format), format);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setImporting(true);
+    const result = await importQuestionBank(preview.payload);
+    setImporting(false);
+
+    if (!result.success) {
+      setErrors([errorMessage(t, result, "transfer.failed")]);
+      return;
+    }
+    reset();
+    setMessage(
+      t("transfer.imported", {
+        questions: t("transfer.newQuestions", { count: result.questionsCreated ?? 0 }),
+        topics: t("transfer.newTopics", { count: result.topicsCreated ?? 0 }),
+      }),
+    );
+  };
+
+  const nothingNew = preview && preview.newTopics.length === 0 && preview.newQuestions.length === 0;
+
+  return (
+    <div className="bg-white rounded-xl border border-stone-100 p-4 space-y-4">
+      <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">{t("transfer.title")}</span>
+
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-stone-700">{t("transfer.exportTitle")}</p>
+          <p className="text-[11px] text-stone-400">{t("transfer.exportHint")}</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {(["csv", "json"] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting}
+              className="h-8 px-3 rounded-lg bg-stone-100 text-stone-600 text-xs font-semibold disabled:opacity-40 hover:bg-stone-200 transition-colors"
+            >
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-stone-700">{t("transfer.import")}</p>
+        <p className="text-[11px] text-stone-400 mb-2">{t("transfer.importHint")}</p>
+        <label className="flex items-center justify-center h-10 rounded-xl border border-dashed border-stone-300 text-xs font-medium text-stone-500 cursor-pointer hover:bg-stone-50">
+          {fileName || t("transfer.chooseFile")}
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 rounded-lg px-3 py-2 space-y-0.5">
+          {errors.slice(0, 5).map((err, i) => (
+            <p key={i} className="text-xs text-red-600">
+              {err}
+            </p>
+          ))}
+          {errors.length > 5 && (
+            <p className="text-xs text-red-400">{t("transfer.moreErrors", { count: errors.length - 5 })}</p>
+          )}
+        </div>
+      )}
+
+      {preview && (
+        <div className="space-y-3">
+          <p className="text-xs text-stone-600">
+            {t("transfer.newTopics", { count: preview.newTopics.length })} ·{" "}
+            {t("transfer.newQuestions", { count: preview.newQuestions.length })} ·{" "}
+            {t("transfer.duplicates", { count: preview.duplicates.length })}
+          </p>
+
+          {preview.newTopics.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {preview.newTopics.map((name) => (
+                <span
+                  key={name}
+                  className="px-2.5 py-1 rounded-full bg-green-50 text-green-700 text-[11px] font-medium"
+                >
+                  + {name}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {preview.newQuestions.length > 0 && (
+            <div className="space-y-1 max-h-48 overflow-auto">
+              {preview.newQuestions.map((q, i) => (
+                <div key={i} className="bg-stone-50 rounded-lg px-3 py-2">
+                  <p className="text-xs text-stone-700 leading-snug">+ {q.text}</p>
+                  <p className="text-[10px] text-stone-400 mt-0.5">
+                    {q.topic} · {t(depthLabel(q.depth))}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview.duplicates.length > 0 && (
+            <div className="space-y-1 max-h-32 overflow-auto">
+              {preview.duplicates.map((q, i) => (
+                <p key={i} className="text-[11px] text-stone-400 leading-snug">
+                  <span className="line-through">{q.text}</span> ·{" "}
+                  {q.inFile ? t("transfer.repeatedInFile") : t("transfer.alreadyInBank")}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleImport}
+              disabled={importing || !!nothingNew}
+              className="flex-1 h-10 rounded-xl bg-amber-800 text-amber-50 text-sm font-semibold disabled:opacity-40 hover:bg-amber-900 transition-colors"
+            >
+              {importing ? t("transfer.importing") : nothingNew ? t("transfer.nothingNew") : t("transfer.import")}
+            </button>
+            <button
+              onClick={reset}
+              className="h-10 px-4 rounded-xl bg-stone-100 text-stone-600 text-sm font-medium hover:bg-stone-200"
+            >
+              {t("common.cancel")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-xs text-green-700">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import { useQuestionReactions } from "@/hooks/useQuestionReactions";
+import type { PickedQuestion, ReactionCounts, ReactionType } from "@/types";
+import { REACTIONS } from "@/utils/reactions";
+
+/**
+ * Compact reaction counts, e.g. "❤️ 3  😂 1"
+ * Renders nothing when there are no reactions
+ */
+export function ReactionCountsRow({ counts, className = "" }: { counts?: ReactionCounts; className?: string }) {
+  const { t } = useI18n();
+  const shown = REACTIONS.filter((r) => (counts?.[r.type] ?? 0) > 0);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      {shown.map((r) => (
+        <span key={r.type} className="text-[11px] text-stone-500" title={t(r.label)}>
+          {r.emoji} {counts![r.type]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function ReactionBar({
+  pick,
+  counts,
+  mine,
+  onReact,
+}: {
+  pick: PickedQuestion;
+  counts?: ReactionCounts;
+  mine: ReactionType[];
+  onReact: (reaction: ReactionType) => void;
+}) {
+  const { localizeQuestion } = useApp();
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-white rounded-xl border border-stone-100 px-4 py-3">
+      <p className="text-[10px] text-stone-400 mb-1">{pick.guestNickname}</p>
+      <p className="text-sm text-stone-800 leading-snug">"{localizeQuestion(pick.questionId, pick.questionText)}"</p>
+      <div className="flex gap-2 mt-2.5">
+        {REACTIONS.map((r) => {
+          const active = mine.includes(r.type);
+          return (
+            <button
+              key={r.type}
+              onClick={() => onReact(r.type)}
+              aria-pressed={active}
+              title={t(r.label)}
+              className={`h-8 px-3 rounded-full text-xs font-medium transition-colors ${
+                active ? "bg-amber-100 text-amber-800 ring-1 ring-amber-300" : "bg-stone-100 text-stone-600"
+              }`}
+            >
+              {r.emoji} {counts?.[r.type] ?? 0}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Guest view of this round's other questions, newest first, with reaction buttons
+ * Renders nothing until another guest has picked
+ */
+export function TableReactions() {
+  const { currentSession, currentGuestId, reactToQuestion } = useApp();
+  const { t } = useI18n();
+  const { reactions, countsByPick } = useQuestionReactions(currentSession?.id ?? null);
+
+  if (!currentSession || !currentGuestId) return null;
+
+  const picks = currentSession.pickedQuestions
+    .filter((p) => p.id && p.round === currentSession.currentRound && !p.passed && p.guestId !== currentGuestId)
+    .reverse();
+
+  if (picks.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-xs text-left space-y-2">
+      <p className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">{t("reactions.atTheTable")}</p>
+      {picks.map((p) => (
+        <ReactionBar
+          key={p.id}
+          pick={p}
+          counts={countsByPick[p.id!]}
+          mine={reactions
+            .filter((r) => r.pickedQuestionId === p.id && r.guestId === currentGuestId)
+            .map((r) => r.reaction)}
+          onReact={(reaction) => reactToQuestion(currentGuestId, p.id!, reaction)}
+        />
+      ))}
+    </div>
+  );
+}
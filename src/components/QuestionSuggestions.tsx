@@ -0,0 +1,183 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import { useQuestionSuggestions } from "@/hooks/useQuestionSuggestions";
+import type { MessageKey } from "@/i18n";
+import type { QuestionSuggestion, SuggestionStatus } from "@/types";
+import { errorMessage } from "@/utils/actionResult";
+import { localizedTopicName } from "@/utils/contentLanguage";
+import { useState } from "react";
+
+const STATUS_LABELS: Partial<Record<SuggestionStatus, MessageKey>> = {
+  pending: "suggestions.status.pending",
+  approved: "suggestions.status.added",
+  promoted: "suggestions.status.added",
+  rejected: "suggestions.status.rejected",
+};
+
+/**
+ * Guest form for suggesting a question, with the guest's earlier suggestions below
+ * Offers the confirmed topics once they exist, otherwise every topic guests can vote for
+ */
+export function SuggestQuestionForm() {
+  const { currentSession, currentGuestId, availableTopics, guestLanguage, suggestQuestion } = useApp();
+  const { t } = useI18n();
+  const { suggestions } = useQuestionSuggestions({ sessionId: currentSession?.id ?? null });
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [topicId, setTopicId] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!currentSession || !currentGuestId) return null;
+
+  const topicChoices = currentSession.confirmedTopics.length > 0 ? currentSession.confirmedTopics : availableTopics;
+  const mine = suggestions.filter((s) => s.guestId === currentGuestId);
+
+  const handleSubmit = async () => {
+    if (!text.trim() || !topicId) return;
+    setSending(true);
+    const result = await suggestQuestion(currentGuestId, topicId, text.trim());
+    setSending(false);
+
+    if (!result.success) {
+      setError(errorMessage(t, result, "suggestions.failed"));
+      return;
+    }
+    setError("");
+    setText("");
+    setOpen(false);
+  };
+
+  return (
+    <div className="w-full max-w-xs text-left">
+      {open ? (
+        <div className="bg-white rounded-xl border border-stone-100 p-3 space-y-2">
+          <Input
+            placeholder={t("suggestions.placeholder")}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={300}
+            className="h-9 rounded-lg text-sm"
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <Select value={topicId} onValueChange={setTopicId}>
+              <SelectTrigger className="h-9 rounded-lg text-xs flex-1 bg-stone-50">
+                <SelectValue placeholder={t("suggestions.topic")} />
+              </SelectTrigger>
+              <SelectContent>
+                {topicChoices.map((topic) => (
+                  <SelectItem key={topic.id} value={topic.id}>
+                    {localizedTopicName(topic, guestLanguage)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <button
+              onClick={handleSubmit}
+              disabled={sending || !text.trim() || !topicId}
+              className="h-9 px-4 rounded-lg bg-amber-800 text-amber-50 text-xs font-medium disabled:opacity-40 shrink-0"
+            >
+              {t("suggestions.send")}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <button onClick={() => setOpen(false)} className="text-xs text-stone-400">
+            {t("common.cancel")}
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setOpen(true)}
+          className="w-full h-10 rounded-xl bg-stone-100 text-stone-600 text-sm font-semibold hover:bg-stone-200 transition-colors"
+        >
+          {t("suggestions.suggest")}
+        </button>
+      )}
+
+      {mine.length > 0 && (
+        <div className="mt-3 space-y-1.5">
+          {mine.map((s) => (
+            <div key={s.id} className="flex items-start justify-between gap-3">
+              <p className="text-xs text-stone-600 leading-snug">"{s.text}"</p>
+              <span className="text-[10px] text-stone-400 shrink-0">
+                {STATUS_LABELS[s.status] && t(STATUS_LABELS[s.status]!)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SuggestionRow({ suggestion }: { suggestion: QuestionSuggestion }) {
+  const { availableTopics, reviewSuggestion } = useApp();
+  const { t } = useI18n();
+  const [topicId, setTopicId] = useState(suggestion.topicId ?? "");
+
+  return (
+    <div className="bg-stone-50 rounded-lg px-3 py-2.5">
+      <p className="text-sm text-stone-800 leading-snug">"{suggestion.text}"</p>
+      <p className="text-[10px] text-stone-400 mt-1">{t("suggestions.from", { nickname: suggestion.guestNickname })}</p>
+      <div className="flex gap-2 mt-2">
+        <Select value={topicId} onValueChange={setTopicId}>
+          <SelectTrigger className="h-8 rounded-lg text-xs flex-1 bg-white">
+            <SelectValue placeholder={t("suggestions.topic")} />
+          </SelectTrigger>
+          <SelectContent>
+            {availableTopics.map((topic) => (
+              <SelectItem key={topic.id} value={topic.id}>
+                {topic.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <button
+          onClick={() => reviewSuggestion(suggestion.id, true, topicId || undefined)}
+          disabled={!topicId}
+          className="h-8 px-3 rounded-lg bg-amber-800 text-amber-50 text-xs font-semibold disabled:opacity-40"
+        >
+          {t("suggestions.approve")}
+        </button>
+        <button
+          onClick={() => reviewSuggestion(suggestion.id, false)}
+          className="h-8 px-3 rounded-lg bg-stone-200 text-stone-600 text-xs font-semibold hover:bg-stone-300"
+        >
+          {t("suggestions.reject")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Host's approve/reject queue for guest suggestions
+ * Renders nothing while the queue is empty
+ */
+export function SuggestionQueue() {
+  const { currentSession } = useApp();
+  const { t } = useI18n();
+  const { suggestions } = useQuestionSuggestions({ sessionId: currentSession?.id ?? null });
+  const pending = suggestions.filter((s) => s.status === "pending");
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-amber-200 p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">
+          {t("suggestions.queueTitle")}
+        </span>
+        <span className="text-xs font-semibold text-amber-800">{pending.length}</span>
+      </div>
+      <div className="space-y-2">
+        {pending.map((s) => (
+          <SuggestionRow key={s.id} suggestion={s} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useI18n } from "@/context/I18nContext";
+import { PointerEvent, ReactNode, useRef, useState } from "react";
+
+// Row height plus the gap between rows, used to turn drag distance into positions
+const ROW_PITCH = 56;
+
+interface DragState {
+  id: string;
+  startY: number;
+  startIndex: number;
+  offset: number;
+}
+
+const moveItem = (items: string[], from: number, to: number): string[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * Drag-to-reorder list of ranked picks
+ * Works with mouse and touch through pointer events; the arrow buttons offer a non-drag fallback
+ */
+export function RankList({
+  items,
+  onReorder,
+  renderItem,
+}: {
+  items: string[];
+  onReorder: (items: string[]) => void;
+  renderItem: (id: string, index: number) => ReactNode;
+}) {
+  const { t } = useI18n();
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const handlePointerDown = (e: PointerEvent, id: string, index: number) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id, startY: e.clientY, startIndex: index, offset: 0 });
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (!drag) return;
+
+    const offset = e.clientY - drag.startY;
+    const current = itemsRef.current.indexOf(drag.id);
+    const target = Math.max(0, Math.min(itemsRef.current.length - 1, drag.startIndex + Math.round(offset / ROW_PITCH)));
+
+    if (current !== -1 && target !== current) {
+      onReorder(moveItem(itemsRef.current, current, target));
+    }
+    setDrag({ ...drag, offset });
+  };
+
+  const handlePointerUp = () => setDrag(null);
+
+  return (
+    <ol className="space-y-2">
+      {items.map((id, index) => {
+        const isDragging = drag?.id === id;
+        // Keep the dragged row under the pointer while its slot in the list changes
+        const translate = isDragging ? drag.offset - (index - drag.startIndex) * ROW_PITCH : 0;
+
+        return (
+          <li
+            key={id}
+            className={`h-12 flex items-center gap-3 px-3 rounded-xl border-2 bg-white select-none ${
+              isDragging ? "border-amber-600 shadow-lg relative z-10" : "border-amber-200 transition-transform"
+            }`}
+            style={{ transform: `translateY(${translate}px)` }}
+          >
+            <span className="w-7 h-7 rounded-lg bg-amber-600 text-white flex items-center justify-center text-xs font-bold shrink-0">
+              {index + 1}
+            </span>
+            <div className="flex-1 min-w-0">{renderItem(id, index)}</div>
+            <div className="flex items-center shrink-0">
+              <button
+                onClick={() => onReorder(moveItem(items, index, index - 1))}
+                disabled={index === 0}
+                aria-label={t("rankList.moveUp")}
+                className="w-7 h-7 rounded-md text-stone-400 hover:text-stone-700 disabled:opacity-20"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => onReorder(moveItem(items, index, index + 1))}
+                disabled={index === items.length - 1}
+                aria-label={t("rankList.moveDown")}
+                className="w-7 h-7 rounded-md text-stone-400 hover:text-stone-700 disabled:opacity-20"
+              >
+                ↓
+              </button>
+              <div
+                onPointerDown={(e) => handlePointerDown(e, id, index)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                aria-label={t("rankList.drag")}
+                className="w-8 h-8 flex items-center justify-center text-stone-400 cursor-grab active:cursor-grabbing touch-none"
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                  <circle cx="9" cy="6" r="1.5" />
+                  <circle cx="15" cy="6" r="1.5" />
+                  <circle cx="9" cy="12" r="1.5" />
+                  <circle cx="15" cy="12" r="1.5" />
+                  <circle cx="9" cy="18" r="1.5" />
+                  <circle cx="15" cy="18" r="1.5" />
+                </svg>
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
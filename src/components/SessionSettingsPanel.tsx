@@ -0,0 +1,192 @@
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import { DRAW_STRATEGIES } from "@/utils/drawStrategy";
+import { TURN_MODES } from "@/utils/turnOrder";
+import { VOTING_MODES } from "@/utils/voting";
+
+function Stepper({
+  label,
+  hint,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  hint: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div>
+        <p className="text-sm font-medium text-stone-700">{label}</p>
+        <p className="text-[11px] text-stone-400">{hint}</p>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        <button
+          onClick={() => onChange(value - 1)}
+          disabled={value <= min}
+          className="w-8 h-8 rounded-lg bg-stone-100 text-stone-600 font-bold disabled:opacity-30 hover:bg-stone-200 transition-colors"
+        >
+          −
+        </button>
+        <span className="w-6 text-center text-sm font-bold text-stone-800">{value}</span>
+        <button
+          onClick={() => onChange(value + 1)}
+          disabled={value >= max}
+          className="w-8 h-8 rounded-lg bg-stone-100 text-stone-600 font-bold disabled:opacity-30 hover:bg-stone-200 transition-colors"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Host-only voting and question draw rules, editable while the session is in the lobby
+ */
+export function SessionSettingsPanel() {
+  const { currentSession, availableTopics, updateSessionSettings } = useApp();
+  const { t } = useI18n();
+  if (!currentSession) return null;
+
+  const { settings } = currentSession;
+  const maxTopics = Math.max(availableTopics.length, 1);
+  const activeMode = VOTING_MODES.find((m) => m.mode === settings.votingMode);
+  const activeStrategy = DRAW_STRATEGIES.find((s) => s.strategy === settings.drawStrategy);
+  const activeTurnMode = TURN_MODES.find((m) => m.mode === settings.turnMode);
+
+  return (
+    <div className="bg-white rounded-xl border border-stone-100 p-4 mb-6 space-y-4">
+      <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">
+        {t("settings.votingRules")}
+      </span>
+      <div>
+        <div className="grid grid-cols-3 gap-1 p-1 bg-stone-100 rounded-lg">
+          {VOTING_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => updateSessionSettings({ votingMode: mode })}
+              className={`h-8 rounded-md text-xs font-semibold transition-colors ${
+                settings.votingMode === mode
+                  ? "bg-white text-amber-800 shadow-sm"
+                  : "text-stone-500 hover:text-stone-700"
+              }`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+        {activeMode && <p className="text-[11px] text-stone-400 mt-1.5">{t(activeMode.hint)}</p>}
+      </div>
+      <Stepper
+        label={t("settings.votesPerGuest")}
+        hint={t("settings.votesPerGuest.hint")}
+        value={Math.min(settings.votesPerGuest, maxTopics)}
+        min={1}
+        max={maxTopics}
+        onChange={(votesPerGuest) => updateSessionSettings({ votesPerGuest })}
+      />
+      <Stepper
+        label={t("settings.topicsToConfirm")}
+        hint={t("settings.topicsToConfirm.hint")}
+        value={Math.min(settings.topicsToConfirm, maxTopics)}
+        min={1}
+        max={maxTopics}
+        onChange={(topicsToConfirm) => updateSessionSettings({ topicsToConfirm })}
+      />
+      <div>
+        <p className="text-sm font-medium text-stone-700 mb-1.5">{t("settings.questionDraw")}</p>
+        <div className="grid grid-cols-3 gap-1 p-1 bg-stone-100 rounded-lg">
+          {DRAW_STRATEGIES.map(({ strategy, label }) => (
+            <button
+              key={strategy}
+              onClick={() => updateSessionSettings({ drawStrategy: strategy })}
+              className={`h-8 rounded-md text-xs font-semibold transition-colors ${
+                settings.drawStrategy === strategy
+                  ? "bg-white text-amber-800 shadow-sm"
+                  : "text-stone-500 hover:text-stone-700"
+              }`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+        {activeStrategy && <p className="text-[11px] text-stone-400 mt-1.5">{t(activeStrategy.hint)}</p>}
+      </div>
+      <div>
+        <p className="text-sm font-medium text-stone-700 mb-1.5">{t("settings.turns")}</p>
+        <div className="grid grid-cols-3 gap-1 p-1 bg-stone-100 rounded-lg">
+          {TURN_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => updateSessionSettings({ turnMode: mode })}
+              className={`h-8 rounded-md text-xs font-semibold transition-colors ${
+                settings.turnMode === mode ? "bg-white text-amber-800 shadow-sm" : "text-stone-500 hover:text-stone-700"
+              }`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+        {activeTurnMode && <p className="text-[11px] text-stone-400 mt-1.5">{t(activeTurnMode.hint)}</p>}
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-stone-700">{t("settings.warmUp")}</p>
+          <p className="text-[11px] text-stone-400">{t("settings.warmUp.hint")}</p>
+        </div>
+        <div className="grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-lg shrink-0">
+          {[true, false].map((depthProgression) => (
+            <button
+              key={String(depthProgression)}
+              onClick={() => updateSessionSettings({ depthProgression })}
+              className={`h-7 px-2.5 rounded-md text-xs font-semibold transition-colors ${
+                settings.depthProgression === depthProgression
+                  ? "bg-white text-amber-800 shadow-sm"
+                  : "text-stone-500 hover:text-stone-700"
+              }`}
+            >
+              {depthProgression ? t("common.on") : t("common.off")}
+            </button>
+          ))}
+        </div>
+      </div>
+      <Stepper
+        label={t("settings.passesPerGuest")}
+        hint={t("settings.passesPerGuest.hint")}
+        value={settings.passesPerGuest}
+        min={0}
+        max={5}
+        onChange={(passesPerGuest) => updateSessionSettings({ passesPerGuest })}
+      />
+      {settings.passesPerGuest > 0 && (
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-medium text-stone-700">{t("settings.passedQuestions")}</p>
+            <p className="text-[11px] text-stone-400">{t(`settings.passMode.${settings.passMode}.hint`)}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-lg shrink-0">
+            {(["return", "retire"] as const).map((passMode) => (
+              <button
+                key={passMode}
+                onClick={() => updateSessionSettings({ passMode })}
+                className={`h-7 px-2.5 rounded-md text-xs font-semibold transition-colors ${
+                  settings.passMode === passMode
+                    ? "bg-white text-amber-800 shadow-sm"
+                    : "text-stone-500 hover:text-stone-700"
+                }`}
+              >
+                {t(`settings.passMode.${passMode}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
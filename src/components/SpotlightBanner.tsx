@@ -0,0 +1,41 @@
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import { nextSpeaker } from "@/utils/turnOrder";
+
+/**
+ * Who is speaking now and who is up next in a turn-order session
+ * Renders nothing when guests pick in parallel
+ * @param hostControls - Show the host's button for passing the spotlight on
+ */
+export function SpotlightBanner({ hostControls = false }: { hostControls?: boolean }) {
+  const { currentSession, currentGuestId, advanceSpotlight } = useApp();
+  const { t } = useI18n();
+  if (!currentSession || currentSession.settings.turnMode === "parallel") return null;
+
+  const speaker = currentSession.guests.find((g) => g.id === currentSession.spotlightGuestId);
+  const upNext = nextSpeaker(currentSession);
+  const nameFor = (id: string, nickname: string) => (id === currentGuestId ? t("spotlight.you") : nickname);
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 mb-5 w-full text-left">
+      <p className="text-[10px] text-amber-700 uppercase tracking-wider font-medium">{t("spotlight.speakingNow")}</p>
+      <p className="text-base font-bold text-stone-900 mt-0.5">
+        {speaker ? nameFor(speaker.id, speaker.nickname) : t("spotlight.everyoneHadTurn")}
+      </p>
+      {upNext && (
+        <p className="text-xs text-stone-500 mt-1">
+          {t("spotlight.upNext")}{" "}
+          <span className="font-medium text-stone-700">{nameFor(upNext.id, upNext.nickname)}</span>
+        </p>
+      )}
+      {hostControls && (speaker || upNext) && (
+        <button
+          onClick={advanceSpotlight}
+          className="mt-3 w-full h-10 rounded-xl bg-amber-800 text-amber-50 text-sm font-semibold hover:bg-amber-900 transition-colors"
+        >
+          {!speaker ? t("spotlight.resume") : upNext ? t("spotlight.next") : t("spotlight.finish")}
+        </button>
+      )}
+    </div>
+  );
+}
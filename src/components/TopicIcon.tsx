@@ -0,0 +1,25 @@
+import type { TopicColor } from "@/types";
+import { topicColorClasses } from "@/utils/topicStyle";
+
+/**
+ * A topic's emoji on a tile in its accent colour; renders nothing for topics without an icon
+ */
+export function TopicIcon({
+  icon,
+  color,
+  className = "w-7 h-7 text-sm",
+}: {
+  icon?: string | null;
+  color?: TopicColor | null;
+  className?: string;
+}) {
+  if (!icon) return null;
+
+  return (
+    <span
+      className={`rounded-lg flex items-center justify-center shrink-0 ${topicColorClasses(color).chip} ${className}`}
+    >
+      {icon}
+    </span>
+  );
+}
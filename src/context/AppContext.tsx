@@ -1,27 +1,77 @@
+import { useI18n } from "@/context/I18nContext";
 import { ConnectionHealth } from "@/hooks/usePolling";
 import { useSupabaseAuth } from "@/hooks/useSupabaseAuth";
 import { useSupabaseSession } from "@/hooks/useSupabaseSession";
 import { useSupabaseTopics } from "@/hooks/useSupabaseTopics";
+import type { MessageKey } from "@/i18n";
 import { supabase } from "@/lib/supabase";
 import * as guestService from "@/services/guestService";
+import * as questionBankService from "@/services/questionBankService";
 import * as questionService from "@/services/questionService";
 import * as sessionService from "@/services/sessionService";
-import type { AppView, Question, Session, SessionPhase, SessionRecord, Topic } from "@/types";
-import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import type {
+  ActionResult,
+  AdminTab,
+  AppView,
+  ContentLanguage,
+  Publication,
+  PurgeImpact,
+  PurgeTarget,
+  Question,
+  QuestionBankTopic,
+  QuestionDepth,
+  QuestionSuggestion,
+  ReactionType,
+  Session,
+  SessionPhase,
+  SessionRecord,
+  SessionSettings,
+  TieBreakStrategy,
+  Topic,
+  TopicDetails,
+  TopicQuestionCount,
+} from "@/types";
+import { failedResult, notifyFailure } from "@/utils/actionResult";
+import { localizedQuestionText } from "@/utils/contentLanguage";
+import {
+  clearGuestSeat,
+  clearHostSession,
+  getDeviceId,
+  loadGuestSeat,
+  loadHostSession,
+  saveGuestSeat,
+  saveHostSession,
+} from "@/utils/deviceStorage";
+import { isAvailable, publicationColumns } from "@/utils/publication";
+import { buildPath, getPathSection, isGuestView, isHostView, isSessionView, parseRoute } from "@/utils/routes";
+import { parseTieBreak } from "@/utils/tieBreak";
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 
 interface AppState {
   view: AppView;
   sessions: SessionRecord[];
   currentSessionId: string | null;
   currentGuestId: string | null;
+  hostToken: string | null;
+  restoringSeat: boolean;
+  joinCode: string | null;
+  adminTab: AdminTab;
+  notice: MessageKey | null; // shown once on the home screen
 }
 
 interface AppContextType extends AppState {
   // Derived from hooks
-  topics: Topic[];
-  questions: Question[];
+  topics: Topic[]; // active topics, including drafts and out-of-season ones
+  availableTopics: Topic[]; // published and in season, offered for voting and new pools
+  allTopics: Topic[]; // including archived ones, for resolving ids a live session already uses
+  questionCounts: Record<string, TopicQuestionCount>; // active bank questions per topic id
+  archivedTopics: Topic[];
+  archivedQuestions: Question[]; // archived on their own, not with their topic
   currentSession: Session | null;
+  guestLanguage: ContentLanguage; // the current guest's language; English for hosts
+  localizeQuestion: (questionId: string | undefined, text: string) => string;
   isAdmin: boolean;
+  isHost: boolean;
   loading: boolean;
   connected: boolean;
   connectionHealth?: ConnectionHealth;
@@ -29,49 +79,140 @@ interface AppContextType extends AppState {
   lastUpdate?: Date | null;
 
   setView: (v: AppView) => void;
+  setAdminTab: (tab: AdminTab) => void;
+  dismissNotice: () => void;
+
+  // Failed actions are toasted through notifyFailure, except the ones marked "inline": the panel that calls
+  // them shows the friendly error next to its form, so a toast would only repeat it
 
   // Admin
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  login: (email: string, password: string) => Promise<ActionResult>;
   logout: () => Promise<void>;
-  addTopic: (name: string) => Promise<void>;
-  editTopic: (id: string, name: string) => Promise<void>;
-  removeTopic: (id: string) => Promise<void>;
-  addQuestion: (topicId: string, text: string) => Promise<void>;
-  editQuestion: (id: string, text: string, topicId: string) => Promise<void>;
-  removeQuestion: (id: string) => Promise<void>;
-  deleteSessionRecord: (id: string) => Promise<void>;
+  addTopic: (name: string) => Promise<ActionResult>;
+  editTopic: (id: string, details: TopicDetails) => Promise<ActionResult>;
+  reorderTopics: (topicIds: string[]) => Promise<ActionResult>;
+  archiveTopic: (id: string) => Promise<ActionResult>;
+  restoreTopic: (id: string) => Promise<ActionResult>;
+  addQuestion: (
+    topicId: string,
+    text: string,
+    depth: QuestionDepth,
+    publication?: Publication,
+  ) => Promise<ActionResult>;
+  editQuestion: (
+    id: string,
+    text: string,
+    topicId: string,
+    depth: QuestionDepth,
+    publication: Publication,
+    translations?: Question["translations"],
+  ) => Promise<ActionResult>;
+  archiveQuestion: (id: string) => Promise<ActionResult>;
+  restoreQuestion: (id: string) => Promise<ActionResult>;
+  getPurgeImpact: (target: PurgeTarget) => Promise<PurgeImpact | null>;
+  purgeArchived: (target: PurgeTarget) => Promise<ActionResult>; // inline
+  revertQuestionEdit: (entryId: string) => Promise<ActionResult>; // inline
+  mergeQuestions: (keepId: string, mergeIds: string[]) => Promise<ActionResult>; // inline
+  deleteSessionRecord: (id: string) => Promise<ActionResult>;
+  importQuestionBank: (
+    topics: QuestionBankTopic[],
+  ) => Promise<ActionResult & { topicsCreated?: number; questionsCreated?: number }>; // inline
 
   // Session
-  createSession: () => Promise<void>;
-  joinSession: (code: string, nickname: string) => Promise<{ success: boolean; error?: string; guestId?: string }>;
-  advancePhase: (phase: SessionPhase) => Promise<void>;
+  createSession: () => Promise<ActionResult>;
+  joinSession: (
+    code: string,
+    nickname: string,
+    language: ContentLanguage,
+  ) => Promise<ActionResult & { guestId?: string }>;
+  leaveSession: () => void;
+  advancePhase: (phase: SessionPhase) => Promise<ActionResult>;
+  updateSessionSettings: (settings: Partial<SessionSettings>) => Promise<ActionResult>;
+
+  // Guest management (host)
+  removeGuest: (guestId: string) => Promise<ActionResult>;
+  renameGuest: (guestId: string, nickname: string) => Promise<ActionResult>; // inline
+  setGuestAway: (guestId: string, away: boolean) => Promise<ActionResult>;
+
+  // Question suggestions
+  suggestQuestion: (guestId: string, topicId: string, text: string) => Promise<ActionResult>; // inline
+  reviewSuggestion: (suggestionId: string, approve: boolean, topicId?: string) => Promise<ActionResult>;
+  promoteSuggestion: (suggestion: QuestionSuggestion) => Promise<ActionResult>;
+  dismissSuggestion: (suggestionId: string) => Promise<ActionResult>;
 
   // Voting
-  submitVotes: (guestId: string, topicIds: string[]) => Promise<void>;
+  submitVotes: (guestId: string, topicIds: string[]) => Promise<ActionResult>;
 
   // Topic confirm
-  confirmTopics: (topicIds: string[]) => Promise<void>;
+  confirmTopics: (topicIds: string[]) => Promise<ActionResult>;
+  resolveTie: (strategy: TieBreakStrategy, topicIds?: string[]) => Promise<ActionResult>;
+  submitRunoffVote: (guestId: string, topicId: string) => Promise<ActionResult>;
+  closeRunoff: () => Promise<ActionResult>;
 
   // Question
-  pickQuestion: (guestId: string) => Promise<Question | null>;
-  nextRound: () => Promise<void>;
-  endSession: () => Promise<void>;
+  pickQuestion: (guestId: string) => Promise<ActionResult & { question?: Question }>;
+  passQuestion: (guestId: string) => Promise<ActionResult & { question?: Question }>;
+  reactToQuestion: (guestId: string, pickedQuestionId: string, reaction: ReactionType) => Promise<ActionResult>;
+  topUpQuestionPool: (topicIds: string[], reshuffleAsked: boolean) => Promise<ActionResult>; // inline
+  advanceSpotlight: () => Promise<ActionResult>;
+  nextRound: () => Promise<ActionResult>;
+  endSession: () => Promise<ActionResult>;
 
   // Refresh functions
   refetchTopics: () => void;
   refetchSession: () => void;
-  loadSessionHistory: () => Promise<void>;
+  loadSessionHistory: () => Promise<ActionResult>;
 }
 
 const AppContext = createContext<AppContextType | null>(null);
 
+const REMOVED_NOTICE: MessageKey = "notice.removed";
+
+// Returned when an action is called without the seat it needs
+const NOT_HOST: ActionResult = { success: false, error: "Not the host", errorCode: "NOT_HOST" };
+const NOT_IN_SESSION: ActionResult = { success: false, error: "Not in a session", errorCode: "SESSION_NOT_FOUND" };
+
+// Map session phase to host view
+const HOST_PHASE_VIEWS: Record<SessionPhase, AppView> = {
+  lobby: "hostLobby",
+  voting: "hostVoting",
+  topicResults: "hostTopicResults",
+  runoff: "hostRunoff",
+  topicReveal: "topicReveal",
+  questionPhase: "hostQuestionPhase",
+  ended: "hostEnded",
+};
+
+// Map session phase to guest view
+const GUEST_PHASE_VIEWS: Record<SessionPhase, AppView> = {
+  lobby: "guestLobby",
+  voting: "guestVoting",
+  topicResults: "guestVoting", // Guests wait during host topic selection
+  runoff: "guestRunoff",
+  topicReveal: "guestVoting", // Guests wait during topic reveal
+  questionPhase: "guestQuestionPhase",
+  ended: "guestEnded",
+};
+
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [state, setState] = useState<AppState>({
-    view: "home",
-    sessions: [],
-    currentSessionId: null,
-    currentGuestId: null,
+  const [state, setState] = useState<AppState>(() => {
+    const route = parseRoute(window.location.pathname, window.location.search);
+
+    return {
+      // Session routes are resolved once stored credentials have been checked
+      view: isSessionView(route.view) ? "home" : route.view,
+      sessions: [],
+      currentSessionId: null,
+      currentGuestId: null,
+      hostToken: null,
+      restoringSeat: isSessionView(route.view) || loadHostSession() !== null || loadGuestSeat() !== null,
+      joinCode: route.view === "joinSession" ? (route.code ?? null) : null,
+      adminTab: route.adminTab ?? "topics",
+      notice: null,
+    };
   });
+  const isFirstUrlSyncRef = useRef(true);
+  const { t } = useI18n();
 
   // Use hooks for Supabase integration
   const auth = useSupabaseAuth();
@@ -79,9 +220,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const sessionHook = useSupabaseSession({
     sessionId: state.currentSessionId,
     topics: topicsHook.topics,
-    questions: topicsHook.questions,
   });
 
+  const activeTopics = useMemo(() => topicsHook.topics.filter((t) => !t.archived_at), [topicsHook.topics]);
+  const availableTopics = useMemo(() => activeTopics.filter((t) => isAvailable(t)), [activeTopics]);
+  const archivedTopics = useMemo(() => topicsHook.topics.filter((t) => t.archived_at), [topicsHook.topics]);
+  const archivedQuestions = useMemo(
+    () => topicsHook.archivedQuestions.filter((q) => activeTopics.some((t) => t.id === q.topicId)),
+    [topicsHook.archivedQuestions, activeTopics],
+  );
+
   // Load session history when admin logs in
   useEffect(() => {
     if (auth.isAuthenticated) {
@@ -89,6 +237,145 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, [auth.isAuthenticated]);
 
+  // Restore the host's controls or a guest's seat after a reload or phone lock
+  useEffect(() => {
+    const route = parseRoute(window.location.pathname, window.location.search);
+    // A link to a different session (e.g. a freshly scanned QR) wins over stored credentials
+    const matchesRoute = (code: string) => !route.code || route.code === code;
+
+    const restore = async () => {
+      const host = loadHostSession();
+      if (host) {
+        const result = await sessionService.resumeHostSession(host.sessionId, host.hostToken);
+        if (result.success && result.session && matchesRoute(result.session.code)) {
+          console.log(`[Host Resume] Restored host controls for session ${result.session.code}`);
+          setState((s) => ({
+            ...s,
+            currentSessionId: result.session!.id,
+            hostToken: host.hostToken,
+            view: HOST_PHASE_VIEWS[result.session!.phase],
+            restoringSeat: false,
+          }));
+          return;
+        }
+        if (!result.success) {
+          console.log("[Host Resume] Stored host credential is no longer valid:", result.error);
+          clearHostSession();
+        }
+      }
+
+      const seat = loadGuestSeat();
+      if (seat) {
+        const result = await guestService.rejoinSession(seat.guestId, seat.rejoinToken);
+        if (result.success && result.session && matchesRoute(result.session.code)) {
+          console.log(`[Guest Rejoin] Restored seat in session ${result.session.code} as ${result.guest!.nickname}`);
+          setState((s) => ({
+            ...s,
+            currentSessionId: result.session!.id,
+            currentGuestId: result.guest!.id,
+            view: GUEST_PHASE_VIEWS[result.session!.phase],
+            restoringSeat: false,
+          }));
+          return;
+        }
+        if (!result.success) {
+          console.log("[Guest Rejoin] Stored seat is no longer valid:", result.error);
+          clearGuestSeat();
+          if (result.errorCode === "GUEST_REMOVED") {
+            setState((s) => ({ ...s, view: "home", restoringSeat: false, notice: REMOVED_NOTICE }));
+            return;
+          }
+        }
+      }
+
+      // Deep links into a session this device holds no seat for fall back to joining it
+      setState((s) => ({
+        ...s,
+        restoringSeat: false,
+        ...(isGuestView(route.view) && route.code
+          ? { view: "joinSession" as AppView, joinCode: route.code }
+          : isHostView(route.view)
+            ? { view: "home" as AppView }
+            : {}),
+      }));
+    };
+
+    restore();
+  }, []);
+
+  // Keep the URL in sync with the current view
+  useEffect(() => {
+    if (state.restoringSeat) return;
+
+    const path = buildPath(state.view, {
+      code: isSessionView(state.view) ? sessionHook.session?.code : state.joinCode,
+      adminTab: state.adminTab,
+    });
+    if (!path) return; // Session code not loaded yet
+
+    const currentPath = window.location.pathname;
+    if (path !== currentPath) {
+      // Moving within a session or the admin panel replaces the entry so Back leaves the section
+      if (isFirstUrlSyncRef.current || getPathSection(path) === getPathSection(currentPath)) {
+        window.history.replaceState(null, "", path);
+      } else {
+        window.history.pushState(null, "", path);
+      }
+    }
+    isFirstUrlSyncRef.current = false;
+  }, [state.view, state.joinCode, state.adminTab, state.restoringSeat, sessionHook.session?.code]);
+
+  // Back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location.pathname, window.location.search);
+      const session = sessionHook.session;
+
+      if (isSessionView(route.view)) {
+        const holdsSeat =
+          !!session &&
+          route.code === session.code &&
+          (isHostView(route.view) ? !!state.hostToken : !!state.currentGuestId);
+
+        if (!holdsSeat) {
+          // Not a session this device is part of - stay on the current view
+          const path = buildPath(state.view, {
+            code: isSessionView(state.view) ? session?.code : state.joinCode,
+            adminTab: state.adminTab,
+          });
+          if (path) window.history.replaceState(null, "", path);
+          return;
+        }
+
+        // Within a session the phase decides the view, whatever history entry was restored
+        const phaseViews = state.hostToken ? HOST_PHASE_VIEWS : GUEST_PHASE_VIEWS;
+        setState((s) => ({ ...s, view: phaseViews[session.phase] }));
+        return;
+      }
+
+      setState((s) => ({
+        ...s,
+        view: route.view,
+        joinCode: route.view === "joinSession" ? (route.code ?? null) : null,
+        adminTab: route.adminTab ?? s.adminTab,
+      }));
+    };
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [state.view, state.hostToken, state.currentGuestId, state.joinCode, state.adminTab, sessionHook.session]);
+
+  // Admin routes require a signed-in organizer
+  useEffect(() => {
+    if (auth.loading) return;
+
+    if (state.view === "admin" && !auth.isAuthenticated) {
+      setState((s) => ({ ...s, view: "adminLogin" }));
+    } else if (state.view === "adminLogin" && auth.isAuthenticated) {
+      setState((s) => ({ ...s, view: "admin" }));
+    }
+  }, [state.view, auth.loading, auth.isAuthenticated]);
+
   // Sync guest view with session phase changes
   useEffect(() => {
     // Only run for guests (not hosts or admins)
@@ -97,18 +384,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
 
     const currentPhase = sessionHook.session.phase;
-
-    // Map session phase to guest view
-    const phaseToViewMap: Record<SessionPhase, AppView> = {
-      lobby: "guestLobby",
-      voting: "guestVoting",
-      topicResults: "guestVoting", // Guests wait during host topic selection
-      topicReveal: "guestVoting", // Guests wait during topic reveal
-      questionPhase: "guestQuestionPhase",
-      ended: "guestEnded",
-    };
-
-    const targetView = phaseToViewMap[currentPhase];
+    const targetView = GUEST_PHASE_VIEWS[currentPhase];
 
     // Only update view if it differs from target (prevent infinite loops)
     if (state.view !== targetView) {
@@ -119,8 +395,42 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, [state.currentGuestId, sessionHook.session?.phase]);
 
+  // Send a removed guest's device home with an explanation
+  const myStatus = sessionHook.session?.guests.find((g) => g.id === state.currentGuestId)?.status;
+  const guestLanguage = sessionHook.session?.guests.find((g) => g.id === state.currentGuestId)?.language ?? "en";
+
+  // Picks carry the English text; translations come from the question as loaded into the session's pool
+  const localizeQuestion = useCallback(
+    (questionId: string | undefined, text: string) => {
+      const question = questionId ? sessionHook.questions.find((q) => q.id === questionId) : undefined;
+      return question ? localizedQuestionText(question, guestLanguage) : text;
+    },
+    [sessionHook.questions, guestLanguage],
+  );
+  useEffect(() => {
+    if (myStatus !== "removed") return;
+
+    console.log("[Guest] Removed from the session by the host");
+    clearGuestSeat();
+    setState((s) => ({
+      ...s,
+      view: "home",
+      currentSessionId: null,
+      currentGuestId: null,
+      notice: REMOVED_NOTICE,
+    }));
+  }, [myStatus]);
+
   const setView = useCallback((view: AppView) => {
-    setState((s) => ({ ...s, view }));
+    setState((s) => ({ ...s, view, joinCode: null, notice: null }));
+  }, []);
+
+  const setAdminTab = useCallback((adminTab: AdminTab) => {
+    setState((s) => ({ ...s, adminTab }));
+  }, []);
+
+  const dismissNotice = useCallback(() => {
+    setState((s) => ({ ...s, notice: null }));
   }, []);
 
   // ─── Admin ───
@@ -137,113 +447,308 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   const logout = useCallback(async () => {
     await auth.logout();
-    setState((s) => ({ ...s, view: "home", currentSessionId: null, currentGuestId: null }));
+    setState((s) => ({ ...s, view: "home", currentSessionId: null, currentGuestId: null, hostToken: null }));
   }, [auth]);
 
   const addTopic = useCallback(
-    async (name: string) => {
+    async (name: string): Promise<ActionResult> => {
       try {
         const { error } = await supabase.from("topics").insert({ name });
 
         if (error) throw error;
 
         topicsHook.refetch();
+        return { success: true };
       } catch (err) {
         console.error("Error adding topic:", err);
+        const result = failedResult(err, "Failed to add topic");
+        notifyFailure(t, "failed.addTopic", result, () => addTopic(name));
+        return result;
       }
     },
-    [topicsHook],
+    [topicsHook, t],
   );
 
   const editTopic = useCallback(
-    async (id: string, name: string) => {
+    async (id: string, details: TopicDetails): Promise<ActionResult> => {
+      const { name, description, icon, color, translations, ...publication } = details;
       try {
-        const { error } = await supabase.from("topics").update({ name }).eq("id", id);
+        const { error } = await supabase
+          .from("topics")
+          .update({
+            name,
+            description: description || null,
+            icon: icon || null,
+            color: color ?? null,
+            ...(translations ? { translations } : {}),
+            ...publicationColumns(publication),
+          })
+          .eq("id", id);
 
         if (error) throw error;
 
         topicsHook.refetch();
+        return { success: true };
       } catch (err) {
         console.error("Error editing topic:", err);
+        const result = failedResult(err, "Failed to edit topic");
+        notifyFailure(t, "failed.editTopic", result, () => editTopic(id, details));
+        return result;
       }
     },
-    [topicsHook],
+    [topicsHook, t],
   );
 
-  const removeTopic = useCallback(
-    async (id: string) => {
-      try {
-        // Questions will be cascade deleted due to ON DELETE CASCADE
-        const { error } = await supabase.from("topics").delete().eq("id", id);
+  const reorderTopics = useCallback(
+    async (topicIds: string[]): Promise<ActionResult> => {
+      const result = await questionBankService.reorderTopics(topicIds);
 
-        if (error) throw error;
+      if (!result.success) {
+        console.error("Failed to reorder topics:", result.error);
+        notifyFailure(t, "failed.reorderTopics", result, () => reorderTopics(topicIds));
+      }
 
-        topicsHook.refetch();
-      } catch (err) {
-        console.error("Error removing topic:", err);
+      topicsHook.refetch();
+      return result;
+    },
+    [topicsHook, t],
+  );
+
+  const setTopicArchived = useCallback(
+    async (id: string, archived: boolean): Promise<ActionResult> => {
+      const result = await questionBankService.setTopicArchived(id, archived);
+
+      if (!result.success) {
+        console.error("Failed to update topic:", result.error);
+        notifyFailure(t, archived ? "failed.archiveTopic" : "failed.restoreTopic", result, () =>
+          setTopicArchived(id, archived),
+        );
+        return result;
       }
+
+      topicsHook.refetch();
+      return result;
     },
-    [topicsHook],
+    [topicsHook, t],
   );
 
+  const archiveTopic = useCallback((id: string) => setTopicArchived(id, true), [setTopicArchived]);
+  const restoreTopic = useCallback((id: string) => setTopicArchived(id, false), [setTopicArchived]);
+
   const addQuestion = useCallback(
-    async (topicId: string, text: string) => {
+    async (
+      topicId: string,
+      text: string,
+      depth: QuestionDepth,
+      publication: Publication = {},
+    ): Promise<ActionResult> => {
       try {
-        const { error } = await supabase.from("questions").insert({ topic_id: topicId, text });
+        const { error } = await supabase
+          .from("questions")
+          .insert({ topic_id: topicId, text, depth, ...publicationColumns(publication) });
 
         if (error) throw error;
 
         topicsHook.refetch();
+        return { success: true };
       } catch (err) {
         console.error("Error adding question:", err);
+        const result = failedResult(err, "Failed to add question");
+        notifyFailure(t, "failed.addQuestion", result, () => addQuestion(topicId, text, depth, publication));
+        return result;
       }
     },
-    [topicsHook],
+    [topicsHook, t],
   );
 
   const editQuestion = useCallback(
-    async (id: string, text: string, topicId: string) => {
+    async (
+      id: string,
+      text: string,
+      topicId: string,
+      depth: QuestionDepth,
+      publication: Publication,
+      translations?: Question["translations"],
+    ): Promise<ActionResult> => {
       try {
-        const { error } = await supabase.from("questions").update({ text, topic_id: topicId }).eq("id", id);
+        const { error } = await supabase
+          .from("questions")
+          .update({
+            text,
+            topic_id: topicId,
+            depth,
+            ...(translations ? { translations } : {}),
+            ...publicationColumns(publication),
+          })
+          .eq("id", id);
 
         if (error) throw error;
 
         topicsHook.refetch();
+        return { success: true };
       } catch (err) {
         console.error("Error editing question:", err);
+        const result = failedResult(err, "Failed to edit question");
+        notifyFailure(t, "failed.editQuestion", result, () =>
+          editQuestion(id, text, topicId, depth, publication, translations),
+        );
+        return result;
       }
     },
-    [topicsHook],
+    [topicsHook, t],
   );
 
-  const removeQuestion = useCallback(
-    async (id: string) => {
+  const setQuestionArchived = useCallback(
+    async (id: string, archived: boolean): Promise<ActionResult> => {
       try {
-        const { error } = await supabase.from("questions").delete().eq("id", id);
+        const { error } = await supabase
+          .from("questions")
+          .update({ archived_at: archived ? new Date().toISOString() : null })
+          .eq("id", id);
 
         if (error) throw error;
 
         topicsHook.refetch();
+        return { success: true };
       } catch (err) {
-        console.error("Error removing question:", err);
+        console.error("Error archiving question:", err);
+        const result = failedResult(err, "Failed to update question");
+        notifyFailure(t, archived ? "failed.archiveQuestion" : "failed.restoreQuestion", result, () =>
+          setQuestionArchived(id, archived),
+        );
+        return result;
       }
     },
+    [topicsHook, t],
+  );
+
+  const archiveQuestion = useCallback((id: string) => setQuestionArchived(id, true), [setQuestionArchived]);
+  const restoreQuestion = useCallback((id: string) => setQuestionArchived(id, false), [setQuestionArchived]);
+
+  const getPurgeImpact = useCallback(async (target: PurgeTarget) => {
+    const result = await questionBankService.getPurgeImpact(target);
+    return result.impact ?? null;
+  }, []);
+
+  // Errors are shown inline by the archived items list
+  const purgeArchived = useCallback(
+    async (target: PurgeTarget): Promise<ActionResult> => {
+      const result = await questionBankService.purgeArchived(target);
+      if (result.success) topicsHook.refetch();
+      else console.error("Failed to purge:", result.error);
+      return result;
+    },
     [topicsHook],
   );
 
-  const deleteSessionRecord = useCallback(async (id: string) => {
-    try {
-      const { error } = await supabase.from("session_records").delete().eq("id", id);
+  const deleteSessionRecord = useCallback(
+    async (id: string): Promise<ActionResult> => {
+      try {
+        const { error } = await supabase.from("session_records").delete().eq("id", id);
 
-      if (error) throw error;
+        if (error) throw error;
 
-      await loadSessionHistory();
-    } catch (err) {
-      console.error("Error deleting session record:", err);
-    }
-  }, []);
+        await loadSessionHistory();
+        return { success: true };
+      } catch (err) {
+        console.error("Error deleting session record:", err);
+        const result = failedResult(err, "Failed to delete session record");
+        notifyFailure(t, "failed.deleteSessionRecord", result, () => deleteSessionRecord(id));
+        return result;
+      }
+    },
+    [t],
+  );
+
+  // Errors are shown inline by the import panel
+  const importQuestionBank = useCallback(
+    async (topics: QuestionBankTopic[]) => {
+      const result = await questionBankService.importQuestionBank(topics);
+      if (result.success) topicsHook.refetch();
+      else console.error("Failed to import question bank:", result.error);
+      return result;
+    },
+    [topicsHook],
+  );
+
+  // Errors are shown inline by the activity log
+  const revertQuestionEdit = useCallback(
+    async (entryId: string): Promise<ActionResult> => {
+      const result = await questionBankService.revertQuestionText(entryId);
+      if (result.success) topicsHook.refetch();
+      else console.error("Failed to revert edit:", result.error);
+      return result;
+    },
+    [topicsHook],
+  );
+
+  // Errors are shown inline by the duplicates report
+  const mergeQuestions = useCallback(
+    async (keepId: string, mergeIds: string[]): Promise<ActionResult> => {
+      const result = await questionBankService.mergeQuestions(keepId, mergeIds);
+      if (result.success) topicsHook.refetch();
+      else console.error("Failed to merge questions:", result.error);
+      return result;
+    },
+    [topicsHook],
+  );
 
-  const loadSessionHistory = useCallback(async () => {
+  const promoteSuggestion = useCallback(
+    async (suggestion: QuestionSuggestion): Promise<ActionResult> => {
+      try {
+        if (suggestion.questionId) {
+          // Detaching the question from its session makes it part of the permanent bank
+          const { error } = await supabase
+            .from("questions")
+            .update({ session_id: null })
+            .eq("id", suggestion.questionId);
+          if (error) throw error;
+        } else {
+          const { error } = await supabase
+            .from("questions")
+            .insert({ topic_id: suggestion.topicId, text: suggestion.text });
+          if (error) throw error;
+        }
+
+        const { error } = await supabase
+          .from("question_suggestions")
+          .update({ status: "promoted" })
+          .eq("id", suggestion.id);
+        if (error) throw error;
+
+        topicsHook.refetch();
+        return { success: true };
+      } catch (err) {
+        console.error("Error promoting suggestion:", err);
+        const result = failedResult(err, "Failed to add suggestion");
+        notifyFailure(t, "failed.promoteSuggestion", result, () => promoteSuggestion(suggestion));
+        return result;
+      }
+    },
+    [topicsHook, t],
+  );
+
+  const dismissSuggestion = useCallback(
+    async (suggestionId: string): Promise<ActionResult> => {
+      try {
+        const { error } = await supabase
+          .from("question_suggestions")
+          .update({ status: "dismissed" })
+          .eq("id", suggestionId);
+
+        if (error) throw error;
+        return { success: true };
+      } catch (err) {
+        console.error("Error dismissing suggestion:", err);
+        const result = failedResult(err, "Failed to dismiss suggestion");
+        notifyFailure(t, "failed.dismissSuggestion", result, () => dismissSuggestion(suggestionId));
+        return result;
+      }
+    },
+    [t],
+  );
+
+  const loadSessionHistory = useCallback(async (): Promise<ActionResult> => {
     try {
       const { data, error } = await supabase
         .from("session_records")
@@ -257,133 +762,336 @@ export function AppProvider({ children }: { children: ReactNode }) {
         code: record.code,
         startTime: record.start_time,
         endTime: record.end_time,
-        guestCount: record.guest_count,
-        guests: record.guests_json.map((g: any) => g.nickname),
+        guestCount: record.guests_json.filter((g: any) => g.status !== "removed").length,
+        guests: record.guests_json.filter((g: any) => g.status !== "removed").map((g: any) => g.nickname),
         confirmedTopics: record.confirmed_topics_json.map((t: any) => t.topics?.name || "Unknown"),
+        topicSelections: record.confirmed_topics_json.map((t: any) => ({
+          name: t.topics?.name || "Unknown",
+          icon: t.topics?.icon,
+          color: t.topics?.color,
+          reason: t.selection_reason ?? undefined,
+          score: t.score ?? undefined,
+        })),
+        tieBreak: parseTieBreak(record.tie_break_json) ?? undefined,
+        settings: record.settings_json
+          ? {
+              votesPerGuest: record.settings_json.votes_per_guest,
+              topicsToConfirm: record.settings_json.topics_to_confirm,
+              votingMode: record.settings_json.voting_mode,
+              drawStrategy: record.settings_json.draw_strategy,
+              passesPerGuest: record.settings_json.passes_per_guest ?? 0,
+              passMode: record.settings_json.pass_mode ?? "return",
+              depthProgression: record.settings_json.depth_progression ?? false,
+              turnMode: record.settings_json.turn_mode ?? "parallel",
+            }
+          : undefined,
         pickedQuestions: record.picked_questions_json.map((pq: any) => ({
-          questionId: pq.question_id,
+          questionId: pq.question_id ?? pq.questions?.id,
           questionText: pq.questions?.text || "",
           topicName: pq.questions?.topics?.name || "Unknown",
           guestNickname: pq.guests?.nickname || "Unknown",
           round: pq.round,
+          passed: pq.passed ?? false,
+          reactions: pq.reactions ?? {},
         })),
       }));
 
       setState((s) => ({ ...s, sessions: records }));
+      return { success: true };
     } catch (err) {
       console.error("Error loading session history:", err);
+      const result = failedResult(err, "Failed to load session history");
+      notifyFailure(t, "failed.loadHistory", result, () => loadSessionHistory());
+      return result;
     }
-  }, []);
+  }, [t]);
 
   // ─── Session ───
-  const createSession = useCallback(async () => {
+  const createSession = useCallback(async (): Promise<ActionResult> => {
     const result = await sessionService.createSession();
-    if (result.success && result.session) {
+    if (!result.success) {
+      console.error("Failed to create session:", result.error);
+      notifyFailure(t, "failed.createSession", result, () => createSession());
+      return result;
+    }
+    if (result.session && result.hostToken) {
+      clearGuestSeat();
+      saveHostSession({ sessionId: result.session.id, hostToken: result.hostToken });
       setState((s) => ({
         ...s,
         currentSessionId: result.session!.id,
+        currentGuestId: null,
+        hostToken: result.hostToken!,
         view: "hostLobby",
       }));
     }
-  }, []);
+    return result;
+  }, [t]);
 
-  const joinSession = useCallback(async (code: string, nickname: string) => {
+  const joinSession = useCallback(async (code: string, nickname: string, language: ContentLanguage) => {
     // Validate session code
     const validation = await sessionService.validateSessionCode(code);
     if (!validation.valid) {
-      return { success: false, error: validation.error };
+      return { success: false, error: validation.error, errorCode: validation.errorCode };
     }
 
     // Join session
-    const result = await guestService.joinSession(validation.session!.id, nickname);
+    const result = await guestService.joinSession(validation.session!.id, nickname, getDeviceId(), language);
     if (result.success && result.guest) {
+      clearHostSession();
+      if (result.rejoinToken) {
+        saveGuestSeat({
+          sessionId: validation.session!.id,
+          guestId: result.guest.id,
+          rejoinToken: result.rejoinToken,
+        });
+      }
+
       setState((s) => ({
         ...s,
         currentSessionId: validation.session!.id,
         currentGuestId: result.guest!.id,
-        view: validation.session!.phase === "lobby" ? "guestLobby" : "guestVoting",
+        hostToken: null,
+        joinCode: null,
+        view: GUEST_PHASE_VIEWS[validation.session!.phase as SessionPhase],
       }));
 
       return { success: true, guestId: result.guest.id };
     }
 
-    return { success: false, error: result.error };
+    return { success: false, error: result.error, errorCode: result.errorCode };
+  }, []);
+
+  const leaveSession = useCallback(() => {
+    clearGuestSeat();
+    clearHostSession();
+    setState((s) => ({ ...s, view: "home", currentSessionId: null, currentGuestId: null, hostToken: null }));
   }, []);
 
   const advancePhase = useCallback(
-    async (phase: SessionPhase) => {
-      if (!state.currentSessionId) return;
+    async (phase: SessionPhase): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
 
       // Check result from database operation
-      const result = await sessionService.advancePhase(state.currentSessionId, phase);
+      const result = await sessionService.advancePhase(state.currentSessionId, state.hostToken, phase);
 
       if (!result.success) {
         console.error("Failed to advance phase:", result.error);
-        // TODO: Show error notification to user
-        return;
+        notifyFailure(t, "failed.advancePhase", result, () => advancePhase(phase));
+        return result;
       }
 
       // Only update local view if database update succeeded
-      setState((s) => ({
-        ...s,
-        view:
-          phase === "voting"
-            ? "hostVoting"
-            : phase === "topicResults"
-              ? "hostTopicResults"
-              : phase === "topicReveal"
-                ? "topicReveal"
-                : phase === "questionPhase"
-                  ? "hostQuestionPhase"
-                  : s.view,
-      }));
+      setState((s) => ({ ...s, view: HOST_PHASE_VIEWS[phase] }));
+      return result;
+    },
+    [state.currentSessionId, state.hostToken, t],
+  );
+
+  const updateSessionSettings = useCallback(
+    async (settings: Partial<SessionSettings>): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+      const result = await sessionService.updateSessionSettings(state.currentSessionId, state.hostToken, settings);
+
+      if (!result.success) {
+        console.error("Failed to update session settings:", result.error);
+        notifyFailure(t, "failed.updateSettings", result, () => updateSessionSettings(settings));
+      }
+      return result;
+    },
+    [state.currentSessionId, state.hostToken, t],
+  );
+
+  // ─── Guest Management ───
+  const removeGuest = useCallback(
+    async (guestId: string): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+      const result = await guestService.removeGuest(state.currentSessionId, state.hostToken, guestId);
+
+      if (!result.success) {
+        console.error("Failed to remove guest:", result.error);
+        notifyFailure(t, "failed.removeGuest", result, () => removeGuest(guestId));
+      }
+      return result;
+    },
+    [state.currentSessionId, state.hostToken, t],
+  );
+
+  // Errors are shown inline by the guest manager
+  const renameGuest = useCallback(
+    async (guestId: string, nickname: string): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+      const result = await guestService.renameGuest(state.currentSessionId, state.hostToken, guestId, nickname);
+
+      if (!result.success) console.error("Failed to rename guest:", result.error);
+      return result;
+    },
+    [state.currentSessionId, state.hostToken],
+  );
+
+  const setGuestAway = useCallback(
+    async (guestId: string, away: boolean): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+      const result = await guestService.setGuestAway(state.currentSessionId, state.hostToken, guestId, away);
+
+      if (!result.success) {
+        console.error("Failed to update guest:", result.error);
+        notifyFailure(t, "failed.setGuestAway", result, () => setGuestAway(guestId, away));
+      }
+      return result;
+    },
+    [state.currentSessionId, state.hostToken, t],
+  );
+
+  // ─── Question suggestions ───
+  // Errors are shown inline by the suggestion form
+  const suggestQuestion = useCallback(
+    async (guestId: string, topicId: string, text: string): Promise<ActionResult> => {
+      if (!state.currentSessionId) return NOT_IN_SESSION;
+
+      const result = await guestService.submitQuestionSuggestion(state.currentSessionId, guestId, topicId, text);
+
+      if (!result.success) console.error("Failed to suggest question:", result.error);
+      return result;
     },
     [state.currentSessionId],
   );
 
+  const reviewSuggestion = useCallback(
+    async (suggestionId: string, approve: boolean, topicId?: string): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+      const result = await sessionService.reviewQuestionSuggestion(
+        state.currentSessionId,
+        state.hostToken,
+        suggestionId,
+        approve,
+        topicId,
+      );
+
+      if (!result.success) {
+        console.error("Failed to review suggestion:", result.error);
+        notifyFailure(t, "failed.reviewSuggestion", result, () => reviewSuggestion(suggestionId, approve, topicId));
+        return result;
+      }
+
+      // Realtime delivers the approved question with its pool insert; a polling device reloads the pool
+      if (approve) sessionHook.refetch();
+      return result;
+    },
+    [state.currentSessionId, state.hostToken, sessionHook.refetch, t],
+  );
+
   // ─── Voting ───
   const submitVotes = useCallback(
-    async (guestId: string, topicIds: string[]) => {
-      if (!state.currentSessionId) return;
+    async (guestId: string, topicIds: string[]): Promise<ActionResult> => {
+      if (!state.currentSessionId) return NOT_IN_SESSION;
 
-      await guestService.submitVote(state.currentSessionId, guestId, topicIds);
+      const result = await guestService.submitVote(state.currentSessionId, guestId, topicIds);
+
+      if (!result.success) {
+        console.error("Failed to submit votes:", result.error);
+        notifyFailure(t, "failed.submitVotes", result, () => submitVotes(guestId, topicIds));
+        // Votes that already landed (e.g. from another tab) just need the screen to catch up
+        if (result.errorCode === "ALREADY_VOTED") sessionHook.refetch();
+        // A topic was archived or unpublished while the guest was choosing, so reload the list they pick from
+        if (result.errorCode === "TOPIC_UNAVAILABLE") topicsHook.refetch();
+      }
+      return result;
     },
-    [state.currentSessionId],
+    [state.currentSessionId, sessionHook.refetch, topicsHook, t],
   );
 
   // ─── Topic Confirm ───
   const confirmTopics = useCallback(
-    async (topicIds: string[]) => {
-      if (!state.currentSessionId) return;
+    async (topicIds: string[]): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
 
       // Check result from confirmTopics
-      const topicsResult = await questionService.confirmTopics(state.currentSessionId, topicIds);
+      const topicsResult = await questionService.confirmTopics(state.currentSessionId, state.hostToken, topicIds);
 
       if (!topicsResult.success) {
         console.error("Failed to confirm topics:", topicsResult.error);
-        // TODO: Show error notification to user
-        return;
+        notifyFailure(t, "failed.confirmTopics", topicsResult, () => confirmTopics(topicIds));
+        return topicsResult;
       }
 
       // Check result from advancePhase
-      const phaseResult = await sessionService.advancePhase(state.currentSessionId, "topicReveal");
+      const phaseResult = await sessionService.advancePhase(state.currentSessionId, state.hostToken, "topicReveal");
 
       if (!phaseResult.success) {
         console.error("Failed to advance to topic reveal:", phaseResult.error);
-        // TODO: Show error notification to user
-        return;
+        // The topics are saved, so retrying only needs the phase change
+        notifyFailure(t, "failed.revealTopics", phaseResult, () => advancePhase("topicReveal"));
+        return phaseResult;
       }
 
       // Only update view if both operations succeeded
       setState((s) => ({ ...s, view: "topicReveal" }));
+      return phaseResult;
     },
-    [state.currentSessionId],
+    [state.currentSessionId, state.hostToken, advancePhase, t],
+  );
+
+  const resolveTie = useCallback(
+    async (strategy: TieBreakStrategy, topicIds?: string[]): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+      const result = await sessionService.resolveTie(state.currentSessionId, state.hostToken, strategy, topicIds);
+
+      if (!result.success) {
+        console.error("Failed to break tie:", result.error);
+        notifyFailure(t, "failed.resolveTie", result, () => resolveTie(strategy, topicIds));
+        return result;
+      }
+
+      if (strategy === "runoff") {
+        setState((s) => ({ ...s, view: "hostRunoff" }));
+      }
+      return result;
+    },
+    [state.currentSessionId, state.hostToken, t],
   );
 
+  const submitRunoffVote = useCallback(
+    async (guestId: string, topicId: string): Promise<ActionResult> => {
+      if (!state.currentSessionId) return NOT_IN_SESSION;
+
+      const result = await guestService.submitRunoffVote(state.currentSessionId, guestId, topicId);
+
+      if (!result.success) {
+        console.error("Failed to submit runoff vote:", result.error);
+        notifyFailure(t, "failed.submitRunoffVote", result, () => submitRunoffVote(guestId, topicId));
+        if (result.errorCode === "ALREADY_VOTED") sessionHook.refetch();
+      }
+      return result;
+    },
+    [state.currentSessionId, sessionHook.refetch, t],
+  );
+
+  const closeRunoff = useCallback(async (): Promise<ActionResult> => {
+    if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+    const result = await sessionService.closeRunoff(state.currentSessionId, state.hostToken);
+
+    if (!result.success) {
+      console.error("Failed to close runoff:", result.error);
+      notifyFailure(t, "failed.closeRunoff", result, () => closeRunoff());
+      return result;
+    }
+
+    setState((s) => ({ ...s, view: "hostTopicResults" }));
+    return result;
+  }, [state.currentSessionId, state.hostToken, t]);
+
   // ─── Question ───
   const pickQuestion = useCallback(
-    async (guestId: string): Promise<Question | null> => {
-      if (!state.currentSessionId || !sessionHook.session) return null;
+    async (guestId: string): Promise<ActionResult & { question?: Question }> => {
+      if (!state.currentSessionId || !sessionHook.session) return NOT_IN_SESSION;
 
       const result = await questionService.pickQuestion(
         state.currentSessionId,
@@ -393,57 +1101,117 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
       if (result.success && result.question) {
         return {
-          id: result.question.id,
-          text: result.question.text,
-          topicId: result.question.topicId,
+          success: true,
+          question: {
+            id: result.question.id,
+            text: result.question.text,
+            topicId: result.question.topicId,
+            depth: sessionHook.questions.find((q) => q.id === result.question.id)?.depth ?? 2,
+          },
         };
       }
 
-      return null;
+      console.error("Failed to pick question:", result.error);
+      notifyFailure(t, "failed.pickQuestion", result, () => pickQuestion(guestId));
+      return result;
     },
-    [state.currentSessionId, sessionHook.session],
+    [state.currentSessionId, sessionHook.session, sessionHook.questions, t],
   );
 
-  const nextRound = useCallback(async () => {
-    if (!state.currentSessionId) return;
+  const passQuestion = useCallback(
+    async (guestId: string): Promise<ActionResult & { question?: Question }> => {
+      if (!state.currentSessionId) return NOT_IN_SESSION;
 
-    try {
-      const { data, error } = await supabase.rpc("advance_round_atomic", {
-        p_session_id: state.currentSessionId,
-      });
+      const result = await questionService.passQuestion(state.currentSessionId, guestId);
 
-      if (error) {
-        console.error("Error advancing round:", error);
-        // TODO: Show error to user
-        return;
+      if (result.success && result.question) {
+        return {
+          success: true,
+          question: {
+            id: result.question.id,
+            text: result.question.text,
+            topicId: result.question.topicId,
+            depth: sessionHook.questions.find((q) => q.id === result.question.id)?.depth ?? 2,
+          },
+        };
       }
 
-      const result = data as {
-        success: boolean;
-        new_round?: number;
-        error?: string;
-      };
+      console.error("Failed to pass on question:", result.error);
+      notifyFailure(t, "failed.passQuestion", result, () => passQuestion(guestId));
+      return result;
+    },
+    [state.currentSessionId, sessionHook.questions, t],
+  );
+
+  const reactToQuestion = useCallback(
+    async (guestId: string, pickedQuestionId: string, reaction: ReactionType): Promise<ActionResult> => {
+      if (!state.currentSessionId) return NOT_IN_SESSION;
+
+      const result = await questionService.toggleReaction(state.currentSessionId, guestId, pickedQuestionId, reaction);
 
       if (!result.success) {
-        console.error("Failed to advance round:", result.error);
-        // TODO: Show error to user
+        console.error("Failed to react to question:", result.error);
+        notifyFailure(t, "failed.react", result, () => reactToQuestion(guestId, pickedQuestionId, reaction));
       }
-    } catch (err) {
-      console.error("Exception advancing round:", err);
-      // TODO: Show error to user
+      return result;
+    },
+    [state.currentSessionId, t],
+  );
+
+  // Errors are shown inline by the top-up panel
+  const topUpQuestionPool = useCallback(
+    async (topicIds: string[], reshuffleAsked: boolean): Promise<ActionResult> => {
+      if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+      const result = await questionService.appendQuestionPool(
+        state.currentSessionId,
+        state.hostToken,
+        topicIds,
+        reshuffleAsked,
+      );
+
+      // Realtime delivers the new pool rows; in polling mode this forces the full reload that carries them
+      if (result.success) sessionHook.refetch();
+      else console.error("Failed to top up the question pool:", result.error);
+      return result;
+    },
+    [state.currentSessionId, state.hostToken, sessionHook.refetch],
+  );
+
+  const advanceSpotlight = useCallback(async (): Promise<ActionResult> => {
+    if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+    const result = await sessionService.advanceSpotlight(state.currentSessionId, state.hostToken);
+
+    if (!result.success) {
+      console.error("Failed to move the spotlight:", result.error);
+      notifyFailure(t, "failed.advanceSpotlight", result, () => advanceSpotlight());
     }
-  }, [state.currentSessionId]);
+    return result;
+  }, [state.currentSessionId, state.hostToken, t]);
 
-  const endSession = useCallback(async () => {
-    if (!state.currentSessionId) return;
+  const nextRound = useCallback(async (): Promise<ActionResult> => {
+    if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
+
+    const result = await sessionService.advanceRound(state.currentSessionId, state.hostToken);
+
+    if (!result.success) {
+      console.error("Failed to advance round:", result.error);
+      notifyFailure(t, "failed.nextRound", result, () => nextRound());
+    }
+    return result;
+  }, [state.currentSessionId, state.hostToken, t]);
+
+  const endSession = useCallback(async (): Promise<ActionResult> => {
+    if (!state.currentSessionId || !state.hostToken) return NOT_HOST;
 
     // Check result from endSession
-    const result = await sessionService.endSession(state.currentSessionId);
+    const result = await sessionService.endSession(state.currentSessionId, state.hostToken);
 
     if (!result.success) {
       console.error("Failed to end session:", result.error);
-      // TODO: Show error notification to user
-      return;
+      notifyFailure(t, "failed.endSession", result, () => endSession());
+      return result;
     }
 
     // Only update view if operation succeeded
@@ -453,37 +1221,71 @@ export function AppProvider({ children }: { children: ReactNode }) {
     if (auth.isAuthenticated) {
       await loadSessionHistory();
     }
-  }, [state.currentSessionId, auth.isAuthenticated, loadSessionHistory]);
+    return result;
+  }, [state.currentSessionId, state.hostToken, auth.isAuthenticated, loadSessionHistory, t]);
 
   return (
     <AppContext.Provider
       value={{
         ...state,
-        topics: topicsHook.topics,
-        questions: topicsHook.questions,
+        topics: activeTopics,
+        availableTopics,
+        guestLanguage,
+        localizeQuestion,
+        allTopics: topicsHook.topics,
+        questionCounts: topicsHook.questionCounts,
+        archivedTopics,
+        archivedQuestions,
         currentSession: sessionHook.session,
         isAdmin: auth.isAuthenticated,
-        loading: auth.loading || topicsHook.loading || sessionHook.loading,
+        isHost: !!state.hostToken && !!state.currentSessionId,
+        loading: auth.loading || topicsHook.loading || sessionHook.loading || state.restoringSeat,
         connected: sessionHook.connected,
         connectionHealth: sessionHook.connectionHealth,
         connectionMode: sessionHook.connectionMode,
         lastUpdate: sessionHook.lastUpdate,
         setView,
+        setAdminTab,
+        dismissNotice,
         login,
         logout,
         addTopic,
         editTopic,
-        removeTopic,
+        reorderTopics,
+        archiveTopic,
+        restoreTopic,
         addQuestion,
         editQuestion,
-        removeQuestion,
+        archiveQuestion,
+        restoreQuestion,
+        getPurgeImpact,
+        purgeArchived,
+        revertQuestionEdit,
+        mergeQuestions,
         deleteSessionRecord,
+        importQuestionBank,
         createSession,
         joinSession,
+        leaveSession,
         advancePhase,
+        updateSessionSettings,
+        removeGuest,
+        renameGuest,
+        setGuestAway,
+        suggestQuestion,
+        reviewSuggestion,
+        promoteSuggestion,
+        dismissSuggestion,
         submitVotes,
         confirmTopics,
+        resolveTie,
+        submitRunoffVote,
+        closeRunoff,
         pickQuestion,
+        passQuestion,
+        reactToQuestion,
+        topUpQuestionPool,
+        advanceSpotlight,
         nextRound,
         endSession,
         refetchTopics: topicsHook.refetch,
@@ -0,0 +1,50 @@
+import type { Translate } from "@/i18n";
+import { detectLocale, formatDate, formatDateTime, isLocale, translate } from "@/i18n";
+import type { Locale } from "@/types";
+import { loadLocale, saveLocale } from "@/utils/deviceStorage";
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from "react";
+
+interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatDate: (date: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (date: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+const I18nContext = createContext<I18nContextType | null>(null);
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const stored = loadLocale();
+    return isLocale(stored) ? stored : detectLocale();
+  });
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextType>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      formatDate: (date, options) => formatDate(locale, date, options),
+      formatDateTime: (date, options) => formatDateTime(locale, date, options),
+    }),
+    [locale, setLocale],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const ctx = useContext(I18nContext);
+  if (!ctx) throw new Error("useI18n must be used within I18nProvider");
+  return ctx;
+}
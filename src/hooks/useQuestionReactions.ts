@@ -0,0 +1,84 @@
+/**
+ * useQuestionReactions Hook
+ *
+ * Loads a session's question reactions and keeps them live with a realtime subscription
+ * Counts are grouped by picked question for the host screen and the guest reaction bar
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { QuestionReaction, ReactionCounts } from "@/types";
+import { REALTIME_LISTEN_TYPES } from "@supabase/supabase-js";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+const toReaction = (row: any): QuestionReaction => ({
+  id: row.id,
+  pickedQuestionId: row.picked_question_id,
+  guestId: row.guest_id,
+  reaction: row.reaction,
+});
+
+export function useQuestionReactions(sessionId: string | null) {
+  const [reactions, setReactions] = useState<QuestionReaction[]>([]);
+
+  const fetchReactions = useCallback(async () => {
+    if (!sessionId) return;
+
+    const { data, error } = await supabase
+      .from("question_reactions")
+      .select("id, picked_question_id, guest_id, reaction")
+      .eq("session_id", sessionId);
+
+    if (error) {
+      console.error("Error loading question reactions:", error);
+      return;
+    }
+    setReactions((data || []).map(toReaction));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    fetchReactions();
+
+    const channel = supabase
+      .channel(`question-reactions:${sessionId}`)
+      .on(
+        REALTIME_LISTEN_TYPES.POSTGRES_CHANGES,
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "question_reactions",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload) => {
+          const reaction = toReaction(payload.new);
+          setReactions((prev) => (prev.some((r) => r.id === reaction.id) ? prev : [...prev, reaction]));
+        },
+      )
+      // Delete events can't be filtered and only carry the row id, so ids from other sessions are ignored
+      .on(
+        REALTIME_LISTEN_TYPES.POSTGRES_CHANGES,
+        { event: "DELETE", schema: "public", table: "question_reactions" },
+        (payload) => {
+          const id = (payload.old as { id?: string }).id;
+          setReactions((prev) => prev.filter((r) => r.id !== id));
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, fetchReactions]);
+
+  const countsByPick = useMemo(() => {
+    const counts: Record<string, ReactionCounts> = {};
+    for (const r of reactions) {
+      const pick = (counts[r.pickedQuestionId] ??= {});
+      pick[r.reaction] = (pick[r.reaction] ?? 0) + 1;
+    }
+    return counts;
+  }, [reactions]);
+
+  return { reactions, countsByPick, refetch: fetchReactions };
+}
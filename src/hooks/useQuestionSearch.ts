@@ -0,0 +1,63 @@
+/**
+ * useQuestionSearch Hook
+ *
+ * Queries the question bank a page at a time for the admin question list
+ * Search text is debounced so typing doesn't fire a request per keystroke
+ */
+
+import * as questionBankService from "@/services/questionBankService";
+import type { QuestionQuery, QuestionWithStats } from "@/types";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export const QUESTION_PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function useQuestionSearch(query: QuestionQuery) {
+  const [questions, setQuestions] = useState<QuestionWithStats[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState(query.search);
+  // Only the latest request may update state, so a slow earlier search can't overwrite a newer one
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(query.search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query.search]);
+
+  const { topicId, status, sort, page } = query;
+
+  const fetchPage = useCallback(async () => {
+    const request = ++latestRequest.current;
+    setLoading(true);
+    const result = await questionBankService.searchQuestions(
+      { search, topicId, status, sort, page },
+      QUESTION_PAGE_SIZE,
+    );
+    if (request !== latestRequest.current) return;
+    setLoading(false);
+
+    if (!result.success || !result.questions) {
+      setError(result.error || "Failed to search questions");
+      return;
+    }
+
+    setError(null);
+    setQuestions(result.questions);
+    setTotal(result.total ?? 0);
+  }, [search, topicId, status, sort, page]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  return {
+    questions,
+    total,
+    pageCount: Math.max(1, Math.ceil(total / QUESTION_PAGE_SIZE)),
+    loading,
+    error,
+    refetch: fetchPage,
+  };
+}
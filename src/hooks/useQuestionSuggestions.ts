@@ -0,0 +1,75 @@
+/**
+ * useQuestionSuggestions Hook
+ *
+ * Loads guest question suggestions and keeps them live with a realtime subscription
+ * Scoped to one session for the host queue and guests, or to a status for the admin promotion list
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { QuestionSuggestion, SuggestionStatus } from "@/types";
+import { REALTIME_LISTEN_TYPES } from "@supabase/supabase-js";
+import { useCallback, useEffect, useState } from "react";
+
+const toSuggestion = (row: any): QuestionSuggestion => ({
+  id: row.id,
+  sessionId: row.session_id,
+  guestId: row.guest_id,
+  guestNickname: row.guest_nickname,
+  topicId: row.topic_id,
+  text: row.text,
+  status: row.status,
+  questionId: row.question_id,
+  createdAt: row.created_at,
+});
+
+export function useQuestionSuggestions({
+  sessionId,
+  status,
+}: {
+  sessionId?: string | null;
+  status?: SuggestionStatus;
+}) {
+  const [suggestions, setSuggestions] = useState<QuestionSuggestion[]>([]);
+
+  const fetchSuggestions = useCallback(async () => {
+    let query = supabase.from("question_suggestions").select("*").order("created_at");
+    if (sessionId) query = query.eq("session_id", sessionId);
+    if (status) query = query.eq("status", status);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Error loading question suggestions:", error);
+      return;
+    }
+    setSuggestions((data || []).map(toSuggestion));
+  }, [sessionId, status]);
+
+  useEffect(() => {
+    // Session-scoped callers wait until there is a session
+    if (sessionId === null) return;
+
+    fetchSuggestions();
+
+    const channel = supabase
+      .channel(`question-suggestions:${sessionId ?? "all"}:${status ?? "any"}`)
+      .on(
+        REALTIME_LISTEN_TYPES.POSTGRES_CHANGES,
+        {
+          event: "*",
+          schema: "public",
+          table: "question_suggestions",
+          ...(sessionId ? { filter: `session_id=eq.${sessionId}` } : {}),
+        },
+        () => {
+          fetchSuggestions();
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, status, fetchSuggestions]);
+
+  return { suggestions, refetch: fetchSuggestions };
+}
@@ -5,6 +5,7 @@ import type {
   RealtimeHookReturn,
   RealtimePayload,
 } from "@/types/realtime";
+import { parseTieBreak } from "@/utils/tieBreak";
 import { REALTIME_LISTEN_TYPES, RealtimeChannel } from "@supabase/supabase-js";
 import { useCallback, useEffect, useRef, useState } from "react";
 
@@ -18,6 +19,7 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
     onGuestUpdate,
     onVoteInsert,
     onPickedQuestionInsert,
+    onPickedQuestionUpdate,
     onSessionTopicInsert,
     onSessionUpdate,
     onQuestionPoolUpdate,
@@ -37,6 +39,7 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
   const onGuestUpdateRef = useRef(onGuestUpdate);
   const onVoteInsertRef = useRef(onVoteInsert);
   const onPickedQuestionInsertRef = useRef(onPickedQuestionInsert);
+  const onPickedQuestionUpdateRef = useRef(onPickedQuestionUpdate);
   const onSessionTopicInsertRef = useRef(onSessionTopicInsert);
   const onSessionUpdateRef = useRef(onSessionUpdate);
   const onQuestionPoolUpdateRef = useRef(onQuestionPoolUpdate);
@@ -55,6 +58,9 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
   useEffect(() => {
     onPickedQuestionInsertRef.current = onPickedQuestionInsert;
   }, [onPickedQuestionInsert]);
+  useEffect(() => {
+    onPickedQuestionUpdateRef.current = onPickedQuestionUpdate;
+  }, [onPickedQuestionUpdate]);
   useEffect(() => {
     onSessionTopicInsertRef.current = onSessionTopicInsert;
   }, [onSessionTopicInsert]);
@@ -85,6 +91,10 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
     onPickedQuestionInsertRef.current?.(payload);
   }, []);
 
+  const stableOnPickedQuestionUpdate = useCallback((payload: RealtimePayload) => {
+    onPickedQuestionUpdateRef.current?.(payload);
+  }, []);
+
   const stableOnSessionTopicInsert = useCallback((payload: RealtimePayload) => {
     onSessionTopicInsertRef.current?.(payload);
   }, []);
@@ -109,7 +119,9 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
       nickname: row.nickname,
       hasVoted: row.has_voted,
       hasPicked: row.has_picked,
+      status: row.status,
       pickedQuestionId: row.picked_question_id,
+      language: row.language,
       joinedAt: row.joined_at,
     }),
     [],
@@ -133,6 +145,7 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
       guestId: row.guest_id,
       questionId: row.question_id,
       round: row.round,
+      passed: row.passed,
       pickedAt: row.picked_at,
     }),
     [],
@@ -154,6 +167,19 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
       code: row.code,
       phase: row.phase,
       currentRound: row.current_round,
+      settings: {
+        votesPerGuest: row.votes_per_guest,
+        topicsToConfirm: row.topics_to_confirm,
+        votingMode: row.voting_mode,
+        drawStrategy: row.draw_strategy,
+        passesPerGuest: row.passes_per_guest,
+        passMode: row.pass_mode,
+        depthProgression: row.depth_progression,
+        turnMode: row.turn_mode,
+      },
+      tieBreak: parseTieBreak(row.tie_break),
+      speakingOrder: row.speaking_order ?? [],
+      spotlightGuestId: row.spotlight_guest_id,
       startTime: row.start_time,
       endTime: row.end_time,
       createdAt: row.created_at,
@@ -313,6 +339,27 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
       },
     );
 
+    // Subscribe to picked_questions table - UPDATE events (passes)
+    channel.on(
+      REALTIME_LISTEN_TYPES.POSTGRES_CHANGES,
+      {
+        event: "UPDATE",
+        schema: "public",
+        table: "picked_questions",
+        filter: `session_id=eq.${sessionId}`,
+      },
+      (payload: RealtimePayload) => {
+        console.log("[Realtime] Picked question updated:", payload);
+        setLastUpdate(new Date());
+        if (stableOnPickedQuestionUpdate) {
+          stableOnPickedQuestionUpdate({
+            ...payload,
+            new: transformPickedQuestion(payload.new),
+          });
+        }
+      },
+    );
+
     // Subscribe to session_topics table - INSERT events
     channel.on(
       REALTIME_LISTEN_TYPES.POSTGRES_CHANGES,
@@ -376,6 +423,27 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
       },
     );
 
+    // Subscribe to question_pool table - INSERT events (questions appended mid-session)
+    channel.on(
+      REALTIME_LISTEN_TYPES.POSTGRES_CHANGES,
+      {
+        event: "INSERT",
+        schema: "public",
+        table: "question_pool",
+        filter: `session_id=eq.${sessionId}`,
+      },
+      (payload: RealtimePayload) => {
+        console.log("[Realtime] Question added to pool:", payload);
+        setLastUpdate(new Date());
+        if (stableOnQuestionPoolUpdate) {
+          stableOnQuestionPoolUpdate({
+            ...payload,
+            new: transformQuestionPoolItem(payload.new),
+          });
+        }
+      },
+    );
+
     // Subscribe to the channel
     channel.subscribe((status, err) => {
       console.log("[Realtime] Subscribe callback:", status, err ? err.message : "no error");
@@ -406,6 +474,7 @@ export function useSupabaseRealtime(config: RealtimeHookConfig): RealtimeHookRet
     stableOnGuestUpdate,
     stableOnVoteInsert,
     stableOnPickedQuestionInsert,
+    stableOnPickedQuestionUpdate,
     stableOnSessionTopicInsert,
     stableOnSessionUpdate,
     stableOnQuestionPoolUpdate,
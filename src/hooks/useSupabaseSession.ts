@@ -1,19 +1,23 @@
 import { REALTIME_ENABLED, supabase } from "@/lib/supabase";
-import type { Guest, PickedQuestion, Question, Session, SessionPhase, Topic } from "@/types";
+import { loadQuestions, toQuestion } from "@/services/questionService";
+import type { Guest, PickedQuestion, Question, Session, SessionPhase, SessionSettings, Topic } from "@/types";
 import type { RealtimePayload } from "@/types/realtime";
-import { mergeGuests, mergePickedQuestions, mergeVotes } from "@/utils/polling";
-import { useCallback, useEffect, useState } from "react";
+import { dropWithdrawnVotes, mergeGuests, mergePickedQuestions, mergeVotes } from "@/utils/polling";
+import { parseTieBreak } from "@/utils/tieBreak";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { usePolling } from "./usePolling";
 import { useSupabaseRealtime } from "./useSupabaseRealtime";
 
 interface UseSupabaseSessionOptions {
   sessionId: string | null;
   topics: Topic[];
-  questions: Question[];
 }
 
 type ConnectionMode = "realtime" | "polling" | "transitioning";
 
+// Pool inserts arrive one question at a time; ones this device hasn't loaded are fetched together
+const POOL_LOAD_DELAY_MS = 100;
+
 interface ConnectionModeState {
   mode: ConnectionMode;
   realtimeHealth: "healthy" | "degraded" | "failed";
@@ -21,8 +25,24 @@ interface ConnectionModeState {
   isTransitioning: boolean;
 }
 
-export function useSupabaseSession({ sessionId, topics, questions }: UseSupabaseSessionOptions) {
+// Map the settings columns of a sessions row
+const toSessionSettings = (row: any): SessionSettings => ({
+  votesPerGuest: row.votes_per_guest,
+  topicsToConfirm: row.topics_to_confirm,
+  votingMode: row.voting_mode,
+  drawStrategy: row.draw_strategy,
+  passesPerGuest: row.passes_per_guest,
+  passMode: row.pass_mode,
+  depthProgression: row.depth_progression,
+  turnMode: row.turn_mode,
+});
+
+export function useSupabaseSession({ sessionId, topics }: UseSupabaseSessionOptions) {
   const [session, setSession] = useState<Session | null>(null);
+  // Every question in the session's pool, picked or not, so a pick's depth can be looked up
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const pendingPoolIds = useRef<string[]>([]);
+  const pendingPoolTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [connected, setConnected] = useState(false);
@@ -60,7 +80,11 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
         if (guestsError) throw guestsError;
 
         // Fetch votes
-        const { data: votesData, error: votesError } = await supabase.from("votes").select("*").eq("session_id", sid);
+        const { data: votesData, error: votesError } = await supabase
+          .from("votes")
+          .select("*")
+          .eq("session_id", sid)
+          .order("rank");
 
         if (votesError) throw votesError;
 
@@ -79,7 +103,8 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
             `
           question_id,
           position,
-          picked
+          picked,
+          questions(*)
         `,
           )
           .eq("session_id", sid)
@@ -92,8 +117,11 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
           .from("picked_questions")
           .select(
             `
+          id,
           question_id,
+          guest_id,
           round,
+          passed,
           guests(nickname),
           questions(text, topic_id, topics(name))
         `,
@@ -109,7 +137,9 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
           nickname: g.nickname,
           hasVoted: g.has_voted,
           hasPicked: g.has_picked,
+          status: g.status,
           pickedQuestionId: g.picked_question_id,
+          language: g.language,
           joined_at: g.joined_at,
         }));
 
@@ -124,17 +154,21 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
         const confirmedTopicIds = sessionTopicsData?.map((st) => st.topic_id) || [];
         const confirmedTopics = topics.filter((t) => confirmedTopicIds.includes(t.id));
 
-        const questionPoolIds = poolData?.filter((p) => !p.picked).map((p) => p.question_id) || [];
-        const questionPool = questions.filter((q) => questionPoolIds.includes(q.id));
+        const poolQuestions = (poolData || []).map((p: any) => toQuestion(p.questions));
+        const questionPool = (poolData || []).filter((p) => !p.picked).map((p: any) => toQuestion(p.questions));
 
         const pickedQuestions: PickedQuestion[] = (pickedData || []).map((p: any) => ({
+          id: p.id,
           questionId: p.question_id,
+          guestId: p.guest_id,
           questionText: p.questions.text,
           topicName: p.questions.topics.name,
           guestNickname: p.guests.nickname,
           round: p.round,
+          passed: p.passed,
         }));
 
+        setQuestions(poolQuestions);
         setSession({
           id: sessionData.id,
           code: sessionData.code,
@@ -145,6 +179,10 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
           questionPool,
           pickedQuestions,
           currentRound: sessionData.current_round,
+          settings: toSessionSettings(sessionData),
+          tieBreak: parseTieBreak(sessionData.tie_break),
+          speakingOrder: sessionData.speaking_order ?? [],
+          spotlightGuestId: sessionData.spotlight_guest_id,
           startTime: sessionData.start_time,
           endTime: sessionData.end_time,
           created_at: sessionData.created_at,
@@ -160,17 +198,13 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
         setLoading(false);
       }
     },
-    [topics, questions],
+    [topics],
   );
 
-  // Incremental fetch functions for polling
-  const fetchNewGuests = useCallback(async (sid: string, since: Date) => {
-    const { data, error } = await supabase
-      .from("guests")
-      .select("*")
-      .eq("session_id", sid)
-      .gt("joined_at", since.toISOString())
-      .order("joined_at");
+  // Incremental fetch functions for polling. Guests are fetched in full: hosts rename,
+  // remove and mark guests away after they join, and the guest list is small
+  const fetchGuests = useCallback(async (sid: string) => {
+    const { data, error } = await supabase.from("guests").select("*").eq("session_id", sid).order("joined_at");
 
     if (error) throw error;
     return data || [];
@@ -181,7 +215,8 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
       .from("votes")
       .select("*")
       .eq("session_id", sid)
-      .gt("created_at", since.toISOString());
+      .gt("created_at", since.toISOString())
+      .order("rank");
 
     if (error) throw error;
     return data || [];
@@ -192,32 +227,38 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
       .from("picked_questions")
       .select(
         `
+        id,
         question_id,
+        guest_id,
         round,
+        passed,
         guests(nickname),
         questions(text, topic_id, topics(name))
       `,
       )
       .eq("session_id", sid)
-      .gt("picked_at", since.toISOString());
+      .or(`picked_at.gt.${since.toISOString()},passed_at.gt.${since.toISOString()}`);
 
     if (error) throw error;
     return data || [];
   }, []);
 
-  const fetchPickedQuestionById = useCallback(async (sid: string, qId: string) => {
+  const fetchPickedQuestionById = useCallback(async (sid: string, pickId: string) => {
     const { data, error } = await supabase
       .from("picked_questions")
       .select(
         `
+        id,
         question_id,
+        guest_id,
         round,
+        passed,
         guests(nickname),
         questions(text, topic_id, topics(name))
       `,
       )
       .eq("session_id", sid)
-      .eq("question_id", qId)
+      .eq("id", pickId)
       .single();
 
     if (error) throw error;
@@ -227,7 +268,9 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
   const checkSessionUpdate = useCallback(async (sid: string) => {
     const { data, error } = await supabase
       .from("sessions")
-      .select("updated_at, phase, current_round")
+      .select(
+        "updated_at, phase, current_round, votes_per_guest, topics_to_confirm, voting_mode, draw_strategy, passes_per_guest, pass_mode, depth_progression, turn_mode, tie_break, speaking_order, spotlight_guest_id",
+      )
       .eq("id", sid)
       .single();
 
@@ -241,9 +284,9 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
 
     try {
       // Fetch new data in parallel
-      const [sessionUpdate, newGuests, newVotes, newPicks] = await Promise.all([
+      const [sessionUpdate, guestRows, newVotes, newPicks] = await Promise.all([
         checkSessionUpdate(sessionId),
-        fetchNewGuests(sessionId, lastPollTime),
+        fetchGuests(sessionId),
         fetchNewVotes(sessionId, lastPollTime),
         fetchNewPickedQuestions(sessionId, lastPollTime),
       ]);
@@ -253,36 +296,39 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
 
         const updatedSession = { ...prev };
 
-        // Merge new guests
-        if (newGuests.length > 0) {
-          console.log(`[Polling] Merging ${newGuests.length} new guests`);
-          const transformedGuests: Guest[] = newGuests.map((g) => ({
-            id: g.id,
-            sessionId: g.session_id,
-            nickname: g.nickname,
-            hasVoted: g.has_voted,
-            hasPicked: g.has_picked,
-            pickedQuestionId: g.picked_question_id,
-            joined_at: g.joined_at,
-          }));
-          updatedSession.guests = mergeGuests(prev.guests, transformedGuests);
-        }
+        // Merge guests, picking up renames, removals and away changes as well as new joins
+        const transformedGuests: Guest[] = guestRows.map((g) => ({
+          id: g.id,
+          sessionId: g.session_id,
+          nickname: g.nickname,
+          hasVoted: g.has_voted,
+          hasPicked: g.has_picked,
+          status: g.status,
+          pickedQuestionId: g.picked_question_id,
+          language: g.language,
+          joined_at: g.joined_at,
+        }));
+        updatedSession.guests = mergeGuests(prev.guests, transformedGuests);
+        updatedSession.votes = dropWithdrawnVotes(prev.votes, prev.guests, transformedGuests);
 
         // Merge new votes
         if (newVotes.length > 0) {
           console.log(`[Polling] Merging ${newVotes.length} new votes`);
-          updatedSession.votes = mergeVotes(prev.votes, newVotes);
+          updatedSession.votes = mergeVotes(updatedSession.votes, newVotes);
         }
 
         // Merge new picked questions
         if (newPicks.length > 0) {
           console.log(`[Polling] Merging ${newPicks.length} new picked questions`);
           const transformedPicks: PickedQuestion[] = newPicks.map((p: any) => ({
+            id: p.id,
             questionId: p.question_id,
+            guestId: p.guest_id,
             questionText: p.questions.text,
             topicName: p.questions.topics.name,
             guestNickname: p.guests.nickname,
             round: p.round,
+            passed: p.passed,
           }));
           updatedSession.pickedQuestions = mergePickedQuestions(prev.pickedQuestions, transformedPicks);
         }
@@ -293,6 +339,10 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
           console.log("[Polling] Session metadata updated");
           updatedSession.phase = sessionUpdate.phase as SessionPhase;
           updatedSession.currentRound = sessionUpdate.current_round;
+          updatedSession.settings = toSessionSettings(sessionUpdate);
+          updatedSession.tieBreak = parseTieBreak(sessionUpdate.tie_break);
+          updatedSession.speakingOrder = sessionUpdate.speaking_order ?? [];
+          updatedSession.spotlightGuestId = sessionUpdate.spotlight_guest_id;
           updatedSession.updated_at = sessionUpdate.updated_at;
           setLastSessionUpdate(newUpdateTime);
         }
@@ -309,7 +359,7 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
     sessionId,
     lastPollTime,
     lastSessionUpdate,
-    fetchNewGuests,
+    fetchGuests,
     fetchNewVotes,
     fetchNewPickedQuestions,
     checkSessionUpdate,
@@ -332,7 +382,9 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
       nickname: payload.new.nickname,
       hasVoted: payload.new.hasVoted || false,
       hasPicked: payload.new.hasPicked || false,
+      status: payload.new.status,
       pickedQuestionId: payload.new.pickedQuestionId || null,
+      language: payload.new.language,
       joined_at: payload.new.joinedAt,
     };
 
@@ -357,7 +409,9 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
       nickname: payload.new.nickname,
       hasVoted: payload.new.hasVoted || false,
       hasPicked: payload.new.hasPicked || false,
+      status: payload.new.status,
       pickedQuestionId: payload.new.pickedQuestionId || null,
+      language: payload.new.language,
       joined_at: payload.new.joinedAt,
     };
 
@@ -373,13 +427,15 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
 
       const updatedGuests = [...prev.guests];
       updatedGuests[guestIndex] = updatedGuest;
+      const votes = dropWithdrawnVotes(prev.votes, prev.guests, [updatedGuest]);
 
       console.log("[Realtime] Updating guest:", updatedGuest.nickname, {
         hasVoted: updatedGuest.hasVoted,
         hasPicked: updatedGuest.hasPicked,
+        status: updatedGuest.status,
       });
 
-      return { ...prev, guests: updatedGuests };
+      return { ...prev, guests: updatedGuests, votes };
     });
   }, []);
 
@@ -412,10 +468,10 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
   const handleRealtimePickedQuestionInsert = useCallback(
     async (payload: RealtimePayload) => {
       try {
-        const questionId = payload.new.questionId;
-        console.log("[Realtime] Fetching picked question details:", questionId);
+        const pickId = payload.new.id;
+        console.log("[Realtime] Fetching picked question details:", pickId);
 
-        const pickedData = await fetchPickedQuestionById(sessionId!, questionId);
+        const pickedData = await fetchPickedQuestionById(sessionId!, pickId);
 
         if (!pickedData) {
           console.warn("[Realtime] No data returned for picked question");
@@ -423,11 +479,14 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
         }
 
         const newPick: PickedQuestion = {
+          id: pickedData.id,
           questionId: pickedData.question_id,
+          guestId: pickedData.guest_id,
           questionText: (pickedData.questions as any)[0].text,
           topicName: (pickedData.questions as any)[0].topics[0].name,
           guestNickname: (pickedData.guests as any)[0].nickname,
           round: pickedData.round,
+          passed: pickedData.passed,
         };
 
         setSession((prev) => {
@@ -448,6 +507,20 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
     [sessionId, fetchPickedQuestionById, handleFullReload],
   );
 
+  const handleRealtimePickedQuestionUpdate = useCallback((payload: RealtimePayload) => {
+    const { id, passed } = payload.new;
+
+    setSession((prev) => {
+      if (!prev) return prev;
+
+      console.log("[Realtime] Picked question updated, passed:", passed);
+      return {
+        ...prev,
+        pickedQuestions: prev.pickedQuestions.map((p) => (p.id === id ? { ...p, passed } : p)),
+      };
+    });
+  }, []);
+
   const handleRealtimeSessionTopicInsert = useCallback(
     (payload: RealtimePayload) => {
       const topicId = payload.new.topicId;
@@ -485,33 +558,67 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
         ...prev,
         phase: payload.new.phase as SessionPhase,
         currentRound: payload.new.currentRound,
+        settings: payload.new.settings,
+        tieBreak: payload.new.tieBreak,
+        speakingOrder: payload.new.speakingOrder,
+        spotlightGuestId: payload.new.spotlightGuestId,
         updated_at: payload.new.updatedAt,
       };
     });
     setLastSessionUpdate(new Date());
   }, []);
 
-  const handleRealtimeQuestionPoolUpdate = useCallback((payload: RealtimePayload) => {
-    const { questionId, picked } = payload.new;
+  const addToPool = useCallback((added: Question[]) => {
+    setQuestions((prev) => [...prev, ...added.filter((q) => !prev.some((p) => p.id === q.id))]);
+    setSession((prev) => {
+      if (!prev) return prev;
 
-    if (picked) {
-      console.log("[Realtime] Question marked as picked, removing from pool:", questionId);
-      setSession((prev) => {
-        if (!prev) return prev;
+      const fresh = added.filter((q) => !prev.questionPool.some((p) => p.id === q.id));
+      return fresh.length > 0 ? { ...prev, questionPool: [...prev.questionPool, ...fresh] } : prev;
+    });
+  }, []);
 
-        // Remove picked question from pool
-        const updatedPool = prev.questionPool.filter((q) => q.id !== questionId);
+  const handleRealtimeQuestionPoolUpdate = useCallback(
+    (payload: RealtimePayload) => {
+      const { questionId, picked } = payload.new;
 
-        return {
-          ...prev,
-          questionPool: updatedPool,
-        };
-      });
-    } else {
-      // Other pool updates (position changes) - uncommon in current flow
-      console.log("[Realtime] Question pool updated (non-pick):", questionId);
-    }
-  }, []);
+      if (picked) {
+        console.log("[Realtime] Question marked as picked, removing from pool:", questionId);
+        setSession((prev) => {
+          if (!prev) return prev;
+
+          // Remove picked question from pool
+          const updatedPool = prev.questionPool.filter((q) => q.id !== questionId);
+
+          return {
+            ...prev,
+            questionPool: updatedPool,
+          };
+        });
+      } else {
+        // A passed, reshuffled or appended question going back to the pool (or a position change)
+        console.log("[Realtime] Question pool updated (non-pick):", questionId);
+        const question = questions.find((q) => q.id === questionId);
+        if (question) {
+          addToPool([question]);
+          return;
+        }
+
+        // Newly confirmed or appended questions haven't been loaded on this device yet
+        pendingPoolIds.current.push(questionId);
+        if (pendingPoolTimer.current) return;
+        pendingPoolTimer.current = setTimeout(async () => {
+          const ids = pendingPoolIds.current;
+          pendingPoolIds.current = [];
+          pendingPoolTimer.current = null;
+
+          const result = await loadQuestions(ids);
+          if (result.questions) addToPool(result.questions);
+        }, POOL_LOAD_DELAY_MS);
+      }
+    },
+    [questions, addToPool],
+  );
 
   const handleConnectionStateChange = useCallback((mode: ConnectionMode) => {
     console.log("[Connection] Mode changed to:", mode);
@@ -543,6 +650,7 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
     onGuestUpdate: handleRealtimeGuestUpdate,
     onVoteInsert: handleRealtimeVoteInsert,
     onPickedQuestionInsert: handleRealtimePickedQuestionInsert,
+    onPickedQuestionUpdate: handleRealtimePickedQuestionUpdate,
     onSessionTopicInsert: handleRealtimeSessionTopicInsert,
     onSessionUpdate: handleRealtimeSessionUpdate,
     onQuestionPoolUpdate: handleRealtimeQuestionPoolUpdate,
@@ -562,6 +670,7 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
   useEffect(() => {
     if (!sessionId) {
       setSession(null);
+      setQuestions([]);
       setConnected(false);
       return;
     }
@@ -603,6 +712,7 @@ export function useSupabaseSession({ sessionId, topics, questions }: UseSupabase
 
   return {
     session,
+    questions,
     loading,
     error,
     connected,
@@ -1,62 +1,76 @@
 import { supabase } from "@/lib/supabase";
-import type { Question, Topic } from "@/types";
+import { toQuestion } from "@/services/questionService";
+import type { Question, Topic, TopicQuestionCount } from "@/types";
 import { useEffect, useState } from "react";
 
+/**
+ * Topics with per-topic question counts, plus the archived questions the admin can restore
+ * The bank itself isn't downloaded: the admin list is searched a page at a time and sessions load their own pool
+ */
 export function useSupabaseTopics() {
   const [topics, setTopics] = useState<Topic[]>([]);
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questionCounts, setQuestionCounts] = useState<Record<string, TopicQuestionCount>>({});
+  const [archivedQuestions, setArchivedQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchTopicsAndQuestions = async () => {
+  const fetchTopics = async () => {
     try {
       setLoading(true);
       setError(null);
 
       // Fetch topics
-      const { data: topicsData, error: topicsError } = await supabase.from("topics").select("*").order("name");
+      const { data: topicsData, error: topicsError } = await supabase.from("topics").select("*").order("sort_order");
 
       if (topicsError) throw topicsError;
 
-      // Fetch questions with topic_id mapping
-      const { data: questionsData, error: questionsError } = await supabase
+      // Fetch question counts per topic
+      const { data: countsData, error: countsError } = await supabase.rpc("topic_question_counts");
+
+      if (countsError) throw countsError;
+
+      // Fetch questions archived on their own (bank questions only)
+      const { data: archivedData, error: archivedError } = await supabase
         .from("questions")
         .select("*")
-        .order("created_at");
+        .is("session_id", null)
+        .not("archived_at", "is", null)
+        .order("archived_at", { ascending: false });
 
-      if (questionsError) throw questionsError;
+      if (archivedError) throw archivedError;
 
       // Transform database format to app format
       setTopics(topicsData || []);
-      setQuestions(
-        (questionsData || []).map((q) => ({
-          id: q.id,
-          topicId: q.topic_id,
-          text: q.text,
-          created_at: q.created_at,
-          updated_at: q.updated_at,
-        })),
+      setQuestionCounts(
+        Object.fromEntries(
+          ((countsData as any[]) || []).map((c) => [
+            c.topic_id,
+            { total: Number(c.question_count), available: Number(c.available_count) },
+          ]),
+        ),
       );
+      setArchivedQuestions((archivedData || []).map(toQuestion));
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Failed to fetch topics and questions";
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch topics";
       setError(errorMessage);
-      console.error("Error fetching topics and questions:", err);
+      console.error("Error fetching topics:", err);
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchTopicsAndQuestions();
+    fetchTopics();
   }, []);
 
   const refetch = () => {
-    fetchTopicsAndQuestions();
+    fetchTopics();
   };
 
   return {
     topics,
-    questions,
+    questionCounts,
+    archivedQuestions,
     loading,
     error,
     refetch,
@@ -0,0 +1,56 @@
+/**
+ * useTopicTally Hook
+ *
+ * Fetches the server-computed topic tally for a session
+ * The tally is refetched whenever new votes arrive, so host and guests always see the database's ranking
+ */
+
+import * as guestService from "@/services/guestService";
+import type { Session, Topic, TopicTally, TopicTie } from "@/types";
+import { useEffect, useMemo, useState } from "react";
+
+export type RankedTopic = Topic & Omit<TopicTally, "topicId">;
+
+export function useTopicTally(session: Session | null, topics: Topic[]) {
+  const [tally, setTally] = useState<TopicTally[] | null>(null);
+  const [tie, setTie] = useState<TopicTie | null>(null);
+
+  const sessionId = session?.id ?? null;
+  const voteCount = session ? Object.values(session.votes).reduce((sum, ids) => sum + ids.length, 0) : 0;
+  const votingMode = session?.settings.votingMode;
+  // Removing a guest deletes their votes server-side
+  const removedCount = session ? session.guests.filter((g) => g.status === "removed").length : 0;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    guestService.getTopicTally(sessionId).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.tally) {
+        setTally(result.tally);
+        setTie(result.tie ?? null);
+      } else {
+        console.error("Failed to load topic tally:", result.error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, voteCount, votingMode, removedCount]);
+
+  const rankedTopics = useMemo<RankedTopic[]>(() => {
+    if (!tally) return [];
+    return tally.flatMap((t) => {
+      const topic = topics.find((tp) => tp.id === t.topicId);
+      return topic ? [{ ...topic, score: t.score, votes: t.votes, tied: t.tied }] : [];
+    });
+  }, [tally, topics]);
+
+  return {
+    tally: rankedTopics,
+    tie,
+    loading: tally === null,
+  };
+}
@@ -0,0 +1,526 @@
+/**
+ * English interface messages, the source catalogue every other locale is checked against
+ * Keys are grouped by the view or helper that uses them
+ */
+
+export const en = {
+  // Shared labels (utils)
+  "depth.light": "Light",
+  "depth.medium": "Medium",
+  "depth.deep": "Deep",
+
+  "votingMode.approval": "Approval",
+  "votingMode.approval.hint": "Every pick counts as one vote",
+  "votingMode.ranked": "Ranked",
+  "votingMode.ranked.hint": "Instant-runoff on ranked picks",
+  "votingMode.points": "Points",
+  "votingMode.points.hint": "Higher ranks earn more points",
+
+  "score.approval": { one: "{count} vote", other: "{count} votes" },
+  "score.ranked": { one: "{count} first choice", other: "{count} first choices" },
+  "score.points": { one: "{count} pt", other: "{count} pts" },
+
+  "drawStrategy.random": "Random",
+  "drawStrategy.random.hint": "Questions come from the shuffled pool",
+  "drawStrategy.roundRobin": "Balanced",
+  "drawStrategy.roundRobin.hint": "Every topic comes up before any repeats",
+  "drawStrategy.avoidRepeat": "Mix It Up",
+  "drawStrategy.avoidRepeat.hint": "Guests don't get the same topic twice in a row",
+
+  "turnMode.parallel": "All at Once",
+  "turnMode.parallel.hint": "Everyone picks whenever they're ready",
+  "turnMode.joinOrder": "Join Order",
+  "turnMode.joinOrder.hint": "One speaker at a time, in the order guests joined",
+  "turnMode.shuffled": "Shuffled",
+  "turnMode.shuffled.hint": "One speaker at a time, in a random order",
+
+  "tieBreak.host": "Host decision",
+  "tieBreak.random": "Random draw",
+  "tieBreak.runoff": "Runoff vote",
+  "tieBreak.randomFallback": "{method} (decided by random draw)",
+  "tieBreak.brokenBy": "Tie broken by {method}",
+
+  "selectionReason.votes": "Won the vote",
+  "selectionReason.tieBreak": "Won a tie-break",
+  "selectionReason.hostOverride": "Host pick",
+  "selectionReason.topUp": "Added mid-session",
+
+  "reaction.heart": "Love it",
+  "reaction.laugh": "Funny",
+  "reaction.thought": "Thought-provoking",
+
+  "topicColor.amber": "Amber",
+  "topicColor.rose": "Rose",
+  "topicColor.orange": "Orange",
+  "topicColor.emerald": "Green",
+  "topicColor.sky": "Blue",
+  "topicColor.violet": "Violet",
+  "topicColor.stone": "Grey",
+
+  "publication.draft": "Draft",
+  "publication.published": "Published",
+  "publication.retired": "Retired",
+  "availability.from": "From {date}",
+  "availability.until": "Until {date}",
+  "availability.outOfSeason": "Out of season",
+
+  "audit.insert.topics": "Added topic",
+  "audit.insert.questions": "Added question",
+  "audit.update.topics": "Edited topic",
+  "audit.update.questions": "Edited question",
+  "audit.archive.topics": "Archived topic",
+  "audit.archive.questions": "Archived question",
+  "audit.restore.topics": "Restored topic",
+  "audit.restore.questions": "Restored question",
+  "audit.delete.topics": "Purged topic",
+  "audit.delete.questions": "Purged question",
+
+  // Shared
+  "common.backToHome": "Back to Home",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.edit": "Edit",
+  "common.add": "Add",
+  "common.dismiss": "Dismiss",
+  "common.on": "On",
+  "common.off": "Off",
+  "common.waitingForHost": "Waiting for host",
+  "language.label": "Language",
+
+  // HomeView
+  "home.title": "The Shared\nTable",
+  "home.tagline": "Share a meal. Share a story.\nBaguio City community gatherings.",
+  "home.restoring": "Taking you back to your table...",
+  "home.host": "Host a Gathering",
+  "home.join": "Join a Session",
+  "home.organizer": "Organizer Panel",
+
+  // HostOnly
+  "hostOnly.title": "Host Controls Only",
+  "hostOnly.body": "This screen is only available on the device that created the session.",
+
+  // AdminLoginView
+  "adminLogin.title": "Organizer Login",
+  "adminLogin.intro": "Sign in with your admin account to manage topics, questions, and session history.",
+  "adminLogin.email": "Email",
+  "adminLogin.password": "Password",
+  "adminLogin.failed": "Login failed",
+  "adminLogin.signingIn": "Signing In...",
+  "adminLogin.signIn": "Sign In",
+
+  // EndedView
+  "ended.title": "Thank you for sharing\nyour table.",
+  "ended.body": "Great conversations happen when strangers become friends. See you at the next gathering.",
+  "ended.summary": {
+    one: "Session {code} · {count} question shared",
+    other: "Session {code} · {count} questions shared",
+  },
+
+  // Notices
+  "notice.removed": "The host removed you from the session.",
+
+  // JoinViews
+  "join.title": "Join a Session",
+  "join.codeTitle": "Enter Session Code",
+  "join.codeHint": "Ask your host for the 5-character code.",
+  "join.codePlaceholder": "e.g. ABC12",
+  "join.findSession": "Find Session",
+  "join.nicknameTitle": "What's your name?",
+  "join.nicknameHint": "Pick a nickname for this gathering.",
+  "join.nicknamePlaceholder": "Your nickname",
+  "join.nicknameRequired": "Please enter a nickname.",
+  "join.questionsIn": "Questions In",
+  "join.failed": "Failed to join session",
+  "join.joining": "Joining...",
+  "join.joinTable": "Join Table",
+  "lobby.youreIn": "You're In!",
+  "lobby.waiting": "Waiting for the host to begin...",
+  "lobby.session": "Session",
+  "lobby.guests": "Guests ({count})",
+
+  // SessionViews
+  "createSession.title": "Host a Gathering",
+  "createSession.heading": "Start a New Session",
+  "createSession.body": "Create a gathering session and share the code with your guests.",
+  "createSession.create": "Create Session",
+  "hostLobby.title": "Session Lobby",
+  "hostLobby.subtitle": "Waiting for guests",
+  "hostLobby.close": "Close",
+  "hostLobby.sessionCode": "Session Code",
+  "hostLobby.scanToJoin": "Guests can scan this QR code to join",
+  "hostLobby.qrAlt": "Session QR Code",
+  "hostLobby.startVoting": "Start Topic Voting",
+
+  // GuestManager
+  "guests.title": "Guests",
+  "guests.away": "Away",
+  "guests.renameFailed": "Failed to rename guest",
+  "guests.rename": "Rename",
+  "guests.markBack": "Mark Back",
+  "guests.markAway": "Mark Away",
+  "guests.confirm": "Confirm",
+  "guests.remove": "Remove",
+  "guests.done": "Done",
+  "guests.manage": "Manage ({count})",
+  "guests.empty": "No guests yet",
+
+  // SessionSettingsPanel
+  "settings.votingRules": "Voting Rules",
+  "settings.votesPerGuest": "Votes per guest",
+  "settings.votesPerGuest.hint": "Topics each guest picks",
+  "settings.topicsToConfirm": "Topics to confirm",
+  "settings.topicsToConfirm.hint": "Topics used for questions",
+  "settings.questionDraw": "Question draw",
+  "settings.turns": "Turns",
+  "settings.warmUp": "Warm up",
+  "settings.warmUp.hint": "Light questions first, deeper ones in later rounds",
+  "settings.passesPerGuest": "Passes per guest",
+  "settings.passesPerGuest.hint": "Questions a guest can swap for another",
+  "settings.passedQuestions": "Passed questions",
+  "settings.passMode.return.hint": "Go to the back of the pool",
+  "settings.passMode.retire.hint": "Are not asked again",
+  "settings.passMode.return": "Return",
+  "settings.passMode.retire": "Retire",
+
+  // QuestionViews
+  "hostQuestions.round": "Round {round}",
+  "hostQuestions.remaining": { one: "{count} question remaining", other: "{count} questions remaining" },
+  "hostQuestions.end": "End",
+  "hostQuestions.passes": { one: "{count} pass", other: "{count} passes" },
+  "hostQuestions.away": "Away",
+  "hostQuestions.waiting": "Waiting...",
+  "hostQuestions.poolEmpty": "No more questions available!",
+  "hostQuestions.poolEmpty.body":
+    "All questions from the selected topics have been used. Add a topic or reshuffle asked questions to keep going.",
+  "hostQuestions.startRound": "Start Round {round}",
+  "hostQuestions.skipRound": "Skip to Next Round",
+  "hostQuestions.endGathering": "End Gathering",
+  "guestQuestion.yourQuestion": "Your Question",
+  "guestQuestion.shareSpotlight":
+    "Share your answer with the table. Your host will pass the spotlight on when you're done.",
+  "guestQuestion.shareRound":
+    "Share your answer with the table. Your host will start the next round when everyone's ready.",
+  "guestQuestion.drawing": "Drawing...",
+  "guestQuestion.pass": "Pass ({count} left)",
+  "guestQuestion.round": "Round {round}",
+  "guestQuestion.tapToPick": "Tap the button to receive your question. Answer it out loud at the table.",
+  "guestQuestion.waitForTurn": "Listen in for now. You can pick once the spotlight reaches you.",
+  "guestQuestion.poolEmpty": "No more questions!",
+  "guestQuestion.poolEmpty.body": "The question pool has been exhausted.",
+  "guestQuestion.pick": "PICK",
+
+  // SpotlightBanner
+  "spotlight.you": "You",
+  "spotlight.speakingNow": "Speaking Now",
+  "spotlight.everyoneHadTurn": "Everyone has had a turn",
+  "spotlight.upNext": "Up next:",
+  "spotlight.resume": "Resume Turns",
+  "spotlight.next": "Next Speaker",
+  "spotlight.finish": "Finish Turn",
+
+  // PoolTopUp
+  "poolTopUp.failed": "Failed to add questions",
+  "poolTopUp.title": "More Questions",
+  "poolTopUp.allInPlay": "Every topic is already in play.",
+  "poolTopUp.reshuffle": "Reshuffle asked questions",
+  "poolTopUp.reshuffle.hint": "Questions from earlier rounds go back in",
+  "poolTopUp.adding": "Adding...",
+  "poolTopUp.add": "Add to Pool",
+
+  // QuestionSuggestions
+  "suggestions.status.pending": "Waiting for host",
+  "suggestions.status.added": "Added",
+  "suggestions.status.rejected": "Not used",
+  "suggestions.failed": "Failed to send suggestion",
+  "suggestions.placeholder": "Your question...",
+  "suggestions.topic": "Topic",
+  "suggestions.send": "Send",
+  "suggestions.suggest": "Suggest a Question",
+  "suggestions.from": "from {nickname}",
+  "suggestions.approve": "Approve",
+  "suggestions.reject": "Reject",
+  "suggestions.queueTitle": "Suggested Questions",
+
+  // RankList
+  "rankList.moveUp": "Move up",
+  "rankList.moveDown": "Move down",
+  "rankList.drag": "Drag to reorder",
+
+  // QuestionReactions
+  "reactions.atTheTable": "At the Table",
+
+  // RunoffViews
+  "hostRunoff.title": "Runoff Vote",
+  "hostRunoff.voted": "{voted}/{total} voted",
+  "hostRunoff.intro": {
+    one: "Guests are choosing between the tied topics for the last spot.",
+    other: "Guests are choosing between the tied topics for {count} spots.",
+  },
+  "hostRunoff.results": "Runoff Results",
+  "hostRunoff.close": "Close Runoff",
+  "hostRunoff.closeEarly": "Close Runoff Early",
+  "hostRunoff.tieNote": "A tie in the runoff is settled by a random draw.",
+  "guestRunoff.cast": "Runoff Vote Cast!",
+  "guestRunoff.waiting": "Waiting for the host to close the runoff...",
+  "guestRunoff.title": "Break the Tie",
+  "guestRunoff.subtitle": "Pick one topic",
+  "guestRunoff.intro": "These topics tied in the vote. Which one should make the cut?",
+  "guestRunoff.submit": "Submit Runoff Vote",
+
+  // VotingViews
+  "hostVoting.title": "Topic Voting",
+  "hostVoting.voted": "{voted}/{total} voted",
+  "hostVoting.away": "(away)",
+  "hostVoting.liveResults": "Live Results",
+  "hostVoting.viewResults": "View Results & Choose Topics",
+  "hostVoting.skip": "Skip to Results",
+  "guestVoting.submitted": "Votes Submitted!",
+  "guestVoting.closed": "Voting Closed",
+  "guestVoting.waiting": "Waiting for the host to reveal topics...",
+  "guestVoting.results": "Vote Results",
+  "guestVoting.title": "Pick Your Topics",
+  "guestVoting.selected": "{selected} of {total} selected",
+  "guestVoting.intro": {
+    one: "Choose {count} topic you'd love to talk about today.",
+    other: "Choose {count} topics you'd love to talk about today.",
+  },
+  "guestVoting.rankedHint": "Your first pick counts the most.",
+  "guestVoting.ranking": "Your Ranking · drag to reorder",
+  "guestVoting.submit": "Submit Votes",
+
+  // TopicViews
+  "tiePanel.title": { one: "Tie for the last spot", other: "Tie for the last {count} spots" },
+  "tiePanel.body": "{tied} topics are tied. Pick {seats} yourself, let the table vote again, or draw at random.",
+  "tiePanel.lockIn": { one: "Lock In Pick", other: "Lock In Picks" },
+  "tiePanel.runoff": "Runoff Vote",
+  "tiePanel.random": "Random Draw",
+  "topicResults.title": "Topic Results",
+  "topicResults.subtitle": "Confirm the top {count} or override",
+  "topicResults.intro": "Tap to select or deselect topics. You can override the vote results.",
+  "topicResults.tie": "Tie",
+  "topicResults.selected": "{selected}/{total} selected",
+  "topicResults.reveal": "Reveal Topics to Guests",
+  "reveal.tonightsTopics": "Tonight's Topics",
+  "reveal.reveal": "Reveal",
+  "reveal.tonightsTopicsAre": "Tonight's Topics Are...",
+  "reveal.startQuestions": "Start Questions",
+
+  // QuestionBankTransfer
+  "transfer.title": "Import & Export",
+  "transfer.exportTitle": "Export the bank",
+  "transfer.exportHint": "JSON is a full backup, archived content included; CSV has the active bank",
+  "transfer.loadFailed": "Couldn't load the question bank",
+  "transfer.import": "Import",
+  "transfer.importHint": "CSV with topic, question and optional depth columns, or a JSON export",
+  "transfer.chooseFile": "Choose a file...",
+  "transfer.moreErrors": "and {count} more",
+  "transfer.newTopics": { one: "{count} new topic", other: "{count} new topics" },
+  "transfer.newQuestions": { one: "{count} new question", other: "{count} new questions" },
+  "transfer.duplicates": { one: "{count} duplicate skipped", other: "{count} duplicates skipped" },
+  "transfer.repeatedInFile": "repeated in file",
+  "transfer.alreadyInBank": "already in bank",
+  "transfer.importing": "Importing...",
+  "transfer.nothingNew": "Nothing New to Import",
+  "transfer.failed": "Failed to import questions",
+  "transfer.imported": "Imported {questions} and {topics}",
+  "transfer.error.missingTopic": "Row {row}: missing topic",
+  "transfer.error.badDepth": "Row {row}: depth must be 1-3 or light, medium, deep",
+  "transfer.error.csvHeader": 'The first row must name the "topic" and "question" columns',
+  "transfer.error.invalidJson": "The file isn't valid JSON",
+  "transfer.error.jsonShape": 'Expected a list of topics or a "topics" field',
+
+  // AdminView
+  "admin.title": "Admin Panel",
+  "admin.subtitle": "{topics} topics · {questions} questions",
+  "admin.signOut": "Sign Out",
+  "admin.tab.topics": "Topics",
+  "admin.tab.questions": "Questions",
+  "admin.tab.history": "History",
+  "admin.tab.activity": "Activity",
+  "admin.tab.settings": "Settings",
+  "admin.archive": "Archive",
+  "admin.confirmArchive": "Confirm Archive",
+  "admin.moveUp": "Move up",
+  "admin.moveDown": "Move down",
+  "admin.topics.newPlaceholder": "New topic name...",
+  "admin.topics.descriptionPlaceholder": "Short description for guests...",
+  "admin.topics.questionCount": "{count} Q",
+  "admin.topics.archiveConfirm": {
+    one: 'Archive "{name}"? Its {count} question is hidden from new sessions until you restore it.',
+    other: 'Archive "{name}"? Its {count} questions are hidden from new sessions until you restore it.',
+  },
+  "admin.archived.title": "Archived ({count})",
+  "admin.archived.topic": "Topic",
+  "admin.archived.restore": "Restore",
+  "admin.archived.purge": "Purge",
+  "admin.archived.checking": "Checking what this affects...",
+  "admin.archived.inUse": {
+    one: "In use by {count} live session. Purge it once it ends.",
+    other: "In use by {count} live sessions. Purge it once they end.",
+  },
+  "admin.archived.close": "Close",
+  "admin.archived.deletePermanently": "Delete Permanently",
+  "admin.archived.impactFailed": "Couldn't work out what purging would remove.",
+  "admin.archived.purgeFailed": "Purge failed.",
+  "admin.impact":
+    "This deletes {questions} for good, along with {picks} and {votes} across {sessions}. Archived session history keeps its snapshots.",
+  "admin.impact.questions": { one: "{count} question", other: "{count} questions" },
+  "admin.impact.picks": { one: "{count} pick", other: "{count} picks" },
+  "admin.impact.votes": { one: "{count} vote", other: "{count} votes" },
+  "admin.impact.sessions": { one: "{count} session", other: "{count} sessions" },
+  "admin.availableFrom": "Available from",
+  "admin.availableUntil": "Until",
+  "admin.translation.original": "English",
+  "admin.translation.fallback": "Uses English",
+  "admin.suggestions.title": "Guest Suggestions ({count})",
+  "admin.suggestions.addToBank": "Add to Bank",
+  "admin.duplicates.exactWarning": "This question is already in the bank",
+  "admin.duplicates.similarWarning": "Similar questions are already in the bank",
+  "admin.duplicates.exact": "exact",
+  "admin.duplicates.similar": "{percent}% similar",
+  "admin.duplicates.saveAnyway": "Save Anyway",
+  "admin.duplicates.find": "Find Duplicates",
+  "admin.duplicates.searching": "Searching...",
+  "admin.duplicates.title": "Possible Duplicates ({count})",
+  "admin.duplicates.close": "Close",
+  "admin.duplicates.none": "No similar questions found.",
+  "admin.duplicates.keep": "Keep",
+  "admin.duplicates.findFailed": "Failed to find duplicates",
+  "admin.duplicates.mergeFailed": "Failed to merge questions",
+  "admin.questions.searchPlaceholder": "Search questions...",
+  "admin.questions.filterTopic": "Filter by topic",
+  "admin.questions.allTopics": "All Topics",
+  "admin.questions.sort.created": "Newest",
+  "admin.questions.sort.updated": "Recently edited",
+  "admin.questions.sort.picked": "Most picked",
+  "admin.questions.sort.reactions": "Most reactions",
+  "admin.questions.allStatuses": "All",
+  "admin.questions.newPlaceholder": "New question text...",
+  "admin.questions.assignTopic": "Assign topic",
+  "admin.questions.asked": "Asked {count}×",
+  "admin.questions.none": "No questions found.",
+  "admin.questions.previous": "Previous",
+  "admin.questions.next": "Next",
+  "admin.questions.page": {
+    one: "Page {page} of {pages} · {count} question",
+    other: "Page {page} of {pages} · {count} questions",
+  },
+  "admin.history.empty": "No session history yet.",
+  "admin.history.guestCount": { one: "{count} guest", other: "{count} guests" },
+  "admin.history.start": "Start",
+  "admin.history.end": "End",
+  "admin.history.topics": "Topics",
+  "admin.history.rules": "Rules",
+  "admin.history.votingRule": "{mode} voting",
+  "admin.history.votesPerGuest": { one: "{count} vote per guest", other: "{count} votes per guest" },
+  "admin.history.drawRule": "{strategy} draw",
+  "admin.history.turnRule": "{mode} turns",
+  "admin.history.guests": "Guests",
+  "admin.history.questionsPicked": "Questions Picked ({count})",
+  "admin.history.passedCount": "{count} passed",
+  "admin.history.round": "Round {round}",
+  "admin.history.passed": "Passed",
+  "admin.history.delete": "Delete Record",
+  "admin.activity.loading": "Loading activity...",
+  "admin.activity.empty": "No changes to the question bank yet",
+  "admin.activity.system": "System",
+  "admin.activity.revert": "Revert",
+  "admin.activity.reverting": "Reverting...",
+  "admin.activity.loadOlder": "Load Older",
+  "admin.activity.loadFailed": "Failed to load activity",
+  "admin.activity.revertFailed": "Failed to revert edit",
+  "admin.settings.loading": "Loading settings...",
+  "admin.settings.loadFailed": "Failed to load settings",
+  "admin.settings.saveFailed": "Failed to save settings",
+  "admin.settings.freshness": "Question Freshness",
+  "admin.settings.recentSessions": "Recent sessions",
+  "admin.settings.recentSessions.off": "Off - every question can come up",
+  "admin.settings.recentSessions.on": "Questions asked in these sessions are held back",
+  "admin.settings.heldBack": "Held-back questions",
+  "admin.settings.heldBack.exclude": "Left out unless nothing else is left",
+  "admin.settings.heldBack.deprioritize": "Drawn only after fresh ones",
+  "admin.settings.exclude": "Exclude",
+  "admin.settings.later": "Later",
+  "admin.settings.returningGuests": "Returning guests",
+  "admin.settings.returningGuests.hint": "Hold back questions a guest already answered at any earlier table",
+  "admin.settings.language": "Interface language",
+  "admin.settings.language.hint": "Remembered on this device",
+
+  // Action errors (utils/actionResult)
+  "error.retry": "Retry",
+  "error.generic": "Something went wrong. Check your connection and try again.",
+  "errorCode.alreadyEnded": "This session has already ended.",
+  "errorCode.alreadyPicked": "You already have a question this round.",
+  "errorCode.alreadyVoted": "Your votes are already in.",
+  "errorCode.entryNotFound": "That change is no longer in the activity log.",
+  "errorCode.guestNotFound": "That guest is no longer at the table.",
+  "errorCode.guestRemoved": "The host removed you from this session.",
+  "errorCode.inUse": "A session that is still running uses this. Try again once it has ended.",
+  "errorCode.invalidImport": "The file couldn't be imported. Check its topics and depths.",
+  "errorCode.invalidNickname": "Please enter a nickname.",
+  "errorCode.invalidPhase": "The session has already moved on. The screen will catch up in a moment.",
+  "errorCode.invalidRejoinToken": "Your seat couldn't be restored. Join the session again.",
+  "errorCode.invalidSettings": "Those settings aren't valid.",
+  "errorCode.invalidSuggestion": "Questions need between 5 and 300 characters.",
+  "errorCode.invalidTieSelection": "Pick as many of the tied topics as there are spots left.",
+  "errorCode.invalidTopic": "That topic isn't in the runoff.",
+  "errorCode.invalidTopicCount": "Confirm as many topics as the session settings ask for.",
+  "errorCode.invalidVoteCount": "Pick as many topics as the host asked for.",
+  "errorCode.nicknameTaken": "Someone at this table already has that nickname.",
+  "errorCode.noPassesLeft": "You've used all your passes.",
+  "errorCode.noQuestions": "There are no questions left to draw. The host can add more.",
+  "errorCode.noTie": "There's no tie to break.",
+  "errorCode.notAdmin": "Only organizers can do that. Try signing in again.",
+  "errorCode.notArchived": "Archive it before purging it.",
+  "errorCode.notHost": "Only the host can do that.",
+  "errorCode.notRevertible": "Only question text edits can be reverted.",
+  "errorCode.notYourTurn": "Wait for your turn.",
+  "errorCode.nothingToAdd": "There are no new questions to add.",
+  "errorCode.nothingToMerge": "There are no questions to merge.",
+  "errorCode.nothingToPass": "You don't have a question to pass on.",
+  "errorCode.ownQuestion": "You can't react to your own question.",
+  "errorCode.questionNotFound": "That question no longer exists.",
+  "errorCode.runoffClosed": "The runoff vote is closed.",
+  "errorCode.sessionEnded": "This session has ended.",
+  "errorCode.sessionNotFound": "We couldn't find that session. Check the code and try again.",
+  "errorCode.settingsLocked": "Settings can only be changed in the lobby.",
+  "errorCode.suggestionReviewed": "That suggestion has already been reviewed.",
+  "errorCode.tooManySuggestions": "Wait for the host to review your other suggestions.",
+  "errorCode.topicNotFound": "That topic no longer exists.",
+  "errorCode.topicRequired": "Choose a topic for this question.",
+  "errorCode.topicUnavailable": "One of those topics is no longer available. Pick again.",
+  "errorCode.duplicate": "That already exists.",
+
+  // Failed actions (AppContext)
+  "failed.loadHistory": "Couldn't load session history",
+  "failed.addTopic": "Couldn't add the topic",
+  "failed.editTopic": "Couldn't save the topic",
+  "failed.reorderTopics": "Couldn't reorder the topics",
+  "failed.archiveTopic": "Couldn't archive the topic",
+  "failed.restoreTopic": "Couldn't restore the topic",
+  "failed.addQuestion": "Couldn't add the question",
+  "failed.editQuestion": "Couldn't save the question",
+  "failed.archiveQuestion": "Couldn't archive the question",
+  "failed.restoreQuestion": "Couldn't restore the question",
+  "failed.deleteSessionRecord": "Couldn't delete the session record",
+  "failed.promoteSuggestion": "Couldn't add the suggestion to the bank",
+  "failed.dismissSuggestion": "Couldn't dismiss the suggestion",
+  "failed.createSession": "Couldn't create the session",
+  "failed.advancePhase": "Couldn't move the session on",
+  "failed.updateSettings": "Couldn't save the session settings",
+  "failed.removeGuest": "Couldn't remove the guest",
+  "failed.setGuestAway": "Couldn't update the guest",
+  "failed.reviewSuggestion": "Couldn't review the suggestion",
+  "failed.submitVotes": "Couldn't submit your votes",
+  "failed.confirmTopics": "Couldn't confirm the topics",
+  "failed.revealTopics": "Couldn't move on to the topic reveal",
+  "failed.resolveTie": "Couldn't break the tie",
+  "failed.submitRunoffVote": "Couldn't submit your runoff vote",
+  "failed.closeRunoff": "Couldn't close the runoff",
+  "failed.pickQuestion": "Couldn't draw a question",
+  "failed.passQuestion": "Couldn't pass on the question",
+  "failed.react": "Couldn't send your reaction",
+  "failed.advanceSpotlight": "Couldn't move the spotlight",
+  "failed.nextRound": "Couldn't start the next round",
+  "failed.endSession": "Couldn't end the session",
+};
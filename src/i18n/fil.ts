@@ -0,0 +1,515 @@
+/**
+ * Filipino interface messages
+ * Every English key has to be here; Filipino rarely changes form for a count, so most plurals are a single string
+ */
+
+import type { Catalogue } from ".";
+
+export const fil: Catalogue = {
+  // Shared labels (utils)
+  "depth.light": "Magaan",
+  "depth.medium": "Katamtaman",
+  "depth.deep": "Malalim",
+
+  "votingMode.approval": "Approval",
+  "votingMode.approval.hint": "Isang boto ang bawat pili",
+  "votingMode.ranked": "Ranked",
+  "votingMode.ranked.hint": "Instant-runoff ayon sa pagkakasunod ng mga pili",
+  "votingMode.points": "Puntos",
+  "votingMode.points.hint": "Mas mataas na puwesto, mas maraming puntos",
+
+  "score.approval": "{count} boto",
+  "score.ranked": "{count} unang pili",
+  "score.points": "{count} pt",
+
+  "drawStrategy.random": "Random",
+  "drawStrategy.random.hint": "Galing sa binalasang pool ang mga tanong",
+  "drawStrategy.roundRobin": "Balanse",
+  "drawStrategy.roundRobin.hint": "Lalabas ang bawat paksa bago may maulit",
+  "drawStrategy.avoidRepeat": "Halo-halo",
+  "drawStrategy.avoidRepeat.hint": "Hindi magkakaroon ang bisita ng parehong paksa nang dalawang beses na sunod",
+
+  "turnMode.parallel": "Sabay-sabay",
+  "turnMode.parallel.hint": "Pipili ang lahat kapag handa na sila",
+  "turnMode.joinOrder": "Ayon sa Pagsali",
+  "turnMode.joinOrder.hint": "Isa-isang magsasalita, ayon sa pagkakasunod ng pagsali",
+  "turnMode.shuffled": "Binalasa",
+  "turnMode.shuffled.hint": "Isa-isang magsasalita, sa random na pagkakasunod",
+
+  "tieBreak.host": "Desisyon ng host",
+  "tieBreak.random": "Random na bunutan",
+  "tieBreak.runoff": "Runoff na botohan",
+  "tieBreak.randomFallback": "{method} (napagpasyahan sa random na bunutan)",
+  "tieBreak.brokenBy": "Naresolba ang tabla sa {method}",
+
+  "selectionReason.votes": "Nanalo sa botohan",
+  "selectionReason.tieBreak": "Nanalo sa tie-break",
+  "selectionReason.hostOverride": "Pili ng host",
+  "selectionReason.topUp": "Idinagdag sa gitna ng session",
+
+  "reaction.heart": "Gusto ko",
+  "reaction.laugh": "Nakakatawa",
+  "reaction.thought": "Nakakapag-isip",
+
+  "topicColor.amber": "Amber",
+  "topicColor.rose": "Rosas",
+  "topicColor.orange": "Kahel",
+  "topicColor.emerald": "Berde",
+  "topicColor.sky": "Asul",
+  "topicColor.violet": "Lila",
+  "topicColor.stone": "Abo",
+
+  "publication.draft": "Draft",
+  "publication.published": "Nakalathala",
+  "publication.retired": "Retirado",
+  "availability.from": "Mula {date}",
+  "availability.until": "Hanggang {date}",
+  "availability.outOfSeason": "Wala sa panahon",
+
+  "audit.insert.topics": "Nagdagdag ng paksa",
+  "audit.insert.questions": "Nagdagdag ng tanong",
+  "audit.update.topics": "Binago ang paksa",
+  "audit.update.questions": "Binago ang tanong",
+  "audit.archive.topics": "Na-archive ang paksa",
+  "audit.archive.questions": "Na-archive ang tanong",
+  "audit.restore.topics": "Ibinalik ang paksa",
+  "audit.restore.questions": "Ibinalik ang tanong",
+  "audit.delete.topics": "Binura ang paksa",
+  "audit.delete.questions": "Binura ang tanong",
+
+  // Shared
+  "common.backToHome": "Bumalik sa Simula",
+  "common.cancel": "Kanselahin",
+  "common.save": "I-save",
+  "common.edit": "I-edit",
+  "common.add": "Idagdag",
+  "common.dismiss": "Isara",
+  "common.on": "Bukas",
+  "common.off": "Sarado",
+  "common.waitingForHost": "Hinihintay ang host",
+  "language.label": "Wika",
+
+  // HomeView
+  "home.title": "The Shared\nTable",
+  "home.tagline": "Magsalo sa pagkain. Magbahagi ng kuwento.\nMga pagtitipon ng komunidad sa Baguio City.",
+  "home.restoring": "Ibinabalik ka sa iyong mesa...",
+  "home.host": "Mag-host ng Pagtitipon",
+  "home.join": "Sumali sa Session",
+  "home.organizer": "Panel ng Organizer",
+
+  // HostOnly
+  "hostOnly.title": "Para sa Host Lamang",
+  "hostOnly.body": "Makikita lang ang screen na ito sa device na gumawa ng session.",
+
+  // AdminLoginView
+  "adminLogin.title": "Login ng Organizer",
+  "adminLogin.intro":
+    "Mag-sign in gamit ang admin account para pamahalaan ang mga paksa, tanong, at kasaysayan ng session.",
+  "adminLogin.email": "Email",
+  "adminLogin.password": "Password",
+  "adminLogin.failed": "Hindi naka-login",
+  "adminLogin.signingIn": "Nagsa-sign in...",
+  "adminLogin.signIn": "Mag-sign In",
+
+  // EndedView
+  "ended.title": "Salamat sa pagbabahagi\nng iyong mesa.",
+  "ended.body":
+    "Nagkakaroon ng magagandang usapan kapag nagiging magkaibigan ang mga dating hindi magkakilala. Kita-kits sa susunod na pagtitipon.",
+  "ended.summary": "Session {code} · {count} tanong ang napag-usapan",
+
+  // Notices
+  "notice.removed": "Inalis ka ng host sa session.",
+
+  // JoinViews
+  "join.title": "Sumali sa Session",
+  "join.codeTitle": "Ilagay ang Code ng Session",
+  "join.codeHint": "Hingin sa host ang 5-character na code.",
+  "join.codePlaceholder": "hal. ABC12",
+  "join.findSession": "Hanapin ang Session",
+  "join.nicknameTitle": "Ano ang pangalan mo?",
+  "join.nicknameHint": "Pumili ng palayaw para sa pagtitipong ito.",
+  "join.nicknamePlaceholder": "Iyong palayaw",
+  "join.nicknameRequired": "Maglagay ng palayaw.",
+  "join.questionsIn": "Wika ng Tanong",
+  "join.failed": "Hindi nakasali sa session",
+  "join.joining": "Sumasali...",
+  "join.joinTable": "Sumali sa Mesa",
+  "lobby.youreIn": "Kasali Ka Na!",
+  "lobby.waiting": "Hinihintay na magsimula ang host...",
+  "lobby.session": "Session",
+  "lobby.guests": "Mga Bisita ({count})",
+
+  // SessionViews
+  "createSession.title": "Mag-host ng Pagtitipon",
+  "createSession.heading": "Magsimula ng Bagong Session",
+  "createSession.body": "Gumawa ng session para sa pagtitipon at ibahagi ang code sa iyong mga bisita.",
+  "createSession.create": "Gumawa ng Session",
+  "hostLobby.title": "Lobby ng Session",
+  "hostLobby.subtitle": "Hinihintay ang mga bisita",
+  "hostLobby.close": "Isara",
+  "hostLobby.sessionCode": "Code ng Session",
+  "hostLobby.scanToJoin": "Puwedeng i-scan ng mga bisita ang QR code na ito para sumali",
+  "hostLobby.qrAlt": "QR Code ng Session",
+  "hostLobby.startVoting": "Simulan ang Botohan ng Paksa",
+
+  // GuestManager
+  "guests.title": "Mga Bisita",
+  "guests.away": "Wala",
+  "guests.renameFailed": "Hindi napalitan ang pangalan ng bisita",
+  "guests.rename": "Palitan ang Pangalan",
+  "guests.markBack": "Markahang Nakabalik",
+  "guests.markAway": "Markahang Wala",
+  "guests.confirm": "Kumpirmahin",
+  "guests.remove": "Alisin",
+  "guests.done": "Tapos",
+  "guests.manage": "Pamahalaan ({count})",
+  "guests.empty": "Wala pang bisita",
+
+  // SessionSettingsPanel
+  "settings.votingRules": "Mga Tuntunin sa Botohan",
+  "settings.votesPerGuest": "Boto bawat bisita",
+  "settings.votesPerGuest.hint": "Ilang paksa ang pipiliin ng bawat bisita",
+  "settings.topicsToConfirm": "Paksang kukumpirmahin",
+  "settings.topicsToConfirm.hint": "Mga paksang gagamitin sa mga tanong",
+  "settings.questionDraw": "Pagbunot ng tanong",
+  "settings.turns": "Mga turno",
+  "settings.warmUp": "Painit",
+  "settings.warmUp.hint": "Magagaang tanong muna, mas malalalim sa mga susunod na round",
+  "settings.passesPerGuest": "Pass bawat bisita",
+  "settings.passesPerGuest.hint": "Ilang tanong ang puwedeng palitan ng bisita",
+  "settings.passedQuestions": "Mga pinasang tanong",
+  "settings.passMode.return.hint": "Ibabalik sa dulo ng pool",
+  "settings.passMode.retire.hint": "Hindi na itatanong muli",
+  "settings.passMode.return": "Ibalik",
+  "settings.passMode.retire": "Iretiro",
+
+  // QuestionViews
+  "hostQuestions.round": "Round {round}",
+  "hostQuestions.remaining": "{count} tanong pa ang natitira",
+  "hostQuestions.end": "Tapusin",
+  "hostQuestions.passes": "{count} pass",
+  "hostQuestions.away": "Wala",
+  "hostQuestions.waiting": "Naghihintay...",
+  "hostQuestions.poolEmpty": "Wala nang tanong!",
+  "hostQuestions.poolEmpty.body":
+    "Nagamit na ang lahat ng tanong mula sa mga napiling paksa. Magdagdag ng paksa o balasahin muli ang mga naitanong para makapagpatuloy.",
+  "hostQuestions.startRound": "Simulan ang Round {round}",
+  "hostQuestions.skipRound": "Lumaktaw sa Susunod na Round",
+  "hostQuestions.endGathering": "Tapusin ang Pagtitipon",
+  "guestQuestion.yourQuestion": "Ang Iyong Tanong",
+  "guestQuestion.shareSpotlight": "Ibahagi ang sagot mo sa mesa. Ipapasa ng host ang spotlight kapag tapos ka na.",
+  "guestQuestion.shareRound":
+    "Ibahagi ang sagot mo sa mesa. Sisimulan ng host ang susunod na round kapag handa na ang lahat.",
+  "guestQuestion.drawing": "Bumubunot...",
+  "guestQuestion.pass": "Pass ({count} natitira)",
+  "guestQuestion.round": "Round {round}",
+  "guestQuestion.tapToPick": "Pindutin ang button para makuha ang iyong tanong. Sagutin ito nang malakas sa mesa.",
+  "guestQuestion.waitForTurn": "Makinig muna. Makakapili ka kapag ikaw na ang nasa spotlight.",
+  "guestQuestion.poolEmpty": "Wala nang tanong!",
+  "guestQuestion.poolEmpty.body": "Naubos na ang mga tanong sa pool.",
+  "guestQuestion.pick": "BUMUNOT",
+
+  // SpotlightBanner
+  "spotlight.you": "Ikaw",
+  "spotlight.speakingNow": "Nagsasalita Ngayon",
+  "spotlight.everyoneHadTurn": "Nakapagsalita na ang lahat",
+  "spotlight.upNext": "Susunod:",
+  "spotlight.resume": "Ituloy ang mga Turno",
+  "spotlight.next": "Susunod na Magsasalita",
+  "spotlight.finish": "Tapusin ang Turno",
+
+  // PoolTopUp
+  "poolTopUp.failed": "Hindi naidagdag ang mga tanong",
+  "poolTopUp.title": "Dagdag na Tanong",
+  "poolTopUp.allInPlay": "Ginagamit na ang lahat ng paksa.",
+  "poolTopUp.reshuffle": "Balasahin muli ang mga naitanong",
+  "poolTopUp.reshuffle.hint": "Ibabalik ang mga tanong mula sa mga naunang round",
+  "poolTopUp.adding": "Idinadagdag...",
+  "poolTopUp.add": "Idagdag sa Pool",
+
+  // QuestionSuggestions
+  "suggestions.status.pending": "Hinihintay ang host",
+  "suggestions.status.added": "Naidagdag",
+  "suggestions.status.rejected": "Hindi ginamit",
+  "suggestions.failed": "Hindi naipadala ang mungkahi",
+  "suggestions.placeholder": "Ang iyong tanong...",
+  "suggestions.topic": "Paksa",
+  "suggestions.send": "Ipadala",
+  "suggestions.suggest": "Magmungkahi ng Tanong",
+  "suggestions.from": "mula kay {nickname}",
+  "suggestions.approve": "Aprubahan",
+  "suggestions.reject": "Tanggihan",
+  "suggestions.queueTitle": "Mga Mungkahing Tanong",
+
+  // RankList
+  "rankList.moveUp": "Itaas",
+  "rankList.moveDown": "Ibaba",
+  "rankList.drag": "I-drag para ayusin",
+
+  // QuestionReactions
+  "reactions.atTheTable": "Sa Mesa",
+
+  // RunoffViews
+  "hostRunoff.title": "Runoff na Botohan",
+  "hostRunoff.voted": "{voted}/{total} ang bumoto",
+  "hostRunoff.intro": {
+    one: "Pumipili ang mga bisita sa pagitan ng mga tablang paksa para sa huling puwesto.",
+    other: "Pumipili ang mga bisita sa pagitan ng mga tablang paksa para sa {count} puwesto.",
+  },
+  "hostRunoff.results": "Resulta ng Runoff",
+  "hostRunoff.close": "Isara ang Runoff",
+  "hostRunoff.closeEarly": "Isara nang Maaga ang Runoff",
+  "hostRunoff.tieNote": "Kapag tabla pa rin sa runoff, random na bunutan ang magpapasya.",
+  "guestRunoff.cast": "Naiboto na ang Runoff!",
+  "guestRunoff.waiting": "Hinihintay na isara ng host ang runoff...",
+  "guestRunoff.title": "Basagin ang Tabla",
+  "guestRunoff.subtitle": "Pumili ng isang paksa",
+  "guestRunoff.intro": "Tabla ang mga paksang ito sa botohan. Alin ang dapat makapasok?",
+  "guestRunoff.submit": "Ipasa ang Runoff na Boto",
+
+  // VotingViews
+  "hostVoting.title": "Botohan ng Paksa",
+  "hostVoting.voted": "{voted}/{total} ang bumoto",
+  "hostVoting.away": "(wala)",
+  "hostVoting.liveResults": "Live na Resulta",
+  "hostVoting.viewResults": "Tingnan ang Resulta at Pumili ng Paksa",
+  "hostVoting.skip": "Lumaktaw sa Resulta",
+  "guestVoting.submitted": "Naipasa na ang mga Boto!",
+  "guestVoting.closed": "Sarado na ang Botohan",
+  "guestVoting.waiting": "Hinihintay na ipakita ng host ang mga paksa...",
+  "guestVoting.results": "Resulta ng Botohan",
+  "guestVoting.title": "Piliin ang Iyong mga Paksa",
+  "guestVoting.selected": "{selected} sa {total} ang napili",
+  "guestVoting.intro": "Pumili ng {count} paksang gusto mong pag-usapan ngayon.",
+  "guestVoting.rankedHint": "Pinakamabigat ang iyong unang pili.",
+  "guestVoting.ranking": "Iyong Ranggo · i-drag para ayusin",
+  "guestVoting.submit": "Ipasa ang mga Boto",
+
+  // TopicViews
+  "tiePanel.title": { one: "Tabla para sa huling puwesto", other: "Tabla para sa huling {count} puwesto" },
+  "tiePanel.body": "{tied} paksa ang tabla. Pumili ng {seats} mismo, pabotohin muli ang mesa, o bumunot nang random.",
+  "tiePanel.lockIn": "I-lock ang Pili",
+  "tiePanel.runoff": "Runoff na Botohan",
+  "tiePanel.random": "Random na Bunutan",
+  "topicResults.title": "Resulta ng mga Paksa",
+  "topicResults.subtitle": "Kumpirmahin ang nangungunang {count} o baguhin",
+  "topicResults.intro": "Pindutin para piliin o alisin ang mga paksa. Puwede mong baguhin ang resulta ng botohan.",
+  "topicResults.tie": "Tabla",
+  "topicResults.selected": "{selected}/{total} ang napili",
+  "topicResults.reveal": "Ipakita ang mga Paksa sa mga Bisita",
+  "reveal.tonightsTopics": "Mga Paksa Ngayong Gabi",
+  "reveal.reveal": "Ipakita",
+  "reveal.tonightsTopicsAre": "Ang mga Paksa Ngayong Gabi ay...",
+  "reveal.startQuestions": "Simulan ang mga Tanong",
+
+  // QuestionBankTransfer
+  "transfer.title": "Import at Export",
+  "transfer.exportTitle": "I-export ang bangko",
+  "transfer.exportHint": "Buong backup ang JSON, kasama ang naka-archive; nasa CSV ang aktibong bangko",
+  "transfer.loadFailed": "Hindi ma-load ang bangko ng tanong",
+  "transfer.import": "I-import",
+  "transfer.importHint": "CSV na may column na topic, question at opsyonal na depth, o isang JSON export",
+  "transfer.chooseFile": "Pumili ng file...",
+  "transfer.moreErrors": "at {count} pa",
+  "transfer.newTopics": "{count} bagong paksa",
+  "transfer.newQuestions": "{count} bagong tanong",
+  "transfer.duplicates": "{count} doble ang nilaktawan",
+  "transfer.repeatedInFile": "umulit sa file",
+  "transfer.alreadyInBank": "nasa bangko na",
+  "transfer.importing": "Ini-import...",
+  "transfer.nothingNew": "Walang Bagong I-import",
+  "transfer.failed": "Hindi na-import ang mga tanong",
+  "transfer.imported": "Na-import ang {questions} at {topics}",
+  "transfer.error.missingTopic": "Hilera {row}: walang paksa",
+  "transfer.error.badDepth": "Hilera {row}: ang depth ay dapat 1-3 o light, medium, deep",
+  "transfer.error.csvHeader": 'Dapat nakasulat sa unang hilera ang mga column na "topic" at "question"',
+  "transfer.error.invalidJson": "Hindi valid na JSON ang file",
+  "transfer.error.jsonShape": 'Inaasahan ang listahan ng mga paksa o field na "topics"',
+
+  // AdminView
+  "admin.title": "Admin Panel",
+  "admin.subtitle": "{topics} paksa · {questions} tanong",
+  "admin.signOut": "Mag-sign Out",
+  "admin.tab.topics": "Paksa",
+  "admin.tab.questions": "Tanong",
+  "admin.tab.history": "Kasaysayan",
+  "admin.tab.activity": "Aktibidad",
+  "admin.tab.settings": "Setting",
+  "admin.archive": "I-archive",
+  "admin.confirmArchive": "Kumpirmahin ang Pag-archive",
+  "admin.moveUp": "Itaas",
+  "admin.moveDown": "Ibaba",
+  "admin.topics.newPlaceholder": "Pangalan ng bagong paksa...",
+  "admin.topics.descriptionPlaceholder": "Maikling paglalarawan para sa mga bisita...",
+  "admin.topics.questionCount": "{count} T",
+  "admin.topics.archiveConfirm":
+    'I-archive ang "{name}"? Itatago ang {count} tanong nito sa mga bagong session hangga\'t hindi mo ito ibinabalik.',
+  "admin.archived.title": "Naka-archive ({count})",
+  "admin.archived.topic": "Paksa",
+  "admin.archived.restore": "Ibalik",
+  "admin.archived.purge": "Burahin",
+  "admin.archived.checking": "Tinitingnan kung ano ang maaapektuhan...",
+  "admin.archived.inUse": "Ginagamit ng {count} live na session. Burahin ito kapag natapos na ang mga ito.",
+  "admin.archived.close": "Isara",
+  "admin.archived.deletePermanently": "Burahin nang Tuluyan",
+  "admin.archived.impactFailed": "Hindi matukoy kung ano ang mabubura.",
+  "admin.archived.purgeFailed": "Hindi nabura.",
+  "admin.impact":
+    "Tuluyang mabubura ang {questions}, kasama ang {picks} at {votes} sa {sessions}. Mananatili ang mga snapshot sa kasaysayan ng naka-archive na session.",
+  "admin.impact.questions": "{count} tanong",
+  "admin.impact.picks": "{count} pili",
+  "admin.impact.votes": "{count} boto",
+  "admin.impact.sessions": "{count} session",
+  "admin.availableFrom": "Makukuha mula",
+  "admin.availableUntil": "Hanggang",
+  "admin.translation.original": "English",
+  "admin.translation.fallback": "Gagamitin ang English",
+  "admin.suggestions.title": "Mga Mungkahi ng Bisita ({count})",
+  "admin.suggestions.addToBank": "Idagdag sa Bangko",
+  "admin.duplicates.exactWarning": "Nasa bangko na ang tanong na ito",
+  "admin.duplicates.similarWarning": "May mga katulad na tanong na sa bangko",
+  "admin.duplicates.exact": "eksakto",
+  "admin.duplicates.similar": "{percent}% magkatulad",
+  "admin.duplicates.saveAnyway": "I-save Pa Rin",
+  "admin.duplicates.find": "Hanapin ang mga Doble",
+  "admin.duplicates.searching": "Naghahanap...",
+  "admin.duplicates.title": "Posibleng Doble ({count})",
+  "admin.duplicates.close": "Isara",
+  "admin.duplicates.none": "Walang nakitang magkatulad na tanong.",
+  "admin.duplicates.keep": "Panatilihin",
+  "admin.duplicates.findFailed": "Hindi nahanap ang mga doble",
+  "admin.duplicates.mergeFailed": "Hindi napagsama ang mga tanong",
+  "admin.questions.searchPlaceholder": "Maghanap ng tanong...",
+  "admin.questions.filterTopic": "Salain ayon sa paksa",
+  "admin.questions.allTopics": "Lahat ng Paksa",
+  "admin.questions.sort.created": "Pinakabago",
+  "admin.questions.sort.updated": "Kamakailang binago",
+  "admin.questions.sort.picked": "Pinakamadalas mapili",
+  "admin.questions.sort.reactions": "Pinakamaraming reaksyon",
+  "admin.questions.allStatuses": "Lahat",
+  "admin.questions.newPlaceholder": "Teksto ng bagong tanong...",
+  "admin.questions.assignTopic": "Pumili ng paksa",
+  "admin.questions.asked": "Naitanong nang {count}×",
+  "admin.questions.none": "Walang nakitang tanong.",
+  "admin.questions.previous": "Nakaraan",
+  "admin.questions.next": "Susunod",
+  "admin.questions.page": "Pahina {page} sa {pages} · {count} tanong",
+  "admin.history.empty": "Wala pang kasaysayan ng session.",
+  "admin.history.guestCount": "{count} bisita",
+  "admin.history.start": "Simula",
+  "admin.history.end": "Wakas",
+  "admin.history.topics": "Mga Paksa",
+  "admin.history.rules": "Mga Tuntunin",
+  "admin.history.votingRule": "{mode} na botohan",
+  "admin.history.votesPerGuest": "{count} boto bawat bisita",
+  "admin.history.drawRule": "{strategy} na bunutan",
+  "admin.history.turnRule": "{mode} na turno",
+  "admin.history.guests": "Mga Bisita",
+  "admin.history.questionsPicked": "Mga Nabunot na Tanong ({count})",
+  "admin.history.passedCount": "{count} ang pinasa",
+  "admin.history.round": "Round {round}",
+  "admin.history.passed": "Pinasa",
+  "admin.history.delete": "Burahin ang Record",
+  "admin.activity.loading": "Nilo-load ang aktibidad...",
+  "admin.activity.empty": "Wala pang pagbabago sa bangko ng tanong",
+  "admin.activity.system": "Sistema",
+  "admin.activity.revert": "Ibalik",
+  "admin.activity.reverting": "Ibinabalik...",
+  "admin.activity.loadOlder": "Mag-load ng Mas Luma",
+  "admin.activity.loadFailed": "Hindi na-load ang aktibidad",
+  "admin.activity.revertFailed": "Hindi naibalik ang pagbabago",
+  "admin.settings.loading": "Nilo-load ang mga setting...",
+  "admin.settings.loadFailed": "Hindi na-load ang mga setting",
+  "admin.settings.saveFailed": "Hindi na-save ang mga setting",
+  "admin.settings.freshness": "Pagkasariwa ng Tanong",
+  "admin.settings.recentSessions": "Mga kamakailang session",
+  "admin.settings.recentSessions.off": "Sarado - puwedeng lumabas ang kahit anong tanong",
+  "admin.settings.recentSessions.on": "Ipinagpapaliban ang mga tanong na naitanong sa mga session na ito",
+  "admin.settings.heldBack": "Mga ipinagpalibang tanong",
+  "admin.settings.heldBack.exclude": "Hindi isasama maliban kung wala nang iba",
+  "admin.settings.heldBack.deprioritize": "Bubunutin lang pagkatapos ng mga bago",
+  "admin.settings.exclude": "Huwag Isama",
+  "admin.settings.later": "Mamaya",
+  "admin.settings.returningGuests": "Mga bumabalik na bisita",
+  "admin.settings.returningGuests.hint": "Ipagpaliban ang mga tanong na nasagot na ng bisita sa naunang mesa",
+  "admin.settings.language": "Wika ng interface",
+  "admin.settings.language.hint": "Tatandaan sa device na ito",
+
+  // Action errors (utils/actionResult)
+  "error.retry": "Subukan Muli",
+  "error.generic": "May nagkaproblema. Tingnan ang iyong koneksyon at subukan muli.",
+  "errorCode.alreadyEnded": "Tapos na ang session na ito.",
+  "errorCode.alreadyPicked": "May tanong ka na ngayong round.",
+  "errorCode.alreadyVoted": "Naipasa na ang iyong mga boto.",
+  "errorCode.entryNotFound": "Wala na sa talaan ng aktibidad ang pagbabagong iyon.",
+  "errorCode.guestNotFound": "Wala na sa mesa ang bisitang iyon.",
+  "errorCode.guestRemoved": "Inalis ka ng host sa session na ito.",
+  "errorCode.inUse": "May tumatakbong session na gumagamit nito. Subukan muli kapag natapos na ito.",
+  "errorCode.invalidImport": "Hindi ma-import ang file. Tingnan ang mga paksa at depth nito.",
+  "errorCode.invalidNickname": "Maglagay ng palayaw.",
+  "errorCode.invalidPhase": "Nakausad na ang session. Makakahabol ang screen sa ilang sandali.",
+  "errorCode.invalidRejoinToken": "Hindi maibalik ang iyong upuan. Sumali muli sa session.",
+  "errorCode.invalidSettings": "Hindi valid ang mga setting na iyon.",
+  "errorCode.invalidSuggestion": "Kailangang 5 hanggang 300 character ang tanong.",
+  "errorCode.invalidTieSelection": "Pumili ng kasindaming tablang paksa gaya ng bilang ng natitirang puwesto.",
+  "errorCode.invalidTopic": "Wala sa runoff ang paksang iyon.",
+  "errorCode.invalidTopicCount": "Kumpirmahin ang bilang ng paksang hinihingi ng mga setting ng session.",
+  "errorCode.invalidVoteCount": "Pumili ng bilang ng paksang hiningi ng host.",
+  "errorCode.nicknameTaken": "May kasama na sa mesa na may ganyang palayaw.",
+  "errorCode.noPassesLeft": "Nagamit mo na ang lahat ng iyong pass.",
+  "errorCode.noQuestions": "Wala nang tanong na mabubunot. Puwedeng magdagdag ang host.",
+  "errorCode.noTie": "Walang tablang kailangang resolbahin.",
+  "errorCode.notAdmin": "Mga organizer lang ang makakagawa niyan. Subukang mag-sign in muli.",
+  "errorCode.notArchived": "I-archive muna ito bago burahin.",
+  "errorCode.notHost": "Ang host lang ang makakagawa niyan.",
+  "errorCode.notRevertible": "Pagbabago lang sa teksto ng tanong ang maibabalik.",
+  "errorCode.notYourTurn": "Hintayin ang iyong turno.",
+  "errorCode.nothingToAdd": "Walang bagong tanong na maidadagdag.",
+  "errorCode.nothingToMerge": "Walang tanong na mapagsasama.",
+  "errorCode.nothingToPass": "Wala kang tanong na maipapasa.",
+  "errorCode.ownQuestion": "Hindi ka puwedeng mag-react sa sarili mong tanong.",
+  "errorCode.questionNotFound": "Wala na ang tanong na iyon.",
+  "errorCode.runoffClosed": "Sarado na ang runoff na botohan.",
+  "errorCode.sessionEnded": "Natapos na ang session na ito.",
+  "errorCode.sessionNotFound": "Hindi namin mahanap ang session na iyon. Tingnan ang code at subukan muli.",
+  "errorCode.settingsLocked": "Sa lobby lang mababago ang mga setting.",
+  "errorCode.suggestionReviewed": "Nasuri na ang mungkahing iyon.",
+  "errorCode.tooManySuggestions": "Hintaying suriin ng host ang iba mo pang mungkahi.",
+  "errorCode.topicNotFound": "Wala na ang paksang iyon.",
+  "errorCode.topicRequired": "Pumili ng paksa para sa tanong na ito.",
+  "errorCode.topicUnavailable": "Hindi na puwedeng piliin ang isa sa mga paksang iyon. Pumili ulit.",
+  "errorCode.duplicate": "Mayroon na niyan.",
+
+  // Failed actions (AppContext)
+  "failed.loadHistory": "Hindi na-load ang kasaysayan ng session",
+  "failed.addTopic": "Hindi naidagdag ang paksa",
+  "failed.editTopic": "Hindi na-save ang paksa",
+  "failed.reorderTopics": "Hindi naayos ang pagkakasunod ng mga paksa",
+  "failed.archiveTopic": "Hindi na-archive ang paksa",
+  "failed.restoreTopic": "Hindi naibalik ang paksa",
+  "failed.addQuestion": "Hindi naidagdag ang tanong",
+  "failed.editQuestion": "Hindi na-save ang tanong",
+  "failed.archiveQuestion": "Hindi na-archive ang tanong",
+  "failed.restoreQuestion": "Hindi naibalik ang tanong",
+  "failed.deleteSessionRecord": "Hindi nabura ang record ng session",
+  "failed.promoteSuggestion": "Hindi naidagdag sa bangko ang mungkahi",
+  "failed.dismissSuggestion": "Hindi naisara ang mungkahi",
+  "failed.createSession": "Hindi nagawa ang session",
+  "failed.advancePhase": "Hindi naitulak pasulong ang session",
+  "failed.updateSettings": "Hindi na-save ang mga setting ng session",
+  "failed.removeGuest": "Hindi naalis ang bisita",
+  "failed.setGuestAway": "Hindi na-update ang bisita",
+  "failed.reviewSuggestion": "Hindi nasuri ang mungkahi",
+  "failed.submitVotes": "Hindi naipasa ang iyong mga boto",
+  "failed.confirmTopics": "Hindi nakumpirma ang mga paksa",
+  "failed.revealTopics": "Hindi nakausad sa pagpapakita ng mga paksa",
+  "failed.resolveTie": "Hindi naresolba ang tabla",
+  "failed.submitRunoffVote": "Hindi naipasa ang iyong runoff na boto",
+  "failed.closeRunoff": "Hindi naisara ang runoff",
+  "failed.pickQuestion": "Hindi nakabunot ng tanong",
+  "failed.passQuestion": "Hindi naipasa ang tanong",
+  "failed.react": "Hindi naipadala ang iyong reaksyon",
+  "failed.advanceSpotlight": "Hindi nailipat ang spotlight",
+  "failed.nextRound": "Hindi nasimulan ang susunod na round",
+  "failed.endSession": "Hindi natapos ang session",
+};
@@ -0,0 +1,79 @@
+/**
+ * Interface message catalogues
+ * Messages are looked up by typed key, with {name} placeholders and plural forms chosen by Intl.PluralRules
+ */
+
+import type { Locale } from "../types";
+import { en } from "./en";
+import { fil } from "./fil";
+
+// A plain message, or plural forms picked by the {count} param; "other" is required as the fallback form
+export type Message = string | (Partial<Record<Intl.LDMLPluralRule, string>> & { other: string });
+
+export type MessageKey = keyof typeof en;
+
+// Every locale has to cover every English key
+export type Catalogue = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// A message to translate later, for helpers that run outside React
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const LOCALES: Array<{ locale: Locale; label: string }> = [
+  { locale: "en", label: "English" },
+  { locale: "fil", label: "Filipino" },
+];
+
+const CATALOGUES: Record<Locale, Catalogue> = { en, fil };
+
+// BCP 47 tags for Intl formatting
+const LOCALE_TAGS: Record<Locale, string> = { en: "en-US", fil: "fil-PH" };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some((l) => l.locale === value);
+
+/**
+ * The browser's preferred interface language, or English
+ */
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator === "undefined" ? [] : navigator.languages;
+  return languages.some((l) => /^(fil|tl)\b/i.test(l)) ? "fil" : "en";
+};
+
+const interpolate = (text: string, params: MessageParams = {}): string =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+
+/**
+ * Looks up a message, falling back to English for anything a catalogue leaves blank
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message: Message = CATALOGUES[locale][key] || en[key];
+  if (typeof message === "string") return interpolate(message, params);
+
+  const count = Number(params?.count ?? 0);
+  const form = new Intl.PluralRules(LOCALE_TAGS[locale]).select(count);
+  return interpolate(message[form] ?? message.other, params);
+};
+
+/**
+ * Formats a date for the locale, e.g. "Mar 14, 2025"
+ */
+export const formatDate = (
+  locale: Locale,
+  date: string | Date,
+  options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" },
+): string => new Date(date).toLocaleDateString(LOCALE_TAGS[locale], options);
+
+/**
+ * Formats a date and time for the locale
+ */
+export const formatDateTime = (
+  locale: Locale,
+  date: string | Date,
+  options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" },
+): string => new Date(date).toLocaleString(LOCALE_TAGS[locale], options);
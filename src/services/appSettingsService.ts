@@ -0,0 +1,54 @@
+import { supabase } from "@/lib/supabase";
+import type { AppSettings } from "@/types";
+
+/**
+ * Load the admin-controlled app settings
+ */
+export async function getAppSettings() {
+  try {
+    const { data, error } = await supabase.from("app_settings").select("*").eq("id", 1).single();
+
+    if (error) throw error;
+
+    const settings: AppSettings = {
+      freshnessSessions: data.freshness_sessions,
+      freshnessMode: data.freshness_mode,
+      excludeAnswered: data.exclude_answered,
+    };
+
+    return { success: true, settings };
+  } catch (err) {
+    console.error("Error loading app settings:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load app settings",
+    };
+  }
+}
+
+/**
+ * Update the app settings (admin only)
+ * @param settings - The settings to change; omitted settings keep their current value
+ */
+export async function updateAppSettings(settings: Partial<AppSettings>) {
+  try {
+    const { error } = await supabase
+      .from("app_settings")
+      .update({
+        freshness_sessions: settings.freshnessSessions,
+        freshness_mode: settings.freshnessMode,
+        exclude_answered: settings.excludeAnswered,
+      })
+      .eq("id", 1);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error updating app settings:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update app settings",
+    };
+  }
+}
@@ -1,43 +1,68 @@
 import { supabase } from "@/lib/supabase";
+import type { ContentLanguage, Guest, SessionPhase, TopicTally, TopicTie, VotingMode } from "@/types";
+
+/**
+ * Map a guests row to the app's Guest shape
+ * @param row - The raw guests row
+ */
+function toGuest(row: any): Guest {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    nickname: row.nickname,
+    hasVoted: row.has_voted,
+    hasPicked: row.has_picked,
+    status: row.status,
+    pickedQuestionId: row.picked_question_id,
+    language: row.language,
+    joined_at: row.joined_at,
+  };
+}
 
 /**
  * Add a guest to a session
+ * Uses database RPC function so the guest and its rejoin token are created together
  * @param sessionId - The session ID
  * @param nickname - The guest's nickname
+ * @param deviceId - The device's persistent id, used to recognise returning guests
+ * @param language - The language the guest reads questions in
  */
-export async function joinSession(sessionId: string, nickname: string) {
+export async function joinSession(
+  sessionId: string,
+  nickname: string,
+  deviceId?: string,
+  language: ContentLanguage = "en",
+) {
   try {
-    const { data, error } = await supabase
-      .from("guests")
-      .insert({
-        session_id: sessionId,
-        nickname: nickname.trim(),
-      })
-      .select()
-      .single();
-
-    if (error) {
-      // Check for unique constraint violation
-      if (error.code === "23505") {
-        return {
-          success: false,
-          error: "Nickname already taken in this session",
-        };
-      }
-      throw error;
+    const { data, error } = await supabase.rpc("join_session_atomic", {
+      p_session_id: sessionId,
+      p_nickname: nickname.trim(),
+      p_device_id: deviceId ?? null,
+      p_language: language,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      guest?: any;
+      rejoin_token?: string;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to join session",
+        errorCode: result.error_code,
+      };
     }
 
     return {
       success: true,
-      guest: {
-        id: data.id,
-        sessionId: data.session_id,
-        nickname: data.nickname,
-        hasVoted: data.has_voted,
-        hasPicked: data.has_picked,
-        pickedQuestionId: data.picked_question_id,
-        joined_at: data.joined_at,
-      },
+      guest: toGuest(result.guest),
+      rejoinToken: result.rejoin_token,
     };
   } catch (err) {
     console.error("Error joining session:", err);
@@ -48,12 +73,56 @@ export async function joinSession(sessionId: string, nickname: string) {
   }
 }
 
+/**
+ * Restore a guest's seat using the rejoin token issued at join time
+ * @param guestId - The guest ID
+ * @param rejoinToken - The token returned by joinSession
+ */
+export async function rejoinSession(guestId: string, rejoinToken: string) {
+  try {
+    const { data, error } = await supabase.rpc("rejoin_session", {
+      p_guest_id: guestId,
+      p_token: rejoinToken,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      guest?: any;
+      session?: { id: string; code: string; phase: SessionPhase };
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to rejoin session",
+        errorCode: result.error_code,
+      };
+    }
+
+    return {
+      success: true,
+      guest: toGuest(result.guest),
+      session: result.session,
+    };
+  } catch (err) {
+    console.error("Error rejoining session:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to rejoin session",
+    };
+  }
+}
+
 /**
  * Submit votes for a guest atomically
  * Uses database RPC function to prevent duplicate voting
  * @param sessionId - The session ID
  * @param guestId - The guest ID
- * @param topicIds - Array of topic IDs voted for
+ * @param topicIds - Topic IDs voted for, most preferred first
  */
 export async function submitVote(sessionId: string, guestId: string, topicIds: string[]) {
   try {
@@ -90,6 +159,172 @@ export async function submitVote(sessionId: string, guestId: string, topicIds: s
   }
 }
 
+/**
+ * Submit a guest's runoff vote for one of the tied topics
+ * @param sessionId - The session ID
+ * @param guestId - The guest ID
+ * @param topicId - The tied topic voted for
+ */
+export async function submitRunoffVote(sessionId: string, guestId: string, topicId: string) {
+  try {
+    const { data, error } = await supabase.rpc("submit_runoff_vote", {
+      p_session_id: sessionId,
+      p_guest_id: guestId,
+      p_topic_id: topicId,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to submit runoff vote",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error submitting runoff vote:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to submit runoff vote",
+    };
+  }
+}
+
+/**
+ * Remove a guest from the session (host only)
+ * Votes they cast before topics were confirmed are withdrawn
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ * @param guestId - The guest to remove
+ */
+export async function removeGuest(sessionId: string, hostToken: string, guestId: string) {
+  try {
+    const { data, error } = await supabase.rpc("remove_guest_atomic", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+      p_guest_id: guestId,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to remove guest",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error removing guest:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to remove guest",
+    };
+  }
+}
+
+/**
+ * Rename a guest (host only)
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ * @param guestId - The guest to rename
+ * @param nickname - The new nickname
+ */
+export async function renameGuest(sessionId: string, hostToken: string, guestId: string, nickname: string) {
+  try {
+    const { data, error } = await supabase.rpc("rename_guest_atomic", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+      p_guest_id: guestId,
+      p_nickname: nickname,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to rename guest",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error renaming guest:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to rename guest",
+    };
+  }
+}
+
+/**
+ * Mark a guest away, or back (host only)
+ * Away guests don't hold up voting or rounds
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ * @param guestId - The guest to update
+ * @param away - Whether the guest is away
+ */
+export async function setGuestAway(sessionId: string, hostToken: string, guestId: string, away: boolean) {
+  try {
+    const { data, error } = await supabase.rpc("set_guest_away_atomic", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+      p_guest_id: guestId,
+      p_away: away,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to update guest",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error updating guest:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update guest",
+    };
+  }
+}
+
 /**
  * Get vote counts for a session
  * @param sessionId - The session ID
@@ -115,3 +350,94 @@ export async function getVoteCounts(sessionId: string) {
     };
   }
 }
+
+/**
+ * Get the session's topic tally, computed by the database for the session's voting mode
+ * Topics come back in result order; topics tied at the confirm cut-off are flagged and returned as `tie`
+ * @param sessionId - The session ID
+ */
+export async function getTopicTally(sessionId: string) {
+  try {
+    const { data, error } = await supabase.rpc("get_topic_tally", {
+      p_session_id: sessionId,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      voting_mode?: VotingMode;
+      tally?: Array<{ topic_id: string; score: number; votes: number; tied: boolean }>;
+      tie?: { topic_ids: string[]; seats: number } | null;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to get topic tally",
+        errorCode: result.error_code,
+      };
+    }
+
+    const tally: TopicTally[] = (result.tally || []).map((t) => ({
+      topicId: t.topic_id,
+      score: t.score,
+      votes: t.votes,
+      tied: t.tied,
+    }));
+    const tie: TopicTie | null = result.tie ? { topicIds: result.tie.topic_ids, seats: result.tie.seats } : null;
+
+    return { success: true, votingMode: result.voting_mode, tally, tie };
+  } catch (err) {
+    console.error("Error getting topic tally:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to get topic tally",
+    };
+  }
+}
+
+/**
+ * Suggest a question for the host to approve
+ * @param sessionId - The session ID
+ * @param guestId - The suggesting guest's ID
+ * @param topicId - The topic the question belongs to
+ * @param text - The question text
+ */
+export async function submitQuestionSuggestion(sessionId: string, guestId: string, topicId: string, text: string) {
+  try {
+    const { data, error } = await supabase.rpc("submit_question_suggestion", {
+      p_session_id: sessionId,
+      p_guest_id: guestId,
+      p_topic_id: topicId,
+      p_text: text.trim(),
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      suggestion_id?: string;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to send suggestion",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, suggestionId: result.suggestion_id };
+  } catch (err) {
+    console.error("Error sending question suggestion:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to send suggestion",
+    };
+  }
+}
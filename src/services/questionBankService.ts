@@ -0,0 +1,423 @@
+import { supabase } from "@/lib/supabase";
+import { toQuestion } from "@/services/questionService";
+import type {
+  AuditLogEntry,
+  DuplicatePair,
+  PurgeImpact,
+  PurgeTarget,
+  QuestionBankTopic,
+  QuestionQuery,
+  QuestionWithStats,
+  SimilarQuestion,
+} from "@/types";
+
+/**
+ * Import topics and questions in one all-or-nothing call (admin only)
+ * Topics are matched by name and questions already in the bank are skipped
+ * @param topics - The topics to import, each with its new questions
+ */
+export async function importQuestionBank(topics: QuestionBankTopic[]) {
+  try {
+    const { data, error } = await supabase.rpc("import_question_bank", { p_topics: topics });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      topics_created?: number;
+      questions_created?: number;
+      duplicates_skipped?: number;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to import questions",
+        errorCode: result.error_code,
+      };
+    }
+
+    return {
+      success: true,
+      topicsCreated: result.topics_created ?? 0,
+      questionsCreated: result.questions_created ?? 0,
+      duplicatesSkipped: result.duplicates_skipped ?? 0,
+    };
+  } catch (err) {
+    console.error("Error importing questions:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to import questions",
+    };
+  }
+}
+
+/**
+ * Archive or restore a topic along with the questions archived with it (admin only)
+ * @param topicId - The topic ID
+ * @param archived - true to archive, false to restore
+ */
+export async function setTopicArchived(topicId: string, archived: boolean) {
+  try {
+    const { data, error } = await supabase.rpc("set_topic_archived", {
+      p_topic_id: topicId,
+      p_archived: archived,
+    });
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string; error_code?: string };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to update topic",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error archiving topic:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update topic",
+    };
+  }
+}
+
+/**
+ * Save the admin's display order for topics (admin only)
+ * @param topicIds - Topic IDs in their new order
+ */
+export async function reorderTopics(topicIds: string[]) {
+  try {
+    const { data, error } = await supabase.rpc("reorder_topics", { p_topic_ids: topicIds });
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string; error_code?: string };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to reorder topics",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error reordering topics:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to reorder topics",
+    };
+  }
+}
+
+const toPurgeImpact = (data: any): PurgeImpact => ({
+  questions: data.questions,
+  picks: data.picks,
+  votes: data.votes,
+  sessions: data.sessions,
+  liveSessions: data.live_sessions,
+});
+
+/**
+ * Count what purging an archived topic or question would delete
+ * @param target - The topic or the question to purge
+ */
+export async function getPurgeImpact(target: PurgeTarget) {
+  try {
+    const { data, error } = await supabase.rpc("purge_impact", {
+      p_topic_id: target.topicId ?? null,
+      p_question_id: target.questionId ?? null,
+    });
+
+    if (error) throw error;
+
+    return { success: true, impact: toPurgeImpact(data) };
+  } catch (err) {
+    console.error("Error loading purge impact:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load purge impact",
+    };
+  }
+}
+
+/**
+ * Permanently delete an archived topic (with its questions) or question (admin only)
+ * Refused while a running session still uses it
+ * @param target - The topic or the question to purge
+ */
+export async function purgeArchived(target: PurgeTarget) {
+  try {
+    const { data, error } = await supabase.rpc("purge_archived", {
+      p_topic_id: target.topicId ?? null,
+      p_question_id: target.questionId ?? null,
+    });
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string; error_code?: string };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to purge",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, impact: toPurgeImpact(data) };
+  } catch (err) {
+    console.error("Error purging:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to purge",
+    };
+  }
+}
+
+/**
+ * Load the most recent question bank changes, newest first (admin only)
+ * @param limit - How many entries to load
+ * @param before - Only load entries older than this timestamp, for paging back
+ */
+export async function getAuditLog(limit: number, before?: string) {
+  try {
+    let query = supabase.from("content_audit_log").select("*").order("created_at", { ascending: false }).limit(limit);
+    if (before) query = query.lt("created_at", before);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const entries: AuditLogEntry[] = (data || []).map((row: any) => ({
+      id: row.id,
+      tableName: row.table_name,
+      rowId: row.row_id,
+      action: row.action,
+      actorEmail: row.actor_email,
+      before: row.old_data,
+      after: row.new_data,
+      createdAt: row.created_at,
+    }));
+
+    return { success: true, entries };
+  } catch (err) {
+    console.error("Error loading activity log:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load activity",
+    };
+  }
+}
+
+/**
+ * Put back the question text a logged edit replaced (admin only)
+ * @param entryId - The audit log entry of the edit
+ */
+export async function revertQuestionText(entryId: string) {
+  try {
+    const { data, error } = await supabase.rpc("revert_question_text", { p_entry_id: entryId });
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string; error_code?: string };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to revert edit",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error reverting question edit:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to revert edit",
+    };
+  }
+}
+
+/**
+ * Load every bank question, archived ones included, for exports and import previews that need the whole bank
+ */
+export async function loadBankQuestions() {
+  try {
+    const { data, error } = await supabase.from("questions").select("*").is("session_id", null).order("created_at");
+
+    if (error) throw error;
+
+    return { success: true, questions: (data ?? []).map(toQuestion) };
+  } catch (err) {
+    console.error("Error loading question bank:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load question bank",
+    };
+  }
+}
+
+/**
+ * Load one page of active bank questions matching a search
+ * @param query - Search text, topic filter, sort order and page
+ * @param pageSize - Questions per page
+ */
+export async function searchQuestions(query: QuestionQuery, pageSize: number) {
+  try {
+    const { data, error } = await supabase.rpc("search_questions", {
+      p_search: query.search,
+      p_topic_id: query.topicId,
+      p_status: query.status,
+      p_sort: query.sort,
+      p_limit: pageSize,
+      p_offset: query.page * pageSize,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      questions?: any[];
+      total?: number;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to search questions",
+        errorCode: result.error_code,
+      };
+    }
+
+    const questions: QuestionWithStats[] = (result.questions ?? []).map((q) => ({
+      ...toQuestion(q),
+      timesPicked: q.times_picked,
+      reactionCount: q.reactions,
+    }));
+
+    return { success: true, questions, total: result.total ?? 0 };
+  } catch (err) {
+    console.error("Error searching questions:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to search questions",
+    };
+  }
+}
+
+/**
+ * Find active bank questions that match or closely resemble a draft question
+ * @param text - The draft question text
+ * @param excludeId - The question being edited, so it doesn't match itself
+ */
+export async function findSimilarQuestions(text: string, excludeId?: string) {
+  try {
+    const { data, error } = await supabase.rpc("find_similar_questions", {
+      p_text: text,
+      p_exclude_id: excludeId ?? null,
+    });
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; matches?: any[]; error?: string; error_code?: string };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to check for duplicates",
+        errorCode: result.error_code,
+      };
+    }
+
+    const matches: SimilarQuestion[] = (result.matches ?? []).map((m) => ({
+      id: m.id,
+      topicId: m.topic_id,
+      text: m.text,
+      similarity: m.similarity,
+      exact: m.exact,
+    }));
+
+    return { success: true, matches };
+  } catch (err) {
+    console.error("Error checking for duplicate questions:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to check for duplicates",
+    };
+  }
+}
+
+/**
+ * List every pair of similar active bank questions
+ */
+export async function getDuplicatePairs() {
+  try {
+    const { data, error } = await supabase.rpc("question_duplicate_pairs");
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; pairs?: DuplicatePair[]; error?: string; error_code?: string };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to find duplicates",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, pairs: result.pairs ?? [] };
+  } catch (err) {
+    console.error("Error finding duplicate questions:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to find duplicates",
+    };
+  }
+}
+
+/**
+ * Keep one question and archive the others into it (admin only)
+ * @param keepId - The question to keep
+ * @param mergeIds - The duplicates to archive
+ */
+export async function mergeQuestions(keepId: string, mergeIds: string[]) {
+  try {
+    const { data, error } = await supabase.rpc("merge_questions", {
+      p_keep_id: keepId,
+      p_merge_ids: mergeIds,
+    });
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; merged_count?: number; error?: string; error_code?: string };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to merge questions",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, mergedCount: result.merged_count ?? 0 };
+  } catch (err) {
+    console.error("Error merging questions:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to merge questions",
+    };
+  }
+}
@@ -1,15 +1,56 @@
 import { supabase } from "@/lib/supabase";
+import type { Question, ReactionType } from "@/types";
+
+// Map a questions row
+export const toQuestion = (row: any): Question => ({
+  id: row.id,
+  topicId: row.topic_id,
+  text: row.text,
+  depth: row.depth,
+  sessionId: row.session_id,
+  translations: row.translations,
+  status: row.status,
+  available_from: row.available_from,
+  available_until: row.available_until,
+  archived_at: row.archived_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Load specific questions, whether in the bank, archived or session-only
+ * @param questionIds - The questions to load
+ */
+export async function loadQuestions(questionIds: string[]) {
+  try {
+    if (questionIds.length === 0) return { success: true, questions: [] as Question[] };
+
+    const { data, error } = await supabase.from("questions").select("*").in("id", questionIds);
+
+    if (error) throw error;
+
+    return { success: true, questions: (data ?? []).map(toQuestion) };
+  } catch (err) {
+    console.error("Error loading questions:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load questions",
+    };
+  }
+}
 
 /**
- * Confirm topics and populate question pool atomically
+ * Confirm topics and populate question pool atomically (host only)
  * Uses database RPC function to prevent partial failures
  * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
  * @param topicIds - Array of confirmed topic IDs
  */
-export async function confirmTopics(sessionId: string, topicIds: string[]) {
+export async function confirmTopics(sessionId: string, hostToken: string, topicIds: string[]) {
   try {
     const { data, error } = await supabase.rpc("confirm_topics_atomic", {
       p_session_id: sessionId,
+      p_host_token: hostToken,
       p_topic_ids: topicIds,
     });
 
@@ -45,6 +86,62 @@ export async function confirmTopics(sessionId: string, topicIds: string[]) {
   }
 }
 
+/**
+ * Top up the question pool during the question phase (host only)
+ * Appends after the current last position, so picks made so far are kept
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ * @param topicIds - Topics to add to the session
+ * @param reshuffleAsked - Whether to put already-asked questions back in
+ */
+export async function appendQuestionPool(
+  sessionId: string,
+  hostToken: string,
+  topicIds: string[],
+  reshuffleAsked: boolean,
+) {
+  try {
+    const { data, error } = await supabase.rpc("append_question_pool", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+      p_topic_ids: topicIds,
+      p_reshuffle_asked: reshuffleAsked,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      added_count?: number;
+      reshuffled_count?: number;
+      pool_size?: number;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to add questions",
+        errorCode: result.error_code,
+      };
+    }
+
+    return {
+      success: true,
+      addedCount: result.added_count,
+      reshuffledCount: result.reshuffled_count,
+      poolSize: result.pool_size,
+    };
+  } catch (err) {
+    console.error("Error adding questions to pool:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to add questions",
+    };
+  }
+}
+
 /**
  * Pick a question for a guest atomically
  * Uses database RPC function to prevent race conditions
@@ -86,3 +183,93 @@ export async function pickQuestion(sessionId: string, guestId: string, round: nu
     };
   }
 }
+
+/**
+ * Pass on the guest's current question and draw a replacement atomically
+ * The passed question goes back to the pool or is retired, depending on the session's pass mode
+ * @param sessionId - The session ID
+ * @param guestId - The guest ID
+ */
+export async function passQuestion(sessionId: string, guestId: string) {
+  try {
+    const { data, error } = await supabase.rpc("pass_question_atomic", {
+      p_session_id: sessionId,
+      p_guest_id: guestId,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      question?: any;
+      passes_left?: number;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to pass on question",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, question: result.question, passesLeft: result.passes_left };
+  } catch (err) {
+    console.error("Error passing on question:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to pass on question",
+    };
+  }
+}
+
+/**
+ * Toggle a guest's reaction to another guest's picked question
+ * Reacting again with the same reaction takes it back
+ * @param sessionId - The session ID
+ * @param guestId - The reacting guest's ID
+ * @param pickedQuestionId - The picked_questions row ID
+ * @param reaction - The reaction type
+ */
+export async function toggleReaction(
+  sessionId: string,
+  guestId: string,
+  pickedQuestionId: string,
+  reaction: ReactionType,
+) {
+  try {
+    const { data, error } = await supabase.rpc("toggle_question_reaction", {
+      p_session_id: sessionId,
+      p_guest_id: guestId,
+      p_picked_question_id: pickedQuestionId,
+      p_reaction: reaction,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      reacted?: boolean;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to react",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, reacted: result.reacted };
+  } catch (err) {
+    console.error("Error reacting to question:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to react",
+    };
+  }
+}
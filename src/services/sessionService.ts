@@ -1,42 +1,44 @@
 import { supabase } from "@/lib/supabase";
-import type { SessionPhase } from "@/types";
+import type { SessionPhase, SessionSettings, TieBreakStrategy } from "@/types";
 
 /**
- * Create a new session with a unique code
- * @returns The created session with id and code
+ * Create a new session with a unique code and a host credential
+ * Uses database RPC function so the session and its host token are created together
+ * @returns The created session with id and code, plus the host token to keep on this device
  */
 export async function createSession() {
   try {
-    // Generate unique session code using database function
-    const { data: codeData, error: codeError } = await supabase.rpc("generate_session_code");
+    const { data, error } = await supabase.rpc("create_session_atomic");
 
-    if (codeError) throw codeError;
-
-    const code = codeData as string;
+    if (error) throw error;
 
-    // Create session
-    const { data, error } = await supabase
-      .from("sessions")
-      .insert({
-        code,
-        phase: "lobby",
-        current_round: 1,
-      })
-      .select()
-      .single();
+    const result = data as {
+      success: boolean;
+      session?: any;
+      host_token?: string;
+      error?: string;
+      error_code?: string;
+    };
 
-    if (error) throw error;
+    if (!result.success || !result.session) {
+      return {
+        success: false,
+        error: result.error || "Failed to create session",
+        errorCode: result.error_code,
+      };
+    }
 
     return {
       success: true,
+      hostToken: result.host_token,
       session: {
-        id: data.id,
-        code: data.code,
-        phase: data.phase as SessionPhase,
-        currentRound: data.current_round,
-        startTime: data.start_time,
-        created_at: data.created_at,
-        updated_at: data.updated_at,
+        id: result.session.id,
+        code: result.session.code,
+        phase: result.session.phase as SessionPhase,
+        currentRound: result.session.current_round,
+        startTime: result.session.start_time,
+        created_at: result.session.created_at,
+        updated_at: result.session.updated_at,
       },
     };
   } catch (err) {
@@ -49,16 +51,74 @@ export async function createSession() {
 }
 
 /**
- * Update session phase
+ * Verify a stored host credential and return the session it controls
  * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ */
+export async function resumeHostSession(sessionId: string, hostToken: string) {
+  try {
+    const { data, error } = await supabase.rpc("resume_host_session", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      session?: { id: string; code: string; phase: SessionPhase };
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to resume session",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, session: result.session };
+  } catch (err) {
+    console.error("Error resuming host session:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to resume session",
+    };
+  }
+}
+
+/**
+ * Update session phase (host only)
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
  * @param phase - The new phase
  */
-export async function advancePhase(sessionId: string, phase: SessionPhase) {
+export async function advancePhase(sessionId: string, hostToken: string, phase: SessionPhase) {
   try {
-    const { error } = await supabase.from("sessions").update({ phase }).eq("id", sessionId);
+    const { data, error } = await supabase.rpc("advance_phase_atomic", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+      p_phase: phase,
+    });
 
     if (error) throw error;
 
+    const result = data as {
+      success: boolean;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to advance phase",
+        errorCode: result.error_code,
+      };
+    }
+
     return { success: true };
   } catch (err) {
     console.error("Error advancing phase:", err);
@@ -70,14 +130,234 @@ export async function advancePhase(sessionId: string, phase: SessionPhase) {
 }
 
 /**
- * End a session and archive its data atomically
+ * Update the session's settings (host only, lobby only)
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ * @param settings - The settings to change; omitted settings keep their current value
+ */
+export async function updateSessionSettings(sessionId: string, hostToken: string, settings: Partial<SessionSettings>) {
+  try {
+    const { data, error } = await supabase.rpc("update_session_settings", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+      p_settings: {
+        votes_per_guest: settings.votesPerGuest,
+        topics_to_confirm: settings.topicsToConfirm,
+        voting_mode: settings.votingMode,
+        draw_strategy: settings.drawStrategy,
+        passes_per_guest: settings.passesPerGuest,
+        pass_mode: settings.passMode,
+        depth_progression: settings.depthProgression,
+        turn_mode: settings.turnMode,
+      },
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to update settings",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error updating session settings:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update settings",
+    };
+  }
+}
+
+/**
+ * Start the next round atomically (host only)
+ * Uses database RPC function to reset guest picks and bump the round together
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ */
+export async function advanceRound(sessionId: string, hostToken: string) {
+  try {
+    const { data, error } = await supabase.rpc("advance_round_atomic", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      new_round?: number;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to advance round",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, newRound: result.new_round };
+  } catch (err) {
+    console.error("Error advancing round:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to advance round",
+    };
+  }
+}
+
+/**
+ * Move the spotlight to the next speaker in a turn-order session (host only)
+ * Also skips a speaker who isn't ready; the spotlight clears once everyone has had a turn
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ */
+export async function advanceSpotlight(sessionId: string, hostToken: string) {
+  try {
+    const { data, error } = await supabase.rpc("advance_spotlight", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      spotlight_guest_id?: string | null;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to move the spotlight",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, spotlightGuestId: result.spotlight_guest_id ?? null };
+  } catch (err) {
+    console.error("Error moving the spotlight:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to move the spotlight",
+    };
+  }
+}
+
+/**
+ * Break a tie at the topic confirm cut-off (host only)
+ * "host" records the host's picks, "random" draws the winners and "runoff" opens a runoff vote for guests
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ * @param strategy - How to break the tie
+ * @param topicIds - The host's winners, required for the "host" strategy
+ */
+export async function resolveTie(
+  sessionId: string,
+  hostToken: string,
+  strategy: TieBreakStrategy,
+  topicIds?: string[],
+) {
+  try {
+    const { data, error } = await supabase.rpc("resolve_tie_atomic", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+      p_strategy: strategy,
+      p_topic_ids: topicIds ?? null,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      winner_topic_ids?: string[];
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to break tie",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, winnerTopicIds: result.winner_topic_ids };
+  } catch (err) {
+    console.error("Error breaking tie:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to break tie",
+    };
+  }
+}
+
+/**
+ * Close the runoff vote and return to topic results (host only)
+ * A tie within the runoff is settled by a random draw
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ */
+export async function closeRunoff(sessionId: string, hostToken: string) {
+  try {
+    const { data, error } = await supabase.rpc("close_runoff_atomic", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      winner_topic_ids?: string[];
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to close runoff",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, winnerTopicIds: result.winner_topic_ids };
+  } catch (err) {
+    console.error("Error closing runoff:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to close runoff",
+    };
+  }
+}
+
+/**
+ * End a session and archive its data atomically (host only)
  * Uses database RPC function to prevent partial failures
  * @param sessionId - The session ID to end
+ * @param hostToken - The host token issued by createSession
  */
-export async function endSession(sessionId: string) {
+export async function endSession(sessionId: string, hostToken: string) {
   try {
     const { data, error } = await supabase.rpc("end_session_atomic", {
       p_session_id: sessionId,
+      p_host_token: hostToken,
     });
 
     if (error) throw error;
@@ -126,13 +406,13 @@ export async function validateSessionCode(code: string) {
 
     if (error) {
       if (error.code === "PGRST116") {
-        return { valid: false, error: "Invalid session code" };
+        return { valid: false, error: "Invalid session code", errorCode: "SESSION_NOT_FOUND" };
       }
       throw error;
     }
 
     if (data.phase === "ended") {
-      return { valid: false, error: "Session has ended" };
+      return { valid: false, error: "Session has ended", errorCode: "SESSION_ENDED" };
     }
 
     return { valid: true, session: data };
@@ -144,3 +424,56 @@ export async function validateSessionCode(code: string) {
     };
   }
 }
+
+/**
+ * Approve or reject a guest's question suggestion (host only)
+ * Approved suggestions join this session's question pool straight away
+ * @param sessionId - The session ID
+ * @param hostToken - The host token issued by createSession
+ * @param suggestionId - The suggestion to review
+ * @param approve - Whether to approve the suggestion
+ * @param topicId - Optional topic to file the question under instead of the guest's choice
+ */
+export async function reviewQuestionSuggestion(
+  sessionId: string,
+  hostToken: string,
+  suggestionId: string,
+  approve: boolean,
+  topicId?: string,
+) {
+  try {
+    const { data, error } = await supabase.rpc("review_question_suggestion", {
+      p_session_id: sessionId,
+      p_host_token: hostToken,
+      p_suggestion_id: suggestionId,
+      p_approve: approve,
+      p_topic_id: topicId ?? null,
+    });
+
+    if (error) throw error;
+
+    const result = data as {
+      success: boolean;
+      status?: string;
+      question_id?: string;
+      error?: string;
+      error_code?: string;
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to review suggestion",
+        errorCode: result.error_code,
+      };
+    }
+
+    return { success: true, questionId: result.question_id };
+  } catch (err) {
+    console.error("Error reviewing question suggestion:", err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to review suggestion",
+    };
+  }
+}
@@ -1,34 +1,180 @@
-export interface Topic {
+export type PublicationStatus = "draft" | "published" | "retired";
+
+// Shared by topics and questions; only published content inside its window reaches guests
+export interface Publication {
+  status?: PublicationStatus;
+  available_from?: string | null; // YYYY-MM-DD, inclusive
+  available_until?: string | null; // YYYY-MM-DD, inclusive
+}
+
+export type ContentLanguage = "en" | "fil";
+
+// Interface languages; the same set guests can read questions in
+export type Locale = ContentLanguage;
+
+// Translations keyed by language; English lives in the regular columns and is the fallback
+export type Translations<T> = Partial<Record<ContentLanguage, T>>;
+
+export interface TopicTranslation {
+  name?: string;
+  description?: string;
+}
+
+export type TopicColor = "amber" | "rose" | "orange" | "emerald" | "sky" | "violet" | "stone";
+
+export interface Topic extends Publication {
   id: string;
   name: string;
+  description?: string | null;
+  icon?: string | null; // an emoji
+  color?: TopicColor | null;
+  sort_order?: number; // topics are listed in this order everywhere
+  translations?: Translations<TopicTranslation>;
+  archived_at?: string | null; // archived topics are hidden from voting and new pools
   created_at?: string;
   updated_at?: string;
 }
 
-export interface Question {
+// Active bank questions in a topic, and how many of those guests can currently be asked
+export interface TopicQuestionCount {
+  total: number;
+  available: number;
+}
+
+// The admin-editable details of a topic
+export type TopicDetails = Pick<Topic, "name" | "description" | "icon" | "color" | "translations"> & Publication;
+
+export type QuestionDepth = 1 | 2 | 3; // light, medium, deep
+
+export interface Question extends Publication {
   id: string;
   topicId: string;
   text: string;
+  depth: QuestionDepth;
+  sessionId?: string | null; // set on approved guest suggestions until an admin promotes them
+  translations?: Translations<{ text?: string }>;
+  archived_at?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+export type QuestionSort = "created" | "updated" | "picked" | "reactions";
+
+// One page request for the admin question list
+export interface QuestionQuery {
+  search: string;
+  topicId: string | null;
+  status: PublicationStatus | null;
+  sort: QuestionSort;
+  page: number; // zero-based
+}
+
+// A bank question with its usage across every session it was asked in
+export interface QuestionWithStats extends Question {
+  timesPicked: number;
+  reactionCount: number;
+}
+
+// An existing bank question close to one being written; exact means the normalised texts are equal
+export interface SimilarQuestion {
+  id: string;
+  topicId: string;
+  text: string;
+  similarity: number; // trigram similarity, 0-1
+  exact: boolean;
+}
+
+// Two similar bank questions found by the duplicates report
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  similarity: number;
+}
+
+// What purging an archived topic or question would delete; session history is never touched
+export interface PurgeImpact {
+  questions: number;
+  picks: number;
+  votes: number;
+  sessions: number;
+  liveSessions: number; // purging is refused while this is above zero
+}
+
+export type PurgeTarget = { topicId: string; questionId?: never } | { questionId: string; topicId?: never };
+
+export type AuditAction = "insert" | "update" | "archive" | "restore" | "delete";
+
+// One logged change to a topic or bank question; before/after are the raw database rows
+export interface AuditLogEntry {
+  id: string;
+  tableName: "topics" | "questions";
+  rowId: string;
+  action: AuditAction;
+  actorEmail: string | null; // null for changes made outside an admin login
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  createdAt: string;
+}
+
+// One topic in an import file or export backup
+export interface QuestionBankTopic extends Publication {
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: TopicColor;
+  translations?: Topic["translations"];
+  archived?: boolean;
+  // A question's archived flag means archived on its own; an archived topic's questions go with it
+  questions: Array<
+    { text: string; depth: QuestionDepth; translations?: Question["translations"]; archived?: boolean } & Publication
+  >;
+}
+
+export type GuestStatus = "active" | "away" | "removed";
+
 export interface Guest {
   id: string;
   nickname: string;
+  status: GuestStatus;
   hasVoted: boolean;
   hasPicked: boolean;
   pickedQuestionId?: string;
+  language?: ContentLanguage; // questions are shown to the guest in this language
   sessionId?: string;
   joined_at?: string;
 }
 
+export type ReactionType = "heart" | "laugh" | "thought";
+
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+export interface QuestionReaction {
+  id: string;
+  pickedQuestionId: string;
+  guestId: string;
+  reaction: ReactionType;
+}
+
 export interface PickedQuestion {
+  id?: string; // missing on archived records
   questionId: string;
+  guestId?: string; // missing on archived records
   questionText: string;
   topicName: string;
   guestNickname: string;
   round: number;
+  passed?: boolean; // the guest passed and drew another question
+  reactions?: ReactionCounts; // archived records only; live reactions come from useQuestionReactions
+}
+
+export type TopicSelectionReason = "votes" | "tie_break" | "host_override" | "top_up";
+
+export interface TopicSelection {
+  name: string;
+  icon?: string | null;
+  color?: TopicColor | null;
+  reason?: TopicSelectionReason; // missing on records archived before reasons were kept
+  score?: number;
 }
 
 export interface SessionRecord {
@@ -39,21 +185,74 @@ export interface SessionRecord {
   guests: string[];
   guestCount: number;
   confirmedTopics: string[];
+  topicSelections: TopicSelection[];
+  tieBreak?: TieBreak;
+  settings?: SessionSettings; // not archived before draw strategies were added
   pickedQuestions: PickedQuestion[];
 }
 
-export type SessionPhase = "lobby" | "voting" | "topicResults" | "topicReveal" | "questionPhase" | "ended";
+export type VotingMode = "approval" | "ranked" | "points";
+
+export type DrawStrategy = "random" | "round_robin" | "avoid_repeat";
+
+export type PassMode = "return" | "retire"; // what happens to a passed question
+
+export type TurnMode = "parallel" | "join_order" | "shuffled"; // parallel: everyone picks at once
+
+export interface SessionSettings {
+  votesPerGuest: number;
+  topicsToConfirm: number;
+  votingMode: VotingMode;
+  drawStrategy: DrawStrategy;
+  passesPerGuest: number;
+  passMode: PassMode;
+  depthProgression: boolean; // favour lighter questions early and deeper ones later
+  turnMode: TurnMode;
+}
+
+export interface TopicTally {
+  topicId: string;
+  score: number; // votes, points or final-round first choices depending on the voting mode
+  votes: number;
+  tied: boolean; // part of a tie at the confirm cut-off
+}
+
+/** Topics tied at the confirm cut-off, competing for `seats` places */
+export interface TopicTie {
+  topicIds: string[];
+  seats: number;
+}
+
+export type TieBreakStrategy = "host" | "random" | "runoff";
+
+export interface TieBreak {
+  strategy: TieBreakStrategy;
+  tiedTopicIds: string[];
+  seats: number;
+  status: "open" | "resolved";
+  winnerTopicIds: string[];
+  runoffCounts: Record<string, number>; // topicId -> runoff votes
+  runoffVoterIds: string[];
+  fallback?: "random"; // set when the runoff itself tied and a draw settled it
+  resolvedAt?: string;
+}
+
+export type SessionPhase = "lobby" | "voting" | "topicResults" | "runoff" | "topicReveal" | "questionPhase" | "ended";
 
 export interface Session {
   id: string;
   code: string;
   phase: SessionPhase;
   guests: Guest[];
-  votes: Record<string, string[]>; // guestId -> topicIds
+  votes: Record<string, string[]>; // guestId -> topicIds, in rank order
   confirmedTopics: Topic[];
   questionPool: Question[];
   pickedQuestions: PickedQuestion[];
   currentRound: number;
+  settings: SessionSettings;
+  tieBreak: TieBreak | null;
+  speakingOrder: string[]; // guest ids fixed when the question phase opens; empty in parallel mode
+  spotlightGuestId: string | null; // the guest whose turn it is
   startTime: string;
   endTime?: string;
   created_at?: string;
@@ -71,8 +270,42 @@ export type AppView =
   | "hostVoting"
   | "guestVoting"
   | "hostTopicResults"
+  | "hostRunoff"
+  | "guestRunoff"
   | "topicReveal"
   | "hostQuestionPhase"
   | "guestQuestionPhase"
   | "guestEnded"
   | "hostEnded";
+
+export type SuggestionStatus = "pending" | "approved" | "rejected" | "promoted" | "dismissed";
+
+export interface QuestionSuggestion {
+  id: string;
+  sessionId: string | null;
+  guestId: string | null;
+  guestNickname: string;
+  topicId: string | null;
+  text: string;
+  status: SuggestionStatus;
+  questionId: string | null; // the session-scoped question created on approval
+  createdAt: string;
+}
+
+export type AdminTab = "topics" | "questions" | "history" | "activity" | "settings";
+
+export type FreshnessMode = "deprioritize" | "exclude";
+
+/** Admin-controlled settings shared by every session */
+export interface AppSettings {
+  freshnessSessions: number; // recent sessions whose questions count as stale; 0 turns freshness off
+  freshnessMode: FreshnessMode;
+  excludeAnswered: boolean; // also avoid questions returning guests already answered
+}
+
+/** Outcome of an app action; errorCode is the server's machine-readable reason, when it gave one */
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+}
@@ -15,6 +15,7 @@ export interface RealtimeCallbacks {
   onGuestUpdate?: (payload: RealtimePayload) => void;
   onVoteInsert?: (payload: RealtimePayload) => void;
   onPickedQuestionInsert?: (payload: RealtimePayload) => void;
+  onPickedQuestionUpdate?: (payload: RealtimePayload) => void;
   onSessionTopicInsert?: (payload: RealtimePayload) => void;
   onSessionUpdate?: (payload: RealtimePayload) => void;
   onQuestionPoolUpdate?: (payload: RealtimePayload) => void;
@@ -0,0 +1,93 @@
+/**
+ * Failed action reporting
+ * Server error codes map to friendly catalogue messages; failures without an app error code
+ * (network drops, unexpected database errors) count as temporary and are offered a retry
+ */
+
+import { toast } from "sonner";
+import type { MessageKey, Translate } from "../i18n";
+import type { ActionResult } from "../types";
+
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  ALREADY_ENDED: "errorCode.alreadyEnded",
+  ALREADY_PICKED: "errorCode.alreadyPicked",
+  ALREADY_VOTED: "errorCode.alreadyVoted",
+  ENTRY_NOT_FOUND: "errorCode.entryNotFound",
+  GUEST_NOT_FOUND: "errorCode.guestNotFound",
+  GUEST_REMOVED: "errorCode.guestRemoved",
+  IN_USE: "errorCode.inUse",
+  INVALID_IMPORT: "errorCode.invalidImport",
+  INVALID_NICKNAME: "errorCode.invalidNickname",
+  INVALID_PHASE: "errorCode.invalidPhase",
+  INVALID_REJOIN_TOKEN: "errorCode.invalidRejoinToken",
+  INVALID_SETTINGS: "errorCode.invalidSettings",
+  INVALID_SUGGESTION: "errorCode.invalidSuggestion",
+  INVALID_TIE_SELECTION: "errorCode.invalidTieSelection",
+  INVALID_TOPIC: "errorCode.invalidTopic",
+  INVALID_TOPIC_COUNT: "errorCode.invalidTopicCount",
+  INVALID_VOTE_COUNT: "errorCode.invalidVoteCount",
+  NICKNAME_TAKEN: "errorCode.nicknameTaken",
+  NO_PASSES_LEFT: "errorCode.noPassesLeft",
+  NO_QUESTIONS: "errorCode.noQuestions",
+  NO_TIE: "errorCode.noTie",
+  NOT_ADMIN: "errorCode.notAdmin",
+  NOT_ARCHIVED: "errorCode.notArchived",
+  NOT_HOST: "errorCode.notHost",
+  NOT_REVERTIBLE: "errorCode.notRevertible",
+  NOT_YOUR_TURN: "errorCode.notYourTurn",
+  NOTHING_TO_ADD: "errorCode.nothingToAdd",
+  NOTHING_TO_MERGE: "errorCode.nothingToMerge",
+  NOTHING_TO_PASS: "errorCode.nothingToPass",
+  OWN_QUESTION: "errorCode.ownQuestion",
+  QUESTION_NOT_FOUND: "errorCode.questionNotFound",
+  RUNOFF_CLOSED: "errorCode.runoffClosed",
+  SESSION_ENDED: "errorCode.sessionEnded",
+  SESSION_NOT_FOUND: "errorCode.sessionNotFound",
+  SETTINGS_LOCKED: "errorCode.settingsLocked",
+  SUGGESTION_REVIEWED: "errorCode.suggestionReviewed",
+  TOO_MANY_SUGGESTIONS: "errorCode.tooManySuggestions",
+  TOPIC_NOT_FOUND: "errorCode.topicNotFound",
+  TOPIC_REQUIRED: "errorCode.topicRequired",
+  TOPIC_UNAVAILABLE: "errorCode.topicUnavailable",
+  "23505": "errorCode.duplicate", // unique_violation from a direct table write
+};
+
+/**
+ * A failed result from a thrown error, keeping the Postgres error code when there is one
+ */
+export const failedResult = (err: unknown, fallback: string): ActionResult => {
+  const { message, code } = (err ?? {}) as { message?: unknown; code?: unknown };
+  return {
+    success: false,
+    error: typeof message === "string" && message ? message : fallback,
+    ...(typeof code === "string" && code ? { errorCode: code } : {}),
+  };
+};
+
+/**
+ * Whether trying again could help: app error codes are deliberate refusals,
+ * while no code or an unmapped SQLSTATE (which always has a digit) points at the connection or the database
+ */
+export const isRetryable = (result: ActionResult): boolean => {
+  const code = result.errorCode;
+  return !code || (!(code in ERROR_MESSAGES) && /\d/.test(code));
+};
+
+/**
+ * Message to show for a failed result, in the interface language where the error code is known
+ */
+export const errorMessage = (t: Translate, result: ActionResult, fallback: MessageKey = "error.generic"): string => {
+  const key = result.errorCode ? ERROR_MESSAGES[result.errorCode] : undefined;
+  if (key) return t(key);
+  return isRetryable(result) ? t(fallback) : result.error || t(fallback);
+};
+
+/**
+ * Toasts a failed action, with a retry button when the failure looks temporary
+ */
+export const notifyFailure = (t: Translate, title: MessageKey, result: ActionResult, retry?: () => unknown) => {
+  toast.error(t(title), {
+    description: errorMessage(t, result),
+    action: retry && isRetryable(result) ? { label: t("error.retry"), onClick: () => void retry() } : undefined,
+  });
+};
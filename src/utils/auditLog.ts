@@ -0,0 +1,35 @@
+import type { Translate } from "../i18n";
+import type { AuditLogEntry } from "../types";
+
+// The field that names the row: a topic's name or a question's text
+const labelField = (entry: AuditLogEntry) => (entry.tableName === "topics" ? "name" : "text");
+
+/**
+ * One-line summary of a logged change, e.g. "Edited question"
+ */
+export const describeAuditEntry = (t: Translate, entry: AuditLogEntry): string =>
+  t(`audit.${entry.action}.${entry.tableName}`);
+
+/**
+ * The topic name or question text the change applies to, preferring the row as it ended up
+ */
+export const auditEntryLabel = (entry: AuditLogEntry): string => {
+  const field = labelField(entry);
+  return entry.after?.[field] ?? entry.before?.[field] ?? "";
+};
+
+/**
+ * The old and new name or text when the change renamed a topic or rewrote a question, otherwise null
+ */
+export const auditTextChange = (entry: AuditLogEntry): { before: string; after: string } | null => {
+  if (entry.action !== "update" || !entry.before || !entry.after) return null;
+  const field = labelField(entry);
+  if (entry.before[field] === entry.after[field]) return null;
+  return { before: entry.before[field], after: entry.after[field] };
+};
+
+/**
+ * Only edits to question text can be reverted
+ */
+export const canRevert = (entry: AuditLogEntry): boolean =>
+  entry.tableName === "questions" && auditTextChange(entry) !== null;
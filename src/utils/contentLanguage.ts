@@ -0,0 +1,73 @@
+/**
+ * Languages topics and questions can be shown in
+ * English is stored in the regular columns; other languages are optional translations that fall back to English
+ */
+
+import type { ContentLanguage, Question, Topic, Translations } from "../types";
+
+export const CONTENT_LANGUAGES: Array<{ language: ContentLanguage; label: string }> = [
+  { language: "en", label: "English" },
+  { language: "fil", label: "Filipino" },
+];
+
+// Languages that are entered as translations next to the English original
+export const TRANSLATED_LANGUAGES = CONTENT_LANGUAGES.filter((l) => l.language !== "en");
+
+// A translated field, or undefined when it is missing or blank
+const translated = <T extends object>(
+  translations: Translations<T> | undefined,
+  language: ContentLanguage,
+  field: keyof T,
+): string | undefined => {
+  const value = translations?.[language]?.[field];
+  return typeof value === "string" && value.trim() ? value : undefined;
+};
+
+export const localizedQuestionText = (question: Pick<Question, "text" | "translations">, language: ContentLanguage) =>
+  translated(question.translations, language, "text") ?? question.text;
+
+export const localizedTopicName = (topic: Pick<Topic, "name" | "translations">, language: ContentLanguage) =>
+  translated(topic.translations, language, "name") ?? topic.name;
+
+export const localizedTopicDescription = (
+  topic: Pick<Topic, "description" | "translations">,
+  language: ContentLanguage,
+) => translated(topic.translations, language, "description") ?? topic.description;
+
+/**
+ * Translations read from a JSON backup: known languages and non-blank text only, or undefined when none are left
+ */
+export const parseTranslations = <T extends object>(
+  value: any,
+  fields: Array<keyof T>,
+): Translations<T> | undefined => {
+  let translations: Translations<T> = {};
+  for (const { language } of TRANSLATED_LANGUAGES) {
+    for (const field of fields) {
+      const text = value?.[language]?.[field];
+      if (typeof text === "string") translations = withTranslation(translations, language, field, text);
+    }
+  }
+  return Object.keys(translations).length > 0 ? translations : undefined;
+};
+
+/**
+ * Translations with one field set, dropping blank values so untranslated fields fall back to English
+ */
+export const withTranslation = <T extends object>(
+  translations: Translations<T> | undefined,
+  language: ContentLanguage,
+  field: keyof T,
+  value: string,
+): Translations<T> => {
+  const entry: Partial<T> = { ...translations?.[language] };
+  if (value.trim()) {
+    entry[field] = value as T[keyof T];
+  } else {
+    delete entry[field];
+  }
+
+  const rest = { ...translations };
+  delete rest[language];
+  return Object.keys(entry).length > 0 ? { ...rest, [language]: entry } : rest;
+};
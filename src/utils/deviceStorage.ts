@@ -0,0 +1,111 @@
+/**
+ * Device storage utilities
+ * Keeps the credentials a device needs to get back into a session after a reload
+ */
+
+import type { Locale } from "../types";
+
+const GUEST_SEAT_KEY = "shared-table:guest-seat";
+const HOST_SESSION_KEY = "shared-table:host-session";
+const DEVICE_ID_KEY = "shared-table:device-id";
+const LOCALE_KEY = "shared-table:locale";
+
+export interface StoredGuestSeat {
+  sessionId: string;
+  guestId: string;
+  rejoinToken: string;
+}
+
+export interface StoredHostSession {
+  sessionId: string;
+  hostToken: string;
+}
+
+/**
+ * Reads and parses a JSON value, returning null if storage is unavailable or the value is malformed
+ */
+const readJSON = <T>(key: string): T | null => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeJSON = (key: string, value: unknown): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`[Storage] Could not persist ${key}:`, err);
+  }
+};
+
+const remove = (key: string): void => {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Storage unavailable (e.g. private mode) - nothing to clear
+  }
+};
+
+/**
+ * Remembers the guest's seat so it can be restored with rejoin_session
+ */
+export const saveGuestSeat = (seat: StoredGuestSeat): void => writeJSON(GUEST_SEAT_KEY, seat);
+
+/**
+ * Returns the stored guest seat, if any
+ */
+export const loadGuestSeat = (): StoredGuestSeat | null => {
+  const seat = readJSON<StoredGuestSeat>(GUEST_SEAT_KEY);
+  if (!seat?.sessionId || !seat.guestId || !seat.rejoinToken) return null;
+  return seat;
+};
+
+/**
+ * Forgets the guest's seat (session ended, seat invalid, or guest left)
+ */
+export const clearGuestSeat = (): void => remove(GUEST_SEAT_KEY);
+
+/**
+ * Remembers the host credential issued by create_session_atomic
+ */
+export const saveHostSession = (host: StoredHostSession): void => writeJSON(HOST_SESSION_KEY, host);
+
+/**
+ * Returns the stored host credential, if any
+ */
+export const loadHostSession = (): StoredHostSession | null => {
+  const host = readJSON<StoredHostSession>(HOST_SESSION_KEY);
+  if (!host?.sessionId || !host.hostToken) return null;
+  return host;
+};
+
+/**
+ * Forgets the host credential (session ended or host left)
+ */
+export const clearHostSession = (): void => remove(HOST_SESSION_KEY);
+
+/**
+ * Returns this device's persistent id, creating it on first use
+ * Sent when joining so returning guests can be recognised across sessions
+ */
+export const getDeviceId = (): string => {
+  const stored = readJSON<string>(DEVICE_ID_KEY);
+  if (stored) return stored;
+
+  const id = crypto.randomUUID();
+  writeJSON(DEVICE_ID_KEY, id);
+  return id;
+};
+
+/**
+ * Remembers the interface language chosen on this device
+ */
+export const saveLocale = (locale: Locale): void => writeJSON(LOCALE_KEY, locale);
+
+/**
+ * Returns the stored interface language, if any
+ */
+export const loadLocale = (): Locale | null => readJSON<Locale>(LOCALE_KEY);
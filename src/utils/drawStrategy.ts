@@ -0,0 +1,19 @@
+/**
+ * Question draw strategy helpers
+ * Labels shared by the settings panel and the session history
+ */
+
+import type { MessageKey } from "../i18n";
+import type { DrawStrategy } from "../types";
+
+export const DRAW_STRATEGIES: Array<{ strategy: DrawStrategy; label: MessageKey; hint: MessageKey }> = [
+  { strategy: "random", label: "drawStrategy.random", hint: "drawStrategy.random.hint" },
+  { strategy: "round_robin", label: "drawStrategy.roundRobin", hint: "drawStrategy.roundRobin.hint" },
+  { strategy: "avoid_repeat", label: "drawStrategy.avoidRepeat", hint: "drawStrategy.avoidRepeat.hint" },
+];
+
+/**
+ * Message key for a draw strategy's label
+ */
+export const drawStrategyLabel = (strategy: DrawStrategy): MessageKey =>
+  DRAW_STRATEGIES.find((s) => s.strategy === strategy)?.label ?? "drawStrategy.random";
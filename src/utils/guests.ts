@@ -0,0 +1,16 @@
+/**
+ * Guest list helpers
+ * Removed guests stay in the session data so their devices can notice; these filters decide who is shown and who is waited on
+ */
+
+import type { Guest } from "../types";
+
+/**
+ * Guests still at the table (active or away)
+ */
+export const seatedGuests = (guests: Guest[]): Guest[] => guests.filter((g) => g.status !== "removed");
+
+/**
+ * Guests the host waits on before moving on
+ */
+export const activeGuests = (guests: Guest[]): Guest[] => guests.filter((g) => g.status === "active");
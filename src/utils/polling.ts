@@ -51,13 +51,35 @@ export const mergeVotes = (
   return merged;
 };
 
+/**
+ * Drops the votes of guests whose ballot was withdrawn
+ * Removing a guest deletes their votes and clears has_voted; vote deletions aren't
+ * broadcast, so the has_voted flip is the signal
+ */
+export const dropWithdrawnVotes = (
+  votes: Record<string, string[]>,
+  previous: Guest[],
+  current: Guest[],
+): Record<string, string[]> => {
+  const withdrawn = current.filter((g) => !g.hasVoted && previous.some((p) => p.id === g.id && p.hasVoted));
+  if (withdrawn.length === 0) return votes;
+
+  const remaining = { ...votes };
+  withdrawn.forEach((g) => delete remaining[g.id]);
+  return remaining;
+};
+
 /**
  * Merges new picked questions into existing list without duplicates
+ * Picks already in the list are replaced, so a later pass shows up on the existing entry
  */
 export const mergePickedQuestions = (existing: PickedQuestion[], newPicks: PickedQuestion[]): PickedQuestion[] => {
-  const existingIds = new Set(existing.map((p) => p.questionId));
-  const additions = newPicks.filter((p) => !existingIds.has(p.questionId));
-  return [...existing, ...additions];
+  const key = (p: PickedQuestion) => p.id ?? p.questionId;
+  const incoming = new Map(newPicks.map((p) => [key(p), p]));
+  const merged = existing.map((p) => incoming.get(key(p)) ?? p);
+  const existingIds = new Set(existing.map(key));
+  const additions = newPicks.filter((p) => !existingIds.has(key(p)));
+  return [...merged, ...additions];
 };
 
 /**
@@ -76,6 +98,8 @@ export const getIntervalForPhase = (phase: SessionPhase): number => {
       return 1000; // 1s - votes coming in, critical for UX
     case "topicResults":
       return 1000; // 1s - mostly static display
+    case "runoff":
+      return 1000; // 1s - runoff votes coming in
     case "topicReveal":
       return 1000; // 1s - mostly static display
     case "questionPhase":
@@ -0,0 +1,85 @@
+/**
+ * Publication status and availability windows for topics and questions
+ */
+
+import type { MessageKey, Translate } from "../i18n";
+import { formatDate } from "../i18n";
+import type { Locale, Publication, PublicationStatus } from "../types";
+
+export const PUBLICATION_STATUSES: Array<{ status: PublicationStatus; label: MessageKey }> = [
+  { status: "draft", label: "publication.draft" },
+  { status: "published", label: "publication.published" },
+  { status: "retired", label: "publication.retired" },
+];
+
+// Local calendar date as YYYY-MM-DD, the format availability dates are stored in
+const isoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const formatDay = (locale: Locale, date: string): string =>
+  formatDate(locale, `${date}T00:00:00`, { month: "short", day: "numeric" });
+
+/**
+ * Whether published content is in season today
+ * Kept in step with content_available() in the database; rows without a status predate publishing and count as published
+ */
+export const isAvailable = (item: Publication, today: Date = new Date()): boolean => {
+  const date = isoDate(today);
+  return (
+    (item.status ?? "published") === "published" &&
+    (!item.available_from || item.available_from <= date) &&
+    (!item.available_until || item.available_until >= date)
+  );
+};
+
+/**
+ * Short admin badge text, e.g. "Draft" or "From Dec 1"; null for content that is live with no window
+ */
+export const availabilityLabel = (
+  t: Translate,
+  locale: Locale,
+  item: Publication,
+  today: Date = new Date(),
+): string | null => {
+  const status = item.status ?? "published";
+  if (status !== "published") return t(PUBLICATION_STATUSES.find((s) => s.status === status)!.label);
+
+  const date = isoDate(today);
+  if (item.available_from && item.available_from > date) {
+    return t("availability.from", { date: formatDay(locale, item.available_from) });
+  }
+  if (item.available_until && item.available_until < date) return t("availability.outOfSeason");
+  if (item.available_until) return t("availability.until", { date: formatDay(locale, item.available_until) });
+  return null;
+};
+
+/**
+ * A publication as written to a JSON backup, leaving out the published default and unset dates
+ */
+export const publicationBackup = ({ status, available_from, available_until }: Publication): Publication => ({
+  ...(status && status !== "published" ? { status } : {}),
+  ...(available_from ? { available_from } : {}),
+  ...(available_until ? { available_until } : {}),
+});
+
+/**
+ * Read a publication from a JSON backup; unknown statuses and malformed dates are dropped
+ */
+export const parsePublication = (item: any): Publication => {
+  const date = (value: unknown) =>
+    typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+  return publicationBackup({
+    status: PUBLICATION_STATUSES.find((s) => s.status === item?.status)?.status,
+    available_from: date(item?.available_from),
+    available_until: date(item?.available_until),
+  });
+};
+
+/**
+ * Row values for a publication, with cleared date inputs stored as no limit
+ */
+export const publicationColumns = ({ status, available_from, available_until }: Publication) => ({
+  ...(status ? { status } : {}),
+  available_from: available_from || null,
+  available_until: available_until || null,
+});
@@ -1,4 +1,5 @@
 import QRCode from "qrcode";
+import { buildPath } from "./routes";
 
 /**
  * Generate a QR code data URL for a session code
@@ -6,7 +7,7 @@ import QRCode from "qrcode";
  * @returns Promise resolving to a data URL of the QR code image
  */
 export async function generateSessionQR(code: string): Promise<string> {
-  const url = `${window.location.origin}/join?code=${code}`;
+  const url = `${window.location.origin}${buildPath("joinSession", { code })}`;
 
   return await QRCode.toDataURL(url, {
     width: 200,
@@ -0,0 +1,339 @@
+/**
+ * Question bank import/export helpers
+ * Parses CSV and JSON files into topics, diffs them against the bank for the import preview,
+ * serializes the bank for a full export, and groups similar questions for the duplicates report
+ */
+
+import type { LocalizedMessage } from "../i18n";
+import type {
+  DuplicatePair,
+  Publication,
+  Question,
+  QuestionBankTopic,
+  QuestionDepth,
+  Topic,
+  TopicTranslation,
+} from "../types";
+import { parseTranslations } from "./contentLanguage";
+import { parsePublication, publicationBackup } from "./publication";
+import { TOPIC_COLORS } from "./topicStyle";
+
+export type BankFileFormat = "csv" | "json";
+
+export interface ImportPreview {
+  newTopics: string[];
+  newQuestions: Array<{ topic: string; text: string; depth: QuestionDepth }>;
+  duplicates: Array<{ topic: string; text: string; inFile: boolean }>; // inFile: repeated within the file itself
+  payload: QuestionBankTopic[]; // only what the import would add
+}
+
+/**
+ * The form used to spot duplicate questions
+ * Kept in step with normalize_question_text in the database
+ */
+export const normalizeQuestionText = (text: string): string => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+const DEPTH_NAMES: Record<string, QuestionDepth> = { light: 1, medium: 2, deep: 3 };
+
+const parseDepth = (value: unknown): QuestionDepth | null => {
+  if (value === undefined || value === null || value === "") return 2;
+  const raw = String(value).trim().toLowerCase();
+  if (raw in DEPTH_NAMES) return DEPTH_NAMES[raw];
+  const n = Number(raw);
+  return n === 1 || n === 2 || n === 3 ? n : null;
+};
+
+// Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and line breaks
+const splitCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+};
+
+interface BankRow {
+  topic: string;
+  text: string;
+  depth: QuestionDepth | null;
+  topicArchived?: boolean;
+  archived?: boolean;
+  details?: Omit<QuestionBankTopic, "name" | "archived" | "questions">; // the topic's, from a JSON export
+  publication?: Publication; // the question's, from a JSON export
+  translations?: Question["translations"]; // the question's, from a JSON export
+}
+
+// Matches a topic by name within its archived state, so an archived topic and an active one can share a name
+const topicKey = (name: string, archived?: boolean) => `${archived ? "archived:" : ""}${name.trim().toLowerCase()}`;
+
+// Duplicates are only looked for among questions with the same archived state, like the import RPC does
+const questionKey = (text: string, archived?: boolean) =>
+  `${archived ? "archived:" : ""}${normalizeQuestionText(text)}`;
+
+// Groups flat rows into topics, keeping file order
+const groupRows = (rows: BankRow[], errors: LocalizedMessage[]) => {
+  const byName = new Map<string, QuestionBankTopic>();
+  rows.forEach((row, i) => {
+    const name = row.topic.trim();
+    if (!name) {
+      errors.push({ key: "transfer.error.missingTopic", params: { row: i + 1 } });
+      return;
+    }
+    if (row.depth === null) {
+      errors.push({ key: "transfer.error.badDepth", params: { row: i + 1 } });
+      return;
+    }
+    const key = topicKey(name, row.topicArchived);
+    if (!byName.has(key)) {
+      byName.set(key, { name, ...row.details, ...(row.topicArchived ? { archived: true } : {}), questions: [] });
+    }
+    if (row.text.trim()) {
+      byName
+        .get(key)!
+        .questions.push({
+          text: row.text.trim(),
+          depth: row.depth,
+          ...row.publication,
+          ...(row.translations ? { translations: row.translations } : {}),
+          ...(row.archived ? { archived: true } : {}),
+        });
+    }
+  });
+  return [...byName.values()];
+};
+
+/**
+ * Parse a CSV file with a header row of topic, question and an optional depth column
+ * A row with a topic and no question adds just the topic
+ */
+export const parseBankCsv = (text: string): { topics: QuestionBankTopic[]; errors: LocalizedMessage[] } => {
+  const [header, ...rows] = splitCsv(text.replace(/^\uFEFF/, ""));
+  const columns = (header ?? []).map((h) => h.trim().toLowerCase());
+  const topicCol = columns.indexOf("topic");
+  const textCol = columns.findIndex((c) => c === "question" || c === "text");
+  const depthCol = columns.indexOf("depth");
+
+  if (topicCol === -1 || textCol === -1) {
+    return { topics: [], errors: [{ key: "transfer.error.csvHeader" }] };
+  }
+
+  const errors: LocalizedMessage[] = [];
+  const topics = groupRows(
+    rows.map((r) => ({
+      topic: r[topicCol] ?? "",
+      text: r[textCol] ?? "",
+      depth: parseDepth(depthCol === -1 ? undefined : r[depthCol]),
+    })),
+    errors,
+  );
+  return { topics, errors };
+};
+
+// Description, icon, colour, translations and publication of a topic in a JSON export;
+// a colour outside the palette is dropped
+const parseTopicDetails = (item: any): BankRow["details"] => {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+  const color = TOPIC_COLORS.find((c) => c.color === item.color)?.color;
+  const translations = parseTranslations<TopicTranslation>(item.translations, ["name", "description"]);
+  return {
+    ...(text(item.description) ? { description: text(item.description) } : {}),
+    ...(text(item.icon) ? { icon: text(item.icon) } : {}),
+    ...(color ? { color } : {}),
+    ...(translations ? { translations } : {}),
+    ...parsePublication(item),
+  };
+};
+
+/**
+ * Parse a JSON export ({ topics: [...] }), a bare topic list, or flat { topic, question, depth } rows
+ * Topic details and archived flags from an export are kept, so a backup restores the bank as it was
+ */
+export const parseBankJson = (text: string): { topics: QuestionBankTopic[]; errors: LocalizedMessage[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { topics: [], errors: [{ key: "transfer.error.invalidJson" }] };
+  }
+
+  const list = Array.isArray(data) ? data : data?.topics;
+  if (!Array.isArray(list)) {
+    return { topics: [], errors: [{ key: "transfer.error.jsonShape" }] };
+  }
+
+  const errors: LocalizedMessage[] = [];
+  const rows = list.flatMap((item: any): BankRow[] =>
+    Array.isArray(item?.questions)
+      ? [
+          {
+            topic: String(item.name ?? ""),
+            text: "",
+            depth: 2,
+            topicArchived: item.archived === true,
+            details: parseTopicDetails(item),
+          },
+          ...item.questions.map((q: any) => ({
+            topic: String(item.name ?? ""),
+            text: String(typeof q === "string" ? q : (q?.text ?? "")),
+            depth: parseDepth(q?.depth),
+            topicArchived: item.archived === true,
+            archived: q?.archived === true,
+            publication: parsePublication(q),
+            translations: parseTranslations<{ text?: string }>(q?.translations, ["text"]),
+          })),
+        ]
+      : [
+          {
+            topic: String(item?.topic ?? item?.name ?? ""),
+            text: String(item?.question ?? item?.text ?? ""),
+            depth: parseDepth(item?.depth),
+          },
+        ],
+  );
+  return { topics: groupRows(rows, errors), errors };
+};
+
+/**
+ * Diff parsed topics against the bank: what is new, and which questions already exist
+ */
+export const buildImportPreview = (
+  incoming: QuestionBankTopic[],
+  topics: Topic[],
+  questions: Question[],
+): ImportPreview => {
+  const existingTopics = new Set(topics.map((t) => topicKey(t.name, !!t.archived_at)));
+  const seen = new Set(questions.map((q) => questionKey(q.text, !!q.archived_at)));
+  const preview: ImportPreview = { newTopics: [], newQuestions: [], duplicates: [], payload: [] };
+  const fromFile = new Set<string>();
+
+  for (const topic of incoming) {
+    const isNew = !existingTopics.has(topicKey(topic.name, topic.archived));
+    if (isNew) preview.newTopics.push(topic.name);
+
+    const added: QuestionBankTopic["questions"] = [];
+    for (const q of topic.questions) {
+      const key = questionKey(q.text, topic.archived || q.archived);
+      if (seen.has(key)) {
+        preview.duplicates.push({ topic: topic.name, text: q.text, inFile: fromFile.has(key) });
+        continue;
+      }
+      seen.add(key);
+      fromFile.add(key);
+      added.push(q);
+      preview.newQuestions.push({ topic: topic.name, ...q });
+    }
+
+    if (isNew || added.length > 0) preview.payload.push({ ...topic, questions: added });
+  }
+  return preview;
+};
+
+const hasTranslations = (translations?: object) => !!translations && Object.keys(translations).length > 0;
+
+/**
+ * Every topic with its bank questions, archived ones included, in the shape the importer reads back
+ * Topics are listed in display order, which the importer keeps for the topics it creates
+ * Questions archived with their topic share its timestamp; only ones archived on their own are flagged
+ */
+export const bankSnapshot = (topics: Topic[], questions: Question[]): QuestionBankTopic[] =>
+  topics.map((t) => ({
+    name: t.name,
+    ...(t.description ? { description: t.description } : {}),
+    ...(t.icon ? { icon: t.icon } : {}),
+    ...(t.color ? { color: t.color } : {}),
+    ...(hasTranslations(t.translations) ? { translations: t.translations } : {}),
+    ...publicationBackup(t),
+    ...(t.archived_at ? { archived: true } : {}),
+    questions: questions
+      .filter((q) => q.topicId === t.id)
+      .map((q) => ({
+        text: q.text,
+        depth: q.depth,
+        ...(hasTranslations(q.translations) ? { translations: q.translations } : {}),
+        ...publicationBackup(q),
+        ...(q.archived_at && q.archived_at !== t.archived_at ? { archived: true } : {}),
+      })),
+  }));
+
+const csvField = (value: string | number): string => {
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/**
+ * Serialize the bank: JSON is the full backup, CSV lists the active topics and questions for editing in a spreadsheet
+ */
+export const exportBank = (snapshot: QuestionBankTopic[], format: BankFileFormat): string => {
+  if (format === "json") {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), topics: snapshot }, null, 2);
+  }
+
+  const lines = ["topic,question,depth"];
+  for (const topic of snapshot.filter((t) => !t.archived)) {
+    const active = topic.questions.filter((q) => !q.archived);
+    if (active.length === 0) lines.push(`${csvField(topic.name)},,`);
+    for (const q of active) lines.push([topic.name, q.text, q.depth].map(csvField).join(","));
+  }
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * Group similar pairs into clusters of questions that all resemble each other, largest first
+ * Pairs whose questions aren't in the given list (e.g. archived meanwhile) are ignored
+ */
+export const clusterDuplicates = (pairs: DuplicatePair[], questions: Question[]): Question[][] => {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const parent = new Map<string, string>();
+  const paired = new Set<string>();
+  const root = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const r = root(p);
+    parent.set(id, r);
+    return r;
+  };
+
+  for (const { a, b } of pairs) {
+    if (!byId.has(a) || !byId.has(b)) continue;
+    paired.add(a).add(b);
+    parent.set(root(a), root(b));
+  }
+
+  const clusters = new Map<string, Question[]>();
+  for (const id of paired) {
+    const r = root(id);
+    clusters.set(r, [...(clusters.get(r) ?? []), byId.get(id)!]);
+  }
+  return [...clusters.values()].filter((c) => c.length > 1).sort((x, y) => y.length - x.length);
+};
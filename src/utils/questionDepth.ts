@@ -0,0 +1,19 @@
+/**
+ * Question depth helpers
+ * Labels shared by the admin question list and the settings panel
+ */
+
+import type { MessageKey } from "../i18n";
+import type { QuestionDepth } from "../types";
+
+export const QUESTION_DEPTHS: Array<{ depth: QuestionDepth; label: MessageKey }> = [
+  { depth: 1, label: "depth.light" },
+  { depth: 2, label: "depth.medium" },
+  { depth: 3, label: "depth.deep" },
+];
+
+/**
+ * Message key for a question depth's label
+ */
+export const depthLabel = (depth: QuestionDepth): MessageKey =>
+  QUESTION_DEPTHS.find((d) => d.depth === depth)?.label ?? "depth.medium";
@@ -0,0 +1,30 @@
+/**
+ * Question reaction helpers
+ * Shared by the guest reaction bar, the host question screen and the admin views
+ */
+
+import type { MessageKey } from "../i18n";
+import type { ReactionCounts, ReactionType } from "../types";
+
+export const REACTIONS: Array<{ type: ReactionType; emoji: string; label: MessageKey }> = [
+  { type: "heart", emoji: "❤️", label: "reaction.heart" },
+  { type: "laugh", emoji: "😂", label: "reaction.laugh" },
+  { type: "thought", emoji: "🤔", label: "reaction.thought" },
+];
+
+/**
+ * Total number of reactions across all types
+ */
+export const totalReactions = (counts: ReactionCounts | undefined): number =>
+  Object.values(counts ?? {}).reduce((sum, n) => sum + (n ?? 0), 0);
+
+/**
+ * Adds one set of reaction counts into another, returning a new object
+ */
+export const addReactionCounts = (a: ReactionCounts, b: ReactionCounts | undefined): ReactionCounts => {
+  const sum: ReactionCounts = { ...a };
+  for (const { type } of REACTIONS) {
+    if (b?.[type]) sum[type] = (sum[type] ?? 0) + b[type]!;
+  }
+  return sum;
+};
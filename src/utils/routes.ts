@@ -0,0 +1,150 @@
+/**
+ * Route utilities
+ * Maps AppViews to URL paths and back so views can be deep-linked and the browser history works
+ */
+
+import type { AdminTab, AppView } from "../types";
+
+export interface RouteMatch {
+  view: AppView;
+  /** Session code for join and in-session routes */
+  code?: string;
+  /** Active tab for the admin panel */
+  adminTab?: AdminTab;
+}
+
+export interface RouteParams {
+  code?: string | null;
+  adminTab?: AdminTab;
+}
+
+const ADMIN_TABS: AdminTab[] = ["topics", "questions", "history", "activity", "settings"];
+
+// Path suffixes under /s/:code/host and /s/:code
+const HOST_SEGMENTS: Partial<Record<AppView, string>> = {
+  hostLobby: "",
+  hostVoting: "voting",
+  hostTopicResults: "results",
+  hostRunoff: "runoff",
+  topicReveal: "reveal",
+  hostQuestionPhase: "questions",
+  hostEnded: "ended",
+};
+
+const GUEST_SEGMENTS: Partial<Record<AppView, string>> = {
+  guestLobby: "",
+  guestVoting: "voting",
+  guestRunoff: "runoff",
+  guestQuestionPhase: "questions",
+  guestEnded: "ended",
+};
+
+// GitHub Pages serves the app from a subdirectory, so every path is relative to the Vite base
+const BASE_PATH = import.meta.env.BASE_URL.replace(/\/$/, "");
+
+const findView = (segments: Partial<Record<AppView, string>>, segment: string): AppView | undefined =>
+  (Object.keys(segments) as AppView[]).find((view) => segments[view] === segment);
+
+/**
+ * Checks if a view belongs to the host's in-session flow
+ */
+export const isHostView = (view: AppView): boolean => view in HOST_SEGMENTS;
+
+/**
+ * Checks if a view belongs to a guest's in-session flow
+ */
+export const isGuestView = (view: AppView): boolean => view in GUEST_SEGMENTS;
+
+/**
+ * Checks if a view is scoped to a session code
+ */
+export const isSessionView = (view: AppView): boolean => isHostView(view) || isGuestView(view);
+
+/**
+ * Resolves a URL into the view it represents
+ * Unknown paths resolve to home
+ *
+ * @param pathname - window.location.pathname
+ * @param search - window.location.search (supports the legacy /join?code=XXXXX QR links)
+ */
+export const parseRoute = (pathname: string, search = ""): RouteMatch => {
+  const path = pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) : pathname;
+  const parts = path.split("/").filter(Boolean).map(decodeURIComponent);
+  const [section, ...rest] = parts;
+
+  switch (section) {
+    case undefined:
+      return { view: "home" };
+
+    case "host":
+      return { view: "createSession" };
+
+    case "join": {
+      const code = rest[0] || new URLSearchParams(search).get("code") || undefined;
+      return { view: "joinSession", code: code?.toUpperCase() };
+    }
+
+    case "admin": {
+      if (rest[0] === "login") return { view: "adminLogin" };
+      const adminTab = ADMIN_TABS.find((tab) => tab === rest[0]) ?? "topics";
+      return { view: "admin", adminTab };
+    }
+
+    case "s": {
+      const [code, ...segments] = rest;
+      if (!code) return { view: "home" };
+
+      const isHost = segments[0] === "host";
+      const segment = (isHost ? segments[1] : segments[0]) ?? "";
+      const view = findView(isHost ? HOST_SEGMENTS : GUEST_SEGMENTS, segment);
+
+      return view ? { view, code: code.toUpperCase() } : { view: "home" };
+    }
+
+    default:
+      return { view: "home" };
+  }
+};
+
+/**
+ * Builds the URL path for a view
+ *
+ * @returns The path, or null if the view needs a session code that isn't known yet
+ */
+export const buildPath = (view: AppView, { code, adminTab }: RouteParams = {}): string | null => {
+  let path: string;
+
+  if (isSessionView(view)) {
+    if (!code) return null;
+    const segments = isHostView(view) ? ["s", code, "host", HOST_SEGMENTS[view]] : ["s", code, GUEST_SEGMENTS[view]];
+    path = `/${segments.filter(Boolean).join("/")}`;
+  } else {
+    switch (view) {
+      case "createSession":
+        path = "/host";
+        break;
+      case "joinSession":
+        path = code ? `/join/${code}` : "/join";
+        break;
+      case "adminLogin":
+        path = "/admin/login";
+        break;
+      case "admin":
+        path = adminTab && adminTab !== "topics" ? `/admin/${adminTab}` : "/admin";
+        break;
+      default:
+        path = "/";
+    }
+  }
+
+  return `${BASE_PATH}${path}`;
+};
+
+/**
+ * Returns the section a path belongs to (e.g. "/s/ABC12" or "/admin")
+ * Navigation within one section replaces the history entry instead of pushing a new one
+ */
+export const getPathSection = (path: string): string => {
+  const parts = path.slice(BASE_PATH.length).split("/").filter(Boolean);
+  return parts[0] === "s" ? `/s/${parts[1] ?? ""}` : `/${parts[0] ?? ""}`;
+};
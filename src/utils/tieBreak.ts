@@ -0,0 +1,49 @@
+/**
+ * Tie-break utilities
+ * Maps the sessions.tie_break column and describes how a tie was settled
+ */
+
+import type { MessageKey, Translate } from "../i18n";
+import type { TieBreak, TieBreakStrategy, TopicSelectionReason } from "../types";
+
+export const TIE_BREAK_LABELS: Record<TieBreakStrategy, MessageKey> = {
+  host: "tieBreak.host",
+  random: "tieBreak.random",
+  runoff: "tieBreak.runoff",
+};
+
+export const SELECTION_REASON_LABELS: Record<TopicSelectionReason, MessageKey> = {
+  votes: "selectionReason.votes",
+  tie_break: "selectionReason.tieBreak",
+  host_override: "selectionReason.hostOverride",
+  top_up: "selectionReason.topUp",
+};
+
+/**
+ * Maps a tie_break JSON value (sessions row or archived record) to the app's TieBreak shape
+ *
+ * @returns The tie-break, or null when the session never had one
+ */
+export const parseTieBreak = (raw: any): TieBreak | null => {
+  if (!raw) return null;
+
+  return {
+    strategy: raw.strategy,
+    tiedTopicIds: raw.tied_topic_ids ?? [],
+    seats: raw.seats,
+    status: raw.status,
+    winnerTopicIds: raw.winner_topic_ids ?? [],
+    runoffCounts: raw.runoff_counts ?? {},
+    runoffVoterIds: raw.runoff_voter_ids ?? [],
+    fallback: raw.fallback ?? undefined,
+    resolvedAt: raw.resolved_at ?? undefined,
+  };
+};
+
+/**
+ * Describes how a resolved tie was settled, e.g. "Runoff vote (decided by random draw)"
+ */
+export const describeTieBreak = (t: Translate, tieBreak: TieBreak): string => {
+  const label = t(TIE_BREAK_LABELS[tieBreak.strategy]);
+  return tieBreak.fallback === "random" ? t("tieBreak.randomFallback", { method: label }) : label;
+};
@@ -0,0 +1,71 @@
+/**
+ * Topic accent colours
+ * Class names are spelled out in full so Tailwind keeps them in the build
+ */
+
+import type { MessageKey } from "../i18n";
+import type { TopicColor } from "../types";
+
+interface TopicColorClasses {
+  swatch: string; // solid fill for the colour picker
+  chip: string; // tinted background and text for icons and badges
+  border: string; // card border
+}
+
+export const TOPIC_COLORS: Array<{ color: TopicColor; label: MessageKey } & TopicColorClasses> = [
+  {
+    color: "amber",
+    label: "topicColor.amber",
+    swatch: "bg-amber-500",
+    chip: "bg-amber-100 text-amber-800",
+    border: "border-amber-200",
+  },
+  {
+    color: "rose",
+    label: "topicColor.rose",
+    swatch: "bg-rose-500",
+    chip: "bg-rose-100 text-rose-800",
+    border: "border-rose-200",
+  },
+  {
+    color: "orange",
+    label: "topicColor.orange",
+    swatch: "bg-orange-500",
+    chip: "bg-orange-100 text-orange-800",
+    border: "border-orange-200",
+  },
+  {
+    color: "emerald",
+    label: "topicColor.emerald",
+    swatch: "bg-emerald-500",
+    chip: "bg-emerald-100 text-emerald-800",
+    border: "border-emerald-200",
+  },
+  {
+    color: "sky",
+    label: "topicColor.sky",
+    swatch: "bg-sky-500",
+    chip: "bg-sky-100 text-sky-800",
+    border: "border-sky-200",
+  },
+  {
+    color: "violet",
+    label: "topicColor.violet",
+    swatch: "bg-violet-500",
+    chip: "bg-violet-100 text-violet-800",
+    border: "border-violet-200",
+  },
+  {
+    color: "stone",
+    label: "topicColor.stone",
+    swatch: "bg-stone-500",
+    chip: "bg-stone-100 text-stone-700",
+    border: "border-stone-200",
+  },
+];
+
+/**
+ * Classes for a topic's colour, falling back to the app's amber accent for topics without one
+ */
+export const topicColorClasses = (color?: TopicColor | null): TopicColorClasses =>
+  TOPIC_COLORS.find((c) => c.color === color) ?? TOPIC_COLORS[0];
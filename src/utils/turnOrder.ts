@@ -0,0 +1,40 @@
+/**
+ * Turn-order helpers
+ * Mirror session_speaking_order and next_speaker so every device can show who is up next
+ */
+
+import type { MessageKey } from "../i18n";
+import type { Guest, Session, TurnMode } from "../types";
+
+export const TURN_MODES: Array<{ mode: TurnMode; label: MessageKey; hint: MessageKey }> = [
+  { mode: "parallel", label: "turnMode.parallel", hint: "turnMode.parallel.hint" },
+  { mode: "join_order", label: "turnMode.joinOrder", hint: "turnMode.joinOrder.hint" },
+  { mode: "shuffled", label: "turnMode.shuffled", hint: "turnMode.shuffled.hint" },
+];
+
+/**
+ * Message key for a turn mode's label
+ */
+export const turnModeLabel = (mode: TurnMode): MessageKey =>
+  TURN_MODES.find((m) => m.mode === mode)?.label ?? "turnMode.parallel";
+
+/**
+ * Seated guests in speaking order; guests who joined after the order was fixed go last, by join time
+ */
+export const speakingOrder = (session: Session): Guest[] => {
+  const rank = (g: Guest) => {
+    const i = session.speakingOrder.indexOf(g.id);
+    return i === -1 ? Number.MAX_SAFE_INTEGER : i;
+  };
+  // Guests arrive sorted by join time and sort is stable, so late joiners keep that order
+  return session.guests.filter((g) => g.status !== "removed").sort((a, b) => rank(a) - rank(b));
+};
+
+/**
+ * The guest after the current speaker who is here and hasn't picked this round, if any
+ */
+export const nextSpeaker = (session: Session): Guest | undefined => {
+  const order = speakingOrder(session);
+  const start = order.findIndex((g) => g.id === session.spotlightGuestId) + 1;
+  return order.slice(start).find((g) => g.status === "active" && !g.hasPicked);
+};
@@ -0,0 +1,32 @@
+/**
+ * Voting mode helpers
+ * Labels and scoring descriptions shared by the settings panel and the voting views
+ */
+
+import type { MessageKey, Translate } from "../i18n";
+import type { VotingMode } from "../types";
+
+export const VOTING_MODES: Array<{ mode: VotingMode; label: MessageKey; hint: MessageKey }> = [
+  { mode: "approval", label: "votingMode.approval", hint: "votingMode.approval.hint" },
+  { mode: "ranked", label: "votingMode.ranked", hint: "votingMode.ranked.hint" },
+  { mode: "points", label: "votingMode.points", hint: "votingMode.points.hint" },
+];
+
+/**
+ * Checks if guests order their picks in this mode
+ */
+export const isRankedMode = (mode: VotingMode): boolean => mode !== "approval";
+
+/**
+ * Points a pick earns in points mode (e.g. 3/2/1 when voting for three topics)
+ *
+ * @param rank - 1-based position in the guest's ranking
+ * @param voteLimit - Number of topics each guest votes for
+ */
+export const pointsForRank = (rank: number, voteLimit: number): number => voteLimit - rank + 1;
+
+/**
+ * Formats a tally score with the unit used by the voting mode
+ */
+export const formatScore = (t: Translate, mode: VotingMode, score: number): string =>
+  t(`score.${mode}`, { count: score });
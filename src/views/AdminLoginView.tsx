@@ -1,10 +1,12 @@
 import { MobileShell, ViewHeader } from "@/components/MobileShell";
 import { Input } from "@/components/ui/input";
 import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
 import { useState } from "react";
 
 export function AdminLoginView() {
   const { setView, login } = useApp();
+  const { t } = useI18n();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
@@ -17,7 +19,7 @@ export function AdminLoginView() {
     const result = await login(email, password);
 
     if (!result.success) {
-      setError(result.error || "Login failed");
+      setError(result.error || t("adminLogin.failed"));
       setPassword("");
     }
 
@@ -26,15 +28,13 @@ export function AdminLoginView() {
 
   return (
     <MobileShell>
-      <ViewHeader title="Organizer Login" onBack={() => setView("home")} />
+      <ViewHeader title={t("adminLogin.title")} onBack={() => setView("home")} />
       <div className="flex-1 flex flex-col px-6 pt-8">
-        <p className="text-stone-500 text-sm mb-6">
-          Sign in with your admin account to manage topics, questions, and session history.
-        </p>
+        <p className="text-stone-500 text-sm mb-6">{t("adminLogin.intro")}</p>
         <div className="space-y-3">
           <Input
             type="email"
-            placeholder="Email"
+            placeholder={t("adminLogin.email")}
             value={email}
             onChange={(e) => {
               setEmail(e.target.value);
@@ -44,7 +44,7 @@ export function AdminLoginView() {
           />
           <Input
             type="password"
-            placeholder="Password"
+            placeholder={t("adminLogin.password")}
             value={password}
             onChange={(e) => {
               setPassword(e.target.value);
@@ -59,7 +59,7 @@ export function AdminLoginView() {
             disabled={!email || !password || loading}
             className="w-full h-12 rounded-xl bg-stone-900 text-stone-50 font-semibold text-sm disabled:opacity-40 disabled:cursor-not-allowed hover:bg-stone-800 transition-colors active:scale-[0.98]"
           >
-            {loading ? "Signing In..." : "Sign In"}
+            {loading ? t("adminLogin.signingIn") : t("adminLogin.signIn")}
           </button>
         </div>
       </div>
@@ -1,25 +1,72 @@
 import { MobileShell, ViewHeader } from "@/components/MobileShell";
+import { QuestionBankTransfer } from "@/components/QuestionBankTransfer";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { ReactionCountsRow } from "@/components/QuestionReactions";
+import { TopicIcon } from "@/components/TopicIcon";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useApp } from "@/context/AppContext";
-import { useState } from "react";
+import { useI18n } from "@/context/I18nContext";
+import { QUESTION_PAGE_SIZE, useQuestionSearch } from "@/hooks/useQuestionSearch";
+import { useQuestionSuggestions } from "@/hooks/useQuestionSuggestions";
+import type { Translate } from "@/i18n";
+import * as appSettingsService from "@/services/appSettingsService";
+import * as questionBankService from "@/services/questionBankService";
+import * as questionService from "@/services/questionService";
+import type {
+  AdminTab,
+  AppSettings,
+  AuditLogEntry,
+  DuplicatePair,
+  Publication,
+  PublicationStatus,
+  PurgeImpact,
+  PurgeTarget,
+  Question,
+  QuestionDepth,
+  QuestionSort,
+  ReactionCounts,
+  SimilarQuestion,
+  TopicDetails,
+  Translations,
+} from "@/types";
+import { errorMessage } from "@/utils/actionResult";
+import { auditEntryLabel, auditTextChange, canRevert, describeAuditEntry } from "@/utils/auditLog";
+import { TRANSLATED_LANGUAGES, withTranslation } from "@/utils/contentLanguage";
+import { drawStrategyLabel } from "@/utils/drawStrategy";
+import { availabilityLabel, isAvailable, PUBLICATION_STATUSES } from "@/utils/publication";
+import { clusterDuplicates, normalizeQuestionText } from "@/utils/questionBank";
+import { depthLabel, QUESTION_DEPTHS } from "@/utils/questionDepth";
+import { addReactionCounts } from "@/utils/reactions";
+import { describeTieBreak, SELECTION_REASON_LABELS } from "@/utils/tieBreak";
+import { TOPIC_COLORS, topicColorClasses } from "@/utils/topicStyle";
+import { turnModeLabel } from "@/utils/turnOrder";
+import { VOTING_MODES } from "@/utils/voting";
+import { useEffect, useMemo, useState } from "react";
 
 function TopicsTab() {
-  const { topics, questions, addTopic, editTopic, removeTopic } = useApp();
+  const { topics, questionCounts, addTopic, editTopic, reorderTopics, archiveTopic } = useApp();
+  const { t } = useI18n();
   const [newName, setNewName] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editName, setEditName] = useState("");
-  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [editDetails, setEditDetails] = useState<TopicDetails>({ name: "" });
+  const [confirmArchive, setConfirmArchive] = useState<string | null>(null);
 
-  const qCount = (topicId: string) => questions.filter((q) => q.topicId === topicId).length;
+  const qCount = (topicId: string) => questionCounts[topicId]?.total ?? 0;
+
+  const move = (index: number, offset: number) => {
+    const ids = topics.map((topic) => topic.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderTopics(ids);
+  };
 
   return (
     <div className="space-y-4">
       {/* Add topic */}
       <div className="flex gap-2">
         <Input
-          placeholder="New topic name..."
+          placeholder={t("admin.topics.newPlaceholder")}
           value={newName}
           onChange={(e) => setNewName(e.target.value)}
           className="h-10 rounded-lg border-stone-200 bg-white text-sm flex-1"
@@ -34,73 +81,150 @@ function TopicsTab() {
           disabled={!newName.trim()}
           className="h-10 px-4 rounded-lg bg-amber-800 text-amber-50 text-sm font-medium disabled:opacity-40 hover:bg-amber-900 transition-colors shrink-0"
         >
-          Add
+          {t("common.add")}
         </button>
       </div>
 
       {/* Topic list */}
       <div className="space-y-1.5">
-        {topics.map((t) => (
-          <div key={t.id} className="bg-white rounded-xl px-4 py-3 border border-stone-100">
-            {editingId === t.id ? (
-              <div className="flex gap-2 items-center">
+        {topics.map((topic, i) => (
+          <div key={topic.id} className="bg-white rounded-xl px-4 py-3 border border-stone-100">
+            {editingId === topic.id ? (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    value={editDetails.icon ?? ""}
+                    onChange={(e) => setEditDetails({ ...editDetails, icon: e.target.value })}
+                    placeholder="🙂"
+                    maxLength={8}
+                    className="h-9 w-12 rounded-lg text-sm text-center px-1"
+                  />
+                  <Input
+                    value={editDetails.name}
+                    onChange={(e) => setEditDetails({ ...editDetails, name: e.target.value })}
+                    className="h-9 rounded-lg text-sm flex-1"
+                    autoFocus
+                  />
+                </div>
                 <Input
-                  value={editName}
-                  onChange={(e) => setEditName(e.target.value)}
-                  className="h-9 rounded-lg text-sm flex-1"
-                  autoFocus
+                  value={editDetails.description ?? ""}
+                  onChange={(e) => setEditDetails({ ...editDetails, description: e.target.value })}
+                  placeholder={t("admin.topics.descriptionPlaceholder")}
+                  className="h-9 rounded-lg text-sm"
                 />
-                <button
-                  onClick={() => {
-                    editTopic(t.id, editName);
-                    setEditingId(null);
-                  }}
-                  className="text-xs font-medium text-amber-800"
-                >
-                  Save
-                </button>
-                <button onClick={() => setEditingId(null)} className="text-xs text-stone-400">
-                  Cancel
-                </button>
+                <TranslationFields
+                  value={editDetails.translations}
+                  fields={[
+                    { field: "name", original: editDetails.name },
+                    { field: "description", original: editDetails.description },
+                  ]}
+                  onChange={(translations) => setEditDetails({ ...editDetails, translations })}
+                />
+                <PublicationFields value={editDetails} onChange={(p) => setEditDetails({ ...editDetails, ...p })} />
+                <div className="flex gap-1.5">
+                  {TOPIC_COLORS.map((c) => (
+                    <button
+                      key={c.color}
+                      onClick={() => setEditDetails({ ...editDetails, color: c.color })}
+                      title={t(c.label)}
+                      className={`w-6 h-6 rounded-full ${c.swatch} ${
+                        (editDetails.color ?? "amber") === c.color ? "ring-2 ring-offset-2 ring-stone-400" : ""
+                      }`}
+                    />
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => {
+                      if (!editDetails.name.trim()) return;
+                      editTopic(topic.id, { ...editDetails, name: editDetails.name.trim() });
+                      setEditingId(null);
+                    }}
+                    disabled={!editDetails.name.trim()}
+                    className="text-xs font-medium text-amber-800 disabled:opacity-40"
+                  >
+                    {t("common.save")}
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-xs text-stone-400">
+                    {t("common.cancel")}
+                  </button>
+                </div>
               </div>
-            ) : confirmDelete === t.id ? (
+            ) : confirmArchive === topic.id ? (
               <div>
                 <p className="text-xs text-red-600 mb-2">
-                  Delete "{t.name}"? This removes {qCount(t.id)} question{qCount(t.id) !== 1 ? "s" : ""}.
+                  {t("admin.topics.archiveConfirm", { name: topic.name, count: qCount(topic.id) })}
                 </p>
                 <div className="flex gap-2">
                   <button
                     onClick={() => {
-                      removeTopic(t.id);
-                      setConfirmDelete(null);
+                      archiveTopic(topic.id);
+                      setConfirmArchive(null);
                     }}
                     className="text-xs font-medium text-red-600"
                   >
-                    Confirm Delete
+                    {t("admin.confirmArchive")}
                   </button>
-                  <button onClick={() => setConfirmDelete(null)} className="text-xs text-stone-400">
-                    Cancel
+                  <button onClick={() => setConfirmArchive(null)} className="text-xs text-stone-400">
+                    {t("common.cancel")}
                   </button>
                 </div>
               </div>
             ) : (
-              <div className="flex items-center justify-between">
-                <div>
-                  <span className="text-sm font-medium text-stone-800">{t.name}</span>
-                  <span className="text-xs text-stone-400 ml-2">{qCount(t.id)} Q</span>
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <TopicIcon icon={topic.icon} color={topic.color} />
+                  <div className="min-w-0">
+                    <span className="text-sm font-medium text-stone-800">{topic.name}</span>
+                    <span className="text-xs text-stone-400 mx-2">
+                      {t("admin.topics.questionCount", { count: qCount(topic.id) })}
+                    </span>
+                    <AvailabilityBadge item={topic} />
+                    {topic.description && <p className="text-xs text-stone-400 truncate">{topic.description}</p>}
+                  </div>
                 </div>
-                <div className="flex gap-3">
+                <div className="flex gap-3 shrink-0">
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => move(i, -1)}
+                      disabled={i === 0}
+                      aria-label={t("admin.moveUp")}
+                      className="text-xs text-stone-400 hover:text-stone-600 disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => move(i, 1)}
+                      disabled={i === topics.length - 1}
+                      aria-label={t("admin.moveDown")}
+                      className="text-xs text-stone-400 hover:text-stone-600 disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                  </div>
                   <button
                     onClick={() => {
-                      setEditingId(t.id);
-                      setEditName(t.name);
+                      setEditingId(topic.id);
+                      setEditDetails({
+                        name: topic.name,
+                        description: topic.description,
+                        icon: topic.icon,
+                        color: topic.color,
+                        translations: topic.translations,
+                        status: topic.status,
+                        available_from: topic.available_from,
+                        available_until: topic.available_until,
+                      });
                     }}
                     className="text-xs text-stone-500 hover:text-stone-700"
                   >
-                    Edit
+                    {t("common.edit")}
                   </button>
-                  <button onClick={() => setConfirmDelete(t.id)} className="text-xs text-red-400 hover:text-red-600">
-                    Delete
+                  <button
+                    onClick={() => setConfirmArchive(topic.id)}
+                    className="text-xs text-red-400 hover:text-red-600"
+                  >
+                    {t("admin.archive")}
                   </button>
                 </div>
               </div>
@@ -108,43 +232,545 @@ function TopicsTab() {
           </div>
         ))}
       </div>
+
+      <ArchivedItems />
+    </div>
+  );
+}
+
+function describeImpact(t: Translate, impact: PurgeImpact): string {
+  return t("admin.impact", {
+    questions: t("admin.impact.questions", { count: impact.questions }),
+    picks: t("admin.impact.picks", { count: impact.picks }),
+    votes: t("admin.impact.votes", { count: impact.votes }),
+    sessions: t("admin.impact.sessions", { count: impact.sessions }),
+  });
+}
+
+/**
+ * Restore view for archived topics and questions
+ * Purging is a separate, confirmed step that shows what the delete would take with it
+ */
+function ArchivedItems() {
+  const { topics, archivedTopics, archivedQuestions, restoreTopic, restoreQuestion, getPurgeImpact, purgeArchived } =
+    useApp();
+  const { t } = useI18n();
+  const [purging, setPurging] = useState<{ id: string; target: PurgeTarget; impact: PurgeImpact | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (archivedTopics.length === 0 && archivedQuestions.length === 0) return null;
+
+  const startPurge = async (id: string, target: PurgeTarget) => {
+    setError(null);
+    setPurging({ id, target, impact: null });
+    const impact = await getPurgeImpact(target);
+    if (!impact) {
+      setError(t("admin.archived.impactFailed"));
+      setPurging(null);
+      return;
+    }
+    setPurging({ id, target, impact });
+  };
+
+  const confirmPurge = async () => {
+    if (!purging) return;
+    const result = await purgeArchived(purging.target);
+    if (!result.success) setError(errorMessage(t, result, "admin.archived.purgeFailed"));
+    setPurging(null);
+  };
+
+  const topicName = (id: string) => topics.find((topic) => topic.id === id)?.name || "—";
+
+  const items = [
+    ...archivedTopics.map((topic) => ({
+      id: topic.id,
+      label: topic.name,
+      kind: t("admin.archived.topic"),
+      target: { topicId: topic.id },
+    })),
+    ...archivedQuestions.map((q) => ({
+      id: q.id,
+      label: q.text,
+      kind: topicName(q.topicId),
+      target: { questionId: q.id },
+    })),
+  ];
+
+  return (
+    <div className="bg-stone-100 rounded-xl p-3 space-y-2">
+      <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">
+        {t("admin.archived.title", { count: items.length })}
+      </span>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {items.map((item) => (
+        <div key={item.id} className="bg-white rounded-lg px-3 py-2.5">
+          <p className="text-sm text-stone-600 leading-snug">{item.label}</p>
+          {purging?.id === item.id ? (
+            <div className="mt-2">
+              {!purging.impact ? (
+                <p className="text-xs text-stone-400">{t("admin.archived.checking")}</p>
+              ) : purging.impact.liveSessions > 0 ? (
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-xs text-orange-600">
+                    {t("admin.archived.inUse", { count: purging.impact.liveSessions })}
+                  </p>
+                  <button onClick={() => setPurging(null)} className="text-xs text-stone-400 shrink-0">
+                    {t("admin.archived.close")}
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <p className="text-xs text-red-600 mb-2">{describeImpact(t, purging.impact)}</p>
+                  <div className="flex gap-2">
+                    <button onClick={confirmPurge} className="text-xs font-medium text-red-600">
+                      {t("admin.archived.deletePermanently")}
+                    </button>
+                    <button onClick={() => setPurging(null)} className="text-xs text-stone-400">
+                      {t("common.cancel")}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-[10px] font-medium text-stone-400 uppercase tracking-wider">{item.kind}</span>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => ("topicId" in item.target ? restoreTopic(item.id) : restoreQuestion(item.id))}
+                  className="text-xs font-medium text-amber-800"
+                >
+                  {t("admin.archived.restore")}
+                </button>
+                <button onClick={() => startPurge(item.id, item.target)} className="text-xs text-red-400">
+                  {t("admin.archived.purge")}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DepthSelect({ value, onChange }: { value: QuestionDepth; onChange: (depth: QuestionDepth) => void }) {
+  const { t } = useI18n();
+  return (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v) as QuestionDepth)}>
+      <SelectTrigger className="h-9 w-24 rounded-lg text-xs bg-stone-50 shrink-0">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {QUESTION_DEPTHS.map(({ depth, label }) => (
+          <SelectItem key={depth} value={String(depth)}>
+            {t(label)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function PublicationFields({ value, onChange }: { value: Publication; onChange: (value: Publication) => void }) {
+  const { t } = useI18n();
+  const status = value.status ?? "published";
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-1 p-1 bg-stone-100 rounded-lg">
+        {PUBLICATION_STATUSES.map((s) => (
+          <button
+            key={s.status}
+            onClick={() => onChange({ ...value, status: s.status })}
+            className={`h-7 rounded-md text-xs font-medium transition-colors ${
+              status === s.status ? "bg-white text-amber-800 shadow-sm" : "text-stone-500"
+            }`}
+          >
+            {t(s.label)}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <label className="flex-1">
+          <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">
+            {t("admin.availableFrom")}
+          </span>
+          <Input
+            type="date"
+            value={value.available_from ?? ""}
+            onChange={(e) => onChange({ ...value, available_from: e.target.value })}
+            className="h-9 rounded-lg text-xs"
+          />
+        </label>
+        <label className="flex-1">
+          <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">
+            {t("admin.availableUntil")}
+          </span>
+          <Input
+            type="date"
+            value={value.available_until ?? ""}
+            onChange={(e) => onChange({ ...value, available_until: e.target.value })}
+            className="h-9 rounded-lg text-xs"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+// English originals next to their translations; blank translations fall back to English
+function TranslationFields<T extends object>({
+  value,
+  fields,
+  onChange,
+}: {
+  value?: Translations<T>;
+  fields: Array<{ field: keyof T & string; original?: string | null }>;
+  onChange: (value: Translations<T>) => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <>
+      {TRANSLATED_LANGUAGES.map((l) => (
+        <div key={l.language} className="rounded-lg bg-stone-50 p-2 space-y-1.5">
+          <div className="grid grid-cols-2 gap-2">
+            <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">
+              {t("admin.translation.original")}
+            </span>
+            <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">{l.label}</span>
+          </div>
+          {fields.map((f) => (
+            <div key={f.field} className="grid grid-cols-2 gap-2 items-center">
+              <p className="text-xs text-stone-500 leading-snug">{f.original || "—"}</p>
+              <Input
+                value={String(value?.[l.language]?.[f.field] ?? "")}
+                onChange={(e) => onChange(withTranslation(value, l.language, f.field, e.target.value))}
+                placeholder={t("admin.translation.fallback")}
+                className="h-9 rounded-lg text-xs bg-white"
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+    </>
+  );
+}
+
+function AvailabilityBadge({ item }: { item: Publication }) {
+  const { t, locale } = useI18n();
+  const label = availabilityLabel(t, locale, item);
+  if (!label) return null;
+
+  return (
+    <span
+      className={`px-1.5 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wide ${
+        isAvailable(item) ? "bg-green-100 text-green-700" : "bg-stone-100 text-stone-500"
+      }`}
+    >
+      {label}
+    </span>
+  );
+}
+
+function GuestSuggestions() {
+  const { allTopics, promoteSuggestion, dismissSuggestion } = useApp();
+  const { t } = useI18n();
+  const { suggestions } = useQuestionSuggestions({ status: "approved" });
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 rounded-xl p-3 border border-amber-100 space-y-2">
+      <span className="text-[10px] text-amber-800 uppercase tracking-wider font-medium">
+        {t("admin.suggestions.title", { count: suggestions.length })}
+      </span>
+      {suggestions.map((s) => (
+        <div key={s.id} className="bg-white rounded-lg px-3 py-2.5">
+          <p className="text-sm text-stone-800 leading-snug">{s.text}</p>
+          <div className="flex items-center justify-between mt-2">
+            <span className="text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+              {allTopics.find((topic) => topic.id === s.topicId)?.name || "—"} · {s.guestNickname}
+            </span>
+            <div className="flex gap-3">
+              <button onClick={() => promoteSuggestion(s)} className="text-xs font-medium text-amber-800">
+                {t("admin.suggestions.addToBank")}
+              </button>
+              <button onClick={() => dismissSuggestion(s.id)} className="text-xs text-stone-400">
+                {t("common.dismiss")}
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DuplicateWarning({
+  matches,
+  onSave,
+  onCancel,
+}: {
+  matches: SimilarQuestion[];
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const { allTopics } = useApp();
+  const { t } = useI18n();
+  const exact = matches.some((m) => m.exact);
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 rounded-lg px-3 py-2.5 space-y-1.5">
+      <p className="text-xs text-orange-800 font-medium">
+        {exact ? t("admin.duplicates.exactWarning") : t("admin.duplicates.similarWarning")}
+      </p>
+      {matches.map((m) => (
+        <p key={m.id} className="text-xs text-orange-700 leading-snug">
+          "{m.text}"{" "}
+          <span className="text-orange-500">
+            · {allTopics.find((topic) => topic.id === m.topicId)?.name || "—"} ·{" "}
+            {m.exact
+              ? t("admin.duplicates.exact")
+              : t("admin.duplicates.similar", { percent: Math.round(m.similarity * 100) })}
+          </span>
+        </p>
+      ))}
+      <div className="flex gap-3 pt-1">
+        <button onClick={onSave} className="text-xs font-medium text-orange-800">
+          {t("admin.duplicates.saveAnyway")}
+        </button>
+        <button onClick={onCancel} className="text-xs text-stone-400">
+          {t("common.cancel")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Clusters of similar questions across the bank
+ * Keeping one question archives the rest of its cluster into it
+ */
+function DuplicateReport({ onMerged }: { onMerged: () => void }) {
+  const { allTopics, mergeQuestions } = useApp();
+  const { t } = useI18n();
+  const [pairs, setPairs] = useState<DuplicatePair[] | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]); // only the questions that appear in a pair
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const clusters = useMemo(() => (pairs ? clusterDuplicates(pairs, questions) : []), [pairs, questions]);
+
+  const findDuplicates = async () => {
+    setLoading(true);
+    const result = await questionBankService.getDuplicatePairs();
+    if (!result.success || !result.pairs) {
+      setLoading(false);
+      setError(errorMessage(t, result, "admin.duplicates.findFailed"));
+      return;
+    }
+    const loaded = await questionService.loadQuestions([...new Set(result.pairs.flatMap((p) => [p.a, p.b]))]);
+    setLoading(false);
+    if (!loaded.success || !loaded.questions) {
+      setError(errorMessage(t, loaded, "admin.duplicates.findFailed"));
+      return;
+    }
+    setError("");
+    setQuestions(loaded.questions);
+    setPairs(result.pairs);
+  };
+
+  const keep = async (keepId: string, cluster: Question[]) => {
+    const mergeIds = cluster.filter((q) => q.id !== keepId).map((q) => q.id);
+    const result = await mergeQuestions(keepId, mergeIds);
+    if (!result.success) {
+      setError(errorMessage(t, result, "admin.duplicates.mergeFailed"));
+      return;
+    }
+    setError("");
+    // Merged questions are archived, which dissolves their cluster
+    setQuestions((prev) => prev.filter((q) => !mergeIds.includes(q.id)));
+    onMerged();
+  };
+
+  if (!pairs) {
+    return (
+      <button
+        onClick={findDuplicates}
+        disabled={loading}
+        className="w-full h-10 rounded-xl border border-stone-200 text-stone-600 text-xs font-medium hover:bg-stone-50 transition-colors disabled:opacity-40"
+      >
+        {loading ? t("admin.duplicates.searching") : t("admin.duplicates.find")}
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-stone-100 rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">
+          {t("admin.duplicates.title", { count: clusters.length })}
+        </span>
+        <button onClick={() => setPairs(null)} className="text-xs text-stone-400">
+          {t("admin.duplicates.close")}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {clusters.length === 0 && <p className="text-xs text-stone-500">{t("admin.duplicates.none")}</p>}
+      {clusters.map((cluster) => (
+        <div key={cluster[0].id} className="bg-white rounded-lg px-3 py-2.5 space-y-2">
+          {cluster.map((q) => (
+            <div key={q.id} className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm text-stone-800 leading-snug">{q.text}</p>
+                <span className="text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+                  {allTopics.find((topic) => topic.id === q.topicId)?.name || "—"}
+                </span>
+              </div>
+              <button onClick={() => keep(q.id, cluster)} className="text-xs font-medium text-amber-800 shrink-0">
+                {t("admin.duplicates.keep")}
+              </button>
+            </div>
+          ))}
+        </div>
+      ))}
     </div>
   );
 }
 
 function QuestionsTab() {
-  const { topics, questions, addQuestion, editQuestion, removeQuestion } = useApp();
+  const { topics, sessions, addQuestion, editQuestion, archiveQuestion } = useApp();
+  const { t } = useI18n();
+  const [search, setSearch] = useState("");
   const [filterTopicId, setFilterTopicId] = useState<string>("all");
+  const [sortBy, setSortBy] = useState<QuestionSort>("created");
+  const [page, setPage] = useState(0);
   const [newText, setNewText] = useState("");
   const [newTopicId, setNewTopicId] = useState("");
+  const [newDepth, setNewDepth] = useState<QuestionDepth>(2);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editText, setEditText] = useState("");
   const [editTopicId, setEditTopicId] = useState("");
+  const [editDepth, setEditDepth] = useState<QuestionDepth>(2);
+  const [editPublication, setEditPublication] = useState<Publication>({});
+  const [editTranslations, setEditTranslations] = useState<Question["translations"]>({});
+  const [newPublication, setNewPublication] = useState<Publication>({ status: "published" });
+  const [filterStatus, setFilterStatus] = useState<PublicationStatus | null>(null);
+  // Near-matches found for the question being added ("new") or edited, waiting on the admin
+  const [duplicateWarning, setDuplicateWarning] = useState<{
+    target: string;
+    matches: SimilarQuestion[];
+    save: () => void;
+  } | null>(null);
+
+  // Reactions summed across every archived session the question was asked in
+  const reactionTotals = useMemo(() => {
+    const totals: Record<string, ReactionCounts> = {};
+    for (const s of sessions) {
+      for (const pq of s.pickedQuestions) {
+        if (pq.questionId) totals[pq.questionId] = addReactionCounts(totals[pq.questionId] ?? {}, pq.reactions);
+      }
+    }
+    return totals;
+  }, [sessions]);
+
+  const {
+    questions: filtered,
+    total,
+    pageCount,
+    loading,
+    error,
+    refetch,
+  } = useQuestionSearch({
+    search,
+    topicId: filterTopicId === "all" ? null : filterTopicId,
+    status: filterStatus,
+    sort: sortBy,
+    page,
+  });
+
+  // Saves straight away unless the bank already has the question or something close to it
+  const saveWithCheck = async (target: string, text: string, excludeId: string | undefined, save: () => void) => {
+    const result = await questionBankService.findSimilarQuestions(text, excludeId);
+    if (result.success && result.matches && result.matches.length > 0) {
+      setDuplicateWarning({
+        target,
+        matches: result.matches,
+        save: () => {
+          setDuplicateWarning(null);
+          save();
+        },
+      });
+      return;
+    }
+    save();
+  };
 
-  const filtered = filterTopicId === "all" ? questions : questions.filter((q) => q.topicId === filterTopicId);
-  const topicName = (id: string) => topics.find((t) => t.id === id)?.name || "—";
+  // Any change to the query starts again from the first page
+  const updateQuery = (apply: () => void) => {
+    apply();
+    setPage(0);
+  };
+
+  const topicName = (id: string) => topics.find((topic) => topic.id === id)?.name || "—";
 
   return (
     <div className="space-y-4">
-      {/* Filter */}
-      <Select value={filterTopicId} onValueChange={setFilterTopicId}>
-        <SelectTrigger className="h-10 rounded-lg text-sm bg-white border-stone-200">
-          <SelectValue placeholder="Filter by topic" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="all">All Topics</SelectItem>
-          {topics.map((t) => (
-            <SelectItem key={t.id} value={t.id}>
-              {t.name}
-            </SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
+      {/* Search and filter */}
+      <Input
+        placeholder={t("admin.questions.searchPlaceholder")}
+        value={search}
+        onChange={(e) => updateQuery(() => setSearch(e.target.value))}
+        className="h-10 rounded-lg border-stone-200 bg-white text-sm"
+      />
+      <div className="flex gap-2">
+        <Select value={filterTopicId} onValueChange={(v) => updateQuery(() => setFilterTopicId(v))}>
+          <SelectTrigger className="h-10 rounded-lg text-sm bg-white border-stone-200 flex-1">
+            <SelectValue placeholder={t("admin.questions.filterTopic")} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t("admin.questions.allTopics")}</SelectItem>
+            {topics.map((topic) => (
+              <SelectItem key={topic.id} value={topic.id}>
+                {topic.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sortBy} onValueChange={(v) => updateQuery(() => setSortBy(v as QuestionSort))}>
+          <SelectTrigger className="h-10 rounded-lg text-sm bg-white border-stone-200 w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="created">{t("admin.questions.sort.created")}</SelectItem>
+            <SelectItem value="updated">{t("admin.questions.sort.updated")}</SelectItem>
+            <SelectItem value="picked">{t("admin.questions.sort.picked")}</SelectItem>
+            <SelectItem value="reactions">{t("admin.questions.sort.reactions")}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-4 gap-1 p-1 bg-stone-100 rounded-lg">
+        {[{ status: null, label: "admin.questions.allStatuses" as const }, ...PUBLICATION_STATUSES].map((s) => (
+          <button
+            key={s.label}
+            onClick={() => updateQuery(() => setFilterStatus(s.status))}
+            className={`h-8 rounded-md text-xs font-medium transition-colors ${
+              filterStatus === s.status ? "bg-white text-amber-800 shadow-sm" : "text-stone-500"
+            }`}
+          >
+            {t(s.label)}
+          </button>
+        ))}
+      </div>
+
+      <GuestSuggestions />
+
+      <DuplicateReport onMerged={refetch} />
 
       {/* Add question */}
       <div className="space-y-2 bg-white rounded-xl p-3 border border-stone-100">
         <Input
-          placeholder="New question text..."
+          placeholder={t("admin.questions.newPlaceholder")}
           value={newText}
           onChange={(e) => setNewText(e.target.value)}
           className="h-9 rounded-lg text-sm"
@@ -152,30 +778,43 @@ function QuestionsTab() {
         <div className="flex gap-2">
           <Select value={newTopicId} onValueChange={setNewTopicId}>
             <SelectTrigger className="h-9 rounded-lg text-xs flex-1 bg-stone-50">
-              <SelectValue placeholder="Assign topic" />
+              <SelectValue placeholder={t("admin.questions.assignTopic")} />
             </SelectTrigger>
             <SelectContent>
-              {topics.map((t) => (
-                <SelectItem key={t.id} value={t.id}>
-                  {t.name}
+              {topics.map((topic) => (
+                <SelectItem key={topic.id} value={topic.id}>
+                  {topic.name}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
+          <DepthSelect value={newDepth} onChange={setNewDepth} />
           <button
             onClick={() => {
               if (newText.trim() && newTopicId) {
-                addQuestion(newTopicId, newText.trim());
-                setNewText("");
-                setNewTopicId("");
+                saveWithCheck("new", newText, undefined, () => {
+                  addQuestion(newTopicId, newText.trim(), newDepth, newPublication).then(refetch);
+                  setNewText("");
+                  setNewTopicId("");
+                  setNewDepth(2);
+                  setNewPublication({ status: "published" });
+                });
               }
             }}
             disabled={!newText.trim() || !newTopicId}
             className="h-9 px-4 rounded-lg bg-amber-800 text-amber-50 text-xs font-medium disabled:opacity-40 shrink-0"
           >
-            Add
+            {t("common.add")}
           </button>
         </div>
+        <PublicationFields value={newPublication} onChange={setNewPublication} />
+        {duplicateWarning?.target === "new" && (
+          <DuplicateWarning
+            matches={duplicateWarning.matches}
+            onSave={duplicateWarning.save}
+            onCancel={() => setDuplicateWarning(null)}
+          />
+        )}
       </div>
 
       {/* Question list */}
@@ -190,53 +829,93 @@ function QuestionsTab() {
                   className="h-9 rounded-lg text-sm"
                   autoFocus
                 />
-                <Select value={editTopicId} onValueChange={setEditTopicId}>
-                  <SelectTrigger className="h-9 rounded-lg text-xs bg-stone-50">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {topics.map((t) => (
-                      <SelectItem key={t.id} value={t.id}>
-                        {t.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <div className="flex gap-2">
+                  <Select value={editTopicId} onValueChange={setEditTopicId}>
+                    <SelectTrigger className="h-9 rounded-lg text-xs flex-1 bg-stone-50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {topics.map((topic) => (
+                        <SelectItem key={topic.id} value={topic.id}>
+                          {topic.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <DepthSelect value={editDepth} onChange={setEditDepth} />
+                </div>
+                <TranslationFields
+                  value={editTranslations}
+                  fields={[{ field: "text", original: editText }]}
+                  onChange={setEditTranslations}
+                />
+                <PublicationFields value={editPublication} onChange={setEditPublication} />
                 <div className="flex gap-2">
                   <button
                     onClick={() => {
-                      editQuestion(q.id, editText, editTopicId);
-                      setEditingId(null);
+                      const save = () => {
+                        editQuestion(q.id, editText, editTopicId, editDepth, editPublication, editTranslations).then(
+                          refetch,
+                        );
+                        setEditingId(null);
+                      };
+                      if (normalizeQuestionText(editText) === normalizeQuestionText(q.text)) save();
+                      else saveWithCheck(q.id, editText, q.id, save);
                     }}
                     className="text-xs font-medium text-amber-800"
                   >
-                    Save
+                    {t("common.save")}
                   </button>
-                  <button onClick={() => setEditingId(null)} className="text-xs text-stone-400">
-                    Cancel
+                  <button
+                    onClick={() => {
+                      setEditingId(null);
+                      setDuplicateWarning(null);
+                    }}
+                    className="text-xs text-stone-400"
+                  >
+                    {t("common.cancel")}
                   </button>
                 </div>
+                {duplicateWarning?.target === q.id && (
+                  <DuplicateWarning
+                    matches={duplicateWarning.matches}
+                    onSave={duplicateWarning.save}
+                    onCancel={() => setDuplicateWarning(null)}
+                  />
+                )}
               </div>
             ) : (
               <div>
                 <p className="text-sm text-stone-800 leading-snug">{q.text}</p>
+                <ReactionCountsRow counts={reactionTotals[q.id]} className="mt-1.5" />
                 <div className="flex items-center justify-between mt-2">
-                  <span className="text-[10px] font-medium text-stone-400 uppercase tracking-wider">
-                    {topicName(q.topicId)}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+                      {topicName(q.topicId)} · {t(depthLabel(q.depth))}
+                      {q.timesPicked > 0 && ` · ${t("admin.questions.asked", { count: q.timesPicked })}`}
+                    </span>
+                    <AvailabilityBadge item={q} />
+                  </div>
                   <div className="flex gap-3">
                     <button
                       onClick={() => {
                         setEditingId(q.id);
                         setEditText(q.text);
                         setEditTopicId(q.topicId);
+                        setEditDepth(q.depth);
+                        setEditTranslations(q.translations ?? {});
+                        setEditPublication({
+                          status: q.status,
+                          available_from: q.available_from,
+                          available_until: q.available_until,
+                        });
                       }}
                       className="text-xs text-stone-500"
                     >
-                      Edit
+                      {t("common.edit")}
                     </button>
-                    <button onClick={() => removeQuestion(q.id)} className="text-xs text-red-400">
-                      Delete
+                    <button onClick={() => archiveQuestion(q.id).then(refetch)} className="text-xs text-red-400">
+                      {t("admin.archive")}
                     </button>
                   </div>
                 </div>
@@ -244,18 +923,45 @@ function QuestionsTab() {
             )}
           </div>
         ))}
-        {filtered.length === 0 && <p className="text-center text-stone-400 text-sm py-8">No questions found.</p>}
+        {error && <p className="text-center text-red-600 text-xs py-2">{error}</p>}
+        {!loading && !error && filtered.length === 0 && (
+          <p className="text-center text-stone-400 text-sm py-8">{t("admin.questions.none")}</p>
+        )}
       </div>
+
+      {/* Pagination */}
+      {total > QUESTION_PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="h-9 px-4 rounded-lg border border-stone-200 text-stone-600 text-xs font-medium disabled:opacity-40"
+          >
+            {t("admin.questions.previous")}
+          </button>
+          <span className="text-xs text-stone-400">
+            {t("admin.questions.page", { page: page + 1, pages: pageCount, count: total })}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="h-9 px-4 rounded-lg border border-stone-200 text-stone-600 text-xs font-medium disabled:opacity-40"
+          >
+            {t("admin.questions.next")}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
 
 function HistoryTab() {
   const { sessions, deleteSessionRecord } = useApp();
+  const { t, formatDate, formatDateTime } = useI18n();
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
   if (sessions.length === 0) {
-    return <p className="text-center text-stone-400 text-sm py-12">No session history yet.</p>;
+    return <p className="text-center text-stone-400 text-sm py-12">{t("admin.history.empty")}</p>;
   }
 
   return (
@@ -269,7 +975,7 @@ function HistoryTab() {
             <div>
               <span className="text-sm font-semibold text-stone-800 font-mono">{s.code}</span>
               <p className="text-[10px] text-stone-400 mt-0.5">
-                {new Date(s.startTime).toLocaleDateString()} · {s.guestCount} guest{s.guestCount !== 1 ? "s" : ""}
+                {formatDate(s.startTime)} · {t("admin.history.guestCount", { count: s.guestCount })}
               </p>
             </div>
             <svg
@@ -288,39 +994,85 @@ function HistoryTab() {
             <div className="px-4 pb-4 border-t border-stone-50 pt-3 space-y-3">
               <div className="grid grid-cols-2 gap-3 text-xs">
                 <div>
-                  <span className="text-stone-400 block mb-1">Start</span>
-                  <span className="text-stone-700">{new Date(s.startTime).toLocaleString()}</span>
+                  <span className="text-stone-400 block mb-1">{t("admin.history.start")}</span>
+                  <span className="text-stone-700">{formatDateTime(s.startTime)}</span>
                 </div>
                 <div>
-                  <span className="text-stone-400 block mb-1">End</span>
-                  <span className="text-stone-700">{new Date(s.endTime).toLocaleString()}</span>
+                  <span className="text-stone-400 block mb-1">{t("admin.history.end")}</span>
+                  <span className="text-stone-700">{formatDateTime(s.endTime)}</span>
                 </div>
               </div>
               <div>
-                <span className="text-[10px] text-stone-400 uppercase tracking-wider block mb-1">Topics</span>
+                <span className="text-[10px] text-stone-400 uppercase tracking-wider block mb-1">
+                  {t("admin.history.topics")}
+                </span>
                 <div className="flex flex-wrap gap-1">
-                  {s.confirmedTopics.map((t, i) => (
-                    <span key={i} className="px-2 py-0.5 bg-amber-100 text-amber-800 rounded-md text-xs font-medium">
-                      {t}
+                  {s.topicSelections.map((selection, i) => (
+                    <span
+                      key={i}
+                      className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                        selection.reason === "votes" || !selection.reason
+                          ? topicColorClasses(selection.color).chip
+                          : "bg-stone-100 text-stone-700"
+                      }`}
+                    >
+                      {selection.icon && `${selection.icon} `}
+                      {selection.name}
+                      {selection.reason && selection.reason !== "votes" && (
+                        <span className="text-stone-400"> · {t(SELECTION_REASON_LABELS[selection.reason])}</span>
+                      )}
                     </span>
                   ))}
                 </div>
+                {s.tieBreak && (
+                  <p className="text-[10px] text-stone-400 mt-1">
+                    {t("tieBreak.brokenBy", { method: describeTieBreak(t, s.tieBreak).toLowerCase() })}
+                  </p>
+                )}
               </div>
+              {s.settings && (
+                <div>
+                  <span className="text-[10px] text-stone-400 uppercase tracking-wider block mb-1">
+                    {t("admin.history.rules")}
+                  </span>
+                  <p className="text-xs text-stone-600">
+                    {t("admin.history.votingRule", {
+                      mode: t(
+                        VOTING_MODES.find((m) => m.mode === s.settings?.votingMode)?.label ?? "votingMode.approval",
+                      ),
+                    })}{" "}
+                    · {t("admin.history.votesPerGuest", { count: s.settings.votesPerGuest })} ·{" "}
+                    {t("admin.history.drawRule", { strategy: t(drawStrategyLabel(s.settings.drawStrategy)) })}
+                    {s.settings.turnMode !== "parallel" &&
+                      ` · ${t("admin.history.turnRule", { mode: t(turnModeLabel(s.settings.turnMode)) })}`}
+                  </p>
+                </div>
+              )}
               <div>
-                <span className="text-[10px] text-stone-400 uppercase tracking-wider block mb-1">Guests</span>
+                <span className="text-[10px] text-stone-400 uppercase tracking-wider block mb-1">
+                  {t("admin.history.guests")}
+                </span>
                 <p className="text-xs text-stone-600">{s.guests.join(", ")}</p>
               </div>
               <div>
                 <span className="text-[10px] text-stone-400 uppercase tracking-wider block mb-1">
-                  Questions Picked ({s.pickedQuestions.length})
+                  {t("admin.history.questionsPicked", { count: s.pickedQuestions.filter((pq) => !pq.passed).length })}
+                  {s.pickedQuestions.some((pq) => pq.passed) &&
+                    ` · ${t("admin.history.passedCount", { count: s.pickedQuestions.filter((pq) => pq.passed).length })}`}
                 </span>
                 <div className="space-y-1.5 max-h-48 overflow-auto">
                   {s.pickedQuestions.map((pq, i) => (
-                    <div key={i} className="bg-stone-50 rounded-lg px-3 py-2">
-                      <p className="text-xs text-stone-700 leading-snug">"{pq.questionText}"</p>
+                    <div key={i} className={`rounded-lg px-3 py-2 ${pq.passed ? "bg-stone-50/50" : "bg-stone-50"}`}>
+                      <p
+                        className={`text-xs leading-snug ${pq.passed ? "text-stone-400 line-through" : "text-stone-700"}`}
+                      >
+                        "{pq.questionText}"
+                      </p>
                       <p className="text-[10px] text-stone-400 mt-1">
-                        {pq.guestNickname} · Round {pq.round} · {pq.topicName}
+                        {pq.guestNickname} · {t("admin.history.round", { round: pq.round })} · {pq.topicName}
+                        {pq.passed && ` · ${t("admin.history.passed")}`}
                       </p>
+                      <ReactionCountsRow counts={pq.reactions} className="mt-1" />
                     </div>
                   ))}
                 </div>
@@ -329,7 +1081,7 @@ function HistoryTab() {
                 onClick={() => deleteSessionRecord(s.id)}
                 className="text-xs text-red-400 hover:text-red-600 mt-2"
               >
-                Delete Record
+                {t("admin.history.delete")}
               </button>
             </div>
           )}
@@ -339,42 +1091,272 @@ function HistoryTab() {
   );
 }
 
+const ACTIVITY_PAGE_SIZE = 50;
+
+function ActivityTab() {
+  const { revertQuestionEdit } = useApp();
+  const { t, formatDateTime } = useI18n();
+  const [entries, setEntries] = useState<AuditLogEntry[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState("");
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const load = async (before?: string) => {
+    const result = await questionBankService.getAuditLog(ACTIVITY_PAGE_SIZE, before);
+    if (!result.success || !result.entries) {
+      setError(errorMessage(t, result, "admin.activity.loadFailed"));
+      return;
+    }
+    setError("");
+    setEntries((current) => (before && current ? [...current, ...result.entries] : result.entries));
+    setHasMore(result.entries.length === ACTIVITY_PAGE_SIZE);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const revert = async (entryId: string) => {
+    setRevertingId(entryId);
+    const result = await revertQuestionEdit(entryId);
+    setRevertingId(null);
+    if (!result.success) {
+      setError(errorMessage(t, result, "admin.activity.revertFailed"));
+      return;
+    }
+    // The revert is logged as a new edit at the top
+    load();
+  };
+
+  if (!entries) {
+    return <p className="text-center text-stone-400 text-sm py-12">{error || t("admin.activity.loading")}</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-center text-stone-400 text-sm py-12">{t("admin.activity.empty")}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {entries.map((entry) => {
+        const change = auditTextChange(entry);
+        return (
+          <div key={entry.id} className="bg-white rounded-xl px-4 py-3 border border-stone-100">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-medium text-stone-400 uppercase tracking-wider">
+                {describeAuditEntry(t, entry)}
+              </span>
+              <span className="text-[10px] text-stone-400">{formatDateTime(entry.createdAt)}</span>
+            </div>
+            {change ? (
+              <div className="mt-1.5 space-y-1">
+                <p className="text-xs text-stone-400 line-through leading-snug">{change.before}</p>
+                <p className="text-sm text-stone-800 leading-snug">{change.after}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-stone-800 leading-snug mt-1.5">{auditEntryLabel(entry)}</p>
+            )}
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-xs text-stone-500">{entry.actorEmail ?? t("admin.activity.system")}</span>
+              {canRevert(entry) && (
+                <button
+                  onClick={() => revert(entry.id)}
+                  disabled={revertingId !== null}
+                  className="text-xs font-medium text-amber-800 disabled:opacity-40"
+                >
+                  {revertingId === entry.id ? t("admin.activity.reverting") : t("admin.activity.revert")}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {hasMore && (
+        <button
+          onClick={() => load(entries[entries.length - 1].createdAt)}
+          className="w-full h-10 rounded-xl border border-stone-200 text-stone-600 text-xs font-medium hover:bg-stone-50 transition-colors"
+        >
+          {t("admin.activity.loadOlder")}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function SettingsTab() {
+  const { t } = useI18n();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    appSettingsService.getAppSettings().then((result) => {
+      if (result.success && result.settings) {
+        setSettings(result.settings);
+      } else {
+        setError(errorMessage(t, result, "admin.settings.loadFailed"));
+      }
+    });
+  }, []);
+
+  const update = async (changes: Partial<AppSettings>) => {
+    if (!settings) return;
+    const previous = settings;
+    setSettings({ ...settings, ...changes });
+
+    const result = await appSettingsService.updateAppSettings(changes);
+    if (!result.success) {
+      setSettings(previous);
+      setError(errorMessage(t, result, "admin.settings.saveFailed"));
+    } else {
+      setError("");
+    }
+  };
+
+  if (!settings) {
+    return <p className="text-center text-stone-400 text-sm py-12">{error || t("admin.settings.loading")}</p>;
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-stone-100 p-4 space-y-4">
+      <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">
+        {t("admin.settings.freshness")}
+      </span>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-stone-700">{t("admin.settings.recentSessions")}</p>
+          <p className="text-[11px] text-stone-400">
+            {settings.freshnessSessions === 0
+              ? t("admin.settings.recentSessions.off")
+              : t("admin.settings.recentSessions.on")}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={() => update({ freshnessSessions: settings.freshnessSessions - 1 })}
+            disabled={settings.freshnessSessions <= 0}
+            className="w-8 h-8 rounded-lg bg-stone-100 text-stone-600 font-bold disabled:opacity-30 hover:bg-stone-200 transition-colors"
+          >
+            −
+          </button>
+          <span className="w-6 text-center text-sm font-bold text-stone-800">{settings.freshnessSessions}</span>
+          <button
+            onClick={() => update({ freshnessSessions: settings.freshnessSessions + 1 })}
+            disabled={settings.freshnessSessions >= 50}
+            className="w-8 h-8 rounded-lg bg-stone-100 text-stone-600 font-bold disabled:opacity-30 hover:bg-stone-200 transition-colors"
+          >
+            +
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-stone-700">{t("admin.settings.heldBack")}</p>
+          <p className="text-[11px] text-stone-400">
+            {settings.freshnessMode === "exclude"
+              ? t("admin.settings.heldBack.exclude")
+              : t("admin.settings.heldBack.deprioritize")}
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-lg shrink-0">
+          {(["deprioritize", "exclude"] as const).map((freshnessMode) => (
+            <button
+              key={freshnessMode}
+              onClick={() => update({ freshnessMode })}
+              className={`h-7 px-2.5 rounded-md text-xs font-semibold transition-colors ${
+                settings.freshnessMode === freshnessMode
+                  ? "bg-white text-amber-800 shadow-sm"
+                  : "text-stone-500 hover:text-stone-700"
+              }`}
+            >
+              {freshnessMode === "exclude" ? t("admin.settings.exclude") : t("admin.settings.later")}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-stone-700">{t("admin.settings.returningGuests")}</p>
+          <p className="text-[11px] text-stone-400">{t("admin.settings.returningGuests.hint")}</p>
+        </div>
+        <div className="grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-lg shrink-0">
+          {[true, false].map((excludeAnswered) => (
+            <button
+              key={String(excludeAnswered)}
+              onClick={() => update({ excludeAnswered })}
+              className={`h-7 px-2.5 rounded-md text-xs font-semibold transition-colors ${
+                settings.excludeAnswered === excludeAnswered
+                  ? "bg-white text-amber-800 shadow-sm"
+                  : "text-stone-500 hover:text-stone-700"
+              }`}
+            >
+              {excludeAnswered ? t("common.on") : t("common.off")}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-stone-700">{t("admin.settings.language")}</p>
+          <p className="text-[11px] text-stone-400">{t("admin.settings.language.hint")}</p>
+        </div>
+        <LanguageSwitcher className="shrink-0" />
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
 export function AdminView() {
-  const { logout, topics, questions } = useApp();
+  const { logout, topics, questionCounts, adminTab, setAdminTab } = useApp();
+  const { t } = useI18n();
+  const questionCount = topics.reduce((sum, topic) => sum + (questionCounts[topic.id]?.total ?? 0), 0);
   return (
     <MobileShell>
       <ViewHeader
-        title="Admin Panel"
-        subtitle={`${topics.length} topics · ${questions.length} questions`}
+        title={t("admin.title")}
+        subtitle={t("admin.subtitle", { topics: topics.length, questions: questionCount })}
         onBack={() => {
           logout();
         }}
         rightAction={
           <button onClick={logout} className="text-xs text-stone-500 font-medium">
-            Sign Out
+            {t("admin.signOut")}
           </button>
         }
       />
       <div className="flex-1 px-5 pb-6">
-        <Tabs defaultValue="topics" className="w-full">
+        <Tabs value={adminTab} onValueChange={(tab) => setAdminTab(tab as AdminTab)} className="w-full">
           <TabsList className="w-full h-10 bg-stone-200/60 rounded-xl mb-4 p-1">
             <TabsTrigger
               value="topics"
               className="flex-1 text-xs font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm"
             >
-              Topics
+              {t("admin.tab.topics")}
             </TabsTrigger>
             <TabsTrigger
               value="questions"
               className="flex-1 text-xs font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm"
             >
-              Questions
+              {t("admin.tab.questions")}
             </TabsTrigger>
             <TabsTrigger
               value="history"
               className="flex-1 text-xs font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm"
             >
-              History
+              {t("admin.tab.history")}
+            </TabsTrigger>
+            <TabsTrigger
+              value="activity"
+              className="flex-1 text-xs font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm"
+            >
+              {t("admin.tab.activity")}
+            </TabsTrigger>
+            <TabsTrigger
+              value="settings"
+              className="flex-1 text-xs font-medium rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm"
+            >
+              {t("admin.tab.settings")}
             </TabsTrigger>
           </TabsList>
           <TabsContent value="topics">
@@ -386,6 +1368,15 @@ export function AdminView() {
           <TabsContent value="history">
             <HistoryTab />
           </TabsContent>
+          <TabsContent value="activity">
+            <ActivityTab />
+          </TabsContent>
+          <TabsContent value="settings">
+            <div className="space-y-4">
+              <SettingsTab />
+              <QuestionBankTransfer />
+            </div>
+          </TabsContent>
         </Tabs>
       </div>
     </MobileShell>
@@ -1,8 +1,10 @@
 import { MobileShell } from "@/components/MobileShell";
 import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
 
 export function EndedView() {
-  const { setView, currentSession } = useApp();
+  const { leaveSession, currentSession } = useApp();
+  const { t } = useI18n();
 
   return (
     <MobileShell>
@@ -21,24 +23,18 @@ export function EndedView() {
             <path d="M20.84 4.61a5.5 5.5 0 00-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 00-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 000-7.78z" />
           </svg>
         </div>
-        <h2 className="text-2xl font-bold text-stone-900 mb-2">
-          Thank you for sharing
-          <br />
-          your table.
-        </h2>
-        <p className="text-stone-500 text-sm max-w-[260px] leading-relaxed mb-2">
-          Great conversations happen when strangers become friends. See you at the next gathering.
-        </p>
+        <h2 className="text-2xl font-bold text-stone-900 mb-2 whitespace-pre-line">{t("ended.title")}</h2>
+        <p className="text-stone-500 text-sm max-w-[260px] leading-relaxed mb-2">{t("ended.body")}</p>
         {currentSession && (
           <p className="text-stone-400 text-xs mb-8 font-mono">
-            Session {currentSession.code} · {currentSession.pickedQuestions.length} questions shared
+            {t("ended.summary", { code: currentSession.code, count: currentSession.pickedQuestions.length })}
           </p>
         )}
         <button
-          onClick={() => setView("home")}
+          onClick={leaveSession}
           className="w-full max-w-xs h-12 rounded-xl bg-stone-900 text-stone-50 font-semibold text-sm hover:bg-stone-800 transition-colors active:scale-[0.98]"
         >
-          Back to Home
+          {t("common.backToHome")}
         </button>
       </div>
     </MobileShell>
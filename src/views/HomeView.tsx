@@ -1,8 +1,11 @@
 import { MobileShell } from "@/components/MobileShell";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
 
 export function HomeView() {
-  const { setView } = useApp();
+  const { setView, restoringSeat, notice, dismissNotice } = useApp();
+  const { t } = useI18n();
   return (
     <MobileShell>
       <div className="flex-1 flex flex-col px-6 pt-16 pb-8">
@@ -23,39 +26,52 @@ export function HomeView() {
               <line x1="12" y1="4" x2="12" y2="11" />
             </svg>
           </div>
-          <h1 className="text-3xl font-bold tracking-tight text-stone-900 leading-none">
-            The Shared
-            <br />
-            Table
+          <h1 className="text-3xl font-bold tracking-tight text-stone-900 leading-none whitespace-pre-line">
+            {t("home.title")}
           </h1>
-          <p className="text-stone-500 text-sm mt-3 leading-relaxed max-w-[280px]">
-            Share a meal. Share a story.
-            <br />
-            Baguio City community gatherings.
+          <p className="text-stone-500 text-sm mt-3 leading-relaxed max-w-[280px] whitespace-pre-line">
+            {t("home.tagline")}
           </p>
         </div>
 
+        {notice && (
+          <div className="bg-orange-50 border border-orange-200 rounded-xl px-4 py-3 mb-6 flex items-start justify-between gap-3">
+            <p className="text-sm text-orange-800 font-medium">{t(notice)}</p>
+            <button onClick={dismissNotice} className="text-xs text-orange-600 font-medium shrink-0">
+              {t("common.dismiss")}
+            </button>
+          </div>
+        )}
+
         {/* Actions */}
-        <div className="space-y-3 mt-auto">
-          <button
-            onClick={() => setView("createSession")}
-            className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] tracking-wide hover:bg-amber-900 transition-colors shadow-sm active:scale-[0.98]"
-          >
-            Host a Gathering
-          </button>
-          <button
-            onClick={() => setView("joinSession")}
-            className="w-full h-14 rounded-2xl bg-stone-900 text-stone-50 font-semibold text-[15px] tracking-wide hover:bg-stone-800 transition-colors shadow-sm active:scale-[0.98]"
-          >
-            Join a Session
-          </button>
-          <button
-            onClick={() => setView("adminLogin")}
-            className="w-full h-11 rounded-xl text-stone-400 text-sm font-medium hover:text-stone-600 transition-colors"
-          >
-            Organizer Panel
-          </button>
-        </div>
+        {restoringSeat ? (
+          <div className="mt-auto flex items-center justify-center gap-2 h-14">
+            <div className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
+            <span className="text-xs text-stone-400">{t("home.restoring")}</span>
+          </div>
+        ) : (
+          <div className="space-y-3 mt-auto">
+            <button
+              onClick={() => setView("createSession")}
+              className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] tracking-wide hover:bg-amber-900 transition-colors shadow-sm active:scale-[0.98]"
+            >
+              {t("home.host")}
+            </button>
+            <button
+              onClick={() => setView("joinSession")}
+              className="w-full h-14 rounded-2xl bg-stone-900 text-stone-50 font-semibold text-[15px] tracking-wide hover:bg-stone-800 transition-colors shadow-sm active:scale-[0.98]"
+            >
+              {t("home.join")}
+            </button>
+            <button
+              onClick={() => setView("adminLogin")}
+              className="w-full h-11 rounded-xl text-stone-400 text-sm font-medium hover:text-stone-600 transition-colors"
+            >
+              {t("home.organizer")}
+            </button>
+          </div>
+        )}
+        <LanguageSwitcher className="mt-4 mx-auto" />
       </div>
     </MobileShell>
   );
@@ -1,13 +1,25 @@
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { MobileShell, ViewHeader } from "@/components/MobileShell";
+import { SuggestQuestionForm } from "@/components/QuestionSuggestions";
 import { Input } from "@/components/ui/input";
 import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import type { ContentLanguage } from "@/types";
+import { errorMessage } from "@/utils/actionResult";
+import { CONTENT_LANGUAGES } from "@/utils/contentLanguage";
+import { seatedGuests } from "@/utils/guests";
 import { useState } from "react";
 
 export function JoinSessionView() {
-  const { joinSession, setView } = useApp();
-  const [code, setCode] = useState("");
+  const { joinSession, setView, joinCode } = useApp();
+  const { locale, t } = useI18n();
+  // A scanned QR link carries the code, so go straight to the nickname step
+  const [code, setCode] = useState(joinCode ?? "");
   const [nickname, setNickname] = useState("");
-  const [step, setStep] = useState<"code" | "nickname">("code");
+  // Questions follow the interface language until the guest picks one
+  const [language, setLanguage] = useState<ContentLanguage | null>(null);
+  const questionLanguage = language ?? locale;
+  const [step, setStep] = useState<"code" | "nickname">(joinCode ? "nickname" : "code");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
@@ -18,17 +30,17 @@ export function JoinSessionView() {
 
   const handleJoin = async () => {
     if (!nickname.trim()) {
-      setError("Please enter a nickname.");
+      setError(t("join.nicknameRequired"));
       return;
     }
 
     setLoading(true);
     setError("");
 
-    const result = await joinSession(code.toUpperCase(), nickname.trim());
+    const result = await joinSession(code.toUpperCase(), nickname.trim(), questionLanguage);
 
     if (!result.success) {
-      setError(result.error || "Failed to join session");
+      setError(errorMessage(t, result, "join.failed"));
       setLoading(false);
       return;
     }
@@ -39,7 +51,7 @@ export function JoinSessionView() {
 
   return (
     <MobileShell>
-      <ViewHeader title="Join a Session" onBack={() => setView("home")} />
+      <ViewHeader title={t("join.title")} onBack={() => setView("home")} rightAction={<LanguageSwitcher />} />
       <div className="flex-1 px-6 pt-8">
         {step === "code" ? (
           <>
@@ -60,10 +72,10 @@ export function JoinSessionView() {
                 <rect x="14" y="14" width="7" height="7" />
               </svg>
             </div>
-            <h2 className="text-lg font-bold text-center mb-1">Enter Session Code</h2>
-            <p className="text-stone-500 text-sm text-center mb-6">Ask your host for the 5-character code.</p>
+            <h2 className="text-lg font-bold text-center mb-1">{t("join.codeTitle")}</h2>
+            <p className="text-stone-500 text-sm text-center mb-6">{t("join.codeHint")}</p>
             <Input
-              placeholder="e.g. ABC12"
+              placeholder={t("join.codePlaceholder")}
               value={code}
               onChange={(e) => {
                 setCode(e.target.value.toUpperCase());
@@ -79,7 +91,7 @@ export function JoinSessionView() {
               disabled={code.length < 5}
               className="w-full h-12 rounded-xl bg-stone-900 text-stone-50 font-semibold text-sm mt-4 disabled:opacity-40 hover:bg-stone-800 transition-colors active:scale-[0.98]"
             >
-              Find Session
+              {t("join.findSession")}
             </button>
           </>
         ) : (
@@ -99,10 +111,10 @@ export function JoinSessionView() {
                 <circle cx="12" cy="7" r="4" />
               </svg>
             </div>
-            <h2 className="text-lg font-bold text-center mb-1">What's your name?</h2>
-            <p className="text-stone-500 text-sm text-center mb-6">Pick a nickname for this gathering.</p>
+            <h2 className="text-lg font-bold text-center mb-1">{t("join.nicknameTitle")}</h2>
+            <p className="text-stone-500 text-sm text-center mb-6">{t("join.nicknameHint")}</p>
             <Input
-              placeholder="Your nickname"
+              placeholder={t("join.nicknamePlaceholder")}
               value={nickname}
               onChange={(e) => {
                 setNickname(e.target.value);
@@ -112,13 +124,31 @@ export function JoinSessionView() {
               className="h-12 rounded-xl border-stone-200 bg-white text-base px-4"
               autoFocus
             />
+            <p className="text-[10px] text-stone-400 uppercase tracking-wider font-medium mt-5 mb-2">
+              {t("join.questionsIn")}
+            </p>
+            <div className="grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-lg">
+              {CONTENT_LANGUAGES.map((l) => (
+                <button
+                  key={l.language}
+                  onClick={() => setLanguage(l.language)}
+                  className={`h-9 rounded-md text-xs font-semibold transition-colors ${
+                    questionLanguage === l.language
+                      ? "bg-white text-amber-800 shadow-sm"
+                      : "text-stone-500 hover:text-stone-700"
+                  }`}
+                >
+                  {l.label}
+                </button>
+              ))}
+            </div>
             {error && <p className="text-red-500 text-xs mt-2 text-center">{error}</p>}
             <button
               onClick={handleJoin}
               disabled={!nickname.trim() || loading}
               className="w-full h-12 rounded-xl bg-amber-800 text-amber-50 font-semibold text-sm mt-4 disabled:opacity-40 hover:bg-amber-900 transition-colors active:scale-[0.98]"
             >
-              {loading ? "Joining..." : "Join Table"}
+              {loading ? t("join.joining") : t("join.joinTable")}
             </button>
           </>
         )}
@@ -129,6 +159,7 @@ export function JoinSessionView() {
 
 export function GuestLobbyView() {
   const { currentSession } = useApp();
+  const { t } = useI18n();
   if (!currentSession) return null;
 
   return (
@@ -148,16 +179,16 @@ export function GuestLobbyView() {
             <polyline points="20 6 9 17 4 12" />
           </svg>
         </div>
-        <h2 className="text-lg font-bold text-stone-900 mb-1">You're In!</h2>
-        <p className="text-stone-500 text-sm mb-6">Waiting for the host to begin...</p>
+        <h2 className="text-lg font-bold text-stone-900 mb-1">{t("lobby.youreIn")}</h2>
+        <p className="text-stone-500 text-sm mb-6">{t("lobby.waiting")}</p>
         <div className="bg-white rounded-xl border border-stone-100 p-4 w-full max-w-xs">
-          <p className="text-[10px] text-stone-400 uppercase tracking-wider mb-2 font-medium">Session</p>
+          <p className="text-[10px] text-stone-400 uppercase tracking-wider mb-2 font-medium">{t("lobby.session")}</p>
           <p className="font-mono text-xl font-bold text-stone-800 tracking-widest mb-3">{currentSession.code}</p>
           <p className="text-[10px] text-stone-400 uppercase tracking-wider mb-2 font-medium">
-            Guests ({currentSession.guests.length})
+            {t("lobby.guests", { count: seatedGuests(currentSession.guests).length })}
           </p>
           <div className="flex flex-wrap gap-1.5">
-            {currentSession.guests.map((g) => (
+            {seatedGuests(currentSession.guests).map((g) => (
               <span key={g.id} className="px-2.5 py-1 bg-stone-100 rounded-lg text-xs font-medium text-stone-600">
                 {g.nickname}
               </span>
@@ -166,7 +197,11 @@ export function GuestLobbyView() {
         </div>
         <div className="mt-8 flex items-center gap-2">
           <div className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
-          <span className="text-xs text-stone-400">Waiting for host</span>
+          <span className="text-xs text-stone-400">{t("common.waitingForHost")}</span>
+        </div>
+        <LanguageSwitcher className="mt-6" />
+        <div className="mt-8 w-full flex justify-center">
+          <SuggestQuestionForm />
         </div>
       </div>
     </MobileShell>
@@ -1,33 +1,55 @@
+import { GuestManager } from "@/components/GuestManager";
 import { MobileShell, ViewHeader } from "@/components/MobileShell";
+import { PoolTopUp } from "@/components/PoolTopUp";
+import { ReactionCountsRow, TableReactions } from "@/components/QuestionReactions";
+import { SuggestionQueue, SuggestQuestionForm } from "@/components/QuestionSuggestions";
+import { SpotlightBanner } from "@/components/SpotlightBanner";
 import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import { useQuestionReactions } from "@/hooks/useQuestionReactions";
+import type { Question } from "@/types";
+import { activeGuests, seatedGuests } from "@/utils/guests";
+import { speakingOrder } from "@/utils/turnOrder";
 import { useEffect, useState } from "react";
 
 export function HostQuestionPhaseView() {
   const { currentSession, nextRound, endSession } = useApp();
+  const { t } = useI18n();
+  const { countsByPick } = useQuestionReactions(currentSession?.id ?? null);
   if (!currentSession) return null;
 
-  const { guests, currentRound, questionPool, pickedQuestions } = currentSession;
-  const allPicked = guests.every((g) => g.hasPicked);
+  const { currentRound, questionPool, pickedQuestions } = currentSession;
+  const turnOrder = currentSession.settings.turnMode !== "parallel";
+  const guests = turnOrder ? speakingOrder(currentSession) : seatedGuests(currentSession.guests);
+  const allPicked = activeGuests(guests).every((g) => g.hasPicked);
   const poolEmpty = questionPool.length === 0;
 
   return (
     <MobileShell>
       <ViewHeader
-        title={`Round ${currentRound}`}
-        subtitle={`${questionPool.length} questions remaining`}
+        title={t("hostQuestions.round", { round: currentRound })}
+        subtitle={t("hostQuestions.remaining", { count: questionPool.length })}
         rightAction={
           <button onClick={endSession} className="text-xs text-red-400 font-medium">
-            End
+            {t("hostQuestions.end")}
           </button>
         }
       />
       <div className="flex-1 px-5 pb-6">
+        <SpotlightBanner hostControls />
+
         {/* Guest status grid */}
         <div className="space-y-2 mb-5">
           {guests.map((g) => {
-            const pq = pickedQuestions.find((p) => p.guestNickname === g.nickname && p.round === currentRound);
+            const pq = pickedQuestions.find((p) => p.guestId === g.id && p.round === currentRound && !p.passed);
+            const passes = pickedQuestions.filter((p) => p.guestId === g.id && p.round === currentRound && p.passed);
             return (
-              <div key={g.id} className="bg-white rounded-xl border border-stone-100 px-4 py-3">
+              <div
+                key={g.id}
+                className={`bg-white rounded-xl border px-4 py-3 ${
+                  g.id === currentSession.spotlightGuestId ? "border-amber-300" : "border-stone-100"
+                }`}
+              >
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <div
@@ -39,28 +61,44 @@ export function HostQuestionPhaseView() {
                     </div>
                     <div>
                       <span className="text-sm font-medium text-stone-800">{g.nickname}</span>
+                      {passes.length > 0 && (
+                        <span className="text-[10px] text-stone-400 ml-1.5">
+                          · {t("hostQuestions.passes", { count: passes.length })}
+                        </span>
+                      )}
                       {pq && (
                         <p className="text-xs text-stone-500 mt-0.5 leading-snug max-w-[220px] truncate">
                           "{pq.questionText}"
                         </p>
                       )}
+                      {pq?.id && <ReactionCountsRow counts={countsByPick[pq.id]} className="mt-1" />}
                     </div>
                   </div>
-                  {!g.hasPicked && !poolEmpty && <span className="text-xs text-stone-400">Waiting...</span>}
+                  {!g.hasPicked && !poolEmpty && (
+                    <span className="text-xs text-stone-400">
+                      {g.status === "away" ? t("hostQuestions.away") : t("hostQuestions.waiting")}
+                    </span>
+                  )}
                 </div>
               </div>
             );
           })}
         </div>
 
+        <SuggestionQueue />
+
+        <GuestManager collapsible />
+
         {/* Pool empty warning */}
         {poolEmpty && (
           <div className="bg-orange-50 border border-orange-200 rounded-xl px-4 py-3 mb-5">
-            <p className="text-sm text-orange-800 font-medium">No more questions available!</p>
-            <p className="text-xs text-orange-600 mt-1">All questions from the selected topics have been used.</p>
+            <p className="text-sm text-orange-800 font-medium">{t("hostQuestions.poolEmpty")}</p>
+            <p className="text-xs text-orange-600 mt-1">{t("hostQuestions.poolEmpty.body")}</p>
           </div>
         )}
 
+        <PoolTopUp />
+
         {/* Round controls */}
         <div className="space-y-3 mt-auto">
           {allPicked && !poolEmpty && (
@@ -68,7 +106,7 @@ export function HostQuestionPhaseView() {
               onClick={nextRound}
               className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] hover:bg-amber-900 transition-colors active:scale-[0.98]"
             >
-              Start Round {currentRound + 1}
+              {t("hostQuestions.startRound", { round: currentRound + 1 })}
             </button>
           )}
           {!allPicked && !poolEmpty && (
@@ -76,14 +114,14 @@ export function HostQuestionPhaseView() {
               onClick={nextRound}
               className="w-full h-11 rounded-xl bg-stone-200 text-stone-700 text-sm font-medium hover:bg-stone-300 transition-colors"
             >
-              Skip to Next Round
+              {t("hostQuestions.skipRound")}
             </button>
           )}
           <button
             onClick={endSession}
             className="w-full h-11 rounded-xl border border-stone-200 text-stone-600 text-sm font-medium hover:bg-stone-50 transition-colors"
           >
-            End Gathering
+            {t("hostQuestions.endGathering")}
           </button>
         </div>
       </div>
@@ -92,10 +130,23 @@ export function HostQuestionPhaseView() {
 }
 
 export function GuestQuestionPhaseView() {
-  const { currentSession, currentGuestId, pickQuestion } = useApp();
-  const [myQuestion, setMyQuestion] = useState<string | null>(null);
+  const { currentSession, currentGuestId, pickQuestion, passQuestion, localizeQuestion } = useApp();
+  const { t } = useI18n();
+  const [myQuestion, setMyQuestion] = useState<Question | null>(null);
   const [myQuestionRound, setMyQuestionRound] = useState<number | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [isPassing, setIsPassing] = useState(false);
+
+  // Reset local state when a new round starts
+  const currentRound = currentSession?.currentRound ?? null;
+  useEffect(() => {
+    // If we have a question from a previous round, clear it
+    if (myQuestion && myQuestionRound !== null && currentRound !== null && myQuestionRound < currentRound) {
+      console.log(`[Guest] Round changed from ${myQuestionRound} to ${currentRound}, clearing question`);
+      setMyQuestion(null);
+      setMyQuestionRound(null);
+    }
+  }, [currentRound, myQuestion, myQuestionRound]);
 
   if (!currentSession || !currentGuestId) return null;
 
@@ -103,70 +154,112 @@ export function GuestQuestionPhaseView() {
   if (!me) return null;
 
   const poolEmpty = currentSession.questionPool.length === 0;
+  const turnOrder = currentSession.settings.turnMode !== "parallel";
+  const myTurn = !turnOrder || currentSession.spotlightGuestId === me.id;
+
+  // After a reload the local question is gone, so fall back to this round's recorded pick
+  const restoredPick = me.hasPicked
+    ? currentSession.pickedQuestions.find(
+        (p) => p.questionId === me.pickedQuestionId && p.round === currentSession.currentRound && !p.passed,
+      )
+    : undefined;
+  // Shown in the guest's language when the question has a translation
+  const questionText = myQuestion
+    ? localizeQuestion(myQuestion.id, myQuestion.text)
+    : restoredPick
+      ? localizeQuestion(restoredPick.questionId, restoredPick.questionText)
+      : null;
+
+  const passesUsed = currentSession.pickedQuestions.filter((p) => p.guestId === me.id && p.passed).length;
+  const passesLeft = Math.max(0, currentSession.settings.passesPerGuest - passesUsed);
 
   const handlePick = async () => {
     if (!me || poolEmpty) return;
     setIsAnimating(true);
     setTimeout(async () => {
-      const q = await pickQuestion(me.id);
-      if (q) {
-        setMyQuestion(q.text);
+      const { question } = await pickQuestion(me.id);
+      if (question) {
+        setMyQuestion(question);
         setMyQuestionRound(currentSession.currentRound);
       }
       setIsAnimating(false);
     }, 800);
   };
 
-  // Reset local state when a new round starts
-  useEffect(() => {
-    // If we have a question from a previous round, clear it
-    if (myQuestion && myQuestionRound !== null && myQuestionRound < currentSession.currentRound) {
-      console.log(`[Guest] Round changed from ${myQuestionRound} to ${currentSession.currentRound}, clearing question`);
-      setMyQuestion(null);
-      setMyQuestionRound(null);
+  const handlePass = async () => {
+    setIsPassing(true);
+    const { question } = await passQuestion(me.id);
+    if (question) {
+      setMyQuestion(question);
+      setMyQuestionRound(currentSession.currentRound);
     }
-  }, [currentSession.currentRound, myQuestion, myQuestionRound]);
+    setIsPassing(false);
+  };
 
   return (
     <MobileShell>
       <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
-        {myQuestion ? (
+        <div className="w-full max-w-xs">
+          <SpotlightBanner />
+        </div>
+        {questionText ? (
           <>
-            <p className="text-amber-800 text-[10px] uppercase tracking-[0.2em] font-semibold mb-4">Your Question</p>
+            <p className="text-amber-800 text-[10px] uppercase tracking-[0.2em] font-semibold mb-4">
+              {t("guestQuestion.yourQuestion")}
+            </p>
             <div className="bg-white rounded-2xl border-2 border-amber-200 px-6 py-8 shadow-sm w-full max-w-xs mb-6">
-              <p className="text-lg font-bold text-stone-900 leading-snug">{myQuestion}</p>
+              <p className="text-lg font-bold text-stone-900 leading-snug">{questionText}</p>
             </div>
             <p className="text-stone-400 text-xs max-w-[240px]">
-              Share your answer with the table. Your host will start the next round when everyone's ready.
+              {turnOrder ? t("guestQuestion.shareSpotlight") : t("guestQuestion.shareRound")}
             </p>
+            {passesLeft > 0 && !poolEmpty && (
+              <button
+                onClick={handlePass}
+                disabled={isPassing}
+                className="mt-6 px-5 h-10 rounded-xl bg-stone-100 text-stone-600 text-sm font-semibold disabled:opacity-40 hover:bg-stone-200 transition-colors"
+              >
+                {isPassing ? t("guestQuestion.drawing") : t("guestQuestion.pass", { count: passesLeft })}
+              </button>
+            )}
           </>
         ) : (
           <>
-            <p className="text-stone-500 text-sm mb-2">Round {currentSession.currentRound}</p>
+            <p className="text-stone-500 text-sm mb-2">
+              {t("guestQuestion.round", { round: currentSession.currentRound })}
+            </p>
             <p className="text-stone-400 text-xs mb-8 max-w-[240px]">
-              Tap the button to receive your question. Answer it out loud at the table.
+              {myTurn ? t("guestQuestion.tapToPick") : t("guestQuestion.waitForTurn")}
             </p>
 
             {poolEmpty ? (
               <div className="bg-orange-50 border border-orange-200 rounded-xl px-6 py-4 w-full max-w-xs">
-                <p className="text-sm text-orange-800 font-medium">No more questions!</p>
-                <p className="text-xs text-orange-600 mt-1">The question pool has been exhausted.</p>
+                <p className="text-sm text-orange-800 font-medium">{t("guestQuestion.poolEmpty")}</p>
+                <p className="text-xs text-orange-600 mt-1">{t("guestQuestion.poolEmpty.body")}</p>
               </div>
             ) : (
               <button
                 onClick={handlePick}
-                disabled={isAnimating || !me || me.hasPicked}
+                disabled={isAnimating || !me || me.hasPicked || !myTurn}
                 className={`w-40 h-40 rounded-full font-bold text-xl shadow-xl transition-all active:scale-95 ${
                   isAnimating
                     ? "bg-amber-600 text-amber-100 animate-spin scale-90"
-                    : "bg-amber-800 text-amber-50 hover:bg-amber-900 hover:shadow-2xl"
+                    : !myTurn
+                      ? "bg-stone-200 text-stone-400 shadow-none"
+                      : "bg-amber-800 text-amber-50 hover:bg-amber-900 hover:shadow-2xl"
                 }`}
               >
-                {isAnimating ? "..." : "PICK"}
+                {isAnimating ? "..." : t("guestQuestion.pick")}
               </button>
             )}
           </>
         )}
+        <div className="mt-10 w-full flex justify-center">
+          <TableReactions />
+        </div>
+        <div className="mt-10 w-full flex justify-center">
+          <SuggestQuestionForm />
+        </div>
       </div>
     </MobileShell>
   );
@@ -0,0 +1,150 @@
+import { MobileShell, ViewHeader } from "@/components/MobileShell";
+import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import type { Topic } from "@/types";
+import { localizedTopicName } from "@/utils/contentLanguage";
+import { activeGuests, seatedGuests } from "@/utils/guests";
+import { useState } from "react";
+
+export function HostRunoffView() {
+  const { currentSession, allTopics, closeRunoff } = useApp();
+  const { t } = useI18n();
+  if (!currentSession?.tieBreak) return null;
+
+  const { tieBreak } = currentSession;
+  const guests = seatedGuests(currentSession.guests);
+  const tiedTopics = tieBreak.tiedTopicIds
+    .map((id) => allTopics.find((t) => t.id === id))
+    .filter((t): t is Topic => !!t);
+  const voterCount = tieBreak.runoffVoterIds.length;
+  const allVoted = activeGuests(guests).every((g) => tieBreak.runoffVoterIds.includes(g.id));
+
+  return (
+    <MobileShell>
+      <ViewHeader
+        title={t("hostRunoff.title")}
+        subtitle={t("hostRunoff.voted", { voted: voterCount, total: guests.length })}
+      />
+      <div className="flex-1 px-5 pb-6">
+        <p className="text-stone-500 text-sm mb-4">{t("hostRunoff.intro", { count: tieBreak.seats })}</p>
+
+        {/* Guest status */}
+        <div className="flex flex-wrap gap-1.5 mb-5">
+          {guests.map((g) => {
+            const voted = tieBreak.runoffVoterIds.includes(g.id);
+            return (
+              <span
+                key={g.id}
+                className={`px-2.5 py-1 rounded-lg text-xs font-medium ${
+                  voted ? "bg-green-100 text-green-700" : "bg-stone-100 text-stone-500"
+                }`}
+              >
+                {g.nickname} {voted ? "✓" : "..."}
+              </span>
+            );
+          })}
+        </div>
+
+        {/* Runoff tally */}
+        <div className="space-y-1.5 mb-6">
+          <p className="text-[10px] text-stone-400 uppercase tracking-wider mb-2 font-medium">
+            {t("hostRunoff.results")}
+          </p>
+          {tiedTopics.map((topic) => {
+            const count = tieBreak.runoffCounts[topic.id] ?? 0;
+            return (
+              <div key={topic.id}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-stone-700">{topic.name}</span>
+                  <span className="text-xs font-bold text-stone-500">{t("score.approval", { count })}</span>
+                </div>
+                <div className="w-full h-2 bg-stone-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-amber-600 transition-all duration-500"
+                    style={{ width: `${voterCount > 0 ? (count / voterCount) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={closeRunoff}
+          className={`w-full h-14 rounded-2xl font-semibold text-[15px] transition-colors active:scale-[0.98] ${
+            allVoted
+              ? "bg-amber-800 text-amber-50 hover:bg-amber-900"
+              : "bg-stone-200 text-stone-700 hover:bg-stone-300"
+          }`}
+        >
+          {allVoted ? t("hostRunoff.close") : t("hostRunoff.closeEarly")}
+        </button>
+        <p className="text-[11px] text-stone-400 text-center mt-2">{t("hostRunoff.tieNote")}</p>
+      </div>
+    </MobileShell>
+  );
+}
+
+export function GuestRunoffView() {
+  const { currentSession, currentGuestId, allTopics, guestLanguage, submitRunoffVote } = useApp();
+  const { t } = useI18n();
+  const [choice, setChoice] = useState<string | null>(null);
+
+  if (!currentSession?.tieBreak || !currentGuestId) return null;
+
+  const { tieBreak } = currentSession;
+  const tiedTopics = tieBreak.tiedTopicIds
+    .map((id) => allTopics.find((t) => t.id === id))
+    .filter((t): t is Topic => !!t);
+  const hasVoted = tieBreak.runoffVoterIds.includes(currentGuestId);
+
+  if (hasVoted) {
+    return (
+      <MobileShell>
+        <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+          <h2 className="text-lg font-bold text-stone-900 mb-1">{t("guestRunoff.cast")}</h2>
+          <p className="text-stone-500 text-sm">{t("guestRunoff.waiting")}</p>
+          <div className="mt-6 flex items-center gap-2">
+            <div className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
+            <span className="text-xs text-stone-400">{t("common.waitingForHost")}</span>
+          </div>
+        </div>
+      </MobileShell>
+    );
+  }
+
+  return (
+    <MobileShell>
+      <ViewHeader title={t("guestRunoff.title")} subtitle={t("guestRunoff.subtitle")} />
+      <div className="flex-1 px-5 pb-6">
+        <p className="text-stone-500 text-sm mb-4">{t("guestRunoff.intro")}</p>
+        <div className="space-y-2 mb-6">
+          {tiedTopics.map((topic) => {
+            const isSelected = choice === topic.id;
+            return (
+              <button
+                key={topic.id}
+                onClick={() => setChoice(topic.id)}
+                className={`w-full text-left px-4 py-3.5 rounded-xl border-2 transition-all ${
+                  isSelected ? "border-amber-600 bg-amber-50" : "border-stone-100 bg-white hover:border-stone-200"
+                }`}
+              >
+                <span className={`text-sm font-medium ${isSelected ? "text-amber-800" : "text-stone-700"}`}>
+                  {localizedTopicName(topic, guestLanguage)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={() => choice && submitRunoffVote(currentGuestId, choice)}
+          disabled={!choice}
+          className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] disabled:opacity-40 disabled:cursor-not-allowed hover:bg-amber-900 transition-colors active:scale-[0.98]"
+        >
+          {t("guestRunoff.submit")}
+        </button>
+      </div>
+    </MobileShell>
+  );
+}
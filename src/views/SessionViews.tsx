@@ -1,14 +1,20 @@
+import { GuestManager } from "@/components/GuestManager";
 import { MobileShell, ViewHeader } from "@/components/MobileShell";
+import { SuggestionQueue } from "@/components/QuestionSuggestions";
+import { SessionSettingsPanel } from "@/components/SessionSettingsPanel";
 import { useApp } from "@/context/AppContext";
+import { useI18n } from "@/context/I18nContext";
+import { activeGuests } from "@/utils/guests";
 import { generateSessionQR } from "@/utils/qrCode";
 import { useEffect, useState } from "react";
 
 export function CreateSessionView() {
   const { setView, createSession } = useApp();
+  const { t } = useI18n();
 
   return (
     <MobileShell>
-      <ViewHeader title="Host a Gathering" onBack={() => setView("home")} />
+      <ViewHeader title={t("createSession.title")} onBack={() => setView("home")} />
       <div className="flex-1 flex flex-col items-center justify-center px-6 pb-12">
         <div className="w-20 h-20 rounded-3xl bg-amber-100 flex items-center justify-center mb-6">
           <svg
@@ -27,15 +33,15 @@ export function CreateSessionView() {
             <path d="M16 3.13a4 4 0 010 7.75" />
           </svg>
         </div>
-        <h2 className="text-xl font-bold text-stone-900 mb-2 text-center">Start a New Session</h2>
+        <h2 className="text-xl font-bold text-stone-900 mb-2 text-center">{t("createSession.heading")}</h2>
         <p className="text-stone-500 text-sm text-center mb-10 max-w-[260px] leading-relaxed">
-          Create a gathering session and share the code with your guests.
+          {t("createSession.body")}
         </p>
         <button
           onClick={createSession}
           className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] hover:bg-amber-900 transition-colors shadow-sm active:scale-[0.98]"
         >
-          Create Session
+          {t("createSession.create")}
         </button>
       </div>
     </MobileShell>
@@ -43,7 +49,8 @@ export function CreateSessionView() {
 }
 
 export function HostLobbyView() {
-  const { setView, currentSession, advancePhase, endSession } = useApp();
+  const { currentSession, advancePhase, endSession, leaveSession } = useApp();
+  const { t } = useI18n();
   const [qrCode, setQrCode] = useState<string>("");
 
   // Generate QR code when session code is available
@@ -59,70 +66,56 @@ export function HostLobbyView() {
 
   // Early return AFTER all hooks
   if (!currentSession) return null;
-  const { code, guests } = currentSession;
+  const { code } = currentSession;
+  const present = activeGuests(currentSession.guests);
 
   return (
     <MobileShell>
       <ViewHeader
-        title="Session Lobby"
-        subtitle="Waiting for guests"
+        title={t("hostLobby.title")}
+        subtitle={t("hostLobby.subtitle")}
         rightAction={
           <button
-            onClick={() => {
-              endSession();
-              setView("home");
+            onClick={async () => {
+              await endSession();
+              leaveSession();
             }}
             className="text-xs text-red-400 font-medium"
           >
-            Close
+            {t("hostLobby.close")}
           </button>
         }
       />
       <div className="flex-1 px-5 pb-6">
         {/* Session code display */}
         <div className="bg-stone-900 rounded-2xl p-6 text-center mb-5">
-          <p className="text-stone-400 text-[10px] uppercase tracking-[0.2em] mb-2">Session Code</p>
+          <p className="text-stone-400 text-[10px] uppercase tracking-[0.2em] mb-2">{t("hostLobby.sessionCode")}</p>
           <p className="text-4xl font-bold text-white tracking-[0.15em] font-mono">{code}</p>
-          <p className="text-stone-500 text-xs mt-3">Guests can scan this QR code to join</p>
+          <p className="text-stone-500 text-xs mt-3">{t("hostLobby.scanToJoin")}</p>
           {/* Real QR code */}
           <div className="mx-auto mt-4 w-48 h-48 bg-white rounded-xl flex items-center justify-center p-3">
             {qrCode ? (
-              <img src={qrCode} alt="Session QR Code" className="w-full h-full" />
+              <img src={qrCode} alt={t("hostLobby.qrAlt")} className="w-full h-full" />
             ) : (
               <div className="animate-pulse bg-stone-200 w-full h-full rounded-lg" />
             )}
           </div>
         </div>
 
+        <SuggestionQueue />
+
         {/* Guest list */}
-        <div className="bg-white rounded-xl border border-stone-100 p-4 mb-6">
-          <div className="flex items-center justify-between mb-3">
-            <span className="text-[10px] text-stone-400 uppercase tracking-wider font-medium">Guests</span>
-            <span className="text-xs font-semibold text-stone-600">{guests.length}</span>
-          </div>
-          {guests.length === 0 ? (
-            <p className="text-stone-400 text-sm py-4 text-center">No guests yet</p>
-          ) : (
-            <div className="space-y-2">
-              {guests.map((g) => (
-                <div key={g.id} className="flex items-center gap-3">
-                  <div className="w-8 h-8 rounded-full bg-amber-100 flex items-center justify-center text-amber-800 text-xs font-bold">
-                    {g.nickname.charAt(0).toUpperCase()}
-                  </div>
-                  <span className="text-sm font-medium text-stone-700">{g.nickname}</span>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+        <GuestManager />
+
+        <SessionSettingsPanel />
 
         {/* Proceed button */}
         <button
           onClick={() => advancePhase("voting")}
-          disabled={guests.length === 0}
+          disabled={present.length === 0}
           className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] disabled:opacity-40 disabled:cursor-not-allowed hover:bg-amber-900 transition-colors active:scale-[0.98]"
         >
-          Start Topic Voting
+          {t("hostLobby.startVoting")}
         </button>
       </div>
     </MobileShell>
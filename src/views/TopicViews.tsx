@@ -1,50 +1,109 @@
 import { MobileShell, ViewHeader } from "@/components/MobileShell";
+import { TopicIcon } from "@/components/TopicIcon";
 import { useApp } from "@/context/AppContext";
-import { useMemo, useState } from "react";
+import { useI18n } from "@/context/I18nContext";
+import { useTopicTally } from "@/hooks/useTopicTally";
+import type { TieBreakStrategy, TopicTie } from "@/types";
+import { describeTieBreak } from "@/utils/tieBreak";
+import { topicColorClasses } from "@/utils/topicStyle";
+import { formatScore } from "@/utils/voting";
+import { useState } from "react";
+
+function TieBreakPanel({
+  tie,
+  selected,
+  onResolve,
+}: {
+  tie: TopicTie;
+  selected: string[];
+  onResolve: (strategy: TieBreakStrategy, topicIds?: string[]) => void;
+}) {
+  const { t } = useI18n();
+  const hostPicks = selected.filter((id) => tie.topicIds.includes(id));
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-4">
+      <p className="text-sm font-semibold text-amber-900">{t("tiePanel.title", { count: tie.seats })}</p>
+      <p className="text-xs text-amber-800/80 mt-1 mb-3">
+        {t("tiePanel.body", { tied: tie.topicIds.length, seats: tie.seats })}
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={() => onResolve("host", hostPicks)}
+          disabled={hostPicks.length !== tie.seats}
+          className="h-10 rounded-lg bg-amber-800 text-amber-50 text-xs font-semibold disabled:opacity-40 hover:bg-amber-900 transition-colors"
+        >
+          {t("tiePanel.lockIn", { count: tie.seats })}
+        </button>
+        <button
+          onClick={() => onResolve("runoff")}
+          className="h-10 rounded-lg bg-white border border-amber-200 text-amber-800 text-xs font-semibold hover:bg-amber-100 transition-colors"
+        >
+          {t("tiePanel.runoff")}
+        </button>
+        <button
+          onClick={() => onResolve("random")}
+          className="h-10 rounded-lg bg-white border border-amber-200 text-amber-800 text-xs font-semibold hover:bg-amber-100 transition-colors"
+        >
+          {t("tiePanel.random")}
+        </button>
+      </div>
+    </div>
+  );
+}
 
 export function HostTopicResultsView() {
-  const { currentSession, topics, confirmTopics } = useApp();
+  const { currentSession, availableTopics, allTopics, confirmTopics, resolveTie } = useApp();
+  const { t } = useI18n();
+  const { tally, tie } = useTopicTally(currentSession, allTopics);
+  const [override, setSelected] = useState<string[] | null>(null);
   if (!currentSession) return null;
 
-  const { votes } = currentSession;
+  const { settings, tieBreak } = currentSession;
+  const confirmCount = Math.min(settings.topicsToConfirm, availableTopics.length);
 
-  const tally = useMemo(() => {
-    const counts: Record<string, number> = {};
-    topics.forEach((t) => (counts[t.id] = 0));
-    Object.values(votes).forEach((topicIds) => {
-      topicIds.forEach((id) => {
-        counts[id] = (counts[id] || 0) + 1;
-      });
-    });
-    return topics.map((t) => ({ ...t, count: counts[t.id] || 0 })).sort((a, b) => b.count - a.count);
-  }, [votes, topics]);
+  const tieResolved = tieBreak?.status === "resolved";
 
-  const topThreeIds = tally.slice(0, 3).map((t) => t.id);
-  const [selected, setSelected] = useState<string[]>(topThreeIds);
+  // Default to the outright winners plus any tie-break winners until the host overrides the selection;
+  // tied spots stay open until the tie is broken (the tally loads asynchronously)
+  const topIds = [
+    ...tally.filter((row, i) => i < confirmCount && !row.tied).map((row) => row.id),
+    ...(tieResolved ? tieBreak.winnerTopicIds : []),
+  ];
+  const selected = override ?? topIds;
+
+  const handleResolve = async (strategy: TieBreakStrategy, topicIds?: string[]) => {
+    await resolveTie(strategy, topicIds);
+    setSelected(null);
+  };
 
   const toggle = (id: string) => {
     if (selected.includes(id)) {
       setSelected(selected.filter((s) => s !== id));
-    } else if (selected.length < 3) {
+    } else if (selected.length < confirmCount) {
       setSelected([...selected, id]);
     }
   };
 
   return (
     <MobileShell>
-      <ViewHeader title="Topic Results" subtitle="Confirm the top 3 or override" />
+      <ViewHeader title={t("topicResults.title")} subtitle={t("topicResults.subtitle", { count: confirmCount })} />
       <div className="flex-1 px-5 pb-6">
-        <p className="text-stone-500 text-sm mb-4">
-          Tap to select or deselect topics. You can override the vote results.
-        </p>
+        <p className="text-stone-500 text-sm mb-4">{t("topicResults.intro")}</p>
+        {tie && !tieResolved && <TieBreakPanel tie={tie} selected={selected} onResolve={handleResolve} />}
+        {tieResolved && (
+          <p className="text-xs text-amber-800 bg-amber-50 rounded-lg px-3 py-2 mb-4">
+            {t("tieBreak.brokenBy", { method: describeTieBreak(t, tieBreak).toLowerCase() })}
+          </p>
+        )}
         <div className="space-y-1.5 mb-6">
-          {tally.map((t, i) => {
-            const isSelected = selected.includes(t.id);
+          {tally.map((topic, i) => {
+            const isSelected = selected.includes(topic.id);
             return (
               <button
-                key={t.id}
-                onClick={() => toggle(t.id)}
-                disabled={!isSelected && selected.length >= 3}
+                key={topic.id}
+                onClick={() => toggle(topic.id)}
+                disabled={!isSelected && selected.length >= confirmCount}
                 className={`w-full text-left px-4 py-3 rounded-xl border-2 transition-all ${
                   isSelected ? "border-amber-600 bg-amber-50" : "border-stone-100 bg-white opacity-60"
                 }`}
@@ -58,12 +117,18 @@ export function HostTopicResultsView() {
                     >
                       {i + 1}
                     </span>
+                    <TopicIcon icon={topic.icon} color={topic.color} />
                     <span className={`text-sm font-medium ${isSelected ? "text-amber-800" : "text-stone-600"}`}>
-                      {t.name}
+                      {topic.name}
                     </span>
+                    {topic.tied && (
+                      <span className="px-1.5 py-0.5 rounded-md bg-amber-200 text-amber-900 text-[10px] font-bold uppercase tracking-wide">
+                        {t("topicResults.tie")}
+                      </span>
+                    )}
                   </div>
                   <span className="text-xs font-bold text-stone-400">
-                    {t.count} vote{t.count !== 1 ? "s" : ""}
+                    {formatScore(t, settings.votingMode, topic.score)}
                   </span>
                 </div>
               </button>
@@ -72,15 +137,17 @@ export function HostTopicResultsView() {
         </div>
 
         <div className="text-center mb-4">
-          <span className="text-xs text-stone-400">{selected.length}/3 selected</span>
+          <span className="text-xs text-stone-400">
+            {t("topicResults.selected", { selected: selected.length, total: confirmCount })}
+          </span>
         </div>
 
         <button
           onClick={() => confirmTopics(selected)}
-          disabled={selected.length !== 3}
+          disabled={selected.length !== confirmCount}
           className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] disabled:opacity-40 disabled:cursor-not-allowed hover:bg-amber-900 transition-colors active:scale-[0.98]"
         >
-          Reveal Topics to Guests
+          {t("topicResults.reveal")}
         </button>
       </div>
     </MobileShell>
@@ -89,6 +156,7 @@ export function HostTopicResultsView() {
 
 export function TopicRevealView() {
   const { currentSession, advancePhase } = useApp();
+  const { t } = useI18n();
   const [revealed, setRevealed] = useState(false);
 
   if (!currentSession) return null;
@@ -103,28 +171,38 @@ export function TopicRevealView() {
       <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
         {!revealed ? (
           <>
-            <p className="text-amber-800 text-xs uppercase tracking-[0.2em] font-semibold mb-4">Tonight's Topics</p>
+            <p className="text-amber-800 text-xs uppercase tracking-[0.2em] font-semibold mb-4">
+              {t("reveal.tonightsTopics")}
+            </p>
             <button
               onClick={() => setRevealed(true)}
               className="w-32 h-32 rounded-full bg-amber-800 text-amber-50 font-bold text-lg shadow-lg hover:bg-amber-900 transition-all active:scale-95 animate-pulse"
             >
-              Reveal
+              {t("reveal.reveal")}
             </button>
           </>
         ) : (
           <>
             <p className="text-amber-800 text-xs uppercase tracking-[0.2em] font-semibold mb-6">
-              Tonight's Topics Are...
+              {t("reveal.tonightsTopicsAre")}
             </p>
             <div className="space-y-3 w-full max-w-xs mb-10">
-              {confirmedTopics.map((t, i) => (
+              {confirmedTopics.map((topic, i) => (
                 <div
-                  key={t.id}
-                  className="bg-white rounded-2xl border-2 border-amber-200 px-5 py-4 shadow-sm"
+                  key={topic.id}
+                  className={`bg-white rounded-2xl border-2 px-5 py-4 shadow-sm flex items-center gap-4 text-left ${
+                    topicColorClasses(topic.color).border
+                  }`}
                   style={{ animationDelay: `${i * 200}ms` }}
                 >
-                  <span className="text-xs text-amber-600 font-semibold mb-1 block">#{i + 1}</span>
-                  <span className="text-lg font-bold text-stone-900">{t.name}</span>
+                  <TopicIcon icon={topic.icon} color={topic.color} className="w-12 h-12 text-2xl" />
+                  <div>
+                    <span className="text-xs text-amber-600 font-semibold mb-1 block">#{i + 1}</span>
+                    <span className="text-lg font-bold text-stone-900">{topic.name}</span>
+                    {topic.description && (
+                      <p className="text-xs text-stone-500 leading-snug mt-1">{topic.description}</p>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -132,7 +210,7 @@ export function TopicRevealView() {
               onClick={handleContinue}
               className="w-full max-w-xs h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] hover:bg-amber-900 transition-colors active:scale-[0.98]"
             >
-              Start Questions
+              {t("reveal.startQuestions")}
             </button>
           </>
         )}
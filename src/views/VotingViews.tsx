@@ -1,29 +1,37 @@
+import { GuestManager } from "@/components/GuestManager";
 import { MobileShell, ViewHeader } from "@/components/MobileShell";
+import { RankList } from "@/components/RankList";
+import { TopicIcon } from "@/components/TopicIcon";
 import { useApp } from "@/context/AppContext";
-import { useMemo, useState } from "react";
+import { useI18n } from "@/context/I18nContext";
+import { useTopicTally } from "@/hooks/useTopicTally";
+import { localizedTopicDescription, localizedTopicName } from "@/utils/contentLanguage";
+import { activeGuests, seatedGuests } from "@/utils/guests";
+import { formatScore, isRankedMode, pointsForRank } from "@/utils/voting";
+import { useState } from "react";
 
 export function HostVotingView() {
-  const { currentSession, topics, advancePhase } = useApp();
+  const { currentSession, availableTopics, allTopics, advancePhase } = useApp();
+  const { t } = useI18n();
+  // Tally is computed by the database for the session's voting mode
+  const { tally } = useTopicTally(currentSession, allTopics);
   if (!currentSession) return null;
 
-  const { guests, votes } = currentSession;
-  const allVoted = guests.every((g) => g.hasVoted);
-
-  // Tally votes
-  const tally = useMemo(() => {
-    const counts: Record<string, number> = {};
-    topics.forEach((t) => (counts[t.id] = 0));
-    Object.values(votes).forEach((topicIds) => {
-      topicIds.forEach((id) => {
-        counts[id] = (counts[id] || 0) + 1;
-      });
-    });
-    return topics.map((t) => ({ ...t, count: counts[t.id] || 0 })).sort((a, b) => b.count - a.count);
-  }, [votes, topics]);
+  const { votes, settings } = currentSession;
+  const guests = seatedGuests(currentSession.guests);
+  const present = activeGuests(guests);
+  const confirmCount = Math.min(settings.topicsToConfirm, availableTopics.length);
+  // Away guests aren't waited on; removed guests' votes are deleted with them
+  const allVoted = present.every((g) => g.hasVoted);
+
+  const maxScore = Math.max(1, ...tally.map((t) => t.score));
 
   return (
     <MobileShell>
-      <ViewHeader title="Topic Voting" subtitle={`${Object.keys(votes).length}/${guests.length} voted`} />
+      <ViewHeader
+        title={t("hostVoting.title")}
+        subtitle={t("hostVoting.voted", { voted: present.filter((g) => g.hasVoted).length, total: present.length })}
+      />
       <div className="flex-1 px-5 pb-6">
         {/* Guest status */}
         <div className="flex flex-wrap gap-1.5 mb-5">
@@ -31,31 +39,42 @@ export function HostVotingView() {
             <span
               key={g.id}
               className={`px-2.5 py-1 rounded-lg text-xs font-medium ${
-                g.hasVoted ? "bg-green-100 text-green-700" : "bg-stone-100 text-stone-500"
+                g.hasVoted
+                  ? "bg-green-100 text-green-700"
+                  : g.status === "away"
+                    ? "bg-stone-50 text-stone-300"
+                    : "bg-stone-100 text-stone-500"
               }`}
             >
-              {g.nickname} {g.hasVoted ? "✓" : "..."}
+              {g.nickname} {g.hasVoted ? "✓" : g.status === "away" ? t("hostVoting.away") : "..."}
             </span>
           ))}
         </div>
 
+        <GuestManager collapsible />
+
         {/* Tally */}
         {Object.keys(votes).length > 0 && (
           <div className="space-y-1.5 mb-6">
-            <p className="text-[10px] text-stone-400 uppercase tracking-wider mb-2 font-medium">Live Results</p>
-            {tally.map((t, i) => (
-              <div key={t.id} className="flex items-center gap-3">
+            <p className="text-[10px] text-stone-400 uppercase tracking-wider mb-2 font-medium">
+              {t("hostVoting.liveResults")}
+            </p>
+            {tally.map((topic, i) => (
+              <div key={topic.id} className="flex items-center gap-3">
                 <div className="flex-1">
                   <div className="flex items-center justify-between mb-1">
-                    <span className={`text-sm font-medium ${i < 3 ? "text-amber-800" : "text-stone-600"}`}>
-                      {t.name}
+                    <span className={`text-sm font-medium ${i < confirmCount ? "text-amber-800" : "text-stone-600"}`}>
+                      {topic.icon && `${topic.icon} `}
+                      {topic.name}
+                    </span>
+                    <span className="text-xs font-bold text-stone-500">
+                      {formatScore(t, settings.votingMode, topic.score)}
                     </span>
-                    <span className="text-xs font-bold text-stone-500">{t.count}</span>
                   </div>
                   <div className="w-full h-2 bg-stone-100 rounded-full overflow-hidden">
                     <div
-                      className={`h-full rounded-full transition-all duration-500 ${i < 3 ? "bg-amber-600" : "bg-stone-300"}`}
-                      style={{ width: `${guests.length > 0 ? (t.count / guests.length) * 100 : 0}%` }}
+                      className={`h-full rounded-full transition-all duration-500 ${i < confirmCount ? "bg-amber-600" : "bg-stone-300"}`}
+                      style={{ width: `${(topic.score / maxScore) * 100}%` }}
                     />
                   </div>
                 </div>
@@ -71,14 +90,14 @@ export function HostVotingView() {
             disabled={!allVoted}
             className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] disabled:opacity-40 disabled:cursor-not-allowed hover:bg-amber-900 transition-colors active:scale-[0.98]"
           >
-            View Results & Choose Topics
+            {t("hostVoting.viewResults")}
           </button>
           {!allVoted && (
             <button
               onClick={() => advancePhase("topicResults")}
               className="w-full h-11 rounded-xl bg-stone-200 text-stone-700 text-sm font-medium hover:bg-stone-300 transition-colors"
             >
-              Skip to Results
+              {t("hostVoting.skip")}
             </button>
           )}
         </div>
@@ -88,8 +107,10 @@ export function HostVotingView() {
 }
 
 export function GuestVotingView() {
-  const { currentSession, currentGuestId, topics, submitVotes } = useApp();
+  const { currentSession, currentGuestId, availableTopics, allTopics, guestLanguage, submitVotes } = useApp();
+  const { t } = useI18n();
   const [selected, setSelected] = useState<string[]>([]);
+  const { tally } = useTopicTally(currentSession, allTopics);
 
   if (!currentSession || !currentGuestId) return null;
 
@@ -97,22 +118,31 @@ export function GuestVotingView() {
   if (!me) return null;
 
   const submitted = me.hasVoted;
+  const { votingMode } = currentSession.settings;
+  const voteLimit = Math.min(currentSession.settings.votesPerGuest, availableTopics.length);
+  const ranked = isRankedMode(votingMode);
+  const votingClosed = currentSession.phase !== "voting";
+  const topicName = (id: string) => {
+    const topic = allTopics.find((candidate) => candidate.id === id);
+    return topic ? localizedTopicName(topic, guestLanguage) : "";
+  };
 
   const toggle = (id: string) => {
     if (selected.includes(id)) {
       setSelected(selected.filter((s) => s !== id));
-    } else if (selected.length < 3) {
+    } else if (selected.length < voteLimit) {
       setSelected([...selected, id]);
     }
   };
 
   const handleSubmit = () => {
-    if (me && selected.length === 3) {
+    if (me && selected.length === voteLimit) {
       submitVotes(me.id, selected);
     }
   };
 
-  if (submitted) {
+  // Guests who didn't get their votes in before the host moved on just wait too
+  if (submitted || votingClosed) {
     return (
       <MobileShell>
         <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
@@ -130,11 +160,30 @@ export function GuestVotingView() {
               <polyline points="20 6 9 17 4 12" />
             </svg>
           </div>
-          <h2 className="text-lg font-bold text-stone-900 mb-1">Votes Submitted!</h2>
-          <p className="text-stone-500 text-sm">Waiting for the host to reveal topics...</p>
+          <h2 className="text-lg font-bold text-stone-900 mb-1">
+            {submitted ? t("guestVoting.submitted") : t("guestVoting.closed")}
+          </h2>
+          <p className="text-stone-500 text-sm">{t("guestVoting.waiting")}</p>
+          {votingClosed && tally.length > 0 && (
+            <div className="w-full max-w-xs mt-6 bg-white rounded-xl border border-stone-100 p-4 text-left space-y-1.5">
+              <p className="text-[10px] text-stone-400 uppercase tracking-wider mb-2 font-medium">
+                {t("guestVoting.results")}
+              </p>
+              {tally.map((topic, i) => (
+                <div key={topic.id} className="flex items-center justify-between text-sm">
+                  <span className="text-stone-700">
+                    <span className="text-stone-400 mr-2">{i + 1}.</span>
+                    {topic.icon && `${topic.icon} `}
+                    {topicName(topic.id) || topic.name}
+                  </span>
+                  <span className="text-xs font-bold text-stone-400">{formatScore(t, votingMode, topic.score)}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="mt-6 flex items-center gap-2">
             <div className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
-            <span className="text-xs text-stone-400">Waiting for host</span>
+            <span className="text-xs text-stone-400">{t("common.waitingForHost")}</span>
           </div>
         </div>
       </MobileShell>
@@ -143,17 +192,23 @@ export function GuestVotingView() {
 
   return (
     <MobileShell>
-      <ViewHeader title="Pick Your Topics" subtitle={`${selected.length} of 3 selected`} />
+      <ViewHeader
+        title={t("guestVoting.title")}
+        subtitle={t("guestVoting.selected", { selected: selected.length, total: voteLimit })}
+      />
       <div className="flex-1 px-5 pb-6">
-        <p className="text-stone-500 text-sm mb-4">Choose 3 topics you'd love to talk about today.</p>
+        <p className="text-stone-500 text-sm mb-4">
+          {t("guestVoting.intro", { count: voteLimit })}
+          {ranked && ` ${t("guestVoting.rankedHint")}`}
+        </p>
         <div className="space-y-2 mb-6">
-          {topics.map((t) => {
-            const isSelected = selected.includes(t.id);
-            const isDisabled = !isSelected && selected.length >= 3;
+          {availableTopics.map((topic) => {
+            const isSelected = selected.includes(topic.id);
+            const isDisabled = !isSelected && selected.length >= voteLimit;
             return (
               <button
-                key={t.id}
-                onClick={() => toggle(t.id)}
+                key={topic.id}
+                onClick={() => toggle(topic.id)}
                 disabled={isDisabled}
                 className={`w-full text-left px-4 py-3.5 rounded-xl border-2 transition-all ${
                   isSelected
@@ -163,11 +218,26 @@ export function GuestVotingView() {
                       : "border-stone-100 bg-white hover:border-stone-200"
                 }`}
               >
-                <div className="flex items-center justify-between">
-                  <span className={`text-sm font-medium ${isSelected ? "text-amber-800" : "text-stone-700"}`}>
-                    {t.name}
-                  </span>
-                  {isSelected && (
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <TopicIcon icon={topic.icon} color={topic.color} className="w-9 h-9 text-lg" />
+                    <div className="min-w-0">
+                      <span className={`text-sm font-medium ${isSelected ? "text-amber-800" : "text-stone-700"}`}>
+                        {localizedTopicName(topic, guestLanguage)}
+                      </span>
+                      {topic.description && (
+                        <p className="text-xs text-stone-400 leading-snug mt-0.5">
+                          {localizedTopicDescription(topic, guestLanguage)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {isSelected && ranked && (
+                    <span className="w-5 h-5 rounded-full bg-amber-600 text-white flex items-center justify-center text-[11px] font-bold">
+                      {selected.indexOf(topic.id) + 1}
+                    </span>
+                  )}
+                  {isSelected && !ranked && (
                     <div className="w-5 h-5 rounded-full bg-amber-600 flex items-center justify-center">
                       <svg
                         width="12"
@@ -189,12 +259,35 @@ export function GuestVotingView() {
           })}
         </div>
 
+        {/* Ranking */}
+        {ranked && selected.length > 0 && (
+          <div className="mb-6">
+            <p className="text-[10px] text-stone-400 uppercase tracking-wider mb-2 font-medium">
+              {t("guestVoting.ranking")}
+            </p>
+            <RankList
+              items={selected}
+              onReorder={setSelected}
+              renderItem={(id, index) => (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-stone-800 truncate">{topicName(id)}</span>
+                  {votingMode === "points" && (
+                    <span className="text-[11px] font-semibold text-amber-700 shrink-0">
+                      {formatScore(t, "points", pointsForRank(index + 1, voteLimit))}
+                    </span>
+                  )}
+                </div>
+              )}
+            />
+          </div>
+        )}
+
         <button
           onClick={handleSubmit}
-          disabled={selected.length !== 3}
+          disabled={selected.length !== voteLimit}
           className="w-full h-14 rounded-2xl bg-amber-800 text-amber-50 font-semibold text-[15px] disabled:opacity-40 disabled:cursor-not-allowed hover:bg-amber-900 transition-colors active:scale-[0.98]"
         >
-          Submit Votes
+          {t("guestVoting.submit")}
         </button>
       </div>
     </MobileShell>
@@ -0,0 +1,138 @@
+-- Add guest rejoin support
+-- Each guest receives a rejoin token when joining so a reloaded device can reclaim its seat
+-- instead of hitting the UNIQUE(session_id, nickname) constraint
+
+-- ============================================================================
+-- Rejoin tokens
+-- ============================================================================
+CREATE TABLE guest_rejoin_tokens (
+  guest_id UUID PRIMARY KEY REFERENCES guests(id) ON DELETE CASCADE,
+  token UUID NOT NULL DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- No policies: tokens are only reachable through the SECURITY DEFINER functions below
+ALTER TABLE guest_rejoin_tokens ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- join_session_atomic - Creates the guest and issues its rejoin token together
+-- ============================================================================
+CREATE OR REPLACE FUNCTION join_session_atomic(
+  p_session_id UUID,
+  p_nickname TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_guest RECORD;
+  v_token UUID;
+BEGIN
+  SELECT phase INTO v_phase
+  FROM sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  IF v_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  INSERT INTO guests (session_id, nickname)
+  VALUES (p_session_id, trim(p_nickname))
+  RETURNING * INTO v_guest;
+
+  INSERT INTO guest_rejoin_tokens (guest_id)
+  VALUES (v_guest.id)
+  RETURNING token INTO v_token;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'guest', row_to_json(v_guest),
+    'rejoin_token', v_token
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Nickname already taken in this session',
+      'error_code', 'NICKNAME_TAKEN'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- rejoin_session - Verifies a rejoin token and returns the guest's seat
+-- ============================================================================
+CREATE OR REPLACE FUNCTION rejoin_session(
+  p_guest_id UUID,
+  p_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_guest RECORD;
+  v_session RECORD;
+BEGIN
+  SELECT g.* INTO v_guest
+  FROM guests g
+  JOIN guest_rejoin_tokens t ON t.guest_id = g.id
+  WHERE g.id = p_guest_id AND t.token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Seat could not be restored',
+      'error_code', 'INVALID_REJOIN_TOKEN'
+    );
+  END IF;
+
+  SELECT id, code, phase INTO v_session
+  FROM sessions
+  WHERE id = v_guest.session_id;
+
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'guest', row_to_json(v_guest),
+    'session', jsonb_build_object(
+      'id', v_session.id,
+      'code', v_session.code,
+      'phase', v_session.phase
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION join_session_atomic(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION rejoin_session(UUID, UUID) TO anon, authenticated;
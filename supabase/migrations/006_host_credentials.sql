@@ -0,0 +1,478 @@
+-- Add host credentials and host-only session control
+-- Sessions get a host token at creation; every host action now goes through an RPC that checks it
+-- and direct writes to sessions are no longer allowed from clients
+
+-- ============================================================================
+-- Host tokens
+-- ============================================================================
+CREATE TABLE session_hosts (
+  session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+  host_token UUID NOT NULL DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- No policies: host tokens are only reachable through the SECURITY DEFINER functions below
+ALTER TABLE session_hosts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Lock down direct writes to host-owned tables
+-- ============================================================================
+DROP POLICY "Anyone can insert sessions" ON sessions;
+DROP POLICY "Anyone can update sessions" ON sessions;
+DROP POLICY "Anyone can delete sessions" ON sessions;
+
+DROP POLICY "Anyone can insert session_topics" ON session_topics;
+DROP POLICY "Anyone can update session_topics" ON session_topics;
+DROP POLICY "Anyone can delete session_topics" ON session_topics;
+
+DROP POLICY "Anyone can insert question_pool" ON question_pool;
+DROP POLICY "Anyone can update question_pool" ON question_pool;
+DROP POLICY "Anyone can delete question_pool" ON question_pool;
+
+-- ============================================================================
+-- Route guest writes through the vote and pick functions
+-- ============================================================================
+-- Otherwise any client could rewrite votes and picks or mark pool questions picked in any session.
+-- The functions that guests call now run as their owner instead
+DROP POLICY "Anyone can insert votes" ON votes;
+DROP POLICY "Anyone can update votes" ON votes;
+DROP POLICY "Anyone can delete votes" ON votes;
+
+DROP POLICY "Anyone can insert picked_questions" ON picked_questions;
+DROP POLICY "Anyone can update picked_questions" ON picked_questions;
+DROP POLICY "Anyone can delete picked_questions" ON picked_questions;
+
+ALTER FUNCTION submit_vote_atomic(UUID, UUID, UUID[]) SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION pick_question_atomic(UUID, UUID, INT) SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- verify_session_host - Shared host token check
+-- ============================================================================
+CREATE OR REPLACE FUNCTION verify_session_host(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM session_hosts
+    WHERE session_id = p_session_id AND host_token = p_host_token
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- create_session_atomic - Creates the session and its host token together
+-- ============================================================================
+CREATE OR REPLACE FUNCTION create_session_atomic()
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_host_token UUID;
+BEGIN
+  INSERT INTO sessions (code, phase, current_round)
+  VALUES (generate_session_code(), 'lobby', 1)
+  RETURNING * INTO v_session;
+
+  INSERT INTO session_hosts (session_id)
+  VALUES (v_session.id)
+  RETURNING host_token INTO v_host_token;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session', row_to_json(v_session),
+    'host_token', v_host_token
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- resume_host_session - Verifies a stored host token after a reload
+-- ============================================================================
+CREATE OR REPLACE FUNCTION resume_host_session(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT id, code, phase INTO v_session
+  FROM sessions
+  WHERE id = p_session_id;
+
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session', jsonb_build_object(
+      'id', v_session.id,
+      'code', v_session.code,
+      'phase', v_session.phase
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- advance_phase_atomic - Host-only phase change (replaces direct sessions UPDATE)
+-- Sessions only move one step forward: lobby, voting, topicResults, topicReveal, questionPhase
+-- ============================================================================
+CREATE OR REPLACE FUNCTION advance_phase_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_phase TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  -- Ending goes through end_session_atomic so the archive is written
+  IF p_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Use end_session_atomic to end a session',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  SELECT phase INTO v_phase
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  IF (v_phase, p_phase) NOT IN (
+    ('lobby', 'voting'),
+    ('voting', 'topicResults'),
+    ('topicResults', 'topicReveal'),
+    ('topicReveal', 'questionPhase')
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Can''t move from %s to %s', v_phase, p_phase),
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  UPDATE sessions SET phase = p_phase WHERE id = p_session_id;
+
+  RETURN jsonb_build_object('success', true, 'phase', p_phase);
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid session phase',
+      'error_code', 'INVALID_PHASE'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- Host-only versions of the existing atomic host actions
+-- ============================================================================
+DROP FUNCTION advance_round_atomic(UUID);
+DROP FUNCTION end_session_atomic(UUID);
+DROP FUNCTION confirm_topics_atomic(UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION advance_round_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_current_round INT;
+  v_reset_count INT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  -- Get and lock current round
+  SELECT current_round INTO v_current_round
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Reset all guest pick status
+  UPDATE guests
+  SET has_picked = false, picked_question_id = null
+  WHERE session_id = p_session_id;
+
+  GET DIAGNOSTICS v_reset_count = ROW_COUNT;
+
+  -- Increment round
+  UPDATE sessions
+  SET current_round = v_current_round + 1
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'previous_round', v_current_round,
+    'new_round', v_current_round + 1,
+    'guests_reset', v_reset_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION end_session_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_guests JSONB;
+  v_topics JSONB;
+  v_questions JSONB;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  v_end_time := NOW();
+
+  -- Lock and fetch session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Check if already ended
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session already ended',
+      'error_code', 'ALREADY_ENDED'
+    );
+  END IF;
+
+  -- Fetch guests
+  SELECT COALESCE(jsonb_agg(row_to_json(g.*)), '[]'::jsonb)
+  INTO v_guests
+  FROM guests g
+  WHERE g.session_id = p_session_id;
+
+  -- Fetch confirmed topics
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'topic_id', st.topic_id,
+        'topics', jsonb_build_object('name', t.name)
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_topics
+  FROM session_topics st
+  JOIN topics t ON st.topic_id = t.id
+  WHERE st.session_id = p_session_id;
+
+  -- Fetch picked questions
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'round', pq.round,
+        'guests', jsonb_build_object('nickname', g.nickname),
+        'questions', jsonb_build_object(
+          'id', q.id,
+          'text', q.text,
+          'topics', jsonb_build_object('name', t.name)
+        )
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_questions
+  FROM picked_questions pq
+  JOIN guests g ON pq.guest_id = g.id
+  JOIN questions q ON pq.question_id = q.id
+  JOIN topics t ON q.topic_id = t.id
+  WHERE pq.session_id = p_session_id;
+
+  -- Update session to ended
+  UPDATE sessions
+  SET phase = 'ended', end_time = v_end_time
+  WHERE id = p_session_id;
+
+  -- Archive to session_records
+  INSERT INTO session_records (
+    id,
+    code,
+    start_time,
+    end_time,
+    guest_count,
+    guests_json,
+    confirmed_topics_json,
+    picked_questions_json
+  ) VALUES (
+    p_session_id,
+    v_session.code,
+    v_session.start_time,
+    v_end_time,
+    jsonb_array_length(v_guests),
+    v_guests,
+    v_topics,
+    v_questions
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'guest_count', jsonb_array_length(v_guests),
+    'end_time', v_end_time
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION confirm_topics_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic_id UUID;
+  v_question_record RECORD;
+  v_pos INT := 1;
+  v_question_count INT := 0;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  -- Insert confirmed topics
+  FOREACH v_topic_id IN ARRAY p_topic_ids
+  LOOP
+    INSERT INTO session_topics (session_id, topic_id)
+    VALUES (p_session_id, v_topic_id);
+  END LOOP;
+
+  -- Delete existing question pool for this session (if any)
+  DELETE FROM question_pool WHERE session_id = p_session_id;
+
+  -- Get all questions from the selected topics and shuffle them
+  FOR v_question_record IN (
+    SELECT id FROM questions
+    WHERE topic_id = ANY(p_topic_ids)
+    ORDER BY random()
+  ) LOOP
+    INSERT INTO question_pool (session_id, question_id, position, picked)
+    VALUES (p_session_id, v_question_record.id, v_pos, false);
+    v_pos := v_pos + 1;
+    v_question_count := v_question_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topic_count', array_length(p_topic_ids, 1),
+    'question_count', v_question_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Token check is internal to the host RPCs
+REVOKE EXECUTE ON FUNCTION verify_session_host(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,227 @@
+-- Add per-session voting rules
+-- Hosts choose how many topics each guest votes for and how many topics get confirmed;
+-- both are enforced by submit_vote_atomic and confirm_topics_atomic
+
+-- ============================================================================
+-- Session settings columns
+-- ============================================================================
+ALTER TABLE sessions
+  ADD COLUMN votes_per_guest INT NOT NULL DEFAULT 3 CHECK (votes_per_guest >= 1),
+  ADD COLUMN topics_to_confirm INT NOT NULL DEFAULT 3 CHECK (topics_to_confirm >= 1);
+
+-- ============================================================================
+-- update_session_settings - Host-only settings change while the session is in the lobby
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_session_settings(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_settings JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  -- Changing the rules once votes are coming in would invalidate them
+  IF v_session.phase <> 'lobby' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Settings can only be changed in the lobby',
+      'error_code', 'SETTINGS_LOCKED'
+    );
+  END IF;
+
+  UPDATE sessions
+  SET
+    votes_per_guest = COALESCE((p_settings->>'votes_per_guest')::INT, votes_per_guest),
+    topics_to_confirm = COALESCE((p_settings->>'topics_to_confirm')::INT, topics_to_confirm)
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_per_guest', v_session.votes_per_guest,
+    'topics_to_confirm', v_session.topics_to_confirm
+  );
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Settings must be at least 1',
+      'error_code', 'INVALID_SETTINGS'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- submit_vote_atomic - Now enforces the session's vote count, and only takes votes while voting is open
+-- ============================================================================
+CREATE OR REPLACE FUNCTION submit_vote_atomic(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_topic_id UUID;
+  v_required INT;
+BEGIN
+  -- Validate guest hasn't already voted
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND has_voted = true;
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest has already voted',
+      'error_code', 'ALREADY_VOTED'
+    );
+  END IF;
+
+  -- Guests vote for votes_per_guest topics, or every topic when fewer exist.
+  -- Locking the row holds off a phase change until the votes are in
+  SELECT s.phase, LEAST(s.votes_per_guest, (SELECT COUNT(*) FROM topics)::INT)
+  INTO v_phase, v_required
+  FROM sessions s
+  WHERE s.id = p_session_id
+  FOR SHARE;
+
+  IF v_phase IS DISTINCT FROM 'voting' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Voting is closed',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_required THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Vote for exactly %s topics', v_required),
+      'error_code', 'INVALID_VOTE_COUNT'
+    );
+  END IF;
+
+  -- Insert all votes atomically
+  FOREACH v_topic_id IN ARRAY p_topic_ids
+  LOOP
+    INSERT INTO votes (session_id, guest_id, topic_id)
+    VALUES (p_session_id, p_guest_id, v_topic_id);
+  END LOOP;
+
+  -- Update guest status
+  UPDATE guests SET has_voted = true WHERE id = p_guest_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_count', array_length(p_topic_ids, 1)
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Duplicate vote detected',
+      'error_code', '23505'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- confirm_topics_atomic - Now enforces the session's confirmed topic count
+-- ============================================================================
+CREATE OR REPLACE FUNCTION confirm_topics_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic_id UUID;
+  v_question_record RECORD;
+  v_pos INT := 1;
+  v_question_count INT := 0;
+  v_required INT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT LEAST(s.topics_to_confirm, (SELECT COUNT(*) FROM topics)::INT)
+  INTO v_required
+  FROM sessions s
+  WHERE s.id = p_session_id;
+
+  IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_required THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Confirm exactly %s topics', v_required),
+      'error_code', 'INVALID_TOPIC_COUNT'
+    );
+  END IF;
+
+  -- Insert confirmed topics
+  FOREACH v_topic_id IN ARRAY p_topic_ids
+  LOOP
+    INSERT INTO session_topics (session_id, topic_id)
+    VALUES (p_session_id, v_topic_id);
+  END LOOP;
+
+  -- Delete existing question pool for this session (if any)
+  DELETE FROM question_pool WHERE session_id = p_session_id;
+
+  -- Get all questions from the selected topics and shuffle them
+  FOR v_question_record IN (
+    SELECT id FROM questions
+    WHERE topic_id = ANY(p_topic_ids)
+    ORDER BY random()
+  ) LOOP
+    INSERT INTO question_pool (session_id, question_id, position, picked)
+    VALUES (p_session_id, v_question_record.id, v_pos, false);
+    v_pos := v_pos + 1;
+    v_question_count := v_question_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topic_count', array_length(p_topic_ids, 1),
+    'question_count', v_question_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
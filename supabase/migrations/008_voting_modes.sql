@@ -0,0 +1,304 @@
+-- Add ranked-choice and points voting modes
+-- Votes now carry the guest's rank for each topic and the tally is computed server-side
+-- so the host and every guest see the same result
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+ALTER TABLE sessions
+  ADD COLUMN voting_mode TEXT NOT NULL DEFAULT 'approval'
+    CHECK (voting_mode IN ('approval', 'ranked', 'points'));
+
+-- 1 = the guest's first choice; approval votes are stored in submission order
+ALTER TABLE votes
+  ADD COLUMN rank INT NOT NULL DEFAULT 1 CHECK (rank >= 1);
+
+-- ============================================================================
+-- update_session_settings - Adds voting_mode
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_session_settings(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_settings JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  -- Changing the rules once votes are coming in would invalidate them
+  IF v_session.phase <> 'lobby' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Settings can only be changed in the lobby',
+      'error_code', 'SETTINGS_LOCKED'
+    );
+  END IF;
+
+  UPDATE sessions
+  SET
+    votes_per_guest = COALESCE((p_settings->>'votes_per_guest')::INT, votes_per_guest),
+    topics_to_confirm = COALESCE((p_settings->>'topics_to_confirm')::INT, topics_to_confirm),
+    voting_mode = COALESCE(p_settings->>'voting_mode', voting_mode)
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_per_guest', v_session.votes_per_guest,
+    'topics_to_confirm', v_session.topics_to_confirm,
+    'voting_mode', v_session.voting_mode
+  );
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid session settings',
+      'error_code', 'INVALID_SETTINGS'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- submit_vote_atomic - Stores each topic's rank (array order = preference order)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION submit_vote_atomic(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_required INT;
+  v_rank INT;
+BEGIN
+  -- Validate guest hasn't already voted
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND has_voted = true;
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest has already voted',
+      'error_code', 'ALREADY_VOTED'
+    );
+  END IF;
+
+  -- Guests vote for votes_per_guest topics, or every topic when fewer exist.
+  -- Locking the row holds off a phase change until the votes are in
+  SELECT s.phase, LEAST(s.votes_per_guest, (SELECT COUNT(*) FROM topics)::INT)
+  INTO v_phase, v_required
+  FROM sessions s
+  WHERE s.id = p_session_id
+  FOR SHARE;
+
+  IF v_phase IS DISTINCT FROM 'voting' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Voting is closed',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_required THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Vote for exactly %s topics', v_required),
+      'error_code', 'INVALID_VOTE_COUNT'
+    );
+  END IF;
+
+  -- Insert all votes atomically
+  FOR v_rank IN 1..array_length(p_topic_ids, 1)
+  LOOP
+    INSERT INTO votes (session_id, guest_id, topic_id, rank)
+    VALUES (p_session_id, p_guest_id, p_topic_ids[v_rank], v_rank);
+  END LOOP;
+
+  -- Update guest status
+  UPDATE guests SET has_voted = true WHERE id = p_guest_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_count', array_length(p_topic_ids, 1)
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Duplicate vote detected',
+      'error_code', '23505'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- ranked_choice_order - Orders topics by repeated instant-runoff
+-- Each seat is filled by an instant-runoff count over the topics not yet seated;
+-- score is the winner's first-choice count in its final runoff round
+-- ============================================================================
+CREATE OR REPLACE FUNCTION ranked_choice_order(p_session_id UUID)
+RETURNS TABLE(topic_id UUID, score INT) AS $$
+DECLARE
+  v_remaining UUID[];
+  v_candidates UUID[];
+  v_ballots INT;
+  v_leader RECORD;
+  v_loser UUID;
+BEGIN
+  SELECT ARRAY(SELECT DISTINCT v.topic_id FROM votes v WHERE v.session_id = p_session_id)
+  INTO v_remaining;
+
+  WHILE COALESCE(array_length(v_remaining, 1), 0) > 0 LOOP
+    v_candidates := v_remaining;
+
+    LOOP
+      -- Each ballot counts for its highest-ranked topic still in the running
+      SELECT COUNT(DISTINCT v.guest_id) INTO v_ballots
+      FROM votes v
+      WHERE v.session_id = p_session_id AND v.topic_id = ANY(v_candidates);
+
+      SELECT f.topic_id, COUNT(*)::INT AS firsts INTO v_leader
+      FROM (
+        SELECT DISTINCT ON (v.guest_id) v.guest_id, v.topic_id
+        FROM votes v
+        WHERE v.session_id = p_session_id AND v.topic_id = ANY(v_candidates)
+        ORDER BY v.guest_id, v.rank
+      ) f
+      GROUP BY f.topic_id
+      ORDER BY firsts DESC, f.topic_id
+      LIMIT 1;
+
+      EXIT WHEN array_length(v_candidates, 1) = 1 OR v_leader.firsts * 2 > v_ballots;
+
+      -- Eliminate the topic with the fewest first choices (fewest total mentions breaks ties)
+      SELECT c.id INTO v_loser
+      FROM unnest(v_candidates) AS c(id)
+      LEFT JOIN (
+        SELECT DISTINCT ON (v.guest_id) v.guest_id, v.topic_id
+        FROM votes v
+        WHERE v.session_id = p_session_id AND v.topic_id = ANY(v_candidates)
+        ORDER BY v.guest_id, v.rank
+      ) f ON f.topic_id = c.id
+      GROUP BY c.id
+      ORDER BY
+        COUNT(f.guest_id),
+        (SELECT COUNT(*) FROM votes v WHERE v.session_id = p_session_id AND v.topic_id = c.id),
+        c.id DESC
+      LIMIT 1;
+
+      v_candidates := array_remove(v_candidates, v_loser);
+    END LOOP;
+
+    topic_id := COALESCE(v_leader.topic_id, v_candidates[1]);
+    score := COALESCE(v_leader.firsts, 0);
+    RETURN NEXT;
+
+    v_remaining := array_remove(v_remaining, topic_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- get_topic_tally - Server-side tally for the session's voting mode
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_topic_tally(p_session_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_mode TEXT;
+  v_max_rank INT;
+  v_tally JSONB;
+BEGIN
+  SELECT s.voting_mode, LEAST(s.votes_per_guest, (SELECT COUNT(*) FROM topics)::INT)
+  INTO v_mode, v_max_rank
+  FROM sessions s
+  WHERE s.id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  WITH counts AS (
+    SELECT
+      t.id AS topic_id,
+      COUNT(v.id)::INT AS votes,
+      -- Points mode: first choice earns votes_per_guest points, last choice earns 1
+      COALESCE(SUM(v_max_rank - v.rank + 1), 0)::INT AS points
+    FROM topics t
+    LEFT JOIN votes v ON v.topic_id = t.id AND v.session_id = p_session_id
+    GROUP BY t.id
+  ),
+  ranked AS (
+    SELECT r.topic_id, r.score, ROW_NUMBER() OVER () AS seat
+    FROM ranked_choice_order(p_session_id) r
+  ),
+  scored AS (
+    SELECT
+      c.topic_id,
+      c.votes,
+      CASE v_mode
+        WHEN 'points' THEN c.points
+        WHEN 'ranked' THEN COALESCE(r.score, 0)
+        ELSE c.votes
+      END AS score,
+      r.seat
+    FROM counts c
+    LEFT JOIN ranked r ON r.topic_id = c.topic_id
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('topic_id', topic_id, 'score', score, 'votes', votes)
+      ORDER BY
+        CASE WHEN v_mode = 'ranked' THEN COALESCE(seat, 2147483647) ELSE 0 END,
+        score DESC,
+        votes DESC
+    ),
+    '[]'::jsonb
+  )
+  INTO v_tally
+  FROM scored;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'voting_mode', v_mode,
+    'tally', v_tally
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
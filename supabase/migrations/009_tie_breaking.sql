@@ -0,0 +1,846 @@
+-- Deterministic topic tally with tie surfacing and tie-break strategies
+-- Topics tied at the confirm cut-off are flagged; the host breaks the tie by deciding,
+-- running a one-question runoff vote, or drawing at random. The resolution is stored on
+-- the session and archived so the record explains why each topic won.
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+ALTER TABLE sessions DROP CONSTRAINT sessions_phase_check;
+ALTER TABLE sessions ADD CONSTRAINT sessions_phase_check
+  CHECK (phase IN ('lobby', 'voting', 'topicResults', 'runoff', 'topicReveal', 'questionPhase', 'ended'));
+
+-- {strategy, tied_topic_ids, seats, status, winner_topic_ids, runoff_counts, runoff_voter_ids, fallback, resolved_at}
+ALTER TABLE sessions ADD COLUMN tie_break JSONB;
+
+-- Why each confirmed topic made the cut: 'votes', 'tie_break' or 'host_override'
+ALTER TABLE session_topics
+  ADD COLUMN selection_reason TEXT NOT NULL DEFAULT 'votes'
+    CHECK (selection_reason IN ('votes', 'tie_break', 'host_override')),
+  ADD COLUMN score INT;
+
+ALTER TABLE session_records ADD COLUMN tie_break_json JSONB;
+
+-- One runoff ballot per guest; written only through submit_runoff_vote
+CREATE TABLE runoff_votes (
+  session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+  guest_id UUID REFERENCES guests(id) ON DELETE CASCADE,
+  topic_id UUID REFERENCES topics(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (session_id, guest_id)
+);
+
+ALTER TABLE runoff_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read runoff_votes" ON runoff_votes
+  FOR SELECT USING (true);
+
+-- ============================================================================
+-- topic_head_to_head - Ballots preferring topic A over topic B, minus the reverse
+-- A ranked topic beats an unranked one
+-- ============================================================================
+CREATE OR REPLACE FUNCTION topic_head_to_head(p_session_id UUID, p_topic_a UUID, p_topic_b UUID)
+RETURNS INT AS $$
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN a.rank IS NOT NULL AND (b.rank IS NULL OR a.rank < b.rank) THEN 1
+      WHEN b.rank IS NOT NULL AND (a.rank IS NULL OR b.rank < a.rank) THEN -1
+      ELSE 0
+    END
+  ), 0)::INT
+  FROM (SELECT DISTINCT guest_id FROM votes WHERE session_id = p_session_id) ballots
+  LEFT JOIN votes a ON a.guest_id = ballots.guest_id AND a.session_id = p_session_id AND a.topic_id = p_topic_a
+  LEFT JOIN votes b ON b.guest_id = ballots.guest_id AND b.session_id = p_session_id AND b.topic_id = p_topic_b;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- get_topic_tally - Deterministic order and tie detection at the cut-off
+-- Equal scores are listed by topic name; they are never silently ranked.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_topic_tally(p_session_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_mode TEXT;
+  v_max_rank INT;
+  v_required INT;
+  v_tally JSONB;
+  v_cutoff JSONB;
+  v_tied UUID[] := '{}';
+  v_seats INT := 0;
+BEGIN
+  SELECT
+    s.voting_mode,
+    LEAST(s.votes_per_guest, (SELECT COUNT(*) FROM topics)::INT),
+    LEAST(s.topics_to_confirm, (SELECT COUNT(*) FROM topics)::INT)
+  INTO v_mode, v_max_rank, v_required
+  FROM sessions s
+  WHERE s.id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  WITH counts AS (
+    SELECT
+      t.id AS topic_id,
+      t.name,
+      COUNT(v.id)::INT AS votes,
+      -- Points mode: first choice earns votes_per_guest points, last choice earns 1
+      COALESCE(SUM(v_max_rank - v.rank + 1), 0)::INT AS points
+    FROM topics t
+    LEFT JOIN votes v ON v.topic_id = t.id AND v.session_id = p_session_id
+    GROUP BY t.id, t.name
+  ),
+  ranked AS (
+    SELECT r.topic_id, r.score, ROW_NUMBER() OVER () AS seat
+    FROM ranked_choice_order(p_session_id) r
+  ),
+  scored AS (
+    SELECT
+      c.topic_id,
+      c.name,
+      c.votes,
+      CASE v_mode
+        WHEN 'points' THEN c.points
+        WHEN 'ranked' THEN COALESCE(r.score, 0)
+        ELSE c.votes
+      END AS score,
+      r.seat
+    FROM counts c
+    LEFT JOIN ranked r ON r.topic_id = c.topic_id
+  ),
+  positioned AS (
+    SELECT
+      s.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN v_mode = 'ranked' THEN COALESCE(s.seat, 2147483647) ELSE 0 END,
+          s.score DESC,
+          s.name,
+          s.topic_id
+      ) AS position
+    FROM scored s
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('topic_id', topic_id, 'score', score, 'votes', votes, 'position', position)
+      ORDER BY position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_tally
+  FROM positioned;
+
+  -- A tie only matters when it straddles the cut-off
+  IF v_required > 0 AND jsonb_array_length(v_tally) > v_required THEN
+    v_cutoff := v_tally -> (v_required - 1);
+
+    IF v_mode = 'ranked' THEN
+      -- Ranked seats aren't comparable by score, so compare the last seat head-to-head
+      SELECT array_agg((e ->> 'topic_id')::UUID)
+      INTO v_tied
+      FROM jsonb_array_elements(v_tally) e
+      WHERE (e ->> 'position')::INT > v_required
+        AND topic_head_to_head(p_session_id, (v_cutoff ->> 'topic_id')::UUID, (e ->> 'topic_id')::UUID) = 0;
+
+      IF v_tied IS NOT NULL THEN
+        v_tied := (v_cutoff ->> 'topic_id')::UUID || v_tied;
+        v_seats := 1;
+      END IF;
+    ELSIF (v_tally -> v_required ->> 'score') = (v_cutoff ->> 'score') THEN
+      SELECT
+        array_agg((e ->> 'topic_id')::UUID ORDER BY (e ->> 'position')::INT),
+        COUNT(*) FILTER (WHERE (e ->> 'position')::INT <= v_required)
+      INTO v_tied, v_seats
+      FROM jsonb_array_elements(v_tally) e
+      WHERE e ->> 'score' = v_cutoff ->> 'score';
+    END IF;
+  END IF;
+
+  v_tied := COALESCE(v_tied, '{}');
+
+  SELECT jsonb_agg(e || jsonb_build_object('tied', (e ->> 'topic_id')::UUID = ANY(v_tied)) ORDER BY (e ->> 'position')::INT)
+  INTO v_tally
+  FROM jsonb_array_elements(v_tally) e;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'voting_mode', v_mode,
+    'tally', COALESCE(v_tally, '[]'::jsonb),
+    'tie', CASE
+      WHEN v_seats > 0 THEN jsonb_build_object('topic_ids', to_jsonb(v_tied), 'seats', v_seats)
+      ELSE NULL
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- resolve_tie_atomic - Host breaks the cut-off tie
+-- 'host' takes the host's picks, 'random' draws winners, 'runoff' opens a runoff vote
+-- ============================================================================
+CREATE OR REPLACE FUNCTION resolve_tie_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_strategy TEXT,
+  p_topic_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_tie JSONB;
+  v_tied UUID[];
+  v_seats INT;
+  v_winners UUID[];
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_session.phase <> 'topicResults' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Ties can only be broken on the results screen',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  v_tie := get_topic_tally(p_session_id) -> 'tie';
+
+  IF v_tie IS NULL OR v_tie = 'null'::jsonb THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'There is no tie to break',
+      'error_code', 'NO_TIE'
+    );
+  END IF;
+
+  v_tied := ARRAY(SELECT jsonb_array_elements_text(v_tie -> 'topic_ids')::UUID);
+  v_seats := (v_tie ->> 'seats')::INT;
+
+  CASE p_strategy
+    WHEN 'host' THEN
+      IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_seats OR NOT (p_topic_ids <@ v_tied) THEN
+        RETURN jsonb_build_object(
+          'success', false,
+          'error', format('Pick exactly %s of the tied topics', v_seats),
+          'error_code', 'INVALID_TIE_SELECTION'
+        );
+      END IF;
+      v_winners := p_topic_ids;
+
+    WHEN 'random' THEN
+      v_winners := ARRAY(SELECT id FROM unnest(v_tied) AS id ORDER BY random() LIMIT v_seats);
+
+    WHEN 'runoff' THEN
+      DELETE FROM runoff_votes WHERE session_id = p_session_id;
+
+      UPDATE sessions
+      SET
+        phase = 'runoff',
+        tie_break = jsonb_build_object(
+          'strategy', 'runoff',
+          'tied_topic_ids', to_jsonb(v_tied),
+          'seats', v_seats,
+          'status', 'open',
+          'runoff_counts', '{}'::jsonb,
+          'runoff_voter_ids', '[]'::jsonb
+        )
+      WHERE id = p_session_id;
+
+      RETURN jsonb_build_object('success', true, 'strategy', 'runoff');
+
+    ELSE
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'Unknown tie-break strategy',
+        'error_code', 'INVALID_STRATEGY'
+      );
+  END CASE;
+
+  UPDATE sessions
+  SET tie_break = jsonb_build_object(
+    'strategy', p_strategy,
+    'tied_topic_ids', to_jsonb(v_tied),
+    'seats', v_seats,
+    'status', 'resolved',
+    'winner_topic_ids', to_jsonb(v_winners),
+    'resolved_at', NOW()
+  )
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'strategy', p_strategy,
+    'winner_topic_ids', to_jsonb(v_winners)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- submit_runoff_vote - One runoff vote per guest for one of the tied topics
+-- Counts are mirrored onto sessions.tie_break so clients get them with session updates
+-- ============================================================================
+CREATE OR REPLACE FUNCTION submit_runoff_vote(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_topic_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_session.phase IS DISTINCT FROM 'runoff' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The runoff vote is closed',
+      'error_code', 'RUNOFF_CLOSED'
+    );
+  END IF;
+
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest not found',
+      'error_code', 'GUEST_NOT_FOUND'
+    );
+  END IF;
+
+  IF NOT (v_session.tie_break -> 'tied_topic_ids' ? p_topic_id::TEXT) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'That topic is not in the runoff',
+      'error_code', 'INVALID_TOPIC'
+    );
+  END IF;
+
+  INSERT INTO runoff_votes (session_id, guest_id, topic_id)
+  VALUES (p_session_id, p_guest_id, p_topic_id);
+
+  UPDATE sessions
+  SET tie_break = jsonb_set(
+    jsonb_set(
+      tie_break,
+      ARRAY['runoff_counts', p_topic_id::TEXT],
+      to_jsonb(COALESCE((tie_break -> 'runoff_counts' ->> p_topic_id::TEXT)::INT, 0) + 1)
+    ),
+    '{runoff_voter_ids}',
+    (tie_break -> 'runoff_voter_ids') || to_jsonb(p_guest_id)
+  )
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest has already voted in the runoff',
+      'error_code', 'ALREADY_VOTED'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_runoff_vote(UUID, UUID, UUID) TO anon, authenticated;
+
+-- ============================================================================
+-- close_runoff_atomic - Host closes the runoff and returns to the results screen
+-- A tie within the runoff itself falls back to a random draw, recorded as 'fallback'
+-- ============================================================================
+CREATE OR REPLACE FUNCTION close_runoff_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_seats INT;
+  v_winners UUID[];
+  v_cutoff_count INT;
+  v_clear UUID[];
+  v_drawn UUID[];
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_session.phase <> 'runoff' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No runoff is open',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  v_seats := (v_session.tie_break ->> 'seats')::INT;
+
+  CREATE TEMP TABLE runoff_tally ON COMMIT DROP AS
+  SELECT t.id AS topic_id, COUNT(rv.guest_id)::INT AS count
+  FROM unnest(ARRAY(SELECT jsonb_array_elements_text(v_session.tie_break -> 'tied_topic_ids')::UUID)) AS t(id)
+  LEFT JOIN runoff_votes rv ON rv.topic_id = t.id AND rv.session_id = p_session_id
+  GROUP BY t.id;
+
+  -- Count needed to take the last open seat
+  SELECT count INTO v_cutoff_count
+  FROM runoff_tally
+  ORDER BY count DESC
+  OFFSET v_seats - 1
+  LIMIT 1;
+
+  v_clear := ARRAY(SELECT topic_id FROM runoff_tally WHERE count > v_cutoff_count);
+  v_drawn := ARRAY(
+    SELECT topic_id FROM runoff_tally
+    WHERE count = v_cutoff_count
+    ORDER BY random()
+    LIMIT v_seats - COALESCE(array_length(v_clear, 1), 0)
+  );
+  v_winners := v_clear || v_drawn;
+
+  UPDATE sessions
+  SET
+    phase = 'topicResults',
+    tie_break = tie_break || jsonb_build_object(
+      'status', 'resolved',
+      'winner_topic_ids', to_jsonb(v_winners),
+      'fallback', CASE
+        WHEN (SELECT COUNT(*) FROM runoff_tally WHERE count = v_cutoff_count) > COALESCE(array_length(v_drawn, 1), 0)
+          THEN 'random'
+        ELSE NULL
+      END,
+      'resolved_at', NOW()
+    )
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'winner_topic_ids', to_jsonb(v_winners)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- advance_phase_atomic - The runoff phase is entered and left only through the tie-break RPCs, so a session
+-- in a runoff can't be moved on from here
+-- ============================================================================
+CREATE OR REPLACE FUNCTION advance_phase_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_phase TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  -- Ending goes through end_session_atomic so the archive is written
+  IF p_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Use end_session_atomic to end a session',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  -- A runoff needs its tie recorded first
+  IF p_phase = 'runoff' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Use resolve_tie_atomic to start a runoff',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  SELECT phase INTO v_phase
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  IF (v_phase, p_phase) NOT IN (
+    ('lobby', 'voting'),
+    ('voting', 'topicResults'),
+    ('topicResults', 'topicReveal'),
+    ('topicReveal', 'questionPhase')
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Can''t move from %s to %s', v_phase, p_phase),
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  UPDATE sessions SET phase = p_phase WHERE id = p_session_id;
+
+  RETURN jsonb_build_object('success', true, 'phase', p_phase);
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid session phase',
+      'error_code', 'INVALID_PHASE'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- confirm_topics_atomic - Records why each confirmed topic won
+-- Confirming over an unresolved tie records the host's choice as the tie-break. Only runs after voting, and
+-- only for topics in the tally
+-- ============================================================================
+CREATE OR REPLACE FUNCTION confirm_topics_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic_id UUID;
+  v_question_record RECORD;
+  v_pos INT := 1;
+  v_question_count INT := 0;
+  v_required INT;
+  v_tally JSONB;
+  v_tie_break JSONB;
+  v_tied UUID[] := '{}';
+  v_tie_winners UUID[] := '{}';
+  v_outright UUID[];
+  v_reason TEXT;
+  v_phase TEXT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT LEAST(s.topics_to_confirm, (SELECT COUNT(*) FROM topics)::INT), s.tie_break, s.phase
+  INTO v_required, v_tie_break, v_phase
+  FROM sessions s
+  WHERE s.id = p_session_id
+  FOR UPDATE;
+
+  IF v_phase NOT IN ('voting', 'topicResults') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Topics can only be confirmed after voting',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_required THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Confirm exactly %s topics', v_required),
+      'error_code', 'INVALID_TOPIC_COUNT'
+    );
+  END IF;
+
+  v_tally := get_topic_tally(p_session_id);
+
+  IF NOT (v_tally ->> 'success')::BOOLEAN THEN
+    RETURN v_tally;
+  END IF;
+
+  -- The tally lists every topic; nothing else can be confirmed
+  PERFORM 1
+  FROM unnest(p_topic_ids) AS c(topic_id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_tally -> 'tally') e WHERE (e ->> 'topic_id')::UUID = c.topic_id
+  );
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'One of these topics is no longer available',
+      'error_code', 'TOPIC_UNAVAILABLE'
+    );
+  END IF;
+
+  -- Topics that made the cut without needing a tie-break
+  v_outright := ARRAY(
+    SELECT (e ->> 'topic_id')::UUID
+    FROM jsonb_array_elements(v_tally -> 'tally') e
+    WHERE (e ->> 'position')::INT <= v_required AND NOT (e ->> 'tied')::BOOLEAN
+  );
+
+  IF jsonb_typeof(v_tally -> 'tie') = 'object' THEN
+    v_tied := ARRAY(SELECT jsonb_array_elements_text(v_tally -> 'tie' -> 'topic_ids')::UUID);
+
+    IF v_tie_break IS NULL OR v_tie_break ->> 'status' <> 'resolved' THEN
+      v_tie_break := jsonb_build_object(
+        'strategy', 'host',
+        'tied_topic_ids', to_jsonb(v_tied),
+        'seats', (v_tally -> 'tie' ->> 'seats')::INT,
+        'status', 'resolved',
+        'winner_topic_ids', to_jsonb(ARRAY(SELECT unnest(p_topic_ids) INTERSECT SELECT unnest(v_tied))),
+        'resolved_at', NOW()
+      );
+      UPDATE sessions SET tie_break = v_tie_break WHERE id = p_session_id;
+    END IF;
+
+    v_tie_winners := ARRAY(SELECT jsonb_array_elements_text(v_tie_break -> 'winner_topic_ids')::UUID);
+  END IF;
+
+  -- Insert confirmed topics
+  FOREACH v_topic_id IN ARRAY p_topic_ids
+  LOOP
+    v_reason := CASE
+      WHEN v_topic_id = ANY(v_outright) THEN 'votes'
+      WHEN v_topic_id = ANY(v_tie_winners) THEN 'tie_break'
+      ELSE 'host_override'
+    END;
+
+    INSERT INTO session_topics (session_id, topic_id, selection_reason, score)
+    SELECT p_session_id, v_topic_id, v_reason, (e ->> 'score')::INT
+    FROM jsonb_array_elements(v_tally -> 'tally') e
+    WHERE (e ->> 'topic_id')::UUID = v_topic_id;
+  END LOOP;
+
+  -- Delete existing question pool for this session (if any)
+  DELETE FROM question_pool WHERE session_id = p_session_id;
+
+  -- Get all questions from the selected topics and shuffle them
+  FOR v_question_record IN (
+    SELECT id FROM questions
+    WHERE topic_id = ANY(p_topic_ids)
+    ORDER BY random()
+  ) LOOP
+    INSERT INTO question_pool (session_id, question_id, position, picked)
+    VALUES (p_session_id, v_question_record.id, v_pos, false);
+    v_pos := v_pos + 1;
+    v_question_count := v_question_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topic_count', array_length(p_topic_ids, 1),
+    'question_count', v_question_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- end_session_atomic - Archives the selection reasons and the tie-break
+-- ============================================================================
+CREATE OR REPLACE FUNCTION end_session_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_guests JSONB;
+  v_topics JSONB;
+  v_questions JSONB;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  v_end_time := NOW();
+
+  -- Lock and fetch session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Check if already ended
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session already ended',
+      'error_code', 'ALREADY_ENDED'
+    );
+  END IF;
+
+  -- Fetch guests
+  SELECT COALESCE(jsonb_agg(row_to_json(g.*)), '[]'::jsonb)
+  INTO v_guests
+  FROM guests g
+  WHERE g.session_id = p_session_id;
+
+  -- Fetch confirmed topics
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'topic_id', st.topic_id,
+        'topics', jsonb_build_object('name', t.name),
+        'selection_reason', st.selection_reason,
+        'score', st.score
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_topics
+  FROM session_topics st
+  JOIN topics t ON st.topic_id = t.id
+  WHERE st.session_id = p_session_id;
+
+  -- Fetch picked questions
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'round', pq.round,
+        'guests', jsonb_build_object('nickname', g.nickname),
+        'questions', jsonb_build_object(
+          'id', q.id,
+          'text', q.text,
+          'topics', jsonb_build_object('name', t.name)
+        )
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_questions
+  FROM picked_questions pq
+  JOIN guests g ON pq.guest_id = g.id
+  JOIN questions q ON pq.question_id = q.id
+  JOIN topics t ON q.topic_id = t.id
+  WHERE pq.session_id = p_session_id;
+
+  -- Update session to ended
+  UPDATE sessions
+  SET phase = 'ended', end_time = v_end_time
+  WHERE id = p_session_id;
+
+  -- Archive to session_records
+  INSERT INTO session_records (
+    id,
+    code,
+    start_time,
+    end_time,
+    guest_count,
+    guests_json,
+    confirmed_topics_json,
+    picked_questions_json,
+    tie_break_json
+  ) VALUES (
+    p_session_id,
+    v_session.code,
+    v_session.start_time,
+    v_end_time,
+    jsonb_array_length(v_guests),
+    v_guests,
+    v_topics,
+    v_questions,
+    v_session.tie_break
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'guest_count', jsonb_array_length(v_guests),
+    'end_time', v_end_time
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
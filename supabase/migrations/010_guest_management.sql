@@ -0,0 +1,657 @@
+-- Host guest management
+-- Hosts can remove, rename and mark guests away. Removed guests keep their row so their
+-- device can see it was removed; away and removed guests no longer block round progress.
+
+-- ============================================================================
+-- Guest status
+-- ============================================================================
+ALTER TABLE guests
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'away', 'removed'));
+
+-- Removed guests free their nickname for someone else
+ALTER TABLE guests DROP CONSTRAINT guests_session_id_nickname_key;
+CREATE UNIQUE INDEX guests_session_nickname_unique ON guests(session_id, nickname) WHERE status <> 'removed';
+
+-- ============================================================================
+-- Lock down direct writes to guests
+-- ============================================================================
+-- A removed guest could otherwise restore itself, and any client could rewrite another guest's nickname or
+-- progress flags. Guests are now written only through the checked functions below
+DROP POLICY "Anyone can insert guests" ON guests;
+DROP POLICY "Anyone can update guests" ON guests;
+DROP POLICY "Anyone can delete guests" ON guests;
+
+-- ============================================================================
+-- recount_runoff - Rebuilds the runoff counts on sessions.tie_break from runoff_votes
+-- ============================================================================
+CREATE OR REPLACE FUNCTION recount_runoff(p_session_id UUID)
+RETURNS VOID AS $$
+  UPDATE sessions
+  SET tie_break = tie_break || jsonb_build_object(
+    'runoff_counts', COALESCE(
+      (SELECT jsonb_object_agg(c.topic_id, c.count)
+       FROM (
+         SELECT topic_id, COUNT(*) AS count
+         FROM runoff_votes
+         WHERE session_id = p_session_id
+         GROUP BY topic_id
+       ) c),
+      '{}'::jsonb
+    ),
+    'runoff_voter_ids', COALESCE(
+      (SELECT jsonb_agg(guest_id ORDER BY created_at) FROM runoff_votes WHERE session_id = p_session_id),
+      '[]'::jsonb
+    )
+  )
+  WHERE id = p_session_id AND tie_break IS NOT NULL;
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- remove_guest_atomic - Host removes a guest
+-- Before topics are confirmed the guest's votes are withdrawn so the tally stays honest;
+-- questions they already picked stay in the session history
+-- ============================================================================
+CREATE OR REPLACE FUNCTION remove_guest_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_guest_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT phase INTO v_phase
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  UPDATE guests
+  SET status = 'removed'
+  WHERE id = p_guest_id AND session_id = p_session_id AND status <> 'removed';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest not found',
+      'error_code', 'GUEST_NOT_FOUND'
+    );
+  END IF;
+
+  IF v_phase IN ('lobby', 'voting', 'topicResults', 'runoff') THEN
+    DELETE FROM votes WHERE session_id = p_session_id AND guest_id = p_guest_id;
+    UPDATE guests SET has_voted = false WHERE id = p_guest_id;
+
+    DELETE FROM runoff_votes WHERE session_id = p_session_id AND guest_id = p_guest_id;
+    PERFORM recount_runoff(p_session_id);
+  END IF;
+
+  -- The rejoin token goes too, so the removed device can't reclaim the seat
+  DELETE FROM guest_rejoin_tokens WHERE guest_id = p_guest_id;
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- rename_guest_atomic - Host renames a guest
+-- ============================================================================
+CREATE OR REPLACE FUNCTION rename_guest_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_guest_id UUID,
+  p_nickname TEXT
+)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  IF trim(p_nickname) = '' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Nickname cannot be empty',
+      'error_code', 'INVALID_NICKNAME'
+    );
+  END IF;
+
+  UPDATE guests
+  SET nickname = trim(p_nickname)
+  WHERE id = p_guest_id AND session_id = p_session_id AND status <> 'removed';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest not found',
+      'error_code', 'GUEST_NOT_FOUND'
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'nickname', trim(p_nickname));
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Nickname already taken',
+      'error_code', 'NICKNAME_TAKEN'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- set_guest_away_atomic - Host marks a guest away (or back)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION set_guest_away_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_guest_id UUID,
+  p_away BOOLEAN
+)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  UPDATE guests
+  SET status = CASE WHEN p_away THEN 'away' ELSE 'active' END
+  WHERE id = p_guest_id AND session_id = p_session_id AND status <> 'removed';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest not found',
+      'error_code', 'GUEST_NOT_FOUND'
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- rejoin_session - Removed guests can't rejoin; away guests come back as active
+-- ============================================================================
+CREATE OR REPLACE FUNCTION rejoin_session(
+  p_guest_id UUID,
+  p_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_guest RECORD;
+  v_session RECORD;
+BEGIN
+  -- Checked before the token, which is deleted on removal
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND status = 'removed';
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The host removed you from this session',
+      'error_code', 'GUEST_REMOVED'
+    );
+  END IF;
+
+  SELECT g.* INTO v_guest
+  FROM guests g
+  JOIN guest_rejoin_tokens t ON t.guest_id = g.id
+  WHERE g.id = p_guest_id AND t.token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Seat could not be restored',
+      'error_code', 'INVALID_REJOIN_TOKEN'
+    );
+  END IF;
+
+  SELECT id, code, phase INTO v_session
+  FROM sessions
+  WHERE id = v_guest.session_id;
+
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  IF v_guest.status = 'away' THEN
+    UPDATE guests SET status = 'active' WHERE id = p_guest_id
+    RETURNING * INTO v_guest;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'guest', row_to_json(v_guest),
+    'session', jsonb_build_object(
+      'id', v_session.id,
+      'code', v_session.code,
+      'phase', v_session.phase
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- submit_vote_atomic - Rejects removed guests; voting brings an away guest back
+-- ============================================================================
+CREATE OR REPLACE FUNCTION submit_vote_atomic(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_required INT;
+  v_rank INT;
+BEGIN
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND status = 'removed';
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The host removed you from this session',
+      'error_code', 'GUEST_REMOVED'
+    );
+  END IF;
+
+  -- Validate guest hasn't already voted
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND has_voted = true;
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest has already voted',
+      'error_code', 'ALREADY_VOTED'
+    );
+  END IF;
+
+  -- Guests vote for votes_per_guest topics, or every topic when fewer exist.
+  -- Locking the row holds off a phase change until the votes are in
+  SELECT s.phase, LEAST(s.votes_per_guest, (SELECT COUNT(*) FROM topics)::INT)
+  INTO v_phase, v_required
+  FROM sessions s
+  WHERE s.id = p_session_id
+  FOR SHARE;
+
+  IF v_phase IS DISTINCT FROM 'voting' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Voting is closed',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_required THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Vote for exactly %s topics', v_required),
+      'error_code', 'INVALID_VOTE_COUNT'
+    );
+  END IF;
+
+  -- Insert all votes atomically
+  FOR v_rank IN 1..array_length(p_topic_ids, 1)
+  LOOP
+    INSERT INTO votes (session_id, guest_id, topic_id, rank)
+    VALUES (p_session_id, p_guest_id, p_topic_ids[v_rank], v_rank);
+  END LOOP;
+
+  -- Update guest status
+  UPDATE guests SET has_voted = true, status = 'active' WHERE id = p_guest_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_count', array_length(p_topic_ids, 1)
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Duplicate vote detected',
+      'error_code', '23505'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- pick_question_atomic - Rejects removed guests; picking brings an away guest back
+-- ============================================================================
+CREATE OR REPLACE FUNCTION pick_question_atomic(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_round INT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_pool_record RECORD;
+  v_question_record RECORD;
+BEGIN
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND status = 'removed';
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The host removed you from this session',
+      'error_code', 'GUEST_REMOVED'
+    );
+  END IF;
+
+  -- Lock and select next available question (prevents race condition)
+  SELECT id, question_id
+  INTO v_pool_record
+  FROM question_pool
+  WHERE session_id = p_session_id AND picked = false
+  ORDER BY position
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;  -- Critical: Skip already-locked questions
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No questions available',
+      'error_code', 'NO_QUESTIONS'
+    );
+  END IF;
+
+  -- Mark as picked in pool
+  UPDATE question_pool SET picked = true WHERE id = v_pool_record.id;
+
+  -- Insert picked question record
+  INSERT INTO picked_questions (session_id, guest_id, question_id, round)
+  VALUES (p_session_id, p_guest_id, v_pool_record.question_id, p_round);
+
+  -- Update guest status
+  UPDATE guests
+  SET has_picked = true, picked_question_id = v_pool_record.question_id, status = 'active'
+  WHERE id = p_guest_id;
+
+  -- Fetch question details for response
+  SELECT q.id, q.text, q.topic_id, t.name as topic_name
+  INTO v_question_record
+  FROM questions q
+  JOIN topics t ON q.topic_id = t.id
+  WHERE q.id = v_pool_record.question_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'question', jsonb_build_object(
+      'id', v_question_record.id,
+      'text', v_question_record.text,
+      'topicId', v_question_record.topic_id,
+      'topicName', v_question_record.topic_name
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- submit_runoff_vote - Rejects removed guests
+-- ============================================================================
+CREATE OR REPLACE FUNCTION submit_runoff_vote(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_topic_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_session.phase IS DISTINCT FROM 'runoff' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The runoff vote is closed',
+      'error_code', 'RUNOFF_CLOSED'
+    );
+  END IF;
+
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND session_id = p_session_id AND status <> 'removed';
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest not found',
+      'error_code', 'GUEST_NOT_FOUND'
+    );
+  END IF;
+
+  IF NOT (v_session.tie_break -> 'tied_topic_ids' ? p_topic_id::TEXT) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'That topic is not in the runoff',
+      'error_code', 'INVALID_TOPIC'
+    );
+  END IF;
+
+  INSERT INTO runoff_votes (session_id, guest_id, topic_id)
+  VALUES (p_session_id, p_guest_id, p_topic_id);
+
+  PERFORM recount_runoff(p_session_id);
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest has already voted in the runoff',
+      'error_code', 'ALREADY_VOTED'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- end_session_atomic - Removed guests stay in the archived guest list but aren't counted
+-- ============================================================================
+CREATE OR REPLACE FUNCTION end_session_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_guests JSONB;
+  v_guest_count INT;
+  v_topics JSONB;
+  v_questions JSONB;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  v_end_time := NOW();
+
+  -- Lock and fetch session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Check if already ended
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session already ended',
+      'error_code', 'ALREADY_ENDED'
+    );
+  END IF;
+
+  -- Fetch guests
+  SELECT COALESCE(jsonb_agg(row_to_json(g.*)), '[]'::jsonb)
+  INTO v_guests
+  FROM guests g
+  WHERE g.session_id = p_session_id;
+
+  -- Removed guests stay in the record but don't count as attendance
+  SELECT COUNT(*) INTO v_guest_count
+  FROM guests
+  WHERE session_id = p_session_id AND status <> 'removed';
+
+  -- Fetch confirmed topics
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'topic_id', st.topic_id,
+        'topics', jsonb_build_object('name', t.name),
+        'selection_reason', st.selection_reason,
+        'score', st.score
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_topics
+  FROM session_topics st
+  JOIN topics t ON st.topic_id = t.id
+  WHERE st.session_id = p_session_id;
+
+  -- Fetch picked questions
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'round', pq.round,
+        'guests', jsonb_build_object('nickname', g.nickname),
+        'questions', jsonb_build_object(
+          'id', q.id,
+          'text', q.text,
+          'topics', jsonb_build_object('name', t.name)
+        )
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_questions
+  FROM picked_questions pq
+  JOIN guests g ON pq.guest_id = g.id
+  JOIN questions q ON pq.question_id = q.id
+  JOIN topics t ON q.topic_id = t.id
+  WHERE pq.session_id = p_session_id;
+
+  -- Update session to ended
+  UPDATE sessions
+  SET phase = 'ended', end_time = v_end_time
+  WHERE id = p_session_id;
+
+  -- Archive to session_records
+  INSERT INTO session_records (
+    id,
+    code,
+    start_time,
+    end_time,
+    guest_count,
+    guests_json,
+    confirmed_topics_json,
+    picked_questions_json,
+    tie_break_json
+  ) VALUES (
+    p_session_id,
+    v_session.code,
+    v_session.start_time,
+    v_end_time,
+    v_guest_count,
+    v_guests,
+    v_topics,
+    v_questions,
+    v_session.tie_break
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'guest_count', v_guest_count,
+    'end_time', v_end_time
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
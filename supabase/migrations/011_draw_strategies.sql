@@ -0,0 +1,390 @@
+-- Selectable question draw strategies
+-- random keeps today's shuffled pool order, round_robin spreads picks evenly across the confirmed topics
+-- and avoid_repeat skips the topic the guest answered last. The draw happens inside pick_question_atomic
+-- so concurrent picks stay race-free, and the session's settings are archived with the record
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+ALTER TABLE sessions
+  ADD COLUMN draw_strategy TEXT NOT NULL DEFAULT 'random'
+    CHECK (draw_strategy IN ('random', 'round_robin', 'avoid_repeat'));
+
+ALTER TABLE session_records ADD COLUMN settings_json JSONB;
+
+-- ============================================================================
+-- update_session_settings - Adds draw_strategy
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_session_settings(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_settings JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  -- Changing the rules once votes are coming in would invalidate them
+  IF v_session.phase <> 'lobby' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Settings can only be changed in the lobby',
+      'error_code', 'SETTINGS_LOCKED'
+    );
+  END IF;
+
+  UPDATE sessions
+  SET
+    votes_per_guest = COALESCE((p_settings->>'votes_per_guest')::INT, votes_per_guest),
+    topics_to_confirm = COALESCE((p_settings->>'topics_to_confirm')::INT, topics_to_confirm),
+    voting_mode = COALESCE(p_settings->>'voting_mode', voting_mode),
+    draw_strategy = COALESCE(p_settings->>'draw_strategy', draw_strategy)
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_per_guest', v_session.votes_per_guest,
+    'topics_to_confirm', v_session.topics_to_confirm,
+    'voting_mode', v_session.voting_mode,
+    'draw_strategy', v_session.draw_strategy
+  );
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid session settings',
+      'error_code', 'INVALID_SETTINGS'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- select_next_pool_question - Picks and locks the next pool row for a guest
+-- Returns NULL when the pool is empty. Must be called inside the picking transaction
+-- ============================================================================
+CREATE OR REPLACE FUNCTION select_next_pool_question(
+  p_session_id UUID,
+  p_guest_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_strategy TEXT;
+  v_last_topic UUID;
+  v_pool_id UUID;
+BEGIN
+  SELECT draw_strategy INTO v_strategy FROM sessions WHERE id = p_session_id;
+
+  IF v_strategy = 'round_robin' THEN
+    -- The next topic is the one with the fewest picks so far, oldest last pick first,
+    -- so every confirmed topic comes up before any comes up twice
+    SELECT qp.id INTO v_pool_id
+    FROM question_pool qp
+    JOIN questions q ON q.id = qp.question_id
+    LEFT JOIN (
+      SELECT q2.topic_id, COUNT(*) AS picks, MAX(pq.picked_at) AS last_picked
+      FROM picked_questions pq
+      JOIN questions q2 ON q2.id = pq.question_id
+      WHERE pq.session_id = p_session_id
+      GROUP BY q2.topic_id
+    ) tp ON tp.topic_id = q.topic_id
+    WHERE qp.session_id = p_session_id AND qp.picked = false
+    ORDER BY COALESCE(tp.picks, 0), tp.last_picked NULLS FIRST, qp.position
+    LIMIT 1
+    FOR UPDATE OF qp;
+
+    RETURN v_pool_id;
+  END IF;
+
+  IF v_strategy = 'avoid_repeat' THEN
+    SELECT q.topic_id INTO v_last_topic
+    FROM picked_questions pq
+    JOIN questions q ON q.id = pq.question_id
+    WHERE pq.session_id = p_session_id AND pq.guest_id = p_guest_id
+    ORDER BY pq.round DESC, pq.picked_at DESC
+    LIMIT 1;
+
+    -- Falls through to the plain draw when only the guest's last topic is left
+    SELECT qp.id INTO v_pool_id
+    FROM question_pool qp
+    JOIN questions q ON q.id = qp.question_id
+    WHERE qp.session_id = p_session_id
+      AND qp.picked = false
+      AND q.topic_id IS DISTINCT FROM v_last_topic
+    ORDER BY qp.position
+    LIMIT 1
+    FOR UPDATE OF qp SKIP LOCKED;
+
+    IF v_pool_id IS NOT NULL THEN
+      RETURN v_pool_id;
+    END IF;
+  END IF;
+
+  -- random: the pool was shuffled when it was populated
+  SELECT id INTO v_pool_id
+  FROM question_pool
+  WHERE session_id = p_session_id AND picked = false
+  ORDER BY position
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  RETURN v_pool_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- pick_question_atomic - Draws with the session's strategy
+-- ============================================================================
+CREATE OR REPLACE FUNCTION pick_question_atomic(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_round INT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_strategy TEXT;
+  v_pool_id UUID;
+  v_pool_record RECORD;
+  v_question_record RECORD;
+BEGIN
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND status = 'removed';
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The host removed you from this session',
+      'error_code', 'GUEST_REMOVED'
+    );
+  END IF;
+
+  -- Balanced draws depend on the picks made so far, so they are serialized per session
+  -- (an advisory lock, since guests can't lock the sessions row); random draws only need
+  -- to skip rows other guests have locked
+  SELECT draw_strategy INTO v_strategy FROM sessions WHERE id = p_session_id;
+  IF v_strategy <> 'random' THEN
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id::TEXT));
+  END IF;
+
+  v_pool_id := select_next_pool_question(p_session_id, p_guest_id);
+
+  SELECT id, question_id
+  INTO v_pool_record
+  FROM question_pool
+  WHERE id = v_pool_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No questions available',
+      'error_code', 'NO_QUESTIONS'
+    );
+  END IF;
+
+  -- Mark as picked in pool
+  UPDATE question_pool SET picked = true WHERE id = v_pool_record.id;
+
+  -- Insert picked question record
+  INSERT INTO picked_questions (session_id, guest_id, question_id, round)
+  VALUES (p_session_id, p_guest_id, v_pool_record.question_id, p_round);
+
+  -- Update guest status
+  UPDATE guests
+  SET has_picked = true, picked_question_id = v_pool_record.question_id, status = 'active'
+  WHERE id = p_guest_id;
+
+  -- Fetch question details for response
+  SELECT q.id, q.text, q.topic_id, t.name as topic_name
+  INTO v_question_record
+  FROM questions q
+  JOIN topics t ON q.topic_id = t.id
+  WHERE q.id = v_pool_record.question_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'question', jsonb_build_object(
+      'id', v_question_record.id,
+      'text', v_question_record.text,
+      'topicId', v_question_record.topic_id,
+      'topicName', v_question_record.topic_name
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- end_session_atomic - Archives the session's settings
+-- ============================================================================
+CREATE OR REPLACE FUNCTION end_session_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_guests JSONB;
+  v_guest_count INT;
+  v_topics JSONB;
+  v_questions JSONB;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  v_end_time := NOW();
+
+  -- Lock and fetch session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Check if already ended
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session already ended',
+      'error_code', 'ALREADY_ENDED'
+    );
+  END IF;
+
+  -- Fetch guests
+  SELECT COALESCE(jsonb_agg(row_to_json(g.*)), '[]'::jsonb)
+  INTO v_guests
+  FROM guests g
+  WHERE g.session_id = p_session_id;
+
+  -- Removed guests stay in the record but don't count as attendance
+  SELECT COUNT(*) INTO v_guest_count
+  FROM guests
+  WHERE session_id = p_session_id AND status <> 'removed';
+
+  -- Fetch confirmed topics
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'topic_id', st.topic_id,
+        'topics', jsonb_build_object('name', t.name),
+        'selection_reason', st.selection_reason,
+        'score', st.score
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_topics
+  FROM session_topics st
+  JOIN topics t ON st.topic_id = t.id
+  WHERE st.session_id = p_session_id;
+
+  -- Fetch picked questions
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'round', pq.round,
+        'guests', jsonb_build_object('nickname', g.nickname),
+        'questions', jsonb_build_object(
+          'id', q.id,
+          'text', q.text,
+          'topics', jsonb_build_object('name', t.name)
+        )
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_questions
+  FROM picked_questions pq
+  JOIN guests g ON pq.guest_id = g.id
+  JOIN questions q ON pq.question_id = q.id
+  JOIN topics t ON q.topic_id = t.id
+  WHERE pq.session_id = p_session_id;
+
+  -- Update session to ended
+  UPDATE sessions
+  SET phase = 'ended', end_time = v_end_time
+  WHERE id = p_session_id;
+
+  -- Archive to session_records
+  INSERT INTO session_records (
+    id,
+    code,
+    start_time,
+    end_time,
+    guest_count,
+    guests_json,
+    confirmed_topics_json,
+    picked_questions_json,
+    tie_break_json,
+    settings_json
+  ) VALUES (
+    p_session_id,
+    v_session.code,
+    v_session.start_time,
+    v_end_time,
+    v_guest_count,
+    v_guests,
+    v_topics,
+    v_questions,
+    v_session.tie_break,
+    jsonb_build_object(
+      'votes_per_guest', v_session.votes_per_guest,
+      'topics_to_confirm', v_session.topics_to_confirm,
+      'voting_mode', v_session.voting_mode,
+      'draw_strategy', v_session.draw_strategy
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'guest_count', v_guest_count,
+    'end_time', v_end_time
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
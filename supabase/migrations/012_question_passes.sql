@@ -0,0 +1,376 @@
+-- Let guests pass on a question and draw another
+-- Each guest gets passes_per_guest passes per session. A passed question either goes back to the end
+-- of the pool or is retired, depending on pass_mode, and the pick stays in picked_questions marked as passed
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+ALTER TABLE sessions
+  ADD COLUMN passes_per_guest INT NOT NULL DEFAULT 1 CHECK (passes_per_guest BETWEEN 0 AND 5),
+  ADD COLUMN pass_mode TEXT NOT NULL DEFAULT 'return' CHECK (pass_mode IN ('return', 'retire'));
+
+ALTER TABLE picked_questions
+  ADD COLUMN passed BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN passed_at TIMESTAMPTZ;
+
+-- Polling picks up passes the same way it picks up new picks
+CREATE INDEX IF NOT EXISTS idx_picked_questions_passed_at
+ON picked_questions(session_id, passed_at);
+
+-- ============================================================================
+-- update_session_settings - Adds passes_per_guest and pass_mode
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_session_settings(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_settings JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  -- Changing the rules once votes are coming in would invalidate them
+  IF v_session.phase <> 'lobby' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Settings can only be changed in the lobby',
+      'error_code', 'SETTINGS_LOCKED'
+    );
+  END IF;
+
+  UPDATE sessions
+  SET
+    votes_per_guest = COALESCE((p_settings->>'votes_per_guest')::INT, votes_per_guest),
+    topics_to_confirm = COALESCE((p_settings->>'topics_to_confirm')::INT, topics_to_confirm),
+    voting_mode = COALESCE(p_settings->>'voting_mode', voting_mode),
+    draw_strategy = COALESCE(p_settings->>'draw_strategy', draw_strategy),
+    passes_per_guest = COALESCE((p_settings->>'passes_per_guest')::INT, passes_per_guest),
+    pass_mode = COALESCE(p_settings->>'pass_mode', pass_mode)
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_per_guest', v_session.votes_per_guest,
+    'topics_to_confirm', v_session.topics_to_confirm,
+    'voting_mode', v_session.voting_mode,
+    'draw_strategy', v_session.draw_strategy,
+    'passes_per_guest', v_session.passes_per_guest,
+    'pass_mode', v_session.pass_mode
+  );
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid session settings',
+      'error_code', 'INVALID_SETTINGS'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- pass_question_atomic - Passes on the guest's current question and draws a replacement
+-- ============================================================================
+CREATE OR REPLACE FUNCTION pass_question_atomic(
+  p_session_id UUID,
+  p_guest_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_current RECORD;
+  v_passes_used INT;
+  v_pool_id UUID;
+  v_pool_record RECORD;
+  v_question_record RECORD;
+BEGIN
+  SELECT * INTO v_session FROM sessions WHERE id = p_session_id;
+
+  IF v_session.phase IS DISTINCT FROM 'questionPhase' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Questions are not being picked right now',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND status = 'removed';
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The host removed you from this session',
+      'error_code', 'GUEST_REMOVED'
+    );
+  END IF;
+
+  -- Same per-session serialization as balanced draws, so a double tap can't pass twice
+  PERFORM pg_advisory_xact_lock(hashtext(p_session_id::TEXT));
+
+  SELECT id, question_id INTO v_current
+  FROM picked_questions
+  WHERE session_id = p_session_id
+    AND guest_id = p_guest_id
+    AND round = v_session.current_round
+    AND passed = false
+  ORDER BY picked_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No question to pass on',
+      'error_code', 'NOTHING_TO_PASS'
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO v_passes_used
+  FROM picked_questions
+  WHERE session_id = p_session_id AND guest_id = p_guest_id AND passed = true;
+
+  IF v_passes_used >= v_session.passes_per_guest THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No passes left',
+      'error_code', 'NO_PASSES_LEFT'
+    );
+  END IF;
+
+  -- Draw before returning the passed question so the guest can't get it straight back
+  v_pool_id := select_next_pool_question(p_session_id, p_guest_id);
+
+  SELECT id, question_id
+  INTO v_pool_record
+  FROM question_pool
+  WHERE id = v_pool_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No questions available',
+      'error_code', 'NO_QUESTIONS'
+    );
+  END IF;
+
+  UPDATE picked_questions
+  SET passed = true, passed_at = NOW()
+  WHERE id = v_current.id;
+
+  IF v_session.pass_mode = 'return' THEN
+    UPDATE question_pool
+    SET
+      picked = false,
+      position = (SELECT COALESCE(MAX(position), 0) + 1 FROM question_pool WHERE session_id = p_session_id)
+    WHERE session_id = p_session_id AND question_id = v_current.question_id;
+  END IF;
+
+  UPDATE question_pool SET picked = true WHERE id = v_pool_record.id;
+
+  INSERT INTO picked_questions (session_id, guest_id, question_id, round)
+  VALUES (p_session_id, p_guest_id, v_pool_record.question_id, v_session.current_round);
+
+  UPDATE guests
+  SET picked_question_id = v_pool_record.question_id, status = 'active'
+  WHERE id = p_guest_id;
+
+  SELECT q.id, q.text, q.topic_id, t.name as topic_name
+  INTO v_question_record
+  FROM questions q
+  JOIN topics t ON q.topic_id = t.id
+  WHERE q.id = v_pool_record.question_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'passes_left', v_session.passes_per_guest - v_passes_used - 1,
+    'question', jsonb_build_object(
+      'id', v_question_record.id,
+      'text', v_question_record.text,
+      'topicId', v_question_record.topic_id,
+      'topicName', v_question_record.topic_name
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION pass_question_atomic(UUID, UUID) TO anon, authenticated;
+
+-- ============================================================================
+-- end_session_atomic - Archives passes and the pass settings
+-- ============================================================================
+CREATE OR REPLACE FUNCTION end_session_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_guests JSONB;
+  v_guest_count INT;
+  v_topics JSONB;
+  v_questions JSONB;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  v_end_time := NOW();
+
+  -- Lock and fetch session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Check if already ended
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session already ended',
+      'error_code', 'ALREADY_ENDED'
+    );
+  END IF;
+
+  -- Fetch guests
+  SELECT COALESCE(jsonb_agg(row_to_json(g.*)), '[]'::jsonb)
+  INTO v_guests
+  FROM guests g
+  WHERE g.session_id = p_session_id;
+
+  -- Removed guests stay in the record but don't count as attendance
+  SELECT COUNT(*) INTO v_guest_count
+  FROM guests
+  WHERE session_id = p_session_id AND status <> 'removed';
+
+  -- Fetch confirmed topics
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'topic_id', st.topic_id,
+        'topics', jsonb_build_object('name', t.name),
+        'selection_reason', st.selection_reason,
+        'score', st.score
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_topics
+  FROM session_topics st
+  JOIN topics t ON st.topic_id = t.id
+  WHERE st.session_id = p_session_id;
+
+  -- Fetch picked questions
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'round', pq.round,
+        'passed', pq.passed,
+        'guests', jsonb_build_object('nickname', g.nickname),
+        'questions', jsonb_build_object(
+          'id', q.id,
+          'text', q.text,
+          'topics', jsonb_build_object('name', t.name)
+        )
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_questions
+  FROM picked_questions pq
+  JOIN guests g ON pq.guest_id = g.id
+  JOIN questions q ON pq.question_id = q.id
+  JOIN topics t ON q.topic_id = t.id
+  WHERE pq.session_id = p_session_id;
+
+  -- Update session to ended
+  UPDATE sessions
+  SET phase = 'ended', end_time = v_end_time
+  WHERE id = p_session_id;
+
+  -- Archive to session_records
+  INSERT INTO session_records (
+    id,
+    code,
+    start_time,
+    end_time,
+    guest_count,
+    guests_json,
+    confirmed_topics_json,
+    picked_questions_json,
+    tie_break_json,
+    settings_json
+  ) VALUES (
+    p_session_id,
+    v_session.code,
+    v_session.start_time,
+    v_end_time,
+    v_guest_count,
+    v_guests,
+    v_topics,
+    v_questions,
+    v_session.tie_break,
+    jsonb_build_object(
+      'votes_per_guest', v_session.votes_per_guest,
+      'topics_to_confirm', v_session.topics_to_confirm,
+      'voting_mode', v_session.voting_mode,
+      'draw_strategy', v_session.draw_strategy,
+      'passes_per_guest', v_session.passes_per_guest,
+      'pass_mode', v_session.pass_mode
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'guest_count', v_guest_count,
+    'end_time', v_end_time
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,337 @@
+-- Question depth levels with progressive rounds
+-- Questions carry a depth from 1 (light) to 3 (deep). With depth_progression on, the pool is
+-- ordered light to deep and every draw favours questions closest to the current round's depth
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+ALTER TABLE questions
+  ADD COLUMN depth INT NOT NULL DEFAULT 2 CHECK (depth BETWEEN 1 AND 3);
+
+ALTER TABLE sessions
+  ADD COLUMN depth_progression BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- update_session_settings - Adds depth_progression
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_session_settings(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_settings JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  -- Changing the rules once votes are coming in would invalidate them
+  IF v_session.phase <> 'lobby' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Settings can only be changed in the lobby',
+      'error_code', 'SETTINGS_LOCKED'
+    );
+  END IF;
+
+  UPDATE sessions
+  SET
+    votes_per_guest = COALESCE((p_settings->>'votes_per_guest')::INT, votes_per_guest),
+    topics_to_confirm = COALESCE((p_settings->>'topics_to_confirm')::INT, topics_to_confirm),
+    voting_mode = COALESCE(p_settings->>'voting_mode', voting_mode),
+    draw_strategy = COALESCE(p_settings->>'draw_strategy', draw_strategy),
+    passes_per_guest = COALESCE((p_settings->>'passes_per_guest')::INT, passes_per_guest),
+    pass_mode = COALESCE(p_settings->>'pass_mode', pass_mode),
+    depth_progression = COALESCE((p_settings->>'depth_progression')::BOOLEAN, depth_progression)
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_per_guest', v_session.votes_per_guest,
+    'topics_to_confirm', v_session.topics_to_confirm,
+    'voting_mode', v_session.voting_mode,
+    'draw_strategy', v_session.draw_strategy,
+    'passes_per_guest', v_session.passes_per_guest,
+    'pass_mode', v_session.pass_mode,
+    'depth_progression', v_session.depth_progression
+  );
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid session settings',
+      'error_code', 'INVALID_SETTINGS'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- target_question_depth - Depth a round should draw from
+-- Rounds 1-2 are light, 3-4 medium and 5 onwards deep
+-- ============================================================================
+CREATE OR REPLACE FUNCTION target_question_depth(p_round INT)
+RETURNS INT AS $$
+  SELECT LEAST(3, 1 + (GREATEST(p_round, 1) - 1) / 2);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- populate_question_pool - Orders the pool light to deep when progression is on
+-- ============================================================================
+CREATE OR REPLACE FUNCTION populate_question_pool(session_uuid UUID, topic_uuids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  v_progression BOOLEAN;
+  question_record RECORD;
+  pos INT := 1;
+BEGIN
+  SELECT depth_progression INTO v_progression FROM sessions WHERE id = session_uuid;
+
+  -- Delete existing question pool for this session
+  DELETE FROM question_pool WHERE session_id = session_uuid;
+
+  -- Light questions first when progressing, shuffled within each depth
+  FOR question_record IN (
+    SELECT id FROM questions
+    WHERE topic_id = ANY(topic_uuids)
+    ORDER BY CASE WHEN v_progression THEN depth ELSE 0 END, random()
+  ) LOOP
+    INSERT INTO question_pool (session_id, question_id, position, picked)
+    VALUES (session_uuid, question_record.id, pos, false);
+    pos := pos + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- ============================================================================
+-- select_next_pool_question - Favours the current round's depth within each strategy
+-- Returns NULL when the pool is empty. Must be called inside the picking transaction
+-- ============================================================================
+CREATE OR REPLACE FUNCTION select_next_pool_question(
+  p_session_id UUID,
+  p_guest_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_session RECORD;
+  v_target INT;
+  v_last_topic UUID;
+  v_pool_id UUID;
+BEGIN
+  SELECT draw_strategy, depth_progression, current_round INTO v_session FROM sessions WHERE id = p_session_id;
+
+  -- NULL turns the depth ordering into a no-op
+  IF v_session.depth_progression THEN
+    v_target := target_question_depth(v_session.current_round);
+  END IF;
+
+  IF v_session.draw_strategy = 'round_robin' THEN
+    -- Topic balance comes first; depth only decides between the topics' questions
+    SELECT qp.id INTO v_pool_id
+    FROM question_pool qp
+    JOIN questions q ON q.id = qp.question_id
+    LEFT JOIN (
+      SELECT q2.topic_id, COUNT(*) AS picks, MAX(pq.picked_at) AS last_picked
+      FROM picked_questions pq
+      JOIN questions q2 ON q2.id = pq.question_id
+      WHERE pq.session_id = p_session_id
+      GROUP BY q2.topic_id
+    ) tp ON tp.topic_id = q.topic_id
+    WHERE qp.session_id = p_session_id AND qp.picked = false
+    ORDER BY
+      COALESCE(tp.picks, 0),
+      tp.last_picked NULLS FIRST,
+      COALESCE(ABS(q.depth - v_target), 0),
+      qp.position
+    LIMIT 1
+    FOR UPDATE OF qp;
+
+    RETURN v_pool_id;
+  END IF;
+
+  IF v_session.draw_strategy = 'avoid_repeat' THEN
+    SELECT q.topic_id INTO v_last_topic
+    FROM picked_questions pq
+    JOIN questions q ON q.id = pq.question_id
+    WHERE pq.session_id = p_session_id AND pq.guest_id = p_guest_id
+    ORDER BY pq.round DESC, pq.picked_at DESC
+    LIMIT 1;
+
+    -- Falls through to the plain draw when only the guest's last topic is left
+    SELECT qp.id INTO v_pool_id
+    FROM question_pool qp
+    JOIN questions q ON q.id = qp.question_id
+    WHERE qp.session_id = p_session_id
+      AND qp.picked = false
+      AND q.topic_id IS DISTINCT FROM v_last_topic
+    ORDER BY COALESCE(ABS(q.depth - v_target), 0), qp.position
+    LIMIT 1
+    FOR UPDATE OF qp SKIP LOCKED;
+
+    IF v_pool_id IS NOT NULL THEN
+      RETURN v_pool_id;
+    END IF;
+  END IF;
+
+  -- random: the pool was shuffled when it was populated
+  SELECT qp.id INTO v_pool_id
+  FROM question_pool qp
+  JOIN questions q ON q.id = qp.question_id
+  WHERE qp.session_id = p_session_id AND qp.picked = false
+  ORDER BY COALESCE(ABS(q.depth - v_target), 0), qp.position
+  LIMIT 1
+  FOR UPDATE OF qp SKIP LOCKED;
+
+  RETURN v_pool_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- confirm_topics_atomic - Builds the pool through populate_question_pool
+-- ============================================================================
+CREATE OR REPLACE FUNCTION confirm_topics_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic_id UUID;
+  v_question_count INT := 0;
+  v_required INT;
+  v_tally JSONB;
+  v_tie_break JSONB;
+  v_tied UUID[] := '{}';
+  v_tie_winners UUID[] := '{}';
+  v_outright UUID[];
+  v_reason TEXT;
+  v_phase TEXT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT LEAST(s.topics_to_confirm, (SELECT COUNT(*) FROM topics)::INT), s.tie_break, s.phase
+  INTO v_required, v_tie_break, v_phase
+  FROM sessions s
+  WHERE s.id = p_session_id
+  FOR UPDATE;
+
+  IF v_phase NOT IN ('voting', 'topicResults') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Topics can only be confirmed after voting',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_required THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Confirm exactly %s topics', v_required),
+      'error_code', 'INVALID_TOPIC_COUNT'
+    );
+  END IF;
+
+  v_tally := get_topic_tally(p_session_id);
+
+  IF NOT (v_tally ->> 'success')::BOOLEAN THEN
+    RETURN v_tally;
+  END IF;
+
+  -- The tally lists every topic; nothing else can be confirmed
+  PERFORM 1
+  FROM unnest(p_topic_ids) AS c(topic_id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_tally -> 'tally') e WHERE (e ->> 'topic_id')::UUID = c.topic_id
+  );
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'One of these topics is no longer available',
+      'error_code', 'TOPIC_UNAVAILABLE'
+    );
+  END IF;
+
+  -- Topics that made the cut without needing a tie-break
+  v_outright := ARRAY(
+    SELECT (e ->> 'topic_id')::UUID
+    FROM jsonb_array_elements(v_tally -> 'tally') e
+    WHERE (e ->> 'position')::INT <= v_required AND NOT (e ->> 'tied')::BOOLEAN
+  );
+
+  IF jsonb_typeof(v_tally -> 'tie') = 'object' THEN
+    v_tied := ARRAY(SELECT jsonb_array_elements_text(v_tally -> 'tie' -> 'topic_ids')::UUID);
+
+    IF v_tie_break IS NULL OR v_tie_break ->> 'status' <> 'resolved' THEN
+      v_tie_break := jsonb_build_object(
+        'strategy', 'host',
+        'tied_topic_ids', to_jsonb(v_tied),
+        'seats', (v_tally -> 'tie' ->> 'seats')::INT,
+        'status', 'resolved',
+        'winner_topic_ids', to_jsonb(ARRAY(SELECT unnest(p_topic_ids) INTERSECT SELECT unnest(v_tied))),
+        'resolved_at', NOW()
+      );
+      UPDATE sessions SET tie_break = v_tie_break WHERE id = p_session_id;
+    END IF;
+
+    v_tie_winners := ARRAY(SELECT jsonb_array_elements_text(v_tie_break -> 'winner_topic_ids')::UUID);
+  END IF;
+
+  -- Insert confirmed topics
+  FOREACH v_topic_id IN ARRAY p_topic_ids
+  LOOP
+    v_reason := CASE
+      WHEN v_topic_id = ANY(v_outright) THEN 'votes'
+      WHEN v_topic_id = ANY(v_tie_winners) THEN 'tie_break'
+      ELSE 'host_override'
+    END;
+
+    INSERT INTO session_topics (session_id, topic_id, selection_reason, score)
+    SELECT p_session_id, v_topic_id, v_reason, (e ->> 'score')::INT
+    FROM jsonb_array_elements(v_tally -> 'tally') e
+    WHERE (e ->> 'topic_id')::UUID = v_topic_id;
+  END LOOP;
+
+  PERFORM populate_question_pool(p_session_id, p_topic_ids);
+
+  SELECT COUNT(*) INTO v_question_count FROM question_pool WHERE session_id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topic_count', array_length(p_topic_ids, 1),
+    'question_count', v_question_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
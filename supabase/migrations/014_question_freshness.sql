@@ -0,0 +1,199 @@
+-- Cross-session question freshness
+-- The pool builder deprioritises (or excludes) questions asked in the last few sessions and,
+-- optionally, questions a returning guest already answered. Returning guests are matched by
+-- nickname or by the device id their browser sends when joining
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+-- Single-row table of admin-controlled settings
+CREATE TABLE app_settings (
+  id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  freshness_sessions INT NOT NULL DEFAULT 3 CHECK (freshness_sessions BETWEEN 0 AND 50),
+  freshness_mode TEXT NOT NULL DEFAULT 'deprioritize' CHECK (freshness_mode IN ('deprioritize', 'exclude')),
+  exclude_answered BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO app_settings (id) VALUES (1);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read app_settings" ON app_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Authenticated users can update app_settings" ON app_settings
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_app_settings_updated_at BEFORE UPDATE ON app_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE guests ADD COLUMN device_id UUID;
+
+CREATE INDEX idx_guests_device_id ON guests(device_id) WHERE device_id IS NOT NULL;
+
+-- ============================================================================
+-- join_session_atomic - Records the device the guest joined from
+-- ============================================================================
+DROP FUNCTION join_session_atomic(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION join_session_atomic(
+  p_session_id UUID,
+  p_nickname TEXT,
+  p_device_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_guest RECORD;
+  v_token UUID;
+BEGIN
+  SELECT phase INTO v_phase
+  FROM sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  IF v_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  INSERT INTO guests (session_id, nickname, device_id)
+  VALUES (p_session_id, trim(p_nickname), p_device_id)
+  RETURNING * INTO v_guest;
+
+  INSERT INTO guest_rejoin_tokens (guest_id)
+  VALUES (v_guest.id)
+  RETURNING token INTO v_token;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'guest', row_to_json(v_guest),
+    'rejoin_token', v_token
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Nickname already taken in this session',
+      'error_code', 'NICKNAME_TAKEN'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- stale_question_ids - Questions a session should avoid
+-- Everything asked in the last freshness_sessions archived sessions, plus (when exclude_answered
+-- is on) everything this session's guests answered at any earlier table
+-- ============================================================================
+CREATE OR REPLACE FUNCTION stale_question_ids(p_session_id UUID)
+RETURNS SETOF UUID AS $$
+DECLARE
+  v_settings RECORD;
+BEGIN
+  SELECT * INTO v_settings FROM app_settings WHERE id = 1;
+
+  IF COALESCE(v_settings.freshness_sessions, 0) > 0 THEN
+    RETURN QUERY
+    WITH recent AS (
+      SELECT sr.id, sr.picked_questions_json
+      FROM session_records sr
+      WHERE sr.id <> p_session_id
+      ORDER BY sr.end_time DESC
+      LIMIT v_settings.freshness_sessions
+    )
+    SELECT pq.question_id
+    FROM picked_questions pq
+    WHERE pq.session_id IN (SELECT id FROM recent)
+    UNION
+    -- Archived picks cover sessions whose live rows were cleaned up
+    SELECT (e -> 'questions' ->> 'id')::UUID
+    FROM recent, jsonb_array_elements(recent.picked_questions_json) e
+    WHERE e -> 'questions' ->> 'id' IS NOT NULL;
+  END IF;
+
+  IF COALESCE(v_settings.exclude_answered, false) THEN
+    RETURN QUERY
+    WITH current_guests AS (
+      SELECT lower(nickname) AS nickname, device_id
+      FROM guests
+      WHERE session_id = p_session_id AND status <> 'removed'
+    )
+    SELECT pq.question_id
+    FROM picked_questions pq
+    JOIN guests g ON g.id = pq.guest_id
+    WHERE pq.session_id <> p_session_id
+      AND pq.passed = false
+      AND EXISTS (
+        SELECT 1 FROM current_guests cg
+        WHERE cg.device_id = g.device_id OR cg.nickname = lower(g.nickname)
+      )
+    UNION
+    SELECT (e -> 'questions' ->> 'id')::UUID
+    FROM session_records sr, jsonb_array_elements(sr.picked_questions_json) e
+    WHERE sr.id <> p_session_id
+      AND e -> 'questions' ->> 'id' IS NOT NULL
+      AND NOT COALESCE((e ->> 'passed')::BOOLEAN, false)
+      AND lower(e -> 'guests' ->> 'nickname') IN (SELECT nickname FROM current_guests);
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- populate_question_pool - Puts fresh questions first, or leaves stale ones out
+-- Exclusion falls back to deprioritising when it would leave the pool empty
+-- ============================================================================
+CREATE OR REPLACE FUNCTION populate_question_pool(session_uuid UUID, topic_uuids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  v_progression BOOLEAN;
+  v_exclude BOOLEAN;
+  v_stale UUID[];
+  question_record RECORD;
+  pos INT := 1;
+BEGIN
+  SELECT depth_progression INTO v_progression FROM sessions WHERE id = session_uuid;
+  SELECT freshness_mode = 'exclude' INTO v_exclude FROM app_settings WHERE id = 1;
+  v_stale := ARRAY(SELECT stale_question_ids(session_uuid));
+
+  IF v_exclude THEN
+    PERFORM 1 FROM questions
+    WHERE topic_id = ANY(topic_uuids) AND NOT (id = ANY(v_stale));
+    v_exclude := FOUND;
+  END IF;
+
+  -- Delete existing question pool for this session
+  DELETE FROM question_pool WHERE session_id = session_uuid;
+
+  -- Fresh questions first; light ones first when progressing, shuffled within each depth
+  FOR question_record IN (
+    SELECT id FROM questions
+    WHERE topic_id = ANY(topic_uuids)
+      AND NOT (COALESCE(v_exclude, false) AND id = ANY(v_stale))
+    ORDER BY id = ANY(v_stale), CASE WHEN v_progression THEN depth ELSE 0 END, random()
+  ) LOOP
+    INSERT INTO question_pool (session_id, question_id, position, picked)
+    VALUES (session_uuid, question_record.id, pos, false);
+    pos := pos + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION join_session_atomic(UUID, TEXT, UUID) TO anon, authenticated;
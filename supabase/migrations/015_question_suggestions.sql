@@ -0,0 +1,258 @@
+-- Guest-submitted questions with host moderation
+-- Guests suggest questions from the lobby or the question phase and the host approves or rejects them.
+-- An approved suggestion becomes a question scoped to its session (questions.session_id) and joins the
+-- pool straight away; admins later promote it into the permanent bank or dismiss it
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+-- Set while a question only exists for the session its suggestion was approved in
+ALTER TABLE questions
+  ADD COLUMN session_id UUID REFERENCES sessions(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_questions_session_id ON questions(session_id) WHERE session_id IS NOT NULL;
+
+CREATE TABLE question_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+  guest_id UUID REFERENCES guests(id) ON DELETE SET NULL,
+  guest_nickname TEXT NOT NULL,
+  topic_id UUID REFERENCES topics(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'promoted', 'dismissed')),
+  question_id UUID REFERENCES questions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_question_suggestions_session_id ON question_suggestions(session_id);
+CREATE INDEX idx_question_suggestions_status ON question_suggestions(status);
+
+ALTER TABLE question_suggestions ENABLE ROW LEVEL SECURITY;
+
+-- Guests submit and hosts review through the RPCs below; admins promote or dismiss directly
+CREATE POLICY "Anyone can read question_suggestions" ON question_suggestions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Authenticated users can update question_suggestions" ON question_suggestions
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete question_suggestions" ON question_suggestions
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE question_suggestions;
+
+COMMENT ON TABLE question_suggestions IS 'Realtime enabled for the host review queue';
+
+-- ============================================================================
+-- submit_question_suggestion - Guest suggests a question for the table
+-- ============================================================================
+CREATE OR REPLACE FUNCTION submit_question_suggestion(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_topic_id UUID,
+  p_text TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_guest RECORD;
+  v_pending INT;
+  v_suggestion RECORD;
+BEGIN
+  SELECT phase INTO v_phase FROM sessions WHERE id = p_session_id;
+
+  IF v_phase IS NULL OR v_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  SELECT * INTO v_guest
+  FROM guests
+  WHERE id = p_guest_id AND session_id = p_session_id AND status <> 'removed';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest not found',
+      'error_code', 'GUEST_NOT_FOUND'
+    );
+  END IF;
+
+  IF char_length(trim(COALESCE(p_text, ''))) NOT BETWEEN 5 AND 300 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Questions must be between 5 and 300 characters',
+      'error_code', 'INVALID_SUGGESTION'
+    );
+  END IF;
+
+  -- Keeps one guest from flooding the host's queue
+  SELECT COUNT(*) INTO v_pending
+  FROM question_suggestions
+  WHERE session_id = p_session_id AND guest_id = p_guest_id AND status = 'pending';
+
+  IF v_pending >= 3 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Wait for the host to review your other suggestions',
+      'error_code', 'TOO_MANY_SUGGESTIONS'
+    );
+  END IF;
+
+  INSERT INTO question_suggestions (session_id, guest_id, guest_nickname, topic_id, text)
+  VALUES (p_session_id, p_guest_id, v_guest.nickname, p_topic_id, trim(p_text))
+  RETURNING * INTO v_suggestion;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'suggestion_id', v_suggestion.id
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- review_question_suggestion - Host approves or rejects a suggestion
+-- Approving creates the session-scoped question and, once the pool exists, puts it next in line
+-- ============================================================================
+CREATE OR REPLACE FUNCTION review_question_suggestion(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_suggestion_id UUID,
+  p_approve BOOLEAN,
+  p_topic_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_suggestion RECORD;
+  v_phase TEXT;
+  v_question_id UUID;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_suggestion
+  FROM question_suggestions
+  WHERE id = p_suggestion_id AND session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_suggestion.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Suggestion already reviewed',
+      'error_code', 'SUGGESTION_REVIEWED'
+    );
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE question_suggestions
+    SET status = 'rejected', reviewed_at = NOW()
+    WHERE id = p_suggestion_id;
+
+    RETURN jsonb_build_object('success', true, 'status', 'rejected');
+  END IF;
+
+  IF COALESCE(p_topic_id, v_suggestion.topic_id) IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Choose a topic for this question',
+      'error_code', 'TOPIC_REQUIRED'
+    );
+  END IF;
+
+  INSERT INTO questions (topic_id, text, session_id)
+  VALUES (COALESCE(p_topic_id, v_suggestion.topic_id), v_suggestion.text, p_session_id)
+  RETURNING id INTO v_question_id;
+
+  UPDATE question_suggestions
+  SET
+    status = 'approved',
+    topic_id = COALESCE(p_topic_id, topic_id),
+    question_id = v_question_id,
+    reviewed_at = NOW()
+  WHERE id = p_suggestion_id;
+
+  -- Before topics are confirmed populate_question_pool picks the question up instead
+  SELECT phase INTO v_phase FROM sessions WHERE id = p_session_id;
+  IF v_phase IN ('topicReveal', 'questionPhase') THEN
+    INSERT INTO question_pool (session_id, question_id, position, picked)
+    SELECT p_session_id, v_question_id, COALESCE(MIN(position), 1) - 1, false
+    FROM question_pool
+    WHERE session_id = p_session_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', 'approved',
+    'question_id', v_question_id
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_question_suggestion(UUID, UUID, UUID, TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- populate_question_pool - Includes the session's approved guest suggestions
+-- Other sessions' suggestions stay out until an admin promotes them
+-- ============================================================================
+CREATE OR REPLACE FUNCTION populate_question_pool(session_uuid UUID, topic_uuids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  v_progression BOOLEAN;
+  v_exclude BOOLEAN;
+  v_stale UUID[];
+  question_record RECORD;
+  pos INT := 1;
+BEGIN
+  SELECT depth_progression INTO v_progression FROM sessions WHERE id = session_uuid;
+  SELECT freshness_mode = 'exclude' INTO v_exclude FROM app_settings WHERE id = 1;
+  v_stale := ARRAY(SELECT stale_question_ids(session_uuid));
+
+  IF v_exclude THEN
+    PERFORM 1 FROM questions
+    WHERE ((topic_id = ANY(topic_uuids) AND session_id IS NULL) OR session_id = session_uuid)
+      AND NOT (id = ANY(v_stale));
+    v_exclude := FOUND;
+  END IF;
+
+  -- Delete existing question pool for this session
+  DELETE FROM question_pool WHERE session_id = session_uuid;
+
+  -- Fresh questions first; light ones first when progressing, shuffled within each depth
+  FOR question_record IN (
+    SELECT id FROM questions
+    WHERE ((topic_id = ANY(topic_uuids) AND session_id IS NULL) OR session_id = session_uuid)
+      AND NOT (COALESCE(v_exclude, false) AND id = ANY(v_stale))
+    ORDER BY id = ANY(v_stale), CASE WHEN v_progression THEN depth ELSE 0 END, random()
+  ) LOOP
+    INSERT INTO question_pool (session_id, question_id, position, picked)
+    VALUES (session_uuid, question_record.id, pos, false);
+    pos := pos + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,274 @@
+-- Guest reactions to answered questions
+-- Guests react (heart, laugh, thought-provoking) to the other guests' questions from their phones.
+-- Reactions are stored per picked question and archived with the session, where the admin views sum them per question
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+CREATE TABLE question_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+  picked_question_id UUID REFERENCES picked_questions(id) ON DELETE CASCADE,
+  guest_id UUID REFERENCES guests(id) ON DELETE CASCADE,
+  reaction TEXT NOT NULL CHECK (reaction IN ('heart', 'laugh', 'thought')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(picked_question_id, guest_id, reaction)
+);
+
+CREATE INDEX idx_question_reactions_session_id ON question_reactions(session_id);
+
+ALTER TABLE question_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Written only through toggle_question_reaction
+CREATE POLICY "Anyone can read question_reactions" ON question_reactions
+  FOR SELECT USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE question_reactions;
+
+COMMENT ON TABLE question_reactions IS 'Realtime enabled for live reactions on the host screen';
+
+-- ============================================================================
+-- toggle_question_reaction - Adds the guest's reaction, or takes it back if already given
+-- ============================================================================
+CREATE OR REPLACE FUNCTION toggle_question_reaction(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_picked_question_id UUID,
+  p_reaction TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_pick RECORD;
+BEGIN
+  SELECT phase INTO v_phase FROM sessions WHERE id = p_session_id;
+
+  IF v_phase IS DISTINCT FROM 'questionPhase' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Reactions are closed',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND session_id = p_session_id AND status <> 'removed';
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest not found',
+      'error_code', 'GUEST_NOT_FOUND'
+    );
+  END IF;
+
+  SELECT * INTO v_pick
+  FROM picked_questions
+  WHERE id = p_picked_question_id AND session_id = p_session_id AND passed = false;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Question not found',
+      'error_code', 'QUESTION_NOT_FOUND'
+    );
+  END IF;
+
+  IF v_pick.guest_id = p_guest_id THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You can''t react to your own question',
+      'error_code', 'OWN_QUESTION'
+    );
+  END IF;
+
+  DELETE FROM question_reactions
+  WHERE picked_question_id = p_picked_question_id AND guest_id = p_guest_id AND reaction = p_reaction;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'reacted', false);
+  END IF;
+
+  INSERT INTO question_reactions (session_id, picked_question_id, guest_id, reaction)
+  VALUES (p_session_id, p_picked_question_id, p_guest_id, p_reaction);
+
+  RETURN jsonb_build_object('success', true, 'reacted', true);
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Unknown reaction',
+      'error_code', 'INVALID_REACTION'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION toggle_question_reaction(UUID, UUID, UUID, TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- end_session_atomic - Archives each picked question's reaction counts
+-- ============================================================================
+CREATE OR REPLACE FUNCTION end_session_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_guests JSONB;
+  v_guest_count INT;
+  v_topics JSONB;
+  v_questions JSONB;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  v_end_time := NOW();
+
+  -- Lock and fetch session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Check if already ended
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session already ended',
+      'error_code', 'ALREADY_ENDED'
+    );
+  END IF;
+
+  -- Fetch guests
+  SELECT COALESCE(jsonb_agg(row_to_json(g.*)), '[]'::jsonb)
+  INTO v_guests
+  FROM guests g
+  WHERE g.session_id = p_session_id;
+
+  -- Removed guests stay in the record but don't count as attendance
+  SELECT COUNT(*) INTO v_guest_count
+  FROM guests
+  WHERE session_id = p_session_id AND status <> 'removed';
+
+  -- Fetch confirmed topics
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'topic_id', st.topic_id,
+        'topics', jsonb_build_object('name', t.name),
+        'selection_reason', st.selection_reason,
+        'score', st.score
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_topics
+  FROM session_topics st
+  JOIN topics t ON st.topic_id = t.id
+  WHERE st.session_id = p_session_id;
+
+  -- Fetch picked questions
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'round', pq.round,
+        'passed', pq.passed,
+        'reactions', (
+          SELECT COALESCE(jsonb_object_agg(r.reaction, r.count), '{}'::jsonb)
+          FROM (
+            SELECT reaction, COUNT(*) AS count
+            FROM question_reactions
+            WHERE picked_question_id = pq.id
+            GROUP BY reaction
+          ) r
+        ),
+        'guests', jsonb_build_object('nickname', g.nickname),
+        'questions', jsonb_build_object(
+          'id', q.id,
+          'text', q.text,
+          'topics', jsonb_build_object('name', t.name)
+        )
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_questions
+  FROM picked_questions pq
+  JOIN guests g ON pq.guest_id = g.id
+  JOIN questions q ON pq.question_id = q.id
+  JOIN topics t ON q.topic_id = t.id
+  WHERE pq.session_id = p_session_id;
+
+  -- Update session to ended
+  UPDATE sessions
+  SET phase = 'ended', end_time = v_end_time
+  WHERE id = p_session_id;
+
+  -- Archive to session_records
+  INSERT INTO session_records (
+    id,
+    code,
+    start_time,
+    end_time,
+    guest_count,
+    guests_json,
+    confirmed_topics_json,
+    picked_questions_json,
+    tie_break_json,
+    settings_json
+  ) VALUES (
+    p_session_id,
+    v_session.code,
+    v_session.start_time,
+    v_end_time,
+    v_guest_count,
+    v_guests,
+    v_topics,
+    v_questions,
+    v_session.tie_break,
+    jsonb_build_object(
+      'votes_per_guest', v_session.votes_per_guest,
+      'topics_to_confirm', v_session.topics_to_confirm,
+      'voting_mode', v_session.voting_mode,
+      'draw_strategy', v_session.draw_strategy,
+      'passes_per_guest', v_session.passes_per_guest,
+      'pass_mode', v_session.pass_mode
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'guest_count', v_guest_count,
+    'end_time', v_end_time
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,136 @@
+-- Top up the question pool mid-session
+-- confirm_topics_atomic rebuilds the whole pool, so once the question phase has started the host adds
+-- topics or reshuffles asked questions back in through an append-only RPC that leaves picked_questions alone
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+-- Topics added this way are recorded as top-ups rather than host picks from the results screen
+ALTER TABLE session_topics DROP CONSTRAINT session_topics_selection_reason_check;
+ALTER TABLE session_topics ADD CONSTRAINT session_topics_selection_reason_check
+  CHECK (selection_reason IN ('votes', 'tie_break', 'host_override', 'top_up'));
+
+-- ============================================================================
+-- append_question_pool - Adds topics and/or returns asked questions after the current last position
+-- ============================================================================
+CREATE OR REPLACE FUNCTION append_question_pool(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_topic_ids UUID[],
+  p_reshuffle_asked BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_stale UUID[];
+  v_pos INT;
+  v_added INT := 0;
+  v_reshuffled INT := 0;
+  v_pool_size INT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_session.phase <> 'questionPhase' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Questions can only be added during the question phase',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  -- Balanced draws and passes take the same lock, so they wait for the top-up. Random draws don't need to:
+  -- they only claim unpicked rows, which the top-up appends after but never reorders
+  PERFORM pg_advisory_xact_lock(hashtext(p_session_id::TEXT));
+
+  p_topic_ids := COALESCE(p_topic_ids, ARRAY[]::UUID[]);
+
+  INSERT INTO session_topics (session_id, topic_id, selection_reason)
+  SELECT p_session_id, t.id, 'top_up'
+  FROM topics t
+  WHERE t.id = ANY(p_topic_ids)
+  ON CONFLICT (session_id, topic_id) DO NOTHING;
+
+  SELECT COALESCE(MAX(position), 0) INTO v_pos FROM question_pool WHERE session_id = p_session_id;
+
+  -- New topics' questions go first. Recently asked ones are ordered last rather than left out,
+  -- since the host is explicitly asking for more
+  v_stale := ARRAY(SELECT stale_question_ids(p_session_id));
+
+  INSERT INTO question_pool (session_id, question_id, position, picked)
+  SELECT p_session_id, q.id, v_pos + ROW_NUMBER() OVER (
+    ORDER BY q.id = ANY(v_stale), CASE WHEN v_session.depth_progression THEN q.depth ELSE 0 END, random()
+  ), false
+  FROM questions q
+  WHERE q.topic_id = ANY(p_topic_ids)
+    AND q.session_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM question_pool qp WHERE qp.session_id = p_session_id AND qp.question_id = q.id
+    );
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  IF p_reshuffle_asked THEN
+    SELECT COALESCE(MAX(position), 0) INTO v_pos FROM question_pool WHERE session_id = p_session_id;
+
+    -- Skips questions still on a guest's phone this round, and passed ones when passes retire them
+    UPDATE question_pool qp
+    SET picked = false, position = v_pos + r.n
+    FROM (
+      SELECT p.id, ROW_NUMBER() OVER (ORDER BY random()) AS n
+      FROM question_pool p
+      WHERE p.session_id = p_session_id
+        AND p.picked = true
+        AND NOT EXISTS (
+          SELECT 1 FROM picked_questions pq
+          WHERE pq.session_id = p_session_id
+            AND pq.question_id = p.question_id
+            AND (
+              (pq.round = v_session.current_round AND pq.passed = false)
+              OR (pq.passed AND v_session.pass_mode = 'retire')
+            )
+        )
+    ) r
+    WHERE qp.id = r.id;
+
+    GET DIAGNOSTICS v_reshuffled = ROW_COUNT;
+  END IF;
+
+  IF v_added + v_reshuffled = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No new questions to add',
+      'error_code', 'NOTHING_TO_ADD'
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO v_pool_size
+  FROM question_pool
+  WHERE session_id = p_session_id AND picked = false;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'added_count', v_added,
+    'reshuffled_count', v_reshuffled,
+    'pool_size', v_pool_size
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
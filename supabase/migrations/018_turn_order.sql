@@ -0,0 +1,615 @@
+-- Turn-order (spotlight) mode for the question phase
+-- With turn_mode set, the session keeps a speaking order (join order or shuffled) fixed when the
+-- question phase opens. Only the guest in the spotlight can pick, and the host passes the spotlight on.
+-- Guests who join later speak after everyone in the stored order
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+ALTER TABLE sessions
+  ADD COLUMN turn_mode TEXT NOT NULL DEFAULT 'parallel'
+    CHECK (turn_mode IN ('parallel', 'join_order', 'shuffled')),
+  ADD COLUMN speaking_order UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN spotlight_guest_id UUID REFERENCES guests(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- session_speaking_order - The stored order, then late joiners by join time, without removed guests
+-- ============================================================================
+CREATE OR REPLACE FUNCTION session_speaking_order(p_session_id UUID)
+RETURNS UUID[] AS $$
+  SELECT ARRAY(
+    SELECT g.id
+    FROM guests g
+    JOIN sessions s ON s.id = g.session_id
+    WHERE g.session_id = p_session_id AND g.status <> 'removed'
+    ORDER BY array_position(s.speaking_order, g.id) NULLS LAST, g.joined_at
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- next_speaker - First guest after p_after in the order who is here and hasn't picked this round
+-- Starts from the top when p_after is NULL; returns NULL once everyone has had a turn
+-- ============================================================================
+CREATE OR REPLACE FUNCTION next_speaker(p_session_id UUID, p_after UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_order UUID[];
+  v_start INT;
+BEGIN
+  v_order := session_speaking_order(p_session_id);
+  v_start := COALESCE(array_position(v_order, p_after), 0) + 1;
+
+  RETURN (
+    SELECT g.id
+    FROM unnest(v_order) WITH ORDINALITY AS o(guest_id, idx)
+    JOIN guests g ON g.id = o.guest_id
+    WHERE o.idx >= v_start AND g.status = 'active' AND g.has_picked = false
+    ORDER BY o.idx
+    LIMIT 1
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- update_session_settings - Adds turn_mode
+-- ============================================================================
+CREATE OR REPLACE FUNCTION update_session_settings(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_settings JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  -- Changing the rules once votes are coming in would invalidate them
+  IF v_session.phase <> 'lobby' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Settings can only be changed in the lobby',
+      'error_code', 'SETTINGS_LOCKED'
+    );
+  END IF;
+
+  UPDATE sessions
+  SET
+    votes_per_guest = COALESCE((p_settings->>'votes_per_guest')::INT, votes_per_guest),
+    topics_to_confirm = COALESCE((p_settings->>'topics_to_confirm')::INT, topics_to_confirm),
+    voting_mode = COALESCE(p_settings->>'voting_mode', voting_mode),
+    draw_strategy = COALESCE(p_settings->>'draw_strategy', draw_strategy),
+    passes_per_guest = COALESCE((p_settings->>'passes_per_guest')::INT, passes_per_guest),
+    pass_mode = COALESCE(p_settings->>'pass_mode', pass_mode),
+    depth_progression = COALESCE((p_settings->>'depth_progression')::BOOLEAN, depth_progression),
+    turn_mode = COALESCE(p_settings->>'turn_mode', turn_mode)
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_per_guest', v_session.votes_per_guest,
+    'topics_to_confirm', v_session.topics_to_confirm,
+    'voting_mode', v_session.voting_mode,
+    'draw_strategy', v_session.draw_strategy,
+    'passes_per_guest', v_session.passes_per_guest,
+    'pass_mode', v_session.pass_mode,
+    'depth_progression', v_session.depth_progression,
+    'turn_mode', v_session.turn_mode
+  );
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid session settings',
+      'error_code', 'INVALID_SETTINGS'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- advance_phase_atomic - Sets up the speaking order when the question phase opens
+-- ============================================================================
+CREATE OR REPLACE FUNCTION advance_phase_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_phase TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  -- Ending goes through end_session_atomic so the archive is written
+  IF p_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Use end_session_atomic to end a session',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  -- A runoff needs its tie recorded first
+  IF p_phase = 'runoff' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Use resolve_tie_atomic to start a runoff',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  SELECT phase INTO v_phase
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  IF (v_phase, p_phase) NOT IN (
+    ('lobby', 'voting'),
+    ('voting', 'topicResults'),
+    ('topicResults', 'topicReveal'),
+    ('topicReveal', 'questionPhase')
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Can''t move from %s to %s', v_phase, p_phase),
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  UPDATE sessions SET phase = p_phase WHERE id = p_session_id;
+
+  -- Turn-order sessions fix the speaking order as the question phase opens
+  IF p_phase = 'questionPhase' THEN
+    UPDATE sessions
+    SET speaking_order = ARRAY(
+      SELECT g.id FROM guests g
+      WHERE g.session_id = p_session_id AND g.status <> 'removed'
+      ORDER BY CASE WHEN sessions.turn_mode = 'shuffled' THEN random() END, g.joined_at
+    )
+    WHERE id = p_session_id AND turn_mode <> 'parallel';
+
+    UPDATE sessions
+    SET spotlight_guest_id = next_speaker(p_session_id, NULL)
+    WHERE id = p_session_id AND turn_mode <> 'parallel';
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'phase', p_phase);
+
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid session phase',
+      'error_code', 'INVALID_PHASE'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- advance_round_atomic - Puts the first speaker back in the spotlight
+-- ============================================================================
+CREATE OR REPLACE FUNCTION advance_round_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_current_round INT;
+  v_reset_count INT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  -- Get and lock current round
+  SELECT current_round INTO v_current_round
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Reset all guest pick status
+  UPDATE guests
+  SET has_picked = false, picked_question_id = null
+  WHERE session_id = p_session_id;
+
+  GET DIAGNOSTICS v_reset_count = ROW_COUNT;
+
+  -- Increment round
+  UPDATE sessions
+  SET current_round = v_current_round + 1
+  WHERE id = p_session_id;
+
+  -- Every round starts again from the top of the speaking order
+  UPDATE sessions
+  SET spotlight_guest_id = next_speaker(p_session_id, NULL)
+  WHERE id = p_session_id AND turn_mode <> 'parallel';
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'previous_round', v_current_round,
+    'new_round', v_current_round + 1,
+    'guests_reset', v_reset_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- advance_spotlight - Host passes the spotlight to the next speaker (or skips the current one)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION advance_spotlight(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_next UUID;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_session.phase <> 'questionPhase' OR v_session.turn_mode = 'parallel' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'This session has no speaking order',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  v_next := next_speaker(p_session_id, v_session.spotlight_guest_id);
+
+  UPDATE sessions SET spotlight_guest_id = v_next WHERE id = p_session_id;
+
+  RETURN jsonb_build_object('success', true, 'spotlight_guest_id', v_next);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- pick_question_atomic - Only the guest in the spotlight can pick in turn-order sessions; one pick per guest per round
+-- ============================================================================
+CREATE OR REPLACE FUNCTION pick_question_atomic(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_round INT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_strategy TEXT;
+  v_turn_mode TEXT;
+  v_spotlight UUID;
+  v_pool_id UUID;
+  v_pool_record RECORD;
+  v_question_record RECORD;
+  v_has_picked BOOLEAN;
+BEGIN
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND status = 'removed';
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The host removed you from this session',
+      'error_code', 'GUEST_REMOVED'
+    );
+  END IF;
+
+  -- Locking the guest row makes a double tap or replayed call wait, then see the first pick
+  SELECT has_picked INTO v_has_picked FROM guests WHERE id = p_guest_id FOR UPDATE;
+  IF v_has_picked THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You already have a question this round',
+      'error_code', 'ALREADY_PICKED'
+    );
+  END IF;
+
+  SELECT turn_mode, spotlight_guest_id INTO v_turn_mode, v_spotlight FROM sessions WHERE id = p_session_id;
+  IF v_turn_mode <> 'parallel' AND v_spotlight IS DISTINCT FROM p_guest_id THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Wait for your turn',
+      'error_code', 'NOT_YOUR_TURN'
+    );
+  END IF;
+
+  -- Balanced draws depend on the picks made so far, so they are serialized per session
+  -- (an advisory lock, since guests can't lock the sessions row); random draws only need
+  -- to skip rows other guests have locked
+  SELECT draw_strategy INTO v_strategy FROM sessions WHERE id = p_session_id;
+  IF v_strategy <> 'random' THEN
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id::TEXT));
+  END IF;
+
+  v_pool_id := select_next_pool_question(p_session_id, p_guest_id);
+
+  SELECT id, question_id
+  INTO v_pool_record
+  FROM question_pool
+  WHERE id = v_pool_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No questions available',
+      'error_code', 'NO_QUESTIONS'
+    );
+  END IF;
+
+  -- Mark as picked in pool
+  UPDATE question_pool SET picked = true WHERE id = v_pool_record.id;
+
+  -- Insert picked question record
+  INSERT INTO picked_questions (session_id, guest_id, question_id, round)
+  VALUES (p_session_id, p_guest_id, v_pool_record.question_id, p_round);
+
+  -- Update guest status
+  UPDATE guests
+  SET has_picked = true, picked_question_id = v_pool_record.question_id, status = 'active'
+  WHERE id = p_guest_id;
+
+  -- Fetch question details for response
+  SELECT q.id, q.text, q.topic_id, t.name as topic_name
+  INTO v_question_record
+  FROM questions q
+  JOIN topics t ON q.topic_id = t.id
+  WHERE q.id = v_pool_record.question_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'question', jsonb_build_object(
+      'id', v_question_record.id,
+      'text', v_question_record.text,
+      'topicId', v_question_record.topic_id,
+      'topicName', v_question_record.topic_name
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- end_session_atomic - Archives turn_mode, and depth_progression which 013 left out
+-- ============================================================================
+CREATE OR REPLACE FUNCTION end_session_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_guests JSONB;
+  v_guest_count INT;
+  v_topics JSONB;
+  v_questions JSONB;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  v_end_time := NOW();
+
+  -- Lock and fetch session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Check if already ended
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session already ended',
+      'error_code', 'ALREADY_ENDED'
+    );
+  END IF;
+
+  -- Fetch guests
+  SELECT COALESCE(jsonb_agg(row_to_json(g.*)), '[]'::jsonb)
+  INTO v_guests
+  FROM guests g
+  WHERE g.session_id = p_session_id;
+
+  -- Removed guests stay in the record but don't count as attendance
+  SELECT COUNT(*) INTO v_guest_count
+  FROM guests
+  WHERE session_id = p_session_id AND status <> 'removed';
+
+  -- Fetch confirmed topics
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'topic_id', st.topic_id,
+        'topics', jsonb_build_object('name', t.name),
+        'selection_reason', st.selection_reason,
+        'score', st.score
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_topics
+  FROM session_topics st
+  JOIN topics t ON st.topic_id = t.id
+  WHERE st.session_id = p_session_id;
+
+  -- Fetch picked questions
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'round', pq.round,
+        'passed', pq.passed,
+        'reactions', (
+          SELECT COALESCE(jsonb_object_agg(r.reaction, r.count), '{}'::jsonb)
+          FROM (
+            SELECT reaction, COUNT(*) AS count
+            FROM question_reactions
+            WHERE picked_question_id = pq.id
+            GROUP BY reaction
+          ) r
+        ),
+        'guests', jsonb_build_object('nickname', g.nickname),
+        'questions', jsonb_build_object(
+          'id', q.id,
+          'text', q.text,
+          'topics', jsonb_build_object('name', t.name)
+        )
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_questions
+  FROM picked_questions pq
+  JOIN guests g ON pq.guest_id = g.id
+  JOIN questions q ON pq.question_id = q.id
+  JOIN topics t ON q.topic_id = t.id
+  WHERE pq.session_id = p_session_id;
+
+  -- Update session to ended
+  UPDATE sessions
+  SET phase = 'ended', end_time = v_end_time
+  WHERE id = p_session_id;
+
+  -- Archive to session_records
+  INSERT INTO session_records (
+    id,
+    code,
+    start_time,
+    end_time,
+    guest_count,
+    guests_json,
+    confirmed_topics_json,
+    picked_questions_json,
+    tie_break_json,
+    settings_json
+  ) VALUES (
+    p_session_id,
+    v_session.code,
+    v_session.start_time,
+    v_end_time,
+    v_guest_count,
+    v_guests,
+    v_topics,
+    v_questions,
+    v_session.tie_break,
+    jsonb_build_object(
+      'votes_per_guest', v_session.votes_per_guest,
+      'topics_to_confirm', v_session.topics_to_confirm,
+      'voting_mode', v_session.voting_mode,
+      'draw_strategy', v_session.draw_strategy,
+      'passes_per_guest', v_session.passes_per_guest,
+      'pass_mode', v_session.pass_mode,
+      'depth_progression', v_session.depth_progression,
+      'turn_mode', v_session.turn_mode
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'guest_count', v_guest_count,
+    'end_time', v_end_time
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,104 @@
+-- Bulk import of topics and questions
+-- Admins import a spreadsheet or JSON backup in one call. Topics are matched by name, questions already
+-- in the bank are skipped, and any bad row rolls the whole import back
+
+-- ============================================================================
+-- normalize_question_text - The form used to spot duplicate questions
+-- Kept in step with normalizeQuestionText in src/utils/questionBank.ts
+-- ============================================================================
+CREATE OR REPLACE FUNCTION normalize_question_text(p_text TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(regexp_replace(btrim(p_text), '\s+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- import_question_bank - Inserts topics and questions all-or-nothing (admin only)
+-- p_topics: [{ "name": "...", "questions": [{ "text": "...", "depth": 1-3 }] }]
+-- ============================================================================
+CREATE OR REPLACE FUNCTION import_question_bank(p_topics JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic JSONB;
+  v_question JSONB;
+  v_name TEXT;
+  v_text TEXT;
+  v_topic_id UUID;
+  v_topics_created INT := 0;
+  v_questions_created INT := 0;
+  v_duplicates INT := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can import questions',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  IF jsonb_typeof(p_topics) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Expected a list of topics',
+      'error_code', 'INVALID_IMPORT'
+    );
+  END IF;
+
+  FOR v_topic IN SELECT * FROM jsonb_array_elements(p_topics) LOOP
+    v_name := btrim(v_topic->>'name');
+    IF COALESCE(v_name, '') = '' THEN
+      RAISE EXCEPTION 'Every topic needs a name' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    SELECT id INTO v_topic_id
+    FROM topics
+    WHERE lower(name) = lower(v_name)
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_topic_id IS NULL THEN
+      INSERT INTO topics (name) VALUES (v_name) RETURNING id INTO v_topic_id;
+      v_topics_created := v_topics_created + 1;
+    END IF;
+
+    FOR v_question IN SELECT * FROM jsonb_array_elements(COALESCE(v_topic->'questions', '[]'::jsonb)) LOOP
+      v_text := btrim(v_question->>'text');
+      IF COALESCE(v_text, '') = '' THEN
+        RAISE EXCEPTION 'A question in "%" has no text', v_name USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      -- Session-only suggestions don't count; the bank copy would be a real addition
+      PERFORM 1 FROM questions
+      WHERE session_id IS NULL AND normalize_question_text(text) = normalize_question_text(v_text);
+
+      IF FOUND THEN
+        v_duplicates := v_duplicates + 1;
+      ELSE
+        INSERT INTO questions (topic_id, text, depth)
+        VALUES (v_topic_id, v_text, COALESCE((v_question->>'depth')::INT, 2));
+        v_questions_created := v_questions_created + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topics_created', v_topics_created,
+    'questions_created', v_questions_created,
+    'duplicates_skipped', v_duplicates
+  );
+
+EXCEPTION
+  WHEN invalid_parameter_value OR check_violation OR invalid_text_representation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', CASE WHEN SQLSTATE = '22023' THEN SQLERRM ELSE 'Question depth must be 1, 2 or 3' END,
+      'error_code', 'INVALID_IMPORT'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
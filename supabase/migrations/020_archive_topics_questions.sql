@@ -0,0 +1,815 @@
+-- Archive topics and questions instead of deleting them
+-- Deleting cascaded into votes, pools and picks, which could break a running session. Archived topics and
+-- questions are left out of voting and pool building but still resolve wherever they are already used, and
+-- JSON backups carry them. Purging is a separate admin step, refused while a live session still uses the rows
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+ALTER TABLE topics ADD COLUMN archived_at TIMESTAMPTZ;
+ALTER TABLE questions ADD COLUMN archived_at TIMESTAMPTZ;
+
+CREATE INDEX idx_topics_active ON topics(name) WHERE archived_at IS NULL;
+CREATE INDEX idx_questions_active_topic_id ON questions(topic_id) WHERE archived_at IS NULL;
+
+-- ============================================================================
+-- set_topic_archived - Archives or restores a topic together with its questions (admin only)
+-- Questions archived with the topic share its timestamp, so a restore leaves separately archived ones alone
+-- ============================================================================
+CREATE OR REPLACE FUNCTION set_topic_archived(p_topic_id UUID, p_archived BOOLEAN)
+RETURNS JSONB AS $$
+DECLARE
+  v_archived_at TIMESTAMPTZ;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can archive topics',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  SELECT archived_at INTO v_archived_at FROM topics WHERE id = p_topic_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Topic not found',
+      'error_code', 'TOPIC_NOT_FOUND'
+    );
+  END IF;
+
+  IF p_archived AND v_archived_at IS NULL THEN
+    v_archived_at := NOW();
+    UPDATE topics SET archived_at = v_archived_at WHERE id = p_topic_id;
+    UPDATE questions SET archived_at = v_archived_at WHERE topic_id = p_topic_id AND archived_at IS NULL;
+  ELSIF NOT p_archived AND v_archived_at IS NOT NULL THEN
+    UPDATE topics SET archived_at = NULL WHERE id = p_topic_id;
+    UPDATE questions SET archived_at = NULL WHERE topic_id = p_topic_id AND archived_at = v_archived_at;
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- ============================================================================
+-- purge_impact - What permanently deleting an archived topic or question would remove
+-- Pass either p_topic_id or p_question_id. Session history snapshots are never affected
+-- ============================================================================
+CREATE OR REPLACE FUNCTION purge_impact(p_topic_id UUID DEFAULT NULL, p_question_id UUID DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_question_ids UUID[];
+BEGIN
+  v_question_ids := ARRAY(
+    SELECT id FROM questions
+    WHERE (p_topic_id IS NOT NULL AND topic_id = p_topic_id) OR id = p_question_id
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'questions', COALESCE(array_length(v_question_ids, 1), 0),
+    'picks', (SELECT COUNT(*) FROM picked_questions WHERE question_id = ANY(v_question_ids)),
+    'votes', (SELECT COUNT(*) FROM votes WHERE p_topic_id IS NOT NULL AND topic_id = p_topic_id),
+    'sessions', (
+      SELECT COUNT(DISTINCT session_id) FROM (
+        SELECT session_id FROM picked_questions WHERE question_id = ANY(v_question_ids)
+        UNION SELECT session_id FROM question_pool WHERE question_id = ANY(v_question_ids)
+        UNION SELECT session_id FROM session_topics WHERE p_topic_id IS NOT NULL AND topic_id = p_topic_id
+        UNION SELECT session_id FROM votes WHERE p_topic_id IS NOT NULL AND topic_id = p_topic_id
+      ) used
+    ),
+    'live_sessions', (
+      SELECT COUNT(DISTINCT s.id)
+      FROM sessions s
+      WHERE s.phase <> 'ended'
+        AND (
+          EXISTS (SELECT 1 FROM question_pool qp WHERE qp.session_id = s.id AND qp.question_id = ANY(v_question_ids))
+          OR EXISTS (SELECT 1 FROM picked_questions pq WHERE pq.session_id = s.id AND pq.question_id = ANY(v_question_ids))
+          OR EXISTS (SELECT 1 FROM session_topics st WHERE st.session_id = s.id AND st.topic_id = p_topic_id)
+          OR EXISTS (SELECT 1 FROM votes v WHERE v.session_id = s.id AND v.topic_id = p_topic_id)
+        )
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- ============================================================================
+-- purge_archived - Permanently deletes an archived topic (with its questions) or question (admin only)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION purge_archived(p_topic_id UUID DEFAULT NULL, p_question_id UUID DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_impact JSONB;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can purge',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  PERFORM 1 FROM topics WHERE id = p_topic_id AND archived_at IS NOT NULL;
+  IF p_topic_id IS NOT NULL AND NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Archive the topic before purging it',
+      'error_code', 'NOT_ARCHIVED'
+    );
+  END IF;
+
+  PERFORM 1 FROM questions WHERE id = p_question_id AND archived_at IS NOT NULL;
+  IF p_question_id IS NOT NULL AND NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Archive the question before purging it',
+      'error_code', 'NOT_ARCHIVED'
+    );
+  END IF;
+
+  v_impact := purge_impact(p_topic_id, p_question_id);
+
+  IF (v_impact->>'live_sessions')::INT > 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'A session that is still running uses this. Try again once it has ended',
+      'error_code', 'IN_USE'
+    );
+  END IF;
+
+  -- guests.picked_question_id has no ON DELETE action (and guests can't be updated through RLS,
+  -- hence SECURITY DEFINER with the admin check above)
+  UPDATE guests SET picked_question_id = NULL
+  WHERE picked_question_id IN (
+    SELECT id FROM questions
+    WHERE (p_topic_id IS NOT NULL AND topic_id = p_topic_id) OR id = p_question_id
+  );
+
+  IF p_topic_id IS NOT NULL THEN
+    DELETE FROM topics WHERE id = p_topic_id;
+  ELSE
+    DELETE FROM questions WHERE id = p_question_id;
+  END IF;
+
+  RETURN v_impact;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- get_topic_tally - Leaves out archived topics nobody voted for
+-- ============================================================================
+CREATE OR REPLACE FUNCTION get_topic_tally(p_session_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_mode TEXT;
+  v_max_rank INT;
+  v_required INT;
+  v_tally JSONB;
+  v_cutoff JSONB;
+  v_tied UUID[] := '{}';
+  v_seats INT := 0;
+BEGIN
+  SELECT
+    s.voting_mode,
+    LEAST(s.votes_per_guest, (SELECT COUNT(*) FROM topics WHERE archived_at IS NULL)::INT),
+    LEAST(s.topics_to_confirm, (SELECT COUNT(*) FROM topics WHERE archived_at IS NULL)::INT)
+  INTO v_mode, v_max_rank, v_required
+  FROM sessions s
+  WHERE s.id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  WITH counts AS (
+    SELECT
+      t.id AS topic_id,
+      t.name,
+      COUNT(v.id)::INT AS votes,
+      -- Points mode: first choice earns votes_per_guest points, last choice earns 1
+      COALESCE(SUM(v_max_rank - v.rank + 1), 0)::INT AS points
+    FROM topics t
+    LEFT JOIN votes v ON v.topic_id = t.id AND v.session_id = p_session_id
+    -- A topic archived mid-vote keeps the votes it already has
+    WHERE t.archived_at IS NULL
+      OR EXISTS (SELECT 1 FROM votes v2 WHERE v2.topic_id = t.id AND v2.session_id = p_session_id)
+    GROUP BY t.id, t.name
+  ),
+  ranked AS (
+    SELECT r.topic_id, r.score, ROW_NUMBER() OVER () AS seat
+    FROM ranked_choice_order(p_session_id) r
+  ),
+  scored AS (
+    SELECT
+      c.topic_id,
+      c.name,
+      c.votes,
+      CASE v_mode
+        WHEN 'points' THEN c.points
+        WHEN 'ranked' THEN COALESCE(r.score, 0)
+        ELSE c.votes
+      END AS score,
+      r.seat
+    FROM counts c
+    LEFT JOIN ranked r ON r.topic_id = c.topic_id
+  ),
+  positioned AS (
+    SELECT
+      s.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN v_mode = 'ranked' THEN COALESCE(s.seat, 2147483647) ELSE 0 END,
+          s.score DESC,
+          s.name,
+          s.topic_id
+      ) AS position
+    FROM scored s
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('topic_id', topic_id, 'score', score, 'votes', votes, 'position', position)
+      ORDER BY position
+    ),
+    '[]'::jsonb
+  )
+  INTO v_tally
+  FROM positioned;
+
+  -- A tie only matters when it straddles the cut-off
+  IF v_required > 0 AND jsonb_array_length(v_tally) > v_required THEN
+    v_cutoff := v_tally -> (v_required - 1);
+
+    IF v_mode = 'ranked' THEN
+      -- Ranked seats aren't comparable by score, so compare the last seat head-to-head
+      SELECT array_agg((e ->> 'topic_id')::UUID)
+      INTO v_tied
+      FROM jsonb_array_elements(v_tally) e
+      WHERE (e ->> 'position')::INT > v_required
+        AND topic_head_to_head(p_session_id, (v_cutoff ->> 'topic_id')::UUID, (e ->> 'topic_id')::UUID) = 0;
+
+      IF v_tied IS NOT NULL THEN
+        v_tied := (v_cutoff ->> 'topic_id')::UUID || v_tied;
+        v_seats := 1;
+      END IF;
+    ELSIF (v_tally -> v_required ->> 'score') = (v_cutoff ->> 'score') THEN
+      SELECT
+        array_agg((e ->> 'topic_id')::UUID ORDER BY (e ->> 'position')::INT),
+        COUNT(*) FILTER (WHERE (e ->> 'position')::INT <= v_required)
+      INTO v_tied, v_seats
+      FROM jsonb_array_elements(v_tally) e
+      WHERE e ->> 'score' = v_cutoff ->> 'score';
+    END IF;
+  END IF;
+
+  v_tied := COALESCE(v_tied, '{}');
+
+  SELECT jsonb_agg(e || jsonb_build_object('tied', (e ->> 'topic_id')::UUID = ANY(v_tied)) ORDER BY (e ->> 'position')::INT)
+  INTO v_tally
+  FROM jsonb_array_elements(v_tally) e;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'voting_mode', v_mode,
+    'tally', COALESCE(v_tally, '[]'::jsonb),
+    'tie', CASE
+      WHEN v_seats > 0 THEN jsonb_build_object('topic_ids', to_jsonb(v_tied), 'seats', v_seats)
+      ELSE NULL
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- submit_vote_atomic - Counts only active topics toward the vote total and rejects archived ones
+-- ============================================================================
+CREATE OR REPLACE FUNCTION submit_vote_atomic(
+  p_session_id UUID,
+  p_guest_id UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_required INT;
+  v_rank INT;
+BEGIN
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND status = 'removed';
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The host removed you from this session',
+      'error_code', 'GUEST_REMOVED'
+    );
+  END IF;
+
+  -- Validate guest hasn't already voted
+  PERFORM 1 FROM guests WHERE id = p_guest_id AND has_voted = true;
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Guest has already voted',
+      'error_code', 'ALREADY_VOTED'
+    );
+  END IF;
+
+  -- Guests vote for votes_per_guest topics, or every active topic when fewer exist.
+  -- Locking the row holds off a phase change until the votes are in
+  SELECT s.phase, LEAST(s.votes_per_guest, (SELECT COUNT(*) FROM topics WHERE archived_at IS NULL)::INT)
+  INTO v_phase, v_required
+  FROM sessions s
+  WHERE s.id = p_session_id
+  FOR SHARE;
+
+  IF v_phase IS DISTINCT FROM 'voting' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Voting is closed',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_required THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Vote for exactly %s topics', v_required),
+      'error_code', 'INVALID_VOTE_COUNT'
+    );
+  END IF;
+
+  PERFORM 1
+  FROM unnest(p_topic_ids) AS v(topic_id)
+  LEFT JOIN topics t ON t.id = v.topic_id
+  WHERE t.id IS NULL OR t.archived_at IS NOT NULL;
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'One of these topics is no longer available',
+      'error_code', 'TOPIC_UNAVAILABLE'
+    );
+  END IF;
+
+  -- Insert all votes atomically
+  FOR v_rank IN 1..array_length(p_topic_ids, 1)
+  LOOP
+    INSERT INTO votes (session_id, guest_id, topic_id, rank)
+    VALUES (p_session_id, p_guest_id, p_topic_ids[v_rank], v_rank);
+  END LOOP;
+
+  -- Update guest status
+  UPDATE guests SET has_voted = true, status = 'active' WHERE id = p_guest_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'votes_count', array_length(p_topic_ids, 1)
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Duplicate vote detected',
+      'error_code', '23505'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- confirm_topics_atomic - Counts only active topics toward the confirm total
+-- ============================================================================
+CREATE OR REPLACE FUNCTION confirm_topics_atomic(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_topic_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic_id UUID;
+  v_question_count INT := 0;
+  v_required INT;
+  v_tally JSONB;
+  v_tie_break JSONB;
+  v_tied UUID[] := '{}';
+  v_tie_winners UUID[] := '{}';
+  v_outright UUID[];
+  v_reason TEXT;
+  v_phase TEXT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT LEAST(s.topics_to_confirm, (SELECT COUNT(*) FROM topics WHERE archived_at IS NULL)::INT), s.tie_break, s.phase
+  INTO v_required, v_tie_break, v_phase
+  FROM sessions s
+  WHERE s.id = p_session_id
+  FOR UPDATE;
+
+  IF v_phase NOT IN ('voting', 'topicResults') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Topics can only be confirmed after voting',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  IF COALESCE(array_length(p_topic_ids, 1), 0) <> v_required THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Confirm exactly %s topics', v_required),
+      'error_code', 'INVALID_TOPIC_COUNT'
+    );
+  END IF;
+
+  v_tally := get_topic_tally(p_session_id);
+
+  IF NOT (v_tally ->> 'success')::BOOLEAN THEN
+    RETURN v_tally;
+  END IF;
+
+  -- The tally lists every active topic plus archived ones that have votes; nothing else can be confirmed
+  PERFORM 1
+  FROM unnest(p_topic_ids) AS c(topic_id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_tally -> 'tally') e WHERE (e ->> 'topic_id')::UUID = c.topic_id
+  );
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'One of these topics is no longer available',
+      'error_code', 'TOPIC_UNAVAILABLE'
+    );
+  END IF;
+
+  -- Topics that made the cut without needing a tie-break
+  v_outright := ARRAY(
+    SELECT (e ->> 'topic_id')::UUID
+    FROM jsonb_array_elements(v_tally -> 'tally') e
+    WHERE (e ->> 'position')::INT <= v_required AND NOT (e ->> 'tied')::BOOLEAN
+  );
+
+  IF jsonb_typeof(v_tally -> 'tie') = 'object' THEN
+    v_tied := ARRAY(SELECT jsonb_array_elements_text(v_tally -> 'tie' -> 'topic_ids')::UUID);
+
+    IF v_tie_break IS NULL OR v_tie_break ->> 'status' <> 'resolved' THEN
+      v_tie_break := jsonb_build_object(
+        'strategy', 'host',
+        'tied_topic_ids', to_jsonb(v_tied),
+        'seats', (v_tally -> 'tie' ->> 'seats')::INT,
+        'status', 'resolved',
+        'winner_topic_ids', to_jsonb(ARRAY(SELECT unnest(p_topic_ids) INTERSECT SELECT unnest(v_tied))),
+        'resolved_at', NOW()
+      );
+      UPDATE sessions SET tie_break = v_tie_break WHERE id = p_session_id;
+    END IF;
+
+    v_tie_winners := ARRAY(SELECT jsonb_array_elements_text(v_tie_break -> 'winner_topic_ids')::UUID);
+  END IF;
+
+  -- Insert confirmed topics
+  FOREACH v_topic_id IN ARRAY p_topic_ids
+  LOOP
+    v_reason := CASE
+      WHEN v_topic_id = ANY(v_outright) THEN 'votes'
+      WHEN v_topic_id = ANY(v_tie_winners) THEN 'tie_break'
+      ELSE 'host_override'
+    END;
+
+    INSERT INTO session_topics (session_id, topic_id, selection_reason, score)
+    SELECT p_session_id, v_topic_id, v_reason, (e ->> 'score')::INT
+    FROM jsonb_array_elements(v_tally -> 'tally') e
+    WHERE (e ->> 'topic_id')::UUID = v_topic_id;
+  END LOOP;
+
+  PERFORM populate_question_pool(p_session_id, p_topic_ids);
+
+  SELECT COUNT(*) INTO v_question_count FROM question_pool WHERE session_id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topic_count', array_length(p_topic_ids, 1),
+    'question_count', v_question_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- populate_question_pool - Leaves out archived questions
+-- ============================================================================
+CREATE OR REPLACE FUNCTION populate_question_pool(session_uuid UUID, topic_uuids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  v_progression BOOLEAN;
+  v_exclude BOOLEAN;
+  v_stale UUID[];
+  question_record RECORD;
+  pos INT := 1;
+BEGIN
+  SELECT depth_progression INTO v_progression FROM sessions WHERE id = session_uuid;
+  SELECT freshness_mode = 'exclude' INTO v_exclude FROM app_settings WHERE id = 1;
+  v_stale := ARRAY(SELECT stale_question_ids(session_uuid));
+
+  IF v_exclude THEN
+    PERFORM 1 FROM questions
+    WHERE ((topic_id = ANY(topic_uuids) AND session_id IS NULL) OR session_id = session_uuid)
+      AND archived_at IS NULL
+      AND NOT (id = ANY(v_stale));
+    v_exclude := FOUND;
+  END IF;
+
+  -- Delete existing question pool for this session
+  DELETE FROM question_pool WHERE session_id = session_uuid;
+
+  -- Fresh questions first; light ones first when progressing, shuffled within each depth
+  FOR question_record IN (
+    SELECT id FROM questions
+    WHERE ((topic_id = ANY(topic_uuids) AND session_id IS NULL) OR session_id = session_uuid)
+      AND archived_at IS NULL
+      AND NOT (COALESCE(v_exclude, false) AND id = ANY(v_stale))
+    ORDER BY id = ANY(v_stale), CASE WHEN v_progression THEN depth ELSE 0 END, random()
+  ) LOOP
+    INSERT INTO question_pool (session_id, question_id, position, picked)
+    VALUES (session_uuid, question_record.id, pos, false);
+    pos := pos + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- append_question_pool - Leaves out archived topics and questions
+-- ============================================================================
+CREATE OR REPLACE FUNCTION append_question_pool(
+  p_session_id UUID,
+  p_host_token UUID,
+  p_topic_ids UUID[],
+  p_reshuffle_asked BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_stale UUID[];
+  v_pos INT;
+  v_added INT := 0;
+  v_reshuffled INT := 0;
+  v_pool_size INT;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF v_session.phase <> 'questionPhase' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Questions can only be added during the question phase',
+      'error_code', 'INVALID_PHASE'
+    );
+  END IF;
+
+  -- Balanced draws and passes take the same lock, so they wait for the top-up. Random draws don't need to:
+  -- they only claim unpicked rows, which the top-up appends after but never reorders
+  PERFORM pg_advisory_xact_lock(hashtext(p_session_id::TEXT));
+
+  p_topic_ids := COALESCE(p_topic_ids, ARRAY[]::UUID[]);
+
+  INSERT INTO session_topics (session_id, topic_id, selection_reason)
+  SELECT p_session_id, t.id, 'top_up'
+  FROM topics t
+  WHERE t.id = ANY(p_topic_ids) AND t.archived_at IS NULL
+  ON CONFLICT (session_id, topic_id) DO NOTHING;
+
+  SELECT COALESCE(MAX(position), 0) INTO v_pos FROM question_pool WHERE session_id = p_session_id;
+
+  -- New topics' questions go first. Recently asked ones are ordered last rather than left out,
+  -- since the host is explicitly asking for more
+  v_stale := ARRAY(SELECT stale_question_ids(p_session_id));
+
+  INSERT INTO question_pool (session_id, question_id, position, picked)
+  SELECT p_session_id, q.id, v_pos + ROW_NUMBER() OVER (
+    ORDER BY q.id = ANY(v_stale), CASE WHEN v_session.depth_progression THEN q.depth ELSE 0 END, random()
+  ), false
+  FROM questions q
+  WHERE q.topic_id = ANY(p_topic_ids)
+    AND q.session_id IS NULL
+    AND q.archived_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM question_pool qp WHERE qp.session_id = p_session_id AND qp.question_id = q.id
+    );
+
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  IF p_reshuffle_asked THEN
+    SELECT COALESCE(MAX(position), 0) INTO v_pos FROM question_pool WHERE session_id = p_session_id;
+
+    -- Skips questions still on a guest's phone this round, and passed ones when passes retire them
+    UPDATE question_pool qp
+    SET picked = false, position = v_pos + r.n
+    FROM (
+      SELECT p.id, ROW_NUMBER() OVER (ORDER BY random()) AS n
+      FROM question_pool p
+      WHERE p.session_id = p_session_id
+        AND p.picked = true
+        AND NOT EXISTS (
+          SELECT 1 FROM picked_questions pq
+          WHERE pq.session_id = p_session_id
+            AND pq.question_id = p.question_id
+            AND (
+              (pq.round = v_session.current_round AND pq.passed = false)
+              OR (pq.passed AND v_session.pass_mode = 'retire')
+            )
+        )
+    ) r
+    WHERE qp.id = r.id;
+
+    GET DIAGNOSTICS v_reshuffled = ROW_COUNT;
+  END IF;
+
+  IF v_added + v_reshuffled = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No new questions to add',
+      'error_code', 'NOTHING_TO_ADD'
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO v_pool_size
+  FROM question_pool
+  WHERE session_id = p_session_id AND picked = false;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'added_count', v_added,
+    'reshuffled_count', v_reshuffled,
+    'pool_size', v_pool_size
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- import_question_bank - Matches and de-duplicates within the same archived state
+-- Archived topics and questions in a JSON backup come back archived
+-- ============================================================================
+CREATE OR REPLACE FUNCTION import_question_bank(p_topics JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic JSONB;
+  v_question JSONB;
+  v_name TEXT;
+  v_text TEXT;
+  v_topic_id UUID;
+  v_archived BOOLEAN;
+  v_topic_archived_at TIMESTAMPTZ;
+  v_question_archived_at TIMESTAMPTZ;
+  v_topics_created INT := 0;
+  v_questions_created INT := 0;
+  v_duplicates INT := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can import questions',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  IF jsonb_typeof(p_topics) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Expected a list of topics',
+      'error_code', 'INVALID_IMPORT'
+    );
+  END IF;
+
+  FOR v_topic IN SELECT * FROM jsonb_array_elements(p_topics) LOOP
+    v_name := btrim(v_topic->>'name');
+    IF COALESCE(v_name, '') = '' THEN
+      RAISE EXCEPTION 'Every topic needs a name' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_archived := COALESCE((v_topic->>'archived')::BOOLEAN, false);
+
+    SELECT id, archived_at INTO v_topic_id, v_topic_archived_at
+    FROM topics
+    WHERE lower(name) = lower(v_name) AND (archived_at IS NOT NULL) = v_archived
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_topic_id IS NULL THEN
+      v_topic_archived_at := CASE WHEN v_archived THEN NOW() END;
+      INSERT INTO topics (name, archived_at) VALUES (v_name, v_topic_archived_at) RETURNING id INTO v_topic_id;
+      v_topics_created := v_topics_created + 1;
+    END IF;
+
+    FOR v_question IN SELECT * FROM jsonb_array_elements(COALESCE(v_topic->'questions', '[]'::jsonb)) LOOP
+      v_text := btrim(v_question->>'text');
+      IF COALESCE(v_text, '') = '' THEN
+        RAISE EXCEPTION 'A question in "%" has no text', v_name USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      -- A question archived with its topic shares the topic's timestamp, so restoring the topic restores it.
+      -- One archived on its own gets a later timestamp and stays archived
+      v_question_archived_at := CASE
+        WHEN COALESCE((v_question->>'archived')::BOOLEAN, false) THEN clock_timestamp()
+        ELSE v_topic_archived_at
+      END;
+
+      -- Session-only suggestions don't count; the bank copy would be a real addition
+      PERFORM 1 FROM questions
+      WHERE session_id IS NULL
+        AND (archived_at IS NOT NULL) = (v_question_archived_at IS NOT NULL)
+        AND normalize_question_text(text) = normalize_question_text(v_text);
+
+      IF FOUND THEN
+        v_duplicates := v_duplicates + 1;
+      ELSE
+        INSERT INTO questions (topic_id, text, depth, archived_at)
+        VALUES (v_topic_id, v_text, COALESCE((v_question->>'depth')::INT, 2), v_question_archived_at);
+        v_questions_created := v_questions_created + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topics_created', v_topics_created,
+    'questions_created', v_questions_created,
+    'duplicates_skipped', v_duplicates
+  );
+
+EXCEPTION
+  WHEN invalid_parameter_value OR check_violation OR invalid_text_representation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', CASE WHEN SQLSTATE = '22023' THEN SQLERRM ELSE 'Question depth must be 1, 2 or 3' END,
+      'error_code', 'INVALID_IMPORT'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
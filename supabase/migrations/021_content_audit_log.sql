@@ -0,0 +1,137 @@
+-- Audit trail of question bank changes
+-- Every insert, update and delete on topics and bank questions is logged with the acting admin and the row
+-- before and after the change. Questions that only exist for one session (approved guest suggestions) are left
+-- out until they are promoted into the bank
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+CREATE TABLE content_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL CHECK (table_name IN ('topics', 'questions')),
+  row_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'archive', 'restore', 'delete')),
+  actor_id UUID,
+  actor_email TEXT,
+  old_data JSONB,
+  new_data JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_content_audit_log_created_at ON content_audit_log(created_at DESC);
+CREATE INDEX idx_content_audit_log_row_id ON content_audit_log(row_id);
+
+ALTER TABLE content_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the trigger below
+CREATE POLICY "Authenticated users can read content_audit_log" ON content_audit_log
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- ============================================================================
+-- log_content_change - Records a topic or bank question change
+-- Archiving and restoring are logged as their own actions; updates that change nothing but updated_at are skipped
+-- ============================================================================
+CREATE OR REPLACE FUNCTION log_content_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_action TEXT := lower(TG_OP);
+BEGIN
+  IF TG_TABLE_NAME = 'questions'
+    AND (v_old IS NULL OR v_old ->> 'session_id' IS NOT NULL)
+    AND (v_new IS NULL OR v_new ->> 'session_id' IS NOT NULL) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF v_old - 'updated_at' = v_new - 'updated_at' THEN
+      RETURN NULL;
+    END IF;
+
+    IF v_old ->> 'archived_at' IS NULL AND v_new ->> 'archived_at' IS NOT NULL THEN
+      v_action := 'archive';
+    ELSIF v_old ->> 'archived_at' IS NOT NULL AND v_new ->> 'archived_at' IS NULL THEN
+      v_action := 'restore';
+    END IF;
+  END IF;
+
+  INSERT INTO content_audit_log (table_name, row_id, action, actor_id, actor_email, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new ->> 'id', v_old ->> 'id')::UUID,
+    v_action,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_topics_changes AFTER INSERT OR UPDATE OR DELETE ON topics
+  FOR EACH ROW EXECUTE FUNCTION log_content_change();
+
+CREATE TRIGGER log_questions_changes AFTER INSERT OR UPDATE OR DELETE ON questions
+  FOR EACH ROW EXECUTE FUNCTION log_content_change();
+
+-- ============================================================================
+-- revert_question_text - Puts back the text a logged question edit replaced (admin only)
+-- The revert is itself an update, so it shows up in the log and can be undone the same way
+-- ============================================================================
+CREATE OR REPLACE FUNCTION revert_question_text(p_entry_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_entry RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can revert changes',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  SELECT * INTO v_entry FROM content_audit_log WHERE id = p_entry_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Log entry not found',
+      'error_code', 'ENTRY_NOT_FOUND'
+    );
+  END IF;
+
+  IF v_entry.table_name <> 'questions'
+    OR v_entry.action <> 'update'
+    OR v_entry.old_data ->> 'text' IS NOT DISTINCT FROM v_entry.new_data ->> 'text' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only question text edits can be reverted',
+      'error_code', 'NOT_REVERTIBLE'
+    );
+  END IF;
+
+  UPDATE questions SET text = v_entry.old_data ->> 'text' WHERE id = v_entry.row_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The question no longer exists',
+      'error_code', 'QUESTION_NOT_FOUND'
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql;
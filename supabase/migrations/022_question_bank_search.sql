@@ -0,0 +1,163 @@
+-- Search, sort and paginate the admin question bank
+-- The admin question list is queried a page at a time instead of loading the whole bank, and topic lists
+-- show per-topic counts. Question text is searchable through a full-text index, with a substring fallback so
+-- partly typed words still match. Usage stats are kept in a materialized view refreshed as sessions are archived
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+CREATE INDEX idx_questions_text_search ON questions USING GIN (to_tsvector('english', text));
+
+-- ============================================================================
+-- question_usage_stats - How often each question was asked and reacted to
+-- A question counts once per session it was asked in (passes don't count). Archived picks cover sessions
+-- whose live rows were cleaned up
+-- ============================================================================
+CREATE OR REPLACE FUNCTION question_usage_stats()
+RETURNS TABLE (question_id UUID, times_picked BIGINT, reactions BIGINT) AS $$
+  WITH archived AS (
+    SELECT sr.id AS session_id, (e -> 'questions' ->> 'id')::UUID AS question_id, e -> 'reactions' AS reactions
+    FROM session_records sr, jsonb_array_elements(sr.picked_questions_json) e
+    WHERE e -> 'questions' ->> 'id' IS NOT NULL
+      AND NOT COALESCE((e ->> 'passed')::BOOLEAN, false)
+  ),
+  picks AS (
+    SELECT session_id, question_id FROM archived
+    UNION
+    SELECT pq.session_id, pq.question_id
+    FROM picked_questions pq
+    WHERE pq.passed = false
+  ),
+  reaction_totals AS (
+    SELECT a.question_id, SUM(r.value::BIGINT) AS reactions
+    FROM archived a, jsonb_each_text(COALESCE(a.reactions, '{}'::JSONB)) r
+    GROUP BY a.question_id
+  )
+  SELECT p.question_id, COUNT(*) AS times_picked, COALESCE(MAX(rt.reactions), 0) AS reactions
+  FROM picks p
+  LEFT JOIN reaction_totals rt ON rt.question_id = p.question_id
+  GROUP BY p.question_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- question_usage - question_usage_stats, stored so sorting a page doesn't rescan every session record
+-- Picks in a session still running are counted once it ends
+-- ============================================================================
+CREATE MATERIALIZED VIEW question_usage AS SELECT * FROM question_usage_stats();
+
+CREATE UNIQUE INDEX idx_question_usage_question_id ON question_usage(question_id);
+
+GRANT SELECT ON question_usage TO authenticated;
+
+-- ============================================================================
+-- refresh_question_usage - Recomputes question_usage without blocking searches
+-- ============================================================================
+CREATE OR REPLACE FUNCTION refresh_question_usage()
+RETURNS VOID AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY question_usage;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_question_usage() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refresh_question_usage() TO authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_question_usage_on_archive()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_question_usage();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_question_usage_after_archive AFTER INSERT ON session_records
+  FOR EACH STATEMENT EXECUTE FUNCTION refresh_question_usage_on_archive();
+
+-- ============================================================================
+-- search_questions - One page of active bank questions
+-- p_sort is 'created' or 'updated' (newest first), 'picked' or 'reactions' (most first)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION search_questions(
+  p_search TEXT DEFAULT NULL,
+  p_topic_id UUID DEFAULT NULL,
+  p_sort TEXT DEFAULT 'created',
+  p_limit INT DEFAULT 25,
+  p_offset INT DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_search TEXT := NULLIF(btrim(p_search), '');
+  v_pattern TEXT;
+  v_total INT;
+  v_questions JSONB;
+BEGIN
+  IF p_sort NOT IN ('created', 'updated', 'picked', 'reactions') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Unknown sort order',
+      'error_code', 'INVALID_SORT'
+    );
+  END IF;
+
+  -- Typed %, _ and \ match literally in the substring fallback
+  v_pattern := '%' || replace(replace(replace(v_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  WITH matches AS (
+    SELECT q.*, COALESCE(s.times_picked, 0) AS times_picked, COALESCE(s.reactions, 0) AS reactions
+    FROM questions q
+    LEFT JOIN question_usage s ON s.question_id = q.id
+    WHERE q.session_id IS NULL
+      AND q.archived_at IS NULL
+      AND (p_topic_id IS NULL OR q.topic_id = p_topic_id)
+      AND (
+        v_search IS NULL
+        OR to_tsvector('english', q.text) @@ websearch_to_tsquery('english', v_search)
+        OR q.text ILIKE v_pattern ESCAPE '\'
+      )
+  ),
+  page AS (
+    SELECT m.*, row_number() OVER (
+      ORDER BY
+        CASE p_sort
+          WHEN 'picked' THEN m.times_picked
+          WHEN 'reactions' THEN m.reactions
+        END DESC NULLS LAST,
+        CASE WHEN p_sort = 'updated' THEN m.updated_at ELSE m.created_at END DESC,
+        m.id
+    ) AS ord
+    FROM matches m
+  )
+  SELECT
+    (SELECT COUNT(*) FROM matches),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(page) - 'ord' ORDER BY ord) FROM page WHERE ord > p_offset AND ord <= p_offset + p_limit),
+      '[]'::JSONB
+    )
+  INTO v_total, v_questions;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'questions', v_questions,
+    'total', v_total
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- topic_question_counts - Active bank questions per topic, for lists that only need the counts
+-- ============================================================================
+CREATE OR REPLACE FUNCTION topic_question_counts()
+RETURNS TABLE (topic_id UUID, question_count BIGINT) AS $$
+  SELECT q.topic_id, COUNT(*) AS question_count
+  FROM questions q
+  WHERE q.session_id IS NULL AND q.archived_at IS NULL
+  GROUP BY q.topic_id;
+$$ LANGUAGE sql STABLE;
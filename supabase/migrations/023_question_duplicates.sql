@@ -0,0 +1,214 @@
+-- Duplicate and near-duplicate questions
+-- Admins are warned about exact (normalised) and trigram-similar matches before saving a question, and can
+-- review clusters of similar questions across the bank. Merging keeps one question and archives the others
+-- with merged_into pointing at it, so pick counts and freshness follow the kept question
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE questions ADD COLUMN merged_into UUID REFERENCES questions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_questions_text_trgm ON questions
+  USING GIN (normalize_question_text(text) gin_trgm_ops)
+  WHERE session_id IS NULL AND archived_at IS NULL;
+
+CREATE INDEX idx_questions_merged_into ON questions(merged_into) WHERE merged_into IS NOT NULL;
+
+-- ============================================================================
+-- find_similar_questions - Active bank questions close to a draft question, closest first
+-- p_exclude_id leaves out the question being edited
+-- ============================================================================
+CREATE OR REPLACE FUNCTION find_similar_questions(
+  p_text TEXT,
+  p_exclude_id UUID DEFAULT NULL,
+  p_threshold REAL DEFAULT 0.5
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_normalized TEXT := normalize_question_text(p_text);
+  v_matches JSONB;
+BEGIN
+  PERFORM set_config('pg_trgm.similarity_threshold', p_threshold::TEXT, true);
+
+  SELECT COALESCE(jsonb_agg(m ORDER BY m.similarity DESC), '[]'::JSONB) INTO v_matches
+  FROM (
+    SELECT
+      q.id,
+      q.topic_id,
+      q.text,
+      similarity(normalize_question_text(q.text), v_normalized) AS similarity,
+      normalize_question_text(q.text) = v_normalized AS exact
+    FROM questions q
+    WHERE q.session_id IS NULL
+      AND q.archived_at IS NULL
+      AND q.id IS DISTINCT FROM p_exclude_id
+      AND normalize_question_text(q.text) % v_normalized
+    ORDER BY similarity DESC
+    LIMIT 5
+  ) m;
+
+  RETURN jsonb_build_object('success', true, 'matches', v_matches);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- question_duplicate_pairs - Every pair of similar active bank questions
+-- The client groups pairs into clusters for the duplicates report
+-- ============================================================================
+CREATE OR REPLACE FUNCTION question_duplicate_pairs(p_threshold REAL DEFAULT 0.6)
+RETURNS JSONB AS $$
+DECLARE
+  v_pairs JSONB;
+BEGIN
+  PERFORM set_config('pg_trgm.similarity_threshold', p_threshold::TEXT, true);
+
+  WITH active AS (
+    SELECT id, normalize_question_text(text) AS normalized
+    FROM questions
+    WHERE session_id IS NULL AND archived_at IS NULL
+  )
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('a', a.id, 'b', b.id, 'similarity', similarity(a.normalized, b.normalized))),
+    '[]'::JSONB
+  ) INTO v_pairs
+  FROM active a
+  JOIN active b ON a.id < b.id AND a.normalized % b.normalized;
+
+  RETURN jsonb_build_object('success', true, 'pairs', v_pairs);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- merge_questions - Keeps one question and archives the others into it (admin only)
+-- Questions already merged into one of the archived ones move along to the kept question
+-- ============================================================================
+CREATE OR REPLACE FUNCTION merge_questions(p_keep_id UUID, p_merge_ids UUID[])
+RETURNS JSONB AS $$
+DECLARE
+  v_merge_ids UUID[] := array_remove(p_merge_ids, p_keep_id);
+  v_merged INT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can merge questions',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  PERFORM 1 FROM questions
+  WHERE id = p_keep_id AND session_id IS NULL AND archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'The question to keep is not in the bank',
+      'error_code', 'QUESTION_NOT_FOUND'
+    );
+  END IF;
+
+  UPDATE questions
+  SET archived_at = NOW(), merged_into = p_keep_id
+  WHERE id = ANY(v_merge_ids) AND session_id IS NULL AND archived_at IS NULL;
+
+  GET DIAGNOSTICS v_merged = ROW_COUNT;
+
+  IF v_merged = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'No questions to merge',
+      'error_code', 'NOTHING_TO_MERGE'
+    );
+  END IF;
+
+  UPDATE questions SET merged_into = p_keep_id WHERE merged_into = ANY(v_merge_ids);
+
+  -- The merged questions' picks and reactions now count toward the kept one
+  PERFORM refresh_question_usage();
+
+  RETURN jsonb_build_object('success', true, 'merged_count', v_merged);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- stale_question_ids - Also marks the question a stale duplicate was merged into
+-- The original function is kept as asked_question_ids
+-- ============================================================================
+ALTER FUNCTION stale_question_ids(UUID) RENAME TO asked_question_ids;
+
+CREATE OR REPLACE FUNCTION stale_question_ids(p_session_id UUID)
+RETURNS SETOF UUID AS $$
+  WITH asked AS (
+    SELECT id FROM asked_question_ids(p_session_id) AS id
+  )
+  SELECT id FROM asked
+  UNION
+  SELECT q.merged_into
+  FROM questions q
+  WHERE q.merged_into IS NOT NULL AND q.id IN (SELECT id FROM asked);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- question_usage_stats - Credits picks and reactions of merged questions to the question they were merged into
+-- The stored question_usage is refreshed afterwards so its counts follow the new definition
+-- ============================================================================
+CREATE OR REPLACE FUNCTION question_usage_stats()
+RETURNS TABLE (question_id UUID, times_picked BIGINT, reactions BIGINT) AS $$
+  WITH merged AS (
+    SELECT id, merged_into FROM questions WHERE merged_into IS NOT NULL
+  ),
+  archived AS (
+    SELECT sr.id AS session_id, COALESCE(m.merged_into, a.question_id) AS question_id, e -> 'reactions' AS reactions
+    FROM session_records sr
+    CROSS JOIN LATERAL jsonb_array_elements(sr.picked_questions_json) e
+    CROSS JOIN LATERAL (SELECT (e -> 'questions' ->> 'id')::UUID AS question_id) a
+    LEFT JOIN merged m ON m.id = a.question_id
+    WHERE a.question_id IS NOT NULL
+      AND NOT COALESCE((e ->> 'passed')::BOOLEAN, false)
+  ),
+  picks AS (
+    SELECT session_id, question_id FROM archived
+    UNION
+    SELECT pq.session_id, COALESCE(m.merged_into, pq.question_id)
+    FROM picked_questions pq
+    LEFT JOIN merged m ON m.id = pq.question_id
+    WHERE pq.passed = false
+  ),
+  reaction_totals AS (
+    SELECT a.question_id, SUM(r.value::BIGINT) AS reactions
+    FROM archived a, jsonb_each_text(COALESCE(a.reactions, '{}'::JSONB)) r
+    GROUP BY a.question_id
+  )
+  SELECT p.question_id, COUNT(*) AS times_picked, COALESCE(MAX(rt.reactions), 0) AS reactions
+  FROM picks p
+  LEFT JOIN reaction_totals rt ON rt.question_id = p.question_id
+  GROUP BY p.question_id;
+$$ LANGUAGE sql STABLE;
+
+REFRESH MATERIALIZED VIEW question_usage;
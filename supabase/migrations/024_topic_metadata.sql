@@ -0,0 +1,358 @@
+-- Topic description, icon, accent colour and display order
+-- Admins describe each topic and give it an emoji and a colour from a fixed palette; topics are listed in
+-- sort_order instead of alphabetically. New topics go to the end of the list
+-- JSON backups carry the new details and keep the display order
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+ALTER TABLE topics
+  ADD COLUMN description TEXT,
+  ADD COLUMN icon TEXT,
+  ADD COLUMN color TEXT CHECK (color IN ('amber', 'rose', 'orange', 'emerald', 'sky', 'violet', 'stone')),
+  ADD COLUMN sort_order INT;
+
+-- Existing topics keep their alphabetical order
+UPDATE topics SET sort_order = ordered.position
+FROM (SELECT id, row_number() OVER (ORDER BY name) AS position FROM topics) ordered
+WHERE topics.id = ordered.id;
+
+ALTER TABLE topics ALTER COLUMN sort_order SET NOT NULL;
+
+CREATE INDEX idx_topics_sort_order ON topics(sort_order);
+
+-- ============================================================================
+-- set_topic_sort_order - Appends new topics to the end of the list
+-- ============================================================================
+CREATE OR REPLACE FUNCTION set_topic_sort_order()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.sort_order IS NULL THEN
+    SELECT COALESCE(MAX(sort_order), 0) + 1 INTO NEW.sort_order FROM topics;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_topics_sort_order BEFORE INSERT ON topics
+  FOR EACH ROW EXECUTE FUNCTION set_topic_sort_order();
+
+-- ============================================================================
+-- reorder_topics - Saves a new display order (admin only)
+-- p_topic_ids lists topics in their new order; topics left out keep their place after them
+-- ============================================================================
+CREATE OR REPLACE FUNCTION reorder_topics(p_topic_ids UUID[])
+RETURNS JSONB AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can reorder topics',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  UPDATE topics SET sort_order = ordered.position
+  FROM (
+    SELECT t.id, row_number() OVER (
+      ORDER BY array_position(p_topic_ids, t.id) NULLS LAST, t.sort_order
+    ) AS position
+    FROM topics t
+  ) ordered
+  WHERE topics.id = ordered.id AND topics.sort_order IS DISTINCT FROM ordered.position;
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- end_session_atomic - Archives each confirmed topic's icon and colour, in display order
+-- ============================================================================
+CREATE OR REPLACE FUNCTION end_session_atomic(
+  p_session_id UUID,
+  p_host_token UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session RECORD;
+  v_guests JSONB;
+  v_guest_count INT;
+  v_topics JSONB;
+  v_questions JSONB;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  IF NOT verify_session_host(p_session_id, p_host_token) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only the host can control this session',
+      'error_code', 'NOT_HOST'
+    );
+  END IF;
+
+  v_end_time := NOW();
+
+  -- Lock and fetch session
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  -- Check if already ended
+  IF v_session.phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session already ended',
+      'error_code', 'ALREADY_ENDED'
+    );
+  END IF;
+
+  -- Fetch guests
+  SELECT COALESCE(jsonb_agg(row_to_json(g.*)), '[]'::jsonb)
+  INTO v_guests
+  FROM guests g
+  WHERE g.session_id = p_session_id;
+
+  -- Removed guests stay in the record but don't count as attendance
+  SELECT COUNT(*) INTO v_guest_count
+  FROM guests
+  WHERE session_id = p_session_id AND status <> 'removed';
+
+  -- Fetch confirmed topics
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'topic_id', st.topic_id,
+        'topics', jsonb_build_object('name', t.name, 'icon', t.icon, 'color', t.color),
+        'selection_reason', st.selection_reason,
+        'score', st.score
+      )
+      ORDER BY t.sort_order
+    ),
+    '[]'::jsonb
+  )
+  INTO v_topics
+  FROM session_topics st
+  JOIN topics t ON st.topic_id = t.id
+  WHERE st.session_id = p_session_id;
+
+  -- Fetch picked questions
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'round', pq.round,
+        'passed', pq.passed,
+        'reactions', (
+          SELECT COALESCE(jsonb_object_agg(r.reaction, r.count), '{}'::jsonb)
+          FROM (
+            SELECT reaction, COUNT(*) AS count
+            FROM question_reactions
+            WHERE picked_question_id = pq.id
+            GROUP BY reaction
+          ) r
+        ),
+        'guests', jsonb_build_object('nickname', g.nickname),
+        'questions', jsonb_build_object(
+          'id', q.id,
+          'text', q.text,
+          'topics', jsonb_build_object('name', t.name)
+        )
+      )
+    ),
+    '[]'::jsonb
+  )
+  INTO v_questions
+  FROM picked_questions pq
+  JOIN guests g ON pq.guest_id = g.id
+  JOIN questions q ON pq.question_id = q.id
+  JOIN topics t ON q.topic_id = t.id
+  WHERE pq.session_id = p_session_id;
+
+  -- Update session to ended
+  UPDATE sessions
+  SET phase = 'ended', end_time = v_end_time
+  WHERE id = p_session_id;
+
+  -- Archive to session_records
+  INSERT INTO session_records (
+    id,
+    code,
+    start_time,
+    end_time,
+    guest_count,
+    guests_json,
+    confirmed_topics_json,
+    picked_questions_json,
+    tie_break_json,
+    settings_json
+  ) VALUES (
+    p_session_id,
+    v_session.code,
+    v_session.start_time,
+    v_end_time,
+    v_guest_count,
+    v_guests,
+    v_topics,
+    v_questions,
+    v_session.tie_break,
+    jsonb_build_object(
+      'votes_per_guest', v_session.votes_per_guest,
+      'topics_to_confirm', v_session.topics_to_confirm,
+      'voting_mode', v_session.voting_mode,
+      'draw_strategy', v_session.draw_strategy,
+      'passes_per_guest', v_session.passes_per_guest,
+      'pass_mode', v_session.pass_mode,
+      'depth_progression', v_session.depth_progression,
+      'turn_mode', v_session.turn_mode
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'guest_count', v_guest_count,
+    'end_time', v_end_time
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- import_question_bank - Restores topic descriptions, icons and colours from a JSON backup
+-- New topics are appended in file order, so a backup of the whole bank comes back in its display order.
+-- Topics that already exist keep their details
+-- ============================================================================
+CREATE OR REPLACE FUNCTION import_question_bank(p_topics JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic JSONB;
+  v_question JSONB;
+  v_name TEXT;
+  v_text TEXT;
+  v_topic_id UUID;
+  v_archived BOOLEAN;
+  v_topic_archived_at TIMESTAMPTZ;
+  v_question_archived_at TIMESTAMPTZ;
+  v_topics_created INT := 0;
+  v_questions_created INT := 0;
+  v_duplicates INT := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can import questions',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  IF jsonb_typeof(p_topics) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Expected a list of topics',
+      'error_code', 'INVALID_IMPORT'
+    );
+  END IF;
+
+  FOR v_topic IN SELECT * FROM jsonb_array_elements(p_topics) LOOP
+    v_name := btrim(v_topic->>'name');
+    IF COALESCE(v_name, '') = '' THEN
+      RAISE EXCEPTION 'Every topic needs a name' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_archived := COALESCE((v_topic->>'archived')::BOOLEAN, false);
+
+    SELECT id, archived_at INTO v_topic_id, v_topic_archived_at
+    FROM topics
+    WHERE lower(name) = lower(v_name) AND (archived_at IS NOT NULL) = v_archived
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_topic_id IS NULL THEN
+      v_topic_archived_at := CASE WHEN v_archived THEN NOW() END;
+      INSERT INTO topics (name, description, icon, color, archived_at)
+      VALUES (
+        v_name,
+        NULLIF(btrim(v_topic->>'description'), ''),
+        NULLIF(btrim(v_topic->>'icon'), ''),
+        -- Colours outside the palette are dropped rather than failing the import
+        CASE WHEN v_topic->>'color' IN ('amber', 'rose', 'orange', 'emerald', 'sky', 'violet', 'stone')
+          THEN v_topic->>'color' END,
+        v_topic_archived_at
+      )
+      RETURNING id INTO v_topic_id;
+      v_topics_created := v_topics_created + 1;
+    END IF;
+
+    FOR v_question IN SELECT * FROM jsonb_array_elements(COALESCE(v_topic->'questions', '[]'::jsonb)) LOOP
+      v_text := btrim(v_question->>'text');
+      IF COALESCE(v_text, '') = '' THEN
+        RAISE EXCEPTION 'A question in "%" has no text', v_name USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      -- A question archived with its topic shares the topic's timestamp, so restoring the topic restores it.
+      -- One archived on its own gets a later timestamp and stays archived
+      v_question_archived_at := CASE
+        WHEN COALESCE((v_question->>'archived')::BOOLEAN, false) THEN clock_timestamp()
+        ELSE v_topic_archived_at
+      END;
+
+      -- Session-only suggestions don't count; the bank copy would be a real addition
+      PERFORM 1 FROM questions
+      WHERE session_id IS NULL
+        AND (archived_at IS NOT NULL) = (v_question_archived_at IS NOT NULL)
+        AND normalize_question_text(text) = normalize_question_text(v_text);
+
+      IF FOUND THEN
+        v_duplicates := v_duplicates + 1;
+      ELSE
+        INSERT INTO questions (topic_id, text, depth, archived_at)
+        VALUES (v_topic_id, v_text, COALESCE((v_question->>'depth')::INT, 2), v_question_archived_at);
+        v_questions_created := v_questions_created + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topics_created', v_topics_created,
+    'questions_created', v_questions_created,
+    'duplicates_skipped', v_duplicates
+  );
+
+EXCEPTION
+  WHEN invalid_parameter_value OR check_violation OR invalid_text_representation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', CASE WHEN SQLSTATE = '22023' THEN SQLERRM ELSE 'Question depth must be 1, 2 or 3' END,
+      'error_code', 'INVALID_IMPORT'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,240 @@
+-- Translated topics and questions, and a language per guest
+-- English stays in topics.name/description and questions.text. Other languages live in a translations
+-- object keyed by language code; anything untranslated falls back to English. Each guest picks a language
+-- when joining and sees question content in it. JSON backups carry the translations
+
+-- ============================================================================
+-- Schema
+-- ============================================================================
+-- { "fil": { "name": "...", "description": "..." } }
+ALTER TABLE topics ADD COLUMN translations JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+-- { "fil": { "text": "..." } }
+ALTER TABLE questions ADD COLUMN translations JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+ALTER TABLE guests ADD COLUMN language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'fil'));
+
+-- ============================================================================
+-- join_session_atomic - Records the guest's language
+-- ============================================================================
+DROP FUNCTION join_session_atomic(UUID, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION join_session_atomic(
+  p_session_id UUID,
+  p_nickname TEXT,
+  p_device_id UUID DEFAULT NULL,
+  p_language TEXT DEFAULT 'en'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_phase TEXT;
+  v_guest RECORD;
+  v_token UUID;
+BEGIN
+  SELECT phase INTO v_phase
+  FROM sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session not found',
+      'error_code', 'SESSION_NOT_FOUND'
+    );
+  END IF;
+
+  IF v_phase = 'ended' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Session has ended',
+      'error_code', 'SESSION_ENDED'
+    );
+  END IF;
+
+  INSERT INTO guests (session_id, nickname, device_id, language)
+  VALUES (p_session_id, trim(p_nickname), p_device_id, COALESCE(p_language, 'en'))
+  RETURNING * INTO v_guest;
+
+  INSERT INTO guest_rejoin_tokens (guest_id)
+  VALUES (v_guest.id)
+  RETURNING token INTO v_token;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'guest', row_to_json(v_guest),
+    'rejoin_token', v_token
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Nickname already taken in this session',
+      'error_code', 'NICKNAME_TAKEN'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION join_session_atomic(UUID, TEXT, UUID, TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- import_question_bank - Restores translations from a JSON backup
+-- Topics that already exist keep theirs; anything that isn't an object imports as untranslated
+-- ============================================================================
+CREATE OR REPLACE FUNCTION import_question_bank(p_topics JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_topic JSONB;
+  v_question JSONB;
+  v_name TEXT;
+  v_text TEXT;
+  v_topic_id UUID;
+  v_archived BOOLEAN;
+  v_topic_archived_at TIMESTAMPTZ;
+  v_question_archived_at TIMESTAMPTZ;
+  v_from DATE;
+  v_until DATE;
+  v_topics_created INT := 0;
+  v_questions_created INT := 0;
+  v_duplicates INT := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only admins can import questions',
+      'error_code', 'NOT_ADMIN'
+    );
+  END IF;
+
+  IF jsonb_typeof(p_topics) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Expected a list of topics',
+      'error_code', 'INVALID_IMPORT'
+    );
+  END IF;
+
+  FOR v_topic IN SELECT * FROM jsonb_array_elements(p_topics) LOOP
+    v_name := btrim(v_topic->>'name');
+    IF COALESCE(v_name, '') = '' THEN
+      RAISE EXCEPTION 'Every topic needs a name' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_archived := COALESCE((v_topic->>'archived')::BOOLEAN, false);
+
+    SELECT id, archived_at INTO v_topic_id, v_topic_archived_at
+    FROM topics
+    WHERE lower(name) = lower(v_name) AND (archived_at IS NOT NULL) = v_archived
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_topic_id IS NULL THEN
+      v_topic_archived_at := CASE WHEN v_archived THEN NOW() END;
+      v_from := (v_topic->>'available_from')::DATE;
+      v_until := (v_topic->>'available_until')::DATE;
+      IF v_from > v_until THEN
+        RAISE EXCEPTION 'The availability window of "%" ends before it starts', v_name
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      INSERT INTO topics (
+        name, description, icon, color, translations, status, available_from, available_until, archived_at
+      )
+      VALUES (
+        v_name,
+        NULLIF(btrim(v_topic->>'description'), ''),
+        NULLIF(btrim(v_topic->>'icon'), ''),
+        -- Colours outside the palette are dropped rather than failing the import
+        CASE WHEN v_topic->>'color' IN ('amber', 'rose', 'orange', 'emerald', 'sky', 'violet', 'stone')
+          THEN v_topic->>'color' END,
+        CASE WHEN jsonb_typeof(v_topic->'translations') = 'object' THEN v_topic->'translations' ELSE '{}'::JSONB END,
+        COALESCE(v_topic->>'status', 'published'),
+        v_from,
+        v_until,
+        v_topic_archived_at
+      )
+      RETURNING id INTO v_topic_id;
+      v_topics_created := v_topics_created + 1;
+    END IF;
+
+    FOR v_question IN SELECT * FROM jsonb_array_elements(COALESCE(v_topic->'questions', '[]'::jsonb)) LOOP
+      v_text := btrim(v_question->>'text');
+      IF COALESCE(v_text, '') = '' THEN
+        RAISE EXCEPTION 'A question in "%" has no text', v_name USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      -- A question archived with its topic shares the topic's timestamp, so restoring the topic restores it.
+      -- One archived on its own gets a later timestamp and stays archived
+      v_question_archived_at := CASE
+        WHEN COALESCE((v_question->>'archived')::BOOLEAN, false) THEN clock_timestamp()
+        ELSE v_topic_archived_at
+      END;
+
+      -- Session-only suggestions don't count; the bank copy would be a real addition
+      PERFORM 1 FROM questions
+      WHERE session_id IS NULL
+        AND (archived_at IS NOT NULL) = (v_question_archived_at IS NOT NULL)
+        AND normalize_question_text(text) = normalize_question_text(v_text);
+
+      IF FOUND THEN
+        v_duplicates := v_duplicates + 1;
+      ELSE
+        v_from := (v_question->>'available_from')::DATE;
+        v_until := (v_question->>'available_until')::DATE;
+        IF v_from > v_until THEN
+          RAISE EXCEPTION 'The availability window of "%" ends before it starts', v_text
+            USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        INSERT INTO questions (
+          topic_id, text, depth, translations, status, available_from, available_until, archived_at
+        )
+        VALUES (
+          v_topic_id,
+          v_text,
+          COALESCE((v_question->>'depth')::INT, 2),
+          CASE WHEN jsonb_typeof(v_question->'translations') = 'object'
+            THEN v_question->'translations' ELSE '{}'::JSONB END,
+          COALESCE(v_question->>'status', 'published'),
+          v_from,
+          v_until,
+          v_question_archived_at
+        );
+        v_questions_created := v_questions_created + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'topics_created', v_topics_created,
+    'questions_created', v_questions_created,
+    'duplicates_skipped', v_duplicates
+  );
+
+EXCEPTION
+  WHEN invalid_parameter_value OR check_violation OR invalid_text_representation
+    OR invalid_datetime_format OR datetime_field_overflow THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', CASE
+        WHEN SQLSTATE = '22023' THEN SQLERRM
+        WHEN SQLSTATE IN ('22007', '22008') THEN 'Availability dates must be written YYYY-MM-DD'
+        ELSE 'Question depth must be 1, 2 or 3, and status draft, published or retired'
+      END,
+      'error_code', 'INVALID_IMPORT'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_code', SQLSTATE
+    );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;